@@ -3,19 +3,25 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Burnable.sol";
 import "@openzeppelin/contracts/utils/Base64.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title TicketEngine
- * @notice MVP ticket allocation engine - first-come-first-served with 1 ticket per user limit
+ * @notice MVP ticket allocation engine - first-come-first-served or commit-reveal raffle, per-address ticket limit,
+ *         optional native-currency ticket price held in escrow per event, organizer cancellation with refunds,
+ *         optional Merkle allowlist presale before the public sale, ticket tiers with their own supply and price,
+ *         FIFO waitlist that is offered burned tickets once an event sells out, door check-in by organizer-designated operators
  * @dev Now implements ERC721 for NFT tickets viewable in wallets
  */
-contract TicketEngine is ReentrancyGuard, ERC721 {
+contract TicketEngine is ReentrancyGuard, ERC721Burnable {
     using Strings for uint256;
     // ============ Enums ============
-    enum EventStatus { NotStarted, InProgress, SoldOut }
-    enum AttemptResult { Success, AlreadyOwnsTicket, SoldOut, NotStarted }
+    enum EventStatus { NotStarted, InProgress, SoldOut, Cancelled }
+    enum AttemptResult { Success, AlreadyOwnsTicket, SoldOut, NotStarted, NotAllowlisted }
+    enum AllocationMode { FirstCome, Raffle }
 
     // ============ Structs ============
     struct Event {
@@ -26,6 +32,36 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         uint256 remainingTickets;
         address organizer;
         bool exists;
+        AllocationMode mode;
+        uint256 maxPerAddress;
+        bool cancelled;
+    }
+
+    struct Tier {
+        string name;
+        uint256 supply;
+        uint256 remaining;
+        uint256 price;
+    }
+
+    struct TierConfig {
+        string name;
+        uint256 supply;
+        uint256 price;
+    }
+
+    struct Raffle {
+        uint256 registrationEnd;
+        bytes32 seedCommitment;
+        bytes32 entrantsHash;
+        bytes32 drawSeed;
+        bool revealed;
+        uint256 winnerCount;
+    }
+
+    struct Presale {
+        bytes32 merkleRoot;
+        uint256 startTime;
     }
 
     struct Ticket {
@@ -33,6 +69,8 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         uint256 eventId;
         address owner;
         uint256 acquiredAt;
+        uint256 pricePaid;
+        uint256 tierId;
     }
 
     struct Attempt {
@@ -42,6 +80,43 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         AttemptResult result;
     }
 
+    struct WaitlistOffer {
+        uint256 tierId;
+        uint256 expiresAt; // 0 when there is no offer
+    }
+
+    // Read-only snapshot returned by the paginated listing views
+    struct EventView {
+        uint256 id;
+        string title;
+        uint256 startTime;
+        uint256 totalTickets;
+        uint256 remainingTickets;
+        address organizer;
+        EventStatus status;
+        AllocationMode mode;
+        uint256 maxPerAddress;
+        Tier[] tiers;
+    }
+
+    // ============ Constants ============
+    // How long the organizer has to reveal the raffle seed after registration closes
+    uint256 public constant REVEAL_WINDOW = 1 days;
+
+    // How long after an event starts its proceeds stay in escrow before the organizer can withdraw;
+    // cancellation is only possible within this period so refunds are always covered
+    uint256 public constant PROCEEDS_LOCK_PERIOD = 7 days;
+
+    // Upper bound on tiers per event, keeps per-event loops bounded
+    uint256 public constant MAX_TIERS = 10;
+
+    // How long a waitlisted address has to claim a released ticket before it passes to the next in line
+    uint256 public constant WAITLIST_CLAIM_WINDOW = 1 hours;
+
+    // Upper bounds for the listing views, keeps a single call within RPC gas limits
+    uint256 public constant MAX_PAGE_SIZE = 50;
+    uint256 public constant MAX_PAGE_SCAN = 500;
+
     // ============ State Variables ============
     uint256 public nextEventId = 1;
     uint256 public nextTicketId = 1;
@@ -49,18 +124,24 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
     // eventId => Event
     mapping(uint256 => Event) public events;
 
+    // eventId => tiers; totalTickets/remainingTickets on the Event are their sums
+    mapping(uint256 => Tier[]) internal eventTiers;
+
     // ticketId => Ticket
     mapping(uint256 => Ticket) public tickets;
 
-    // eventId => participant => hasTicket
-    mapping(uint256 => mapping(address => bool)) public hasTicketForEvent;
+    // eventId => participant => number of tickets held
+    mapping(uint256 => mapping(address => uint256)) public ticketCountForEvent;
 
-    // eventId => participant => ticketId
-    mapping(uint256 => mapping(address => uint256)) public userTicketForEvent;
+    // eventId => participant => ticketIds[]
+    mapping(uint256 => mapping(address => uint256[])) internal userTicketsForEvent;
 
-    // eventId => ticketIds[]
+    // eventId => ticketIds[] of live tickets in issue order, except that a burned ticket's slot takes the last one
     mapping(uint256 => uint256[]) public eventTickets;
 
+    // ticketId => index into eventTickets of its event
+    mapping(uint256 => uint256) internal eventTicketIndex;
+
     // user => eventIds they have tickets for
     mapping(address => uint256[]) public userEvents;
 
@@ -70,6 +151,56 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
     // all event IDs for listing
     uint256[] public allEventIds;
 
+    // organizer => event IDs they created, in creation order
+    mapping(address => uint256[]) internal organizerEvents;
+
+    // eventId => Raffle (raffle mode only)
+    mapping(uint256 => Raffle) public raffles;
+
+    // eventId => registered addresses, shuffled in place on reveal (winners first)
+    mapping(uint256 => address[]) internal raffleEntrants;
+
+    // eventId => participant => registered
+    mapping(uint256 => mapping(address => bool)) public isRegisteredForRaffle;
+
+    // eventId => participant => drawn as winner
+    mapping(uint256 => mapping(address => bool)) public isRaffleWinner;
+
+    // eventId => participant => winner has claimed their ticket
+    mapping(uint256 => mapping(address => bool)) public raffleClaimed;
+
+    // eventId => ticket payments held in escrow until withdrawn by the organizer
+    mapping(uint256 => uint256) public eventProceeds;
+
+    // eventId => payments of returned tickets, kept by the organizer even if the event is cancelled
+    mapping(uint256 => uint256) public returnedProceeds;
+
+    // eventId => Presale (first-come-first-served only, empty root when there is no presale)
+    mapping(uint256 => Presale) public presales;
+
+    // ticketId => payment refunded after cancellation
+    mapping(uint256 => bool) public ticketRefunded;
+
+    // eventId => waitlisted addresses in join order; entries before waitlistHead have been served
+    mapping(uint256 => address[]) internal waitlists;
+    mapping(uint256 => uint256) internal waitlistHead;
+
+    // eventId => participant => 1-based index into waitlists, 0 when not queued
+    mapping(uint256 => mapping(address => uint256)) internal waitlistIndex;
+
+    // eventId => participant => released ticket reserved for them
+    mapping(uint256 => mapping(address => WaitlistOffer)) public waitlistOffers;
+
+    // user => eventIds whose waitlist they have joined
+    mapping(address => uint256[]) internal userWaitlistEvents;
+    mapping(uint256 => mapping(address => bool)) internal hasJoinedWaitlist;
+
+    // eventId => address => may check tickets in at the door (the organizer always can)
+    mapping(uint256 => mapping(address => bool)) public isCheckInOperator;
+
+    // ticketId => check-in timestamp, 0 while unused
+    mapping(uint256 => uint256) public checkedInAt;
+
     // ============ Constructor ============
     constructor() ERC721("TicketEngine", "TICKET") {}
 
@@ -86,7 +217,8 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         uint256 indexed eventId,
         uint256 indexed ticketId,
         address indexed participant,
-        uint256 remainingTickets
+        uint256 remainingTickets,
+        uint256 tierId
     );
 
     event AttemptRecorded(
@@ -98,105 +230,662 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
 
     event EventSoldOut(uint256 indexed eventId);
 
+    event RaffleRegistered(uint256 indexed eventId, address indexed participant, uint256 entrantCount);
+
+    event RaffleDrawn(uint256 indexed eventId, bytes32 seed, bytes32 drawSeed, uint256 winnerCount);
+
+    event PaymentRefunded(uint256 indexed eventId, address indexed participant, uint256 amount);
+
+    event ProceedsWithdrawn(uint256 indexed eventId, address indexed organizer, uint256 amount);
+
+    event EventCancelled(uint256 indexed eventId);
+
+    event EventUpdated(uint256 indexed eventId, string title, uint256 startTime, uint256 totalTickets);
+
+    event PresaleConfigured(uint256 indexed eventId, bytes32 merkleRoot, uint256 presaleStart);
+
+    event RefundClaimed(uint256 indexed eventId, uint256 indexed ticketId, address indexed holder, uint256 amount);
+
+    event WaitlistJoined(uint256 indexed eventId, address indexed participant, uint256 position);
+
+    event WaitlistOffered(uint256 indexed eventId, address indexed participant, uint256 tierId, uint256 expiresAt);
+
+    event WaitlistOfferClaimed(uint256 indexed eventId, address indexed participant, uint256 indexed ticketId);
+
+    event WaitlistOfferExpired(uint256 indexed eventId, address indexed participant, uint256 tierId);
+
+    event TicketReturned(uint256 indexed eventId, uint256 indexed ticketId, address indexed holder);
+
+    event CheckInOperatorSet(uint256 indexed eventId, address indexed operator, bool allowed);
+
+    event TicketCheckedIn(
+        uint256 indexed eventId,
+        uint256 indexed ticketId,
+        address indexed holder,
+        address operator,
+        uint256 timestamp
+    );
+
     // ============ External Functions ============
 
     /**
-     * @notice Create a new ticket event
+     * @notice Create a new ticket event with a single tier
      * @param _title Event title
      * @param _startTime Unix timestamp when grabbing starts
      * @param _totalTickets Total number of tickets available
+     * @param _maxPerAddress Maximum number of tickets a single address may hold
+     * @param _price Price per ticket in wei (0 for free events)
      */
     function createEvent(
         string calldata _title,
         uint256 _startTime,
-        uint256 _totalTickets
+        uint256 _totalTickets,
+        uint256 _maxPerAddress,
+        uint256 _price
     ) external returns (uint256 eventId) {
-        require(bytes(_title).length > 0, "Title cannot be empty");
-        require(_totalTickets > 0, "Must have at least 1 ticket");
-        require(_startTime > block.timestamp, "Start time must be in future");
+        eventId = _createEvent(
+            _title,
+            _startTime,
+            AllocationMode.FirstCome,
+            _maxPerAddress,
+            _singleTier(_totalTickets, _price)
+        );
+    }
 
-        eventId = nextEventId++;
+    /**
+     * @notice Create a new ticket event with several tiers (e.g. VIP / General / Student)
+     * @param _title Event title
+     * @param _startTime Unix timestamp when grabbing starts
+     * @param _maxPerAddress Maximum number of tickets a single address may hold across all tiers
+     * @param _tiers Name, supply and price (in wei, 0 for free) of each tier
+     */
+    function createTieredEvent(
+        string calldata _title,
+        uint256 _startTime,
+        uint256 _maxPerAddress,
+        TierConfig[] calldata _tiers
+    ) external returns (uint256 eventId) {
+        eventId = _createEvent(_title, _startTime, AllocationMode.FirstCome, _maxPerAddress, _tiers);
+    }
 
-        events[eventId] = Event({
-            id: eventId,
-            title: _title,
-            startTime: _startTime,
-            totalTickets: _totalTickets,
-            remainingTickets: _totalTickets,
-            organizer: msg.sender,
-            exists: true
-        });
+    /**
+     * @notice Create a raffle event: participants register during a window, winners are drawn afterwards
+     * @param _title Event title
+     * @param _startTime Unix timestamp when registration opens
+     * @param _registrationEnd Unix timestamp when registration closes
+     * @param _totalTickets Number of winners to draw
+     * @param _seedCommitment keccak256 of the organizer's secret seed, revealed after registration closes
+     * @param _price Price per ticket in wei, paid by winners when claiming (0 for free events)
+     */
+    function createRaffleEvent(
+        string calldata _title,
+        uint256 _startTime,
+        uint256 _registrationEnd,
+        uint256 _totalTickets,
+        bytes32 _seedCommitment,
+        uint256 _price
+    ) external returns (uint256 eventId) {
+        require(_registrationEnd > _startTime, "Registration must end after start");
+        require(_seedCommitment != bytes32(0), "Seed commitment required");
 
-        allEventIds.push(eventId);
+        // Each drawn winner claims exactly one ticket
+        eventId = _createEvent(_title, _startTime, AllocationMode.Raffle, 1, _singleTier(_totalTickets, _price));
 
-        emit EventCreated(eventId, _title, _startTime, _totalTickets, msg.sender);
+        Raffle storage raffle = raffles[eventId];
+        raffle.registrationEnd = _registrationEnd;
+        raffle.seedCommitment = _seedCommitment;
     }
 
     /**
-     * @notice Attempt to grab a ticket for an event
-     * @param _eventId The event to grab a ticket for
+     * @notice Attempt to grab tickets for an event
+     * @dev If fewer than _quantity tickets remain in the tier, or the caller may only hold fewer more
+     *      under maxPerAddress, the lesser number is granted.
+     *      msg.value must cover the price of the granted tickets; any excess is refunded,
+     *      including the full amount when the attempt fails.
+     *      During the presale window only addresses in the allowlist Merkle tree can grab.
+     * @param _eventId The event to grab tickets for
+     * @param _tierId The tier to grab from
+     * @param _quantity Number of tickets requested
+     * @param _proof Merkle proof of the caller's address (empty for the public sale)
      * @return success Whether the grab was successful
      * @return result The result of the attempt
-     * @return ticketId The ticket ID if successful (0 if failed)
+     * @return ticketIds The ticket IDs granted (empty if failed)
      */
-    function grabTicket(uint256 _eventId)
+    function grabTicket(uint256 _eventId, uint256 _tierId, uint256 _quantity, bytes32[] calldata _proof)
         external
+        payable
         nonReentrant
-        returns (bool success, AttemptResult result, uint256 ticketId)
+        returns (bool success, AttemptResult result, uint256[] memory ticketIds)
     {
         Event storage evt = events[_eventId];
         require(evt.exists, "Event does not exist");
+        require(!evt.cancelled, "Event cancelled");
+        require(evt.mode == AllocationMode.FirstCome, "Raffle event: register instead");
+        require(_tierId < eventTiers[_eventId].length, "Tier does not exist");
+        require(_quantity > 0, "Quantity must be at least 1");
 
         if (block.timestamp < evt.startTime) {
-            result = AttemptResult.NotStarted;
-            _recordAttempt(_eventId, result);
-            return (false, result, 0);
+            Presale storage presale = presales[_eventId];
+            if (presale.merkleRoot == bytes32(0) || block.timestamp < presale.startTime) {
+                result = AttemptResult.NotStarted;
+                _recordAttempt(_eventId, result);
+                _collectPayment(_eventId, 0);
+                return (false, result, ticketIds);
+            }
+            if (!isAllowlisted(_eventId, msg.sender, _proof)) {
+                result = AttemptResult.NotAllowlisted;
+                _recordAttempt(_eventId, result);
+                _collectPayment(_eventId, 0);
+                return (false, result, ticketIds);
+            }
         }
 
-        if (hasTicketForEvent[_eventId][msg.sender]) {
+        uint256 held = ticketCountForEvent[_eventId][msg.sender];
+        if (held >= evt.maxPerAddress) {
             result = AttemptResult.AlreadyOwnsTicket;
             _recordAttempt(_eventId, result);
-            return (false, result, 0);
+            _collectPayment(_eventId, 0);
+            return (false, result, ticketIds);
         }
 
-        if (evt.remainingTickets == 0) {
+        Tier storage tier = eventTiers[_eventId][_tierId];
+        if (tier.remaining == 0) {
             result = AttemptResult.SoldOut;
             _recordAttempt(_eventId, result);
-            return (false, result, 0);
+            _collectPayment(_eventId, 0);
+            return (false, result, ticketIds);
+        }
+
+        uint256 allowance = evt.maxPerAddress - held;
+        uint256 granted = _quantity < allowance ? _quantity : allowance;
+        if (granted > tier.remaining) granted = tier.remaining;
+        uint256 cost = tier.price * granted;
+        require(msg.value >= cost, "Insufficient payment");
+
+        result = AttemptResult.Success;
+        _recordAttempt(_eventId, result);
+
+        ticketIds = new uint256[](granted);
+        for (uint256 i = 0; i < granted; i++) {
+            ticketIds[i] = _issueTicket(_eventId, _tierId);
+        }
+
+        if (evt.remainingTickets == 0) {
+            emit EventSoldOut(_eventId);
+        }
+
+        _collectPayment(_eventId, cost);
+
+        return (true, result, ticketIds);
+    }
+
+    /**
+     * @notice Register for a raffle event while its registration window is open
+     * @param _eventId The raffle event to register for
+     */
+    function registerForRaffle(uint256 _eventId) external {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(!evt.cancelled, "Event cancelled");
+        require(evt.mode == AllocationMode.Raffle, "Not a raffle event");
+
+        Raffle storage raffle = raffles[_eventId];
+        require(block.timestamp >= evt.startTime, "Registration not open");
+        require(block.timestamp < raffle.registrationEnd, "Registration closed");
+        require(!isRegisteredForRaffle[_eventId][msg.sender], "Already registered");
+
+        isRegisteredForRaffle[_eventId][msg.sender] = true;
+        raffleEntrants[_eventId].push(msg.sender);
+        raffle.entrantsHash = keccak256(abi.encodePacked(raffle.entrantsHash, msg.sender));
+
+        emit RaffleRegistered(_eventId, msg.sender, raffleEntrants[_eventId].length);
+    }
+
+    /**
+     * @notice Reveal the committed seed and draw the winners
+     * @dev The draw seed mixes the revealed seed with the hash of the entrant list, so the result
+     *      is fixed once registration closes and can be recomputed off-chain by anyone.
+     * @param _eventId The raffle event
+     * @param _seed The secret whose keccak256 was committed in createRaffleEvent
+     */
+    function revealRaffleSeed(uint256 _eventId, bytes32 _seed) external {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(!evt.cancelled, "Event cancelled");
+        require(evt.mode == AllocationMode.Raffle, "Not a raffle event");
+        require(msg.sender == evt.organizer, "Only organizer");
+
+        Raffle storage raffle = raffles[_eventId];
+        require(!raffle.revealed, "Seed already revealed");
+        require(block.timestamp >= raffle.registrationEnd, "Registration still open");
+        require(block.timestamp <= raffle.registrationEnd + REVEAL_WINDOW, "Reveal window closed");
+        require(keccak256(abi.encodePacked(_seed)) == raffle.seedCommitment, "Seed does not match commitment");
+
+        raffle.revealed = true;
+        raffle.drawSeed = keccak256(abi.encodePacked(_seed, raffle.entrantsHash));
+
+        // Partial Fisher-Yates shuffle: the first winnerCount entrants become the winners
+        address[] storage entrants = raffleEntrants[_eventId];
+        uint256 len = entrants.length;
+        uint256 winnerCount = len < evt.totalTickets ? len : evt.totalTickets;
+        for (uint256 i = 0; i < winnerCount; i++) {
+            uint256 j = i + (uint256(keccak256(abi.encodePacked(raffle.drawSeed, i))) % (len - i));
+            (entrants[i], entrants[j]) = (entrants[j], entrants[i]);
+            isRaffleWinner[_eventId][entrants[i]] = true;
+        }
+        raffle.winnerCount = winnerCount;
+
+        emit RaffleDrawn(_eventId, _seed, raffle.drawSeed, winnerCount);
+    }
+
+    /**
+     * @notice Mint the ticket for a drawn raffle winner
+     * @dev msg.value must cover the ticket price; any excess is refunded
+     * @param _eventId The raffle event
+     * @return ticketId The minted ticket ID
+     */
+    function claimRaffleTicket(uint256 _eventId) external payable nonReentrant returns (uint256 ticketId) {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(!evt.cancelled, "Event cancelled");
+        require(evt.mode == AllocationMode.Raffle, "Not a raffle event");
+        require(raffles[_eventId].revealed, "Seed not revealed");
+        require(isRaffleWinner[_eventId][msg.sender], "Not a raffle winner");
+        require(!raffleClaimed[_eventId][msg.sender], "Already claimed");
+        // Raffle events have a single tier
+        uint256 price = eventTiers[_eventId][0].price;
+        require(msg.value >= price, "Insufficient payment");
+
+        raffleClaimed[_eventId][msg.sender] = true;
+        _recordAttempt(_eventId, AttemptResult.Success);
+        ticketId = _issueTicket(_eventId, 0);
+
+        if (evt.remainingTickets == 0) {
+            emit EventSoldOut(_eventId);
+        }
+
+        _collectPayment(_eventId, price);
+    }
+
+    /**
+     * @notice Withdraw an event's escrowed ticket payments once the lock period has passed
+     * @dev After cancellation only the payments of returned tickets can be withdrawn,
+     *      the rest is owed to the holders through claimRefund
+     * @param _eventId The event to withdraw proceeds for
+     * @return amount The amount sent to the organizer
+     */
+    function withdrawProceeds(uint256 _eventId) external nonReentrant returns (uint256 amount) {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(msg.sender == evt.organizer, "Only organizer");
+        require(block.timestamp >= evt.startTime + PROCEEDS_LOCK_PERIOD, "Proceeds still locked");
+
+        amount = returnedProceeds[_eventId];
+        returnedProceeds[_eventId] = 0;
+        if (!evt.cancelled) {
+            amount += eventProceeds[_eventId];
+            eventProceeds[_eventId] = 0;
+        }
+        require(amount > 0, "No proceeds to withdraw");
+
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        require(sent, "Withdrawal failed");
+
+        emit ProceedsWithdrawn(_eventId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Update an event's details before its sale opens
+     * @dev Validated with the same rules as createEvent. Presale grabs can issue tickets before the
+     *      start time, so updates are rejected once the presale has opened or any ticket was issued.
+     * @param _eventId The event to update
+     * @param _title New event title
+     * @param _startTime New start timestamp
+     * @param _tierSupplies New supply of each tier, in tier order; tier names and prices are fixed
+     */
+    function updateEvent(
+        uint256 _eventId,
+        string calldata _title,
+        uint256 _startTime,
+        uint256[] calldata _tierSupplies
+    ) external {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(msg.sender == evt.organizer, "Only organizer");
+        require(getEventStatus(_eventId) == EventStatus.NotStarted, "Event already started");
+        Presale storage presale = presales[_eventId];
+        require(presale.merkleRoot == bytes32(0) || block.timestamp < presale.startTime, "Presale already open");
+        require(eventTickets[_eventId].length == 0, "Tickets already issued");
+        Tier[] storage tiers = eventTiers[_eventId];
+        require(_tierSupplies.length == tiers.length, "Tier count mismatch");
+
+        uint256 _totalTickets = 0;
+        for (uint256 i = 0; i < _tierSupplies.length; i++) {
+            _totalTickets += _tierSupplies[i];
+        }
+        _validateEvent(_title, _startTime, _totalTickets, evt.maxPerAddress);
+        if (evt.mode == AllocationMode.Raffle) {
+            require(raffles[_eventId].registrationEnd > _startTime, "Registration must end after start");
+        }
+        if (presales[_eventId].merkleRoot != bytes32(0)) {
+            require(presales[_eventId].startTime < _startTime, "Presale must start before sale");
+        }
+
+        evt.title = _title;
+        evt.startTime = _startTime;
+        evt.totalTickets = _totalTickets;
+        evt.remainingTickets = _totalTickets;
+        for (uint256 i = 0; i < _tierSupplies.length; i++) {
+            require(_tierSupplies[i] > 0, "Tier must have at least 1 ticket");
+            tiers[i].supply = _tierSupplies[i];
+            tiers[i].remaining = _tierSupplies[i];
+        }
+
+        emit EventUpdated(_eventId, _title, _startTime, _totalTickets);
+    }
+
+    /**
+     * @notice Configure an allowlist presale that opens before the public sale at startTime
+     * @dev Pass an empty root to remove the presale. Roots are built with scripts/buildAllowlist.ts.
+     * @param _eventId The first-come-first-served event
+     * @param _merkleRoot Root of the allowlist tree, leaves are keccak256(abi.encodePacked(address))
+     * @param _presaleStart Unix timestamp when allowlisted addresses can start grabbing
+     */
+    function setPresale(uint256 _eventId, bytes32 _merkleRoot, uint256 _presaleStart) external {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(msg.sender == evt.organizer, "Only organizer");
+        require(evt.mode == AllocationMode.FirstCome, "Raffle event: no presale");
+        require(getEventStatus(_eventId) == EventStatus.NotStarted, "Event already started");
+
+        Presale storage presale = presales[_eventId];
+        require(presale.merkleRoot == bytes32(0) || block.timestamp < presale.startTime, "Presale already open");
+
+        if (_merkleRoot == bytes32(0)) {
+            _presaleStart = 0;
+        } else {
+            require(_presaleStart > block.timestamp, "Presale start must be in future");
+            require(_presaleStart < evt.startTime, "Presale must start before sale");
+        }
+
+        presale.merkleRoot = _merkleRoot;
+        presale.startTime = _presaleStart;
+
+        emit PresaleConfigured(_eventId, _merkleRoot, _presaleStart);
+    }
+
+    /**
+     * @notice Cancel an event: grabs stop, minted tickets become void and paid tickets can be refunded
+     * @dev Only allowed while proceeds are still locked, so escrow always covers the refunds
+     * @param _eventId The event to cancel
+     */
+    function cancelEvent(uint256 _eventId) external {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(msg.sender == evt.organizer, "Only organizer");
+        require(!evt.cancelled, "Event already cancelled");
+        require(block.timestamp < evt.startTime + PROCEEDS_LOCK_PERIOD, "Cancellation window closed");
+
+        evt.cancelled = true;
+
+        emit EventCancelled(_eventId);
+    }
+
+    /**
+     * @notice Claim back the payment for tickets of cancelled events
+     * @dev Refunds go to the current NFT holder, not necessarily the original buyer
+     * @param _ticketIds Tickets held by the caller
+     * @return amount The total amount refunded
+     */
+    function claimRefund(uint256[] calldata _ticketIds) external nonReentrant returns (uint256 amount) {
+        for (uint256 i = 0; i < _ticketIds.length; i++) {
+            uint256 ticketId = _ticketIds[i];
+            Ticket storage ticket = tickets[ticketId];
+            require(ticket.id != 0, "Ticket does not exist");
+            require(events[ticket.eventId].cancelled, "Event not cancelled");
+            require(ownerOf(ticketId) == msg.sender, "Not ticket holder");
+            require(!ticketRefunded[ticketId], "Already refunded");
+            require(ticket.pricePaid > 0, "Nothing to refund");
+
+            ticketRefunded[ticketId] = true;
+            eventProceeds[ticket.eventId] -= ticket.pricePaid;
+            amount += ticket.pricePaid;
+
+            emit RefundClaimed(ticket.eventId, ticketId, msg.sender, ticket.pricePaid);
+        }
+
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        require(sent, "Refund failed");
+    }
+
+    /**
+     * @notice Give a ticket back so someone else can attend
+     * @dev Burns the NFT; the seat goes to the waitlist or back on sale. The ticket price is not refunded,
+     *      it moves to returnedProceeds for the organizer. Raffle tickets cannot be returned, a raffle
+     *      event has no waitlist or open sale to pass the seat on to.
+     * @param _ticketId A ticket held by the caller
+     */
+    function returnTicket(uint256 _ticketId) external {
+        require(ownerOf(_ticketId) == msg.sender, "Not ticket holder");
+        uint256 eventId = tickets[_ticketId].eventId;
+
+        _burn(_ticketId);
+
+        emit TicketReturned(eventId, _ticketId, msg.sender);
+    }
+
+    /**
+     * @notice Allow or revoke an address to check tickets in for the event
+     * @param _eventId The organizer's event
+     * @param _operator Door staff address
+     * @param _allowed Whether the address may call checkIn
+     */
+    function setCheckInOperator(uint256 _eventId, address _operator, bool _allowed) external {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(msg.sender == evt.organizer, "Only organizer");
+
+        isCheckInOperator[_eventId][_operator] = _allowed;
+
+        emit CheckInOperatorSet(_eventId, _operator, _allowed);
+    }
+
+    /**
+     * @notice Redeem a ticket at the door so it cannot be used twice
+     * @dev Callable by the organizer or a check-in operator of the ticket's event
+     * @param _ticketId The ticket presented by the holder
+     */
+    function checkIn(uint256 _ticketId) external {
+        address holder = _ownerOf(_ticketId);
+        require(holder != address(0), "Ticket does not exist");
+        uint256 eventId = tickets[_ticketId].eventId;
+        Event storage evt = events[eventId];
+        require(!evt.cancelled, "Event cancelled");
+        require(msg.sender == evt.organizer || isCheckInOperator[eventId][msg.sender], "Not a check-in operator");
+        require(checkedInAt[_ticketId] == 0, "Already checked in");
+
+        checkedInAt[_ticketId] = block.timestamp;
+
+        emit TicketCheckedIn(eventId, _ticketId, holder, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice Join the FIFO waitlist of a sold-out event
+     * @dev Burned tickets are offered to the head of the queue, see claimWaitlistTicket
+     * @param _eventId The sold-out first-come-first-served event
+     */
+    function joinWaitlist(uint256 _eventId) external returns (uint256 position) {
+        Event storage evt = events[_eventId];
+        require(evt.exists, "Event does not exist");
+        require(!evt.cancelled, "Event cancelled");
+        require(evt.mode == AllocationMode.FirstCome, "Raffle event: register instead");
+        require(getEventStatus(_eventId) == EventStatus.SoldOut, "Tickets still available");
+        require(waitlistIndex[_eventId][msg.sender] == 0, "Already on waitlist");
+        require(waitlistOffers[_eventId][msg.sender].expiresAt == 0, "Waitlist offer pending");
+        require(ticketCountForEvent[_eventId][msg.sender] < evt.maxPerAddress, "Purchase limit reached");
+
+        waitlists[_eventId].push(msg.sender);
+        waitlistIndex[_eventId][msg.sender] = waitlists[_eventId].length;
+        if (!hasJoinedWaitlist[_eventId][msg.sender]) {
+            hasJoinedWaitlist[_eventId][msg.sender] = true;
+            userWaitlistEvents[msg.sender].push(_eventId);
+        }
+
+        position = getWaitlistPosition(_eventId, msg.sender);
+        emit WaitlistJoined(_eventId, msg.sender, position);
+    }
+
+    /**
+     * @notice Claim the ticket offered to the caller from the waitlist
+     * @dev Must be claimed within WAITLIST_CLAIM_WINDOW and paid at the tier price
+     * @param _eventId The event the caller was waitlisted for
+     */
+    function claimWaitlistTicket(uint256 _eventId) external payable nonReentrant returns (uint256 ticketId) {
+        Event storage evt = events[_eventId];
+        require(!evt.cancelled, "Event cancelled");
+        WaitlistOffer memory offer = waitlistOffers[_eventId][msg.sender];
+        require(offer.expiresAt != 0, "No waitlist offer");
+        require(block.timestamp <= offer.expiresAt, "Offer expired");
+        require(ticketCountForEvent[_eventId][msg.sender] < evt.maxPerAddress, "Purchase limit reached");
+        Tier storage tier = eventTiers[_eventId][offer.tierId];
+        require(msg.value >= tier.price, "Insufficient payment");
+
+        delete waitlistOffers[_eventId][msg.sender];
+        // The offered ticket was held back from the remaining supply, put it back before issuing it
+        evt.remainingTickets++;
+        tier.remaining++;
+
+        _recordAttempt(_eventId, AttemptResult.Success);
+        ticketId = _issueTicket(_eventId, offer.tierId);
+        emit WaitlistOfferClaimed(_eventId, msg.sender, ticketId);
+
+        _collectPayment(_eventId, tier.price);
+    }
+
+    /**
+     * @notice Pass an unclaimed offer on to the next address in the waitlist
+     * @dev Anyone can call this once the offer has expired
+     */
+    function expireWaitlistOffer(uint256 _eventId, address _user) external {
+        WaitlistOffer memory offer = waitlistOffers[_eventId][_user];
+        require(offer.expiresAt != 0, "No waitlist offer");
+        require(block.timestamp > offer.expiresAt, "Offer still active");
+
+        delete waitlistOffers[_eventId][_user];
+        emit WaitlistOfferExpired(_eventId, _user, offer.tierId);
+        _releaseSupply(_eventId, offer.tierId);
+    }
+
+    // ============ Internal Functions ============
+
+    function _createEvent(
+        string calldata _title,
+        uint256 _startTime,
+        AllocationMode _mode,
+        uint256 _maxPerAddress,
+        TierConfig[] memory _tiers
+    ) internal returns (uint256 eventId) {
+        uint256 _totalTickets = 0;
+        for (uint256 i = 0; i < _tiers.length; i++) {
+            _totalTickets += _tiers[i].supply;
+        }
+        _validateEvent(_title, _startTime, _totalTickets, _maxPerAddress);
+        require(_tiers.length <= MAX_TIERS, "Too many tiers");
+
+        eventId = nextEventId++;
+
+        for (uint256 i = 0; i < _tiers.length; i++) {
+            require(bytes(_tiers[i].name).length > 0, "Tier name cannot be empty");
+            require(_tiers[i].supply > 0, "Tier must have at least 1 ticket");
+            eventTiers[eventId].push(Tier({
+                name: _tiers[i].name,
+                supply: _tiers[i].supply,
+                remaining: _tiers[i].supply,
+                price: _tiers[i].price
+            }));
         }
 
+        events[eventId] = Event({
+            id: eventId,
+            title: _title,
+            startTime: _startTime,
+            totalTickets: _totalTickets,
+            remainingTickets: _totalTickets,
+            organizer: msg.sender,
+            exists: true,
+            mode: _mode,
+            maxPerAddress: _maxPerAddress,
+            cancelled: false
+        });
+
+        allEventIds.push(eventId);
+        organizerEvents[msg.sender].push(eventId);
+
+        emit EventCreated(eventId, _title, _startTime, _totalTickets, msg.sender);
+    }
+
+    function _singleTier(uint256 _totalTickets, uint256 _price) internal pure returns (TierConfig[] memory tiers) {
+        tiers = new TierConfig[](1);
+        tiers[0] = TierConfig({name: "General", supply: _totalTickets, price: _price});
+    }
+
+    function _validateEvent(
+        string calldata _title,
+        uint256 _startTime,
+        uint256 _totalTickets,
+        uint256 _maxPerAddress
+    ) internal view {
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        require(_totalTickets > 0, "Must have at least 1 ticket");
+        require(_startTime > block.timestamp, "Start time must be in future");
+        require(_maxPerAddress > 0, "Limit must be at least 1");
+        require(_maxPerAddress <= _totalTickets, "Limit exceeds total tickets");
+    }
+
+    function _issueTicket(uint256 _eventId, uint256 _tierId) internal returns (uint256 ticketId) {
+        Event storage evt = events[_eventId];
+        Tier storage tier = eventTiers[_eventId][_tierId];
         ticketId = nextTicketId++;
         evt.remainingTickets--;
+        tier.remaining--;
 
         tickets[ticketId] = Ticket({
             id: ticketId,
             eventId: _eventId,
             owner: msg.sender,
-            acquiredAt: block.timestamp
+            acquiredAt: block.timestamp,
+            pricePaid: tier.price,
+            tierId: _tierId
         });
 
-        hasTicketForEvent[_eventId][msg.sender] = true;
-        userTicketForEvent[_eventId][msg.sender] = ticketId;
+        if (ticketCountForEvent[_eventId][msg.sender] == 0) {
+            userEvents[msg.sender].push(_eventId);
+        }
+        ticketCountForEvent[_eventId][msg.sender]++;
+        userTicketsForEvent[_eventId][msg.sender].push(ticketId);
+        eventTicketIndex[ticketId] = eventTickets[_eventId].length;
         eventTickets[_eventId].push(ticketId);
-        userEvents[msg.sender].push(_eventId);
 
         // Mint NFT to the ticket owner
         _mint(msg.sender, ticketId);
 
-        result = AttemptResult.Success;
-        _recordAttempt(_eventId, result);
+        emit TicketGrabbed(_eventId, ticketId, msg.sender, evt.remainingTickets, _tierId);
+    }
 
-        emit TicketGrabbed(_eventId, ticketId, msg.sender, evt.remainingTickets);
+    /**
+     * @dev Moves _cost of msg.value into the event's escrow and refunds the rest to the sender
+     */
+    function _collectPayment(uint256 _eventId, uint256 _cost) internal {
+        eventProceeds[_eventId] += _cost;
 
-        if (evt.remainingTickets == 0) {
-            emit EventSoldOut(_eventId);
+        uint256 excess = msg.value - _cost;
+        if (excess > 0) {
+            (bool sent, ) = payable(msg.sender).call{value: excess}("");
+            require(sent, "Refund failed");
+            emit PaymentRefunded(_eventId, msg.sender, excess);
         }
-
-        return (true, result, ticketId);
     }
 
-    // ============ Internal Functions ============
-
     function _recordAttempt(uint256 _eventId, AttemptResult _result) internal {
         Attempt memory attempt = Attempt({
             eventId: _eventId,
@@ -208,11 +897,112 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         emit AttemptRecorded(_eventId, msg.sender, _result, block.timestamp);
     }
 
+    /**
+     * @dev Offers a freed ticket to the first waitlisted address still under the limit,
+     *      or returns it to the tier's remaining supply when nobody is waiting
+     */
+    function _releaseSupply(uint256 _eventId, uint256 _tierId) internal {
+        Event storage evt = events[_eventId];
+        if (evt.cancelled) return;
+
+        address[] storage queue = waitlists[_eventId];
+        uint256 head = waitlistHead[_eventId];
+        while (head < queue.length) {
+            address next = queue[head++];
+            waitlistIndex[_eventId][next] = 0;
+            if (ticketCountForEvent[_eventId][next] >= evt.maxPerAddress) continue;
+
+            waitlistHead[_eventId] = head;
+            uint256 expiresAt = block.timestamp + WAITLIST_CLAIM_WINDOW;
+            waitlistOffers[_eventId][next] = WaitlistOffer({tierId: _tierId, expiresAt: expiresAt});
+            emit WaitlistOffered(_eventId, next, _tierId, expiresAt);
+            return;
+        }
+        waitlistHead[_eventId] = head;
+
+        evt.remainingTickets++;
+        eventTiers[_eventId][_tierId].remaining++;
+    }
+
+    /**
+     * @dev Removes a burned ticket from its original holder's bookkeeping and frees its supply.
+     *      Runs for returnTicket and the inherited burn alike, so used tickets, raffle tickets and
+     *      tickets of cancelled events can never put their seat back on sale.
+     */
+    function _onTicketBurned(uint256 _ticketId) internal {
+        Ticket storage ticket = tickets[_ticketId];
+        uint256 eventId = ticket.eventId;
+        address holder = ticket.owner;
+        require(!events[eventId].cancelled, "Event cancelled");
+        require(events[eventId].mode == AllocationMode.FirstCome, "Raffle tickets cannot be returned");
+        require(checkedInAt[_ticketId] == 0, "Ticket already used");
+
+        ticketCountForEvent[eventId][holder]--;
+        _removeValue(userTicketsForEvent[eventId][holder], _ticketId);
+        if (ticketCountForEvent[eventId][holder] == 0) {
+            _removeValue(userEvents[holder], eventId);
+        }
+        _removeEventTicket(eventId, _ticketId);
+
+        // Nobody can claim a refund for a burned ticket, so its payment leaves the refundable escrow.
+        // After a withdrawal it may already be paid out, but the event can no longer be cancelled then.
+        uint256 escrowed = eventProceeds[eventId];
+        uint256 payment = ticket.pricePaid < escrowed ? ticket.pricePaid : escrowed;
+        eventProceeds[eventId] = escrowed - payment;
+        returnedProceeds[eventId] += payment;
+
+        _releaseSupply(eventId, ticket.tierId);
+    }
+
+    /**
+     * @dev Removes _value while keeping the order; only used on per-holder lists, which maxPerAddress keeps short
+     */
+    function _removeValue(uint256[] storage _values, uint256 _value) internal {
+        uint256 len = _values.length;
+        for (uint256 i = 0; i < len; i++) {
+            if (_values[i] == _value) {
+                for (uint256 j = i; j + 1 < len; j++) {
+                    _values[j] = _values[j + 1];
+                }
+                _values.pop();
+                return;
+            }
+        }
+    }
+
+    /**
+     * @dev Swap-and-pop, so returning an early ticket of a large event costs the same as a late one
+     */
+    function _removeEventTicket(uint256 _eventId, uint256 _ticketId) internal {
+        uint256[] storage evtTickets = eventTickets[_eventId];
+        uint256 index = eventTicketIndex[_ticketId];
+        uint256 lastId = evtTickets[evtTickets.length - 1];
+        evtTickets[index] = lastId;
+        eventTicketIndex[lastId] = index;
+        evtTickets.pop();
+        delete eventTicketIndex[_ticketId];
+    }
+
+    function _isWaiting(uint256 _eventId, address _user) internal view returns (bool) {
+        return waitlistIndex[_eventId][_user] != 0 || waitlistOffers[_eventId][_user].expiresAt != 0;
+    }
+
+    function _isRefundable(uint256 _ticketId, address _user) internal view returns (bool) {
+        return _ownerOf(_ticketId) == _user && !ticketRefunded[_ticketId] && tickets[_ticketId].pricePaid > 0;
+    }
+
     // ============ View Functions ============
 
+    function isAllowlisted(uint256 _eventId, address _user, bytes32[] calldata _proof) public view returns (bool) {
+        bytes32 root = presales[_eventId].merkleRoot;
+        if (root == bytes32(0)) return false;
+        return MerkleProof.verifyCalldata(_proof, root, keccak256(abi.encodePacked(_user)));
+    }
+
     function getEventStatus(uint256 _eventId) public view returns (EventStatus) {
         Event storage evt = events[_eventId];
         require(evt.exists, "Event does not exist");
+        if (evt.cancelled) return EventStatus.Cancelled;
         if (block.timestamp < evt.startTime) return EventStatus.NotStarted;
         if (evt.remainingTickets == 0) return EventStatus.SoldOut;
         return EventStatus.InProgress;
@@ -229,40 +1019,120 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         uint256 totalTickets,
         uint256 remainingTickets,
         address organizer,
-        EventStatus status
+        EventStatus status,
+        AllocationMode mode,
+        uint256 maxPerAddress,
+        Tier[] memory tiers
     ) {
         Event storage evt = events[_eventId];
         require(evt.exists, "Event does not exist");
-        return (evt.id, evt.title, evt.startTime, evt.totalTickets, evt.remainingTickets, evt.organizer, getEventStatus(_eventId));
+        // Assigned field by field to stay within the stack limit
+        id = evt.id;
+        title = evt.title;
+        startTime = evt.startTime;
+        totalTickets = evt.totalTickets;
+        remainingTickets = evt.remainingTickets;
+        organizer = evt.organizer;
+        status = getEventStatus(_eventId);
+        mode = evt.mode;
+        maxPerAddress = evt.maxPerAddress;
+        tiers = eventTiers[_eventId];
+    }
+
+    function getEventCount() external view returns (uint256) {
+        return allEventIds.length;
     }
 
-    function getAllEvents() external view returns (
-        uint256[] memory ids,
-        string[] memory titles,
-        uint256[] memory startTimes,
-        uint256[] memory totalTicketCounts,
-        uint256[] memory remainingTicketCounts,
-        address[] memory organizers
+    /**
+     * @notice Lists events in creation order, so pages stay stable while new events are appended
+     * @param _offset Index into the creation order to start from
+     * @param _limit Page size, capped at MAX_PAGE_SIZE
+     * @return page The events on this page
+     * @return total Number of events overall
+     */
+    function getEventsPage(uint256 _offset, uint256 _limit) external view returns (
+        EventView[] memory page,
+        uint256 total
     ) {
-        uint256 len = allEventIds.length;
-        ids = new uint256[](len);
-        titles = new string[](len);
-        startTimes = new uint256[](len);
-        totalTicketCounts = new uint256[](len);
-        remainingTicketCounts = new uint256[](len);
-        organizers = new address[](len);
+        total = allEventIds.length;
+        page = _pageOf(allEventIds, _offset, _limit);
+    }
 
-        for (uint256 i = 0; i < len; i++) {
-            Event storage evt = events[allEventIds[i]];
-            ids[i] = evt.id;
-            titles[i] = evt.title;
-            startTimes[i] = evt.startTime;
-            totalTicketCounts[i] = evt.totalTickets;
-            remainingTicketCounts[i] = evt.remainingTickets;
-            organizers[i] = evt.organizer;
+    /**
+     * @notice Lists the events created by `_organizer` in creation order
+     * @return page The events on this page
+     * @return total Number of events created by the organizer
+     */
+    function getEventsPageByOrganizer(address _organizer, uint256 _offset, uint256 _limit) external view returns (
+        EventView[] memory page,
+        uint256 total
+    ) {
+        total = organizerEvents[_organizer].length;
+        page = _pageOf(organizerEvents[_organizer], _offset, _limit);
+    }
+
+    /**
+     * @notice Lists events currently in `_status`, in creation order
+     * @dev Scans at most MAX_PAGE_SCAN events per call, so a page can hold fewer than `_limit`
+     *      matches before the end is reached; continue from `nextOffset` until it equals `total`
+     * @return page The matching events found in the scanned range
+     * @return total Number of events overall
+     * @return nextOffset Index to pass as `_offset` for the next page
+     */
+    function getEventsPageByStatus(EventStatus _status, uint256 _offset, uint256 _limit) external view returns (
+        EventView[] memory page,
+        uint256 total,
+        uint256 nextOffset
+    ) {
+        total = allEventIds.length;
+        uint256 limit = _limit < MAX_PAGE_SIZE ? _limit : MAX_PAGE_SIZE;
+        uint256 scanEnd = _offset + MAX_PAGE_SCAN < total ? _offset + MAX_PAGE_SCAN : total;
+
+        uint256[] memory matches = new uint256[](limit);
+        uint256 count = 0;
+        nextOffset = _offset < total ? _offset : total;
+        while (nextOffset < scanEnd && count < limit) {
+            uint256 eventId = allEventIds[nextOffset];
+            if (getEventStatus(eventId) == _status) {
+                matches[count++] = eventId;
+            }
+            nextOffset++;
+        }
+
+        page = new EventView[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _eventView(matches[i]);
+        }
+    }
+
+    function _pageOf(uint256[] storage _ids, uint256 _offset, uint256 _limit) internal view returns (
+        EventView[] memory page
+    ) {
+        uint256 len = _ids.length;
+        if (_offset >= len) return new EventView[](0);
+        uint256 limit = _limit < MAX_PAGE_SIZE ? _limit : MAX_PAGE_SIZE;
+        uint256 end = _offset + limit < len ? _offset + limit : len;
+
+        page = new EventView[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = _eventView(_ids[i]);
         }
     }
 
+    function _eventView(uint256 _eventId) internal view returns (EventView memory snapshot) {
+        Event storage evt = events[_eventId];
+        snapshot.id = evt.id;
+        snapshot.title = evt.title;
+        snapshot.startTime = evt.startTime;
+        snapshot.totalTickets = evt.totalTickets;
+        snapshot.remainingTickets = evt.remainingTickets;
+        snapshot.organizer = evt.organizer;
+        snapshot.status = getEventStatus(_eventId);
+        snapshot.mode = evt.mode;
+        snapshot.maxPerAddress = evt.maxPerAddress;
+        snapshot.tiers = eventTiers[_eventId];
+    }
+
     function getUserTickets(address _user) external view returns (
         uint256[] memory ticketIds,
         uint256[] memory eventIds,
@@ -270,19 +1140,140 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
         uint256[] memory acquiredTimes
     ) {
         uint256[] storage userEventsList = userEvents[_user];
-        uint256 len = userEventsList.length;
-        ticketIds = new uint256[](len);
-        eventIds = new uint256[](len);
-        eventTitles = new string[](len);
-        acquiredTimes = new uint256[](len);
+        uint256 total = 0;
+        for (uint256 i = 0; i < userEventsList.length; i++) {
+            total += ticketCountForEvent[userEventsList[i]][_user];
+        }
 
-        for (uint256 i = 0; i < len; i++) {
+        ticketIds = new uint256[](total);
+        eventIds = new uint256[](total);
+        eventTitles = new string[](total);
+        acquiredTimes = new uint256[](total);
+
+        uint256 index = 0;
+        for (uint256 i = 0; i < userEventsList.length; i++) {
             uint256 eventId = userEventsList[i];
-            uint256 tId = userTicketForEvent[eventId][_user];
-            ticketIds[i] = tId;
-            eventIds[i] = eventId;
-            eventTitles[i] = events[eventId].title;
-            acquiredTimes[i] = tickets[tId].acquiredAt;
+            uint256[] storage eventTicketIds = userTicketsForEvent[eventId][_user];
+            for (uint256 j = 0; j < eventTicketIds.length; j++) {
+                uint256 tId = eventTicketIds[j];
+                ticketIds[index] = tId;
+                eventIds[index] = eventId;
+                eventTitles[index] = events[eventId].title;
+                acquiredTimes[index] = tickets[tId].acquiredAt;
+                index++;
+            }
+        }
+    }
+
+    function hasTicketForEvent(uint256 _eventId, address _user) external view returns (bool) {
+        return ticketCountForEvent[_eventId][_user] > 0;
+    }
+
+    function getUserTicketsForEvent(uint256 _eventId, address _user) external view returns (uint256[] memory) {
+        return userTicketsForEvent[_eventId][_user];
+    }
+
+    function getRaffle(uint256 _eventId) external view returns (
+        uint256 registrationEnd,
+        uint256 revealDeadline,
+        bytes32 seedCommitment,
+        bool revealed,
+        uint256 entrantCount,
+        uint256 winnerCount
+    ) {
+        require(events[_eventId].mode == AllocationMode.Raffle, "Not a raffle event");
+        Raffle storage raffle = raffles[_eventId];
+        return (
+            raffle.registrationEnd,
+            raffle.registrationEnd + REVEAL_WINDOW,
+            raffle.seedCommitment,
+            raffle.revealed,
+            raffleEntrants[_eventId].length,
+            raffle.winnerCount
+        );
+    }
+
+    function getRaffleWinners(uint256 _eventId) external view returns (address[] memory winners) {
+        Raffle storage raffle = raffles[_eventId];
+        winners = new address[](raffle.winnerCount);
+        for (uint256 i = 0; i < raffle.winnerCount; i++) {
+            winners[i] = raffleEntrants[_eventId][i];
+        }
+    }
+
+    /**
+     * @notice Tickets of a cancelled event that the user still holds and has not been refunded for
+     * @return ticketIds The refundable tickets
+     * @return totalRefund Sum of the prices paid for them, which may differ per tier
+     */
+    function getRefundableTickets(uint256 _eventId, address _user) external view returns (
+        uint256[] memory ticketIds,
+        uint256 totalRefund
+    ) {
+        if (!events[_eventId].cancelled) return (ticketIds, 0);
+
+        uint256[] storage candidates = userTicketsForEvent[_eventId][_user];
+        uint256 total = 0;
+        for (uint256 i = 0; i < candidates.length; i++) {
+            if (_isRefundable(candidates[i], _user)) total++;
+        }
+
+        ticketIds = new uint256[](total);
+        uint256 index = 0;
+        for (uint256 i = 0; i < candidates.length; i++) {
+            if (_isRefundable(candidates[i], _user)) {
+                ticketIds[index++] = candidates[i];
+                totalRefund += tickets[candidates[i]].pricePaid;
+            }
+        }
+    }
+
+    /**
+     * @notice 1-based position of the user in the event's waitlist, 0 when not queued
+     */
+    function getWaitlistPosition(uint256 _eventId, address _user) public view returns (uint256) {
+        uint256 index = waitlistIndex[_eventId][_user];
+        return index == 0 ? 0 : index - waitlistHead[_eventId];
+    }
+
+    function getWaitlistLength(uint256 _eventId) external view returns (uint256) {
+        return waitlists[_eventId].length - waitlistHead[_eventId];
+    }
+
+    /**
+     * @notice Events the user is currently waiting on, with their queue position or pending offer
+     * @return eventIds Events where the user is queued or holds an offer
+     * @return positions Queue positions, 0 once an offer has been made
+     * @return offerTierIds Tier of the pending offer
+     * @return offerExpiries Deadline of the pending offer, 0 when there is none
+     */
+    function getUserWaitlists(address _user) external view returns (
+        uint256[] memory eventIds,
+        uint256[] memory positions,
+        uint256[] memory offerTierIds,
+        uint256[] memory offerExpiries
+    ) {
+        uint256[] storage joined = userWaitlistEvents[_user];
+        uint256 total = 0;
+        for (uint256 i = 0; i < joined.length; i++) {
+            if (_isWaiting(joined[i], _user)) total++;
+        }
+
+        eventIds = new uint256[](total);
+        positions = new uint256[](total);
+        offerTierIds = new uint256[](total);
+        offerExpiries = new uint256[](total);
+
+        uint256 index = 0;
+        for (uint256 i = 0; i < joined.length; i++) {
+            uint256 eventId = joined[i];
+            if (!_isWaiting(eventId, _user)) continue;
+            WaitlistOffer storage offer = waitlistOffers[eventId][_user];
+            eventIds[index] = eventId;
+            positions[index] = getWaitlistPosition(eventId, _user);
+            offerTierIds[index] = offer.tierId;
+            offerExpiries[index] = offer.expiresAt;
+            index++;
         }
     }
 
@@ -312,13 +1303,23 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
 
     // ============ ERC721 Overrides ============
 
+    /**
+     * @dev Hooks burns so a destroyed ticket frees its supply for the waitlist
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+        if (to == address(0)) {
+            _onTicketBurned(tokenId);
+        }
+    }
+
     /**
      * @notice Returns the token URI for a given ticket NFT
      * @dev Generates on-chain metadata with event info
      */
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
-        // Check token exists
-        require(tickets[tokenId].id != 0, "Token does not exist");
+        // Check token exists and has not been burned
+        require(_ownerOf(tokenId) != address(0), "Token does not exist");
 
         Ticket storage ticket = tickets[tokenId];
         Event storage evt = events[ticket.eventId];
@@ -329,14 +1330,20 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
             '"description":"Event ticket for ', evt.title, '",'
         ));
 
+        bool isUsed = checkedInAt[tokenId] != 0;
+        string memory status = evt.cancelled ? "Void" : isUsed ? "Used" : "Valid";
+
         string memory jsonPart2 = string(abi.encodePacked(
             '"attributes":[',
             '{"trait_type":"Event ID","value":"', ticket.eventId.toString(), '"},',
-            '{"trait_type":"Ticket ID","value":"', tokenId.toString(), '"}],'
+            '{"trait_type":"Ticket ID","value":"', tokenId.toString(), '"},',
+            '{"trait_type":"Tier","value":"', eventTiers[ticket.eventId][ticket.tierId].name, '"},',
+            '{"trait_type":"Status","value":"', status, '"}],'
         ));
 
+        string memory label = evt.cancelled ? "VOID" : isUsed ? "USED" : "TICKET";
         string memory jsonPart3 = string(abi.encodePacked(
-            '"image":"data:image/svg+xml;base64,', _generateSVG(evt.title, tokenId), '"}'
+            '"image":"data:image/svg+xml;base64,', _generateSVG(evt.title, tokenId, label, evt.cancelled || isUsed), '"}'
         ));
 
         string memory json = string(abi.encodePacked(jsonPart1, jsonPart2, jsonPart3));
@@ -348,20 +1355,30 @@ contract TicketEngine is ReentrancyGuard, ERC721 {
     }
 
     /**
-     * @dev Generates a simple SVG image for the ticket
+     * @dev Generates a simple SVG image for the ticket, greyed out and labelled VOID or USED once it can no longer
+     *      get anyone in
      */
-    function _generateSVG(string memory title, uint256 ticketId) internal pure returns (string memory) {
+    function _generateSVG(
+        string memory title,
+        uint256 ticketId,
+        string memory label,
+        bool isInactive
+    ) internal pure returns (string memory) {
         // Split into parts to avoid stack too deep
         string memory part1 = string(abi.encodePacked(
             '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="200" viewBox="0 0 350 200">',
             '<defs><linearGradient id="g" x1="0%" y1="0%" x2="100%" y2="100%">',
-            '<stop offset="0%" style="stop-color:#8B5CF6"/><stop offset="100%" style="stop-color:#6366F1"/>',
+            isInactive
+                ? '<stop offset="0%" style="stop-color:#6B7280"/><stop offset="100%" style="stop-color:#374151"/>'
+                : '<stop offset="0%" style="stop-color:#8B5CF6"/><stop offset="100%" style="stop-color:#6366F1"/>',
             '</linearGradient></defs>'
         ));
 
         string memory part2 = string(abi.encodePacked(
             '<rect width="350" height="200" rx="16" fill="url(#g)"/>',
-            '<text x="175" y="40" text-anchor="middle" fill="white" font-size="14" font-family="sans-serif" opacity="0.8">TICKET</text>'
+            '<text x="175" y="40" text-anchor="middle" fill="white" font-size="14" font-family="sans-serif" opacity="0.8">',
+            label,
+            '</text>'
         ));
 
         string memory part3 = string(abi.encodePacked(
@@ -52,6 +52,8 @@ const config: HardhatUserConfig = {
         url: `https://eth-mainnet.alchemyapi.io/v2/${providerApiKey}`,
         enabled: process.env.MAINNET_FORKING_ENABLED === "true",
       },
+      // TicketEngine targets Monad, whose contract size limit (128 KB) is well above the EIP-170 24 KB limit
+      allowUnlimitedContractSize: true,
     },
     mainnet: {
       url: "https://mainnet.rpc.buidlguidl.com",
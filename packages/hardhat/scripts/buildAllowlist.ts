@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+
+/**
+ * Builds the presale allowlist for TicketEngine.setPresale from a CSV of addresses.
+ *
+ * Usage: yarn allowlist <addresses.csv> <eventId>
+ *
+ * The first column of each CSV row is read as an address; header and blank rows are skipped.
+ * Writes { root, proofs } to packages/nextjs/public/allowlists/<eventId>.json, where the
+ * frontend looks up the connected address's proof.
+ */
+
+export type Allowlist = {
+  root: string;
+  proofs: Record<string, string[]>;
+};
+
+// Leaves match TicketEngine.isAllowlisted: keccak256(abi.encodePacked(address))
+const hashLeaf = (address: string) => ethers.solidityPackedKeccak256(["address"], [address]);
+
+// Pairs are hashed in sorted order, as OpenZeppelin's MerkleProof expects
+const hashPair = (a: string, b: string) =>
+  ethers.solidityPackedKeccak256(["bytes32", "bytes32"], BigInt(a) < BigInt(b) ? [a, b] : [b, a]);
+
+export function buildAllowlist(addresses: string[]): Allowlist {
+  const unique = [...new Set(addresses.map(address => ethers.getAddress(address)))];
+  if (unique.length === 0) throw new Error("Allowlist is empty");
+
+  const leaves = unique.map(hashLeaf).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const layers: string[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      // An unpaired node is carried up to the next layer unchanged
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  for (const address of unique) {
+    let index = leaves.indexOf(hashLeaf(address));
+    const proof: string[] = [];
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    }
+    proofs[address.toLowerCase()] = proof;
+  }
+
+  return { root: layers[layers.length - 1][0], proofs };
+}
+
+export function parseAddressCsv(csv: string): string[] {
+  return csv
+    .split(/\r?\n/)
+    .map(line => line.split(",")[0].trim())
+    .filter(value => ethers.isAddress(value));
+}
+
+function main() {
+  const [csvPath, eventId] = process.argv.slice(2);
+  if (!csvPath || !eventId) {
+    console.log("Usage: yarn allowlist <addresses.csv> <eventId>");
+    process.exit(1);
+  }
+
+  const addresses = parseAddressCsv(fs.readFileSync(csvPath, "utf8"));
+  const allowlist = buildAllowlist(addresses);
+
+  const outDir = path.join(__dirname, "../../nextjs/public/allowlists");
+  fs.mkdirSync(outDir, { recursive: true });
+  const outPath = path.join(outDir, `${eventId}.json`);
+  fs.writeFileSync(outPath, JSON.stringify(allowlist, null, 2));
+
+  console.log(`📝 ${Object.keys(allowlist.proofs).length} addresses written to ${outPath}`);
+  console.log(`🌳 Merkle root: ${allowlist.root}`);
+  console.log(`Set it on-chain with setPresale(${eventId}, root, presaleStart)`);
+}
+
+if (require.main === module) {
+  main();
+}
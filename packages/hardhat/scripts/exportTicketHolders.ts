@@ -0,0 +1,64 @@
+import * as fs from "fs";
+import * as path from "path";
+import hre from "hardhat";
+import { HolderSnapshot } from "./ticketPass";
+
+/**
+ * Exports the current holder of every ticket of an event, for offline pass verification at the gate.
+ *
+ * Usage: EVENT_ID=<eventId> yarn ticket-holders --network <network>
+ *
+ * Writes the snapshot to holders/<chainId>-<eventId>.json. Tickets already checked in on-chain are listed apart
+ * and refused at the gate. Tickets returned, transferred or checked in after the export are not reflected,
+ * so export again shortly before doors open.
+ */
+
+// Upper bound passed to getRecentTickets, which returns every ticket when the limit exceeds the count
+const MAX_TICKETS = 1_000_000;
+
+async function main() {
+  const eventId = process.env.EVENT_ID;
+  if (!eventId) {
+    console.log("Usage: EVENT_ID=<eventId> yarn ticket-holders --network <network>");
+    process.exit(1);
+  }
+
+  const deployment = await hre.deployments.get("TicketEngine");
+  const ticketEngine = await hre.ethers.getContractAt("TicketEngine", deployment.address);
+  const blockNumber = await hre.ethers.provider.getBlockNumber();
+  const { chainId } = await hre.ethers.provider.getNetwork();
+
+  const [ticketIds] = await ticketEngine.getRecentTickets(eventId, MAX_TICKETS, { blockTag: blockNumber });
+  const holders: Record<string, string> = {};
+  const checkedIn: string[] = [];
+  for (const ticketId of ticketIds) {
+    if ((await ticketEngine.checkedInAt(ticketId, { blockTag: blockNumber })) !== 0n) {
+      checkedIn.push(ticketId.toString());
+      continue;
+    }
+    holders[ticketId.toString()] = await ticketEngine.ownerOf(ticketId, { blockTag: blockNumber });
+  }
+
+  const snapshot: HolderSnapshot = {
+    chainId: Number(chainId),
+    contract: deployment.address,
+    eventId,
+    blockNumber,
+    holders,
+    checkedIn,
+  };
+
+  const outDir = path.join(__dirname, "../holders");
+  fs.mkdirSync(outDir, { recursive: true });
+  const outPath = path.join(outDir, `${chainId}-${eventId}.json`);
+  fs.writeFileSync(outPath, JSON.stringify(snapshot, null, 2));
+
+  console.log(
+    `📝 ${ticketIds.length} tickets (${checkedIn.length} already checked in) at block ${blockNumber} written to ${outPath}`,
+  );
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
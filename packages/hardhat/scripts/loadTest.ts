@@ -0,0 +1,296 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Signer, ethers } from "ethers";
+import hre from "hardhat";
+import { TicketEngine } from "../typechain-types";
+
+/**
+ * Load test against a real TicketEngine: funds generated accounts, creates an event and fires concurrent
+ * grabTicket transactions in waves, then reports throughput, confirm latency, gas and AttemptResult counts.
+ *
+ * Usage: LOAD_ACCOUNTS=200 LOAD_TICKETS=20 LOAD_WAVES=4 LOAD_WAVE_INTERVAL_MS=250 yarn load-test --network localhost
+ *
+ * Optional: LOAD_QUANTITY (tickets per grab, default 1), LOAD_PRICE (in ether, default 0).
+ * Writes the report to packages/nextjs/public/load-tests/, where the /demo page loads and replays it.
+ * The report format must match packages/nextjs/types/loadTest.ts.
+ */
+
+export const ATTEMPT_RESULTS = ["Success", "AlreadyOwnsTicket", "SoldOut", "NotStarted", "NotAllowlisted"] as const;
+export type AttemptOutcome = (typeof ATTEMPT_RESULTS)[number] | "Reverted";
+
+export type LoadTestConfig = {
+  accounts: number;
+  tickets: number;
+  waves: number;
+  waveIntervalMs: number;
+  quantity: number;
+  price: bigint;
+};
+
+export type LoadTestAttempt = {
+  account: string;
+  wave: number;
+  sentAtMs: number; // since the first wave
+  confirmedAtMs: number;
+  latencyMs: number;
+  blockNumber: number;
+  outcome: AttemptOutcome;
+  gasUsed: string;
+  gasCost: string; // wei
+  ticketIds: string[];
+};
+
+export type LoadTestSummary = {
+  attempts: number;
+  durationMs: number;
+  throughputTps: number; // confirmed attempts per second
+  blocks: number;
+  latencyMs: { p50: number; p90: number; p99: number; max: number };
+  outcomes: Partial<Record<AttemptOutcome, number>>;
+  gasPerOutcome: Partial<Record<AttemptOutcome, { avgGasUsed: string; totalGasCost: string }>>;
+  soldOutAtMs: number | null;
+};
+
+export type LoadTestReport = {
+  version: 1;
+  chainId: number;
+  contract: string;
+  eventId: string;
+  generatedAt: string;
+  config: Omit<LoadTestConfig, "price"> & { price: string };
+  summary: LoadTestSummary;
+  attempts: LoadTestAttempt[];
+};
+
+// Covers a multi-ticket grab; set explicitly so a wave is not serialized behind gas estimation
+const GRAB_GAS_LIMIT = 1_000_000n;
+// Gas allowance sent to each account on top of the ticket price
+const GAS_FUNDING = ethers.parseEther("0.1");
+const SALE_START_DELAY = 60;
+
+// Nearest-rank percentile of ascending values
+export const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+export function summarizeLoadTest(attempts: LoadTestAttempt[], tickets: number): LoadTestSummary {
+  const latencies = attempts.map(attempt => attempt.latencyMs).sort((a, b) => a - b);
+  const durationMs = Math.max(0, ...attempts.map(attempt => attempt.confirmedAtMs));
+
+  const outcomes: LoadTestSummary["outcomes"] = {};
+  const gas: Partial<Record<AttemptOutcome, { count: number; gasUsed: bigint; gasCost: bigint }>> = {};
+  for (const attempt of attempts) {
+    outcomes[attempt.outcome] = (outcomes[attempt.outcome] ?? 0) + 1;
+    const entry = (gas[attempt.outcome] ??= { count: 0, gasUsed: 0n, gasCost: 0n });
+    entry.count++;
+    entry.gasUsed += BigInt(attempt.gasUsed);
+    entry.gasCost += BigInt(attempt.gasCost);
+  }
+
+  const gasPerOutcome: LoadTestSummary["gasPerOutcome"] = {};
+  for (const [outcome, entry] of Object.entries(gas) as [
+    AttemptOutcome,
+    { count: number; gasUsed: bigint; gasCost: bigint },
+  ][]) {
+    gasPerOutcome[outcome] = {
+      avgGasUsed: (entry.gasUsed / BigInt(entry.count)).toString(),
+      totalGasCost: entry.gasCost.toString(),
+    };
+  }
+
+  // The sale is over once the granted tickets reach the supply
+  let granted = 0;
+  let soldOutAtMs: number | null = null;
+  for (const attempt of [...attempts].sort((a, b) => a.confirmedAtMs - b.confirmedAtMs)) {
+    granted += attempt.ticketIds.length;
+    if (granted >= tickets) {
+      soldOutAtMs = attempt.confirmedAtMs;
+      break;
+    }
+  }
+
+  return {
+    attempts: attempts.length,
+    durationMs,
+    throughputTps: durationMs > 0 ? Math.round((attempts.length / durationMs) * 1000 * 100) / 100 : 0,
+    blocks: new Set(attempts.map(attempt => attempt.blockNumber)).size,
+    latencyMs: {
+      p50: percentile(latencies, 50),
+      p90: percentile(latencies, 90),
+      p99: percentile(latencies, 99),
+      max: latencies.at(-1) ?? 0,
+    },
+    outcomes,
+    gasPerOutcome,
+    soldOutAtMs,
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function createEvent(ticketEngine: TicketEngine, config: LoadTestConfig) {
+  const provider = ticketEngine.runner!.provider!;
+  const latest = await provider.getBlock("latest");
+  const startTime = BigInt(latest!.timestamp + SALE_START_DELAY);
+
+  const tx = await ticketEngine.createEvent(
+    `Load test ${new Date().toISOString()}`,
+    startTime,
+    config.tickets,
+    config.quantity,
+    config.price,
+  );
+  const receipt = await tx.wait();
+  const created = receipt!.logs
+    .map(log => ticketEngine.interface.parseLog(log))
+    .find(parsed => parsed?.name === "EventCreated");
+  return { eventId: created!.args.eventId as bigint, startTime };
+}
+
+// Local chains jump to the start time, live networks are waited out
+async function waitForStart(provider: ethers.Provider, startTime: bigint) {
+  const { chainId } = await provider.getNetwork();
+  if (chainId === 31337n) {
+    const latest = await provider.getBlock("latest");
+    await (provider as ethers.JsonRpcProvider).send("evm_increaseTime", [Number(startTime) - latest!.timestamp]);
+    await (provider as ethers.JsonRpcProvider).send("evm_mine", []);
+    return;
+  }
+  while (BigInt((await provider.getBlock("latest"))!.timestamp) < startTime) {
+    await sleep(1000);
+  }
+}
+
+function decodeAttempt(ticketEngine: TicketEngine, receipt: ethers.TransactionReceipt) {
+  let outcome: AttemptOutcome = "Reverted";
+  const ticketIds: string[] = [];
+  for (const log of receipt.logs) {
+    const parsed = ticketEngine.interface.parseLog(log);
+    if (parsed?.name === "AttemptRecorded") outcome = ATTEMPT_RESULTS[Number(parsed.args.result)];
+    if (parsed?.name === "TicketGrabbed") ticketIds.push(parsed.args.ticketId.toString());
+  }
+  return { outcome, ticketIds };
+}
+
+/**
+ * Runs one load test. `funder` pays for the generated accounts and creates the event.
+ */
+export async function runLoadTest(
+  ticketEngine: TicketEngine,
+  funder: Signer,
+  config: LoadTestConfig,
+): Promise<LoadTestReport> {
+  const provider = funder.provider!;
+  const wallets = Array.from({ length: config.accounts }, () => ethers.Wallet.createRandom().connect(provider));
+  const value = config.price * BigInt(config.quantity);
+
+  console.log(`💸 Funding ${wallets.length} accounts...`);
+  let nonce = await funder.getNonce();
+  const fundings = await Promise.all(
+    wallets.map(wallet => funder.sendTransaction({ to: wallet.address, value: value + GAS_FUNDING, nonce: nonce++ })),
+  );
+  await Promise.all(fundings.map(tx => tx.wait()));
+
+  const { eventId, startTime } = await createEvent(ticketEngine.connect(funder), config);
+  console.log(`🎫 Event ${eventId} created with ${config.tickets} tickets, waiting for the sale to start...`);
+  await waitForStart(provider, startTime);
+
+  const waveSize = Math.ceil(wallets.length / config.waves);
+  const startedAt = Date.now();
+  const pending: Promise<LoadTestAttempt>[] = [];
+
+  for (let wave = 0; wave < config.waves; wave++) {
+    await sleep(startedAt + wave * config.waveIntervalMs - Date.now());
+    console.log(`🌊 Wave ${wave + 1}/${config.waves}`);
+
+    for (const wallet of wallets.slice(wave * waveSize, (wave + 1) * waveSize)) {
+      pending.push(
+        (async () => {
+          const sentAtMs = Date.now() - startedAt;
+          let receipt: ethers.TransactionReceipt | null;
+          try {
+            const tx = await ticketEngine
+              .connect(wallet)
+              .grabTicket(eventId, 0, config.quantity, [], { value, gasLimit: GRAB_GAS_LIMIT });
+            receipt = await tx.wait();
+          } catch (error) {
+            // Reverted transactions still land in a block and pay for gas
+            receipt = (error as { receipt?: ethers.TransactionReceipt }).receipt ?? null;
+            if (!receipt) throw error;
+          }
+          const confirmedAtMs = Date.now() - startedAt;
+
+          return {
+            account: wallet.address,
+            wave,
+            sentAtMs,
+            confirmedAtMs,
+            latencyMs: confirmedAtMs - sentAtMs,
+            blockNumber: receipt!.blockNumber,
+            ...decodeAttempt(ticketEngine, receipt!),
+            gasUsed: receipt!.gasUsed.toString(),
+            gasCost: (receipt!.gasUsed * receipt!.gasPrice).toString(),
+          };
+        })(),
+      );
+    }
+  }
+
+  const attempts = (await Promise.all(pending)).sort((a, b) => a.confirmedAtMs - b.confirmedAtMs);
+  const { chainId } = await provider.getNetwork();
+
+  return {
+    version: 1,
+    chainId: Number(chainId),
+    contract: await ticketEngine.getAddress(),
+    eventId: eventId.toString(),
+    generatedAt: new Date().toISOString(),
+    config: { ...config, price: config.price.toString() },
+    summary: summarizeLoadTest(attempts, config.tickets),
+    attempts,
+  };
+}
+
+async function main() {
+  const config: LoadTestConfig = {
+    accounts: Number(process.env.LOAD_ACCOUNTS || 200),
+    tickets: Number(process.env.LOAD_TICKETS || 20),
+    waves: Number(process.env.LOAD_WAVES || 4),
+    waveIntervalMs: Number(process.env.LOAD_WAVE_INTERVAL_MS || 250),
+    quantity: Number(process.env.LOAD_QUANTITY || 1),
+    price: ethers.parseEther(process.env.LOAD_PRICE || "0"),
+  };
+
+  // The in-process network starts empty, every other network uses the deployed contract
+  const deployment =
+    hre.network.name === "hardhat"
+      ? (await hre.deployments.fixture(["TicketEngine"])).TicketEngine
+      : await hre.deployments.get("TicketEngine");
+  const [funder] = await hre.ethers.getSigners();
+  const ticketEngine = (await hre.ethers.getContractAt("TicketEngine", deployment.address)) as unknown as TicketEngine;
+
+  const report = await runLoadTest(ticketEngine, funder, config);
+
+  const outDir = path.join(__dirname, "../../nextjs/public/load-tests");
+  fs.mkdirSync(outDir, { recursive: true });
+  const outPath = path.join(outDir, `${report.chainId}-${report.generatedAt.replace(/[:.]/g, "-")}.json`);
+  fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+  fs.writeFileSync(path.join(outDir, "latest.json"), JSON.stringify(report, null, 2));
+
+  const { summary } = report;
+  console.log(`\n📊 ${summary.attempts} attempts in ${summary.durationMs}ms (${summary.throughputTps} tx/s)`);
+  console.log(
+    `   Confirm latency p50 ${summary.latencyMs.p50}ms · p90 ${summary.latencyMs.p90}ms · p99 ${summary.latencyMs.p99}ms`,
+  );
+  for (const [outcome, count] of Object.entries(summary.outcomes)) {
+    const gas = summary.gasPerOutcome[outcome as AttemptOutcome]!;
+    console.log(`   ${outcome}: ${count} (avg gas ${gas.avgGasUsed})`);
+  }
+  console.log(`📝 Report written to ${outPath}`);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,138 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { TicketPass, buildTicketPassMessage, decodeTicketPass } from "../../nextjs/utils/ticket-engine/ticketPass";
+
+/**
+ * Signed ticket passes for offline gate verification.
+ *
+ * The holder's wallet signs (EIP-191) a short-lived message naming the ticket, and the pass is shown as a QR code.
+ * The gate checks the signature against a holder snapshot exported with `yarn ticket-holders`, so no RPC
+ * round-trip is needed at the door. The pass format itself lives in packages/nextjs/utils/ticket-engine/ticketPass.ts.
+ */
+
+export type { TicketPass } from "../../nextjs/utils/ticket-engine/ticketPass";
+export {
+  PASS_VERSION,
+  buildTicketPassMessage,
+  decodeTicketPass,
+  encodeTicketPass,
+} from "../../nextjs/utils/ticket-engine/ticketPass";
+
+export type HolderSnapshot = {
+  chainId: number;
+  contract: string;
+  eventId: string;
+  blockNumber: number;
+  // ticketId => current holder, tickets not yet checked in only
+  holders: Record<string, string>;
+  // ticketIds already checked in on-chain when the snapshot was taken
+  checkedIn?: string[];
+};
+
+export type PassVerification =
+  | { valid: true; holder: string }
+  | {
+      valid: false;
+      reason:
+        | "wrong-event"
+        | "expired"
+        | "lifetime-too-long"
+        | "checked-in"
+        | "unknown-ticket"
+        | "bad-signature"
+        | "already-admitted";
+    };
+
+export type VerifyOptions = {
+  now?: number; // unix seconds, defaults to the current time
+  maxLifetime?: number; // longest accepted expiresAt - now, in seconds
+  admitted?: Set<string>; // ticketIds already let in at this gate
+};
+
+export const DEFAULT_MAX_LIFETIME = 10 * 60;
+
+/**
+ * Checks a pass against the holder snapshot of the event being admitted.
+ * Recording the ticketId in `admitted` after a successful check is left to the caller.
+ */
+export function verifyTicketPass(
+  pass: TicketPass,
+  snapshot: HolderSnapshot,
+  options: VerifyOptions = {},
+): PassVerification {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const maxLifetime = options.maxLifetime ?? DEFAULT_MAX_LIFETIME;
+
+  if (pass.eventId !== snapshot.eventId) return { valid: false, reason: "wrong-event" };
+  if (pass.expiresAt < now) return { valid: false, reason: "expired" };
+  // A pass valid for hours could be screenshotted and handed on
+  if (pass.expiresAt - now > maxLifetime) return { valid: false, reason: "lifetime-too-long" };
+
+  if (snapshot.checkedIn?.includes(pass.ticketId)) return { valid: false, reason: "checked-in" };
+  const holder = snapshot.holders[pass.ticketId];
+  if (!holder) return { valid: false, reason: "unknown-ticket" };
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(buildTicketPassMessage(snapshot.chainId, snapshot.contract, pass), pass.signature);
+  } catch {
+    return { valid: false, reason: "bad-signature" };
+  }
+  if (signer.toLowerCase() !== holder.toLowerCase()) return { valid: false, reason: "bad-signature" };
+
+  if (options.admitted?.has(pass.ticketId)) return { valid: false, reason: "already-admitted" };
+
+  return { valid: true, holder };
+}
+
+/**
+ * Verifies a pass and records its ticket in `admitted` when it is let in, so it is refused the next time
+ */
+export function admitTicketPass(
+  pass: TicketPass,
+  snapshot: HolderSnapshot,
+  admitted: Set<string>,
+  options: Omit<VerifyOptions, "admitted"> = {},
+): PassVerification {
+  const result = verifyTicketPass(pass, snapshot, { ...options, admitted });
+  if (result.valid) admitted.add(pass.ticketId);
+  return result;
+}
+
+// Tickets let in at this gate are kept next to the snapshot, so they stay admitted across runs of the CLI
+const admittedPathOf = (snapshotPath: string) =>
+  path.join(path.dirname(snapshotPath), `${path.basename(snapshotPath, ".json")}.admitted.json`);
+
+function main() {
+  const [snapshotPath, payload] = process.argv.slice(2);
+  if (!snapshotPath || !payload) {
+    console.log("Usage: yarn verify-pass <holders.json> '<scanned pass>'");
+    process.exit(1);
+  }
+
+  const snapshot: HolderSnapshot = JSON.parse(fs.readFileSync(snapshotPath, "utf8"));
+  const pass = decodeTicketPass(payload);
+  if (!pass) {
+    console.log("❌ Not a ticket pass");
+    process.exit(1);
+  }
+
+  const admittedPath = admittedPathOf(snapshotPath);
+  const admitted = new Set<string>(
+    fs.existsSync(admittedPath) ? JSON.parse(fs.readFileSync(admittedPath, "utf8")) : [],
+  );
+
+  const result = admitTicketPass(pass, snapshot, admitted);
+  if (result.valid) {
+    fs.writeFileSync(admittedPath, JSON.stringify([...admitted], null, 2));
+    console.log(`✅ Ticket #${pass.ticketId} held by ${result.holder}`);
+  } else {
+    console.log(`❌ Ticket #${pass.ticketId} rejected: ${result.reason}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
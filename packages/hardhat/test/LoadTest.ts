@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TicketEngine } from "../typechain-types";
+import { LoadTestAttempt, percentile, runLoadTest, summarizeLoadTest } from "../scripts/loadTest";
+
+describe("loadTest", function () {
+  const attempt = (fields: Partial<LoadTestAttempt>): LoadTestAttempt => ({
+    account: "0x00000000000000000000000000000000000000aa",
+    wave: 0,
+    sentAtMs: 0,
+    confirmedAtMs: 100,
+    latencyMs: 100,
+    blockNumber: 1,
+    outcome: "Success",
+    gasUsed: "100",
+    gasCost: "1000",
+    ticketIds: [],
+    ...fields,
+  });
+
+  it("should take nearest-rank percentiles", () => {
+    const values = Array.from({ length: 10 }, (_, i) => (i + 1) * 10);
+    expect(percentile(values, 50)).to.equal(50);
+    expect(percentile(values, 90)).to.equal(90);
+    expect(percentile(values, 99)).to.equal(100);
+    expect(percentile([], 50)).to.equal(0);
+  });
+
+  it("should summarize outcomes, gas and the sell-out time", () => {
+    const summary = summarizeLoadTest(
+      [
+        attempt({ confirmedAtMs: 200, latencyMs: 200, ticketIds: ["1"], gasUsed: "300", gasCost: "3000" }),
+        attempt({ confirmedAtMs: 400, latencyMs: 300, blockNumber: 2, ticketIds: ["2"], gasUsed: "100" }),
+        attempt({ confirmedAtMs: 500, latencyMs: 100, blockNumber: 2, outcome: "SoldOut", gasUsed: "50" }),
+      ],
+      2,
+    );
+
+    expect(summary).to.deep.include({ attempts: 3, durationMs: 500, throughputTps: 6, blocks: 2, soldOutAtMs: 400 });
+    expect(summary.latencyMs).to.deep.equal({ p50: 200, p90: 300, p99: 300, max: 300 });
+    expect(summary.outcomes).to.deep.equal({ Success: 2, SoldOut: 1 });
+    expect(summary.gasPerOutcome.Success).to.deep.equal({ avgGasUsed: "200", totalGasCost: "4000" });
+  });
+
+  it("should drive real grabs until the event sells out", async () => {
+    const [funder] = await ethers.getSigners();
+    const ticketEngine = (await (await ethers.getContractFactory("TicketEngine")).deploy()) as TicketEngine;
+
+    const report = await runLoadTest(ticketEngine, funder, {
+      accounts: 6,
+      tickets: 3,
+      waves: 2,
+      waveIntervalMs: 0,
+      quantity: 1,
+      price: ethers.parseEther("0.01"),
+    });
+
+    expect(report.attempts).to.have.length(6);
+    expect(report.summary.outcomes).to.deep.equal({ Success: 3, SoldOut: 3 });
+    expect(report.summary.soldOutAtMs).to.not.equal(null);
+    expect(await ticketEngine.getEventCount()).to.equal(1n);
+    expect(JSON.parse(JSON.stringify(report)).config.price).to.equal(ethers.parseEther("0.01").toString());
+  });
+});
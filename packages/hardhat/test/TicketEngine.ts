@@ -3,6 +3,7 @@ import { ethers } from "hardhat";
 import { TicketEngine } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { buildAllowlist } from "../scripts/buildAllowlist";
 
 describe("TicketEngine", function () {
   let ticketEngine: TicketEngine;
@@ -20,7 +21,7 @@ describe("TicketEngine", function () {
   describe("createEvent", () => {
     it("should create an event successfully", async () => {
       const futureTime = (await time.latest()) + 3600;
-      await expect(ticketEngine.createEvent("Test Event", futureTime, 100))
+      await expect(ticketEngine.createEvent("Test Event", futureTime, 100, 1, 0))
         .to.emit(ticketEngine, "EventCreated")
         .withArgs(1, "Test Event", futureTime, 100, owner.address);
 
@@ -32,17 +33,31 @@ describe("TicketEngine", function () {
 
     it("should reject empty title", async () => {
       const futureTime = (await time.latest()) + 3600;
-      await expect(ticketEngine.createEvent("", futureTime, 100)).to.be.revertedWith("Title cannot be empty");
+      await expect(ticketEngine.createEvent("", futureTime, 100, 1, 0)).to.be.revertedWith("Title cannot be empty");
     });
 
     it("should reject zero tickets", async () => {
       const futureTime = (await time.latest()) + 3600;
-      await expect(ticketEngine.createEvent("Test", futureTime, 0)).to.be.revertedWith("Must have at least 1 ticket");
+      await expect(ticketEngine.createEvent("Test", futureTime, 0, 1, 0)).to.be.revertedWith(
+        "Must have at least 1 ticket",
+      );
+    });
+
+    it("should reject a zero or oversized purchase limit", async () => {
+      const futureTime = (await time.latest()) + 3600;
+      await expect(ticketEngine.createEvent("Test", futureTime, 10, 0, 0)).to.be.revertedWith(
+        "Limit must be at least 1",
+      );
+      await expect(ticketEngine.createEvent("Test", futureTime, 10, 11, 0)).to.be.revertedWith(
+        "Limit exceeds total tickets",
+      );
     });
 
     it("should reject past start time", async () => {
       const pastTime = (await time.latest()) - 100;
-      await expect(ticketEngine.createEvent("Test", pastTime, 100)).to.be.revertedWith("Start time must be in future");
+      await expect(ticketEngine.createEvent("Test", pastTime, 100, 1, 0)).to.be.revertedWith(
+        "Start time must be in future",
+      );
     });
   });
 
@@ -52,21 +67,21 @@ describe("TicketEngine", function () {
 
     beforeEach(async () => {
       startTime = (await time.latest()) + 60;
-      await ticketEngine.createEvent("Grab Test", startTime, 2);
+      await ticketEngine.createEvent("Grab Test", startTime, 2, 1, 0);
       eventId = 1n;
     });
 
     it("should fail when event not started", async () => {
-      const result = await ticketEngine.connect(user1).grabTicket.staticCall(eventId);
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(eventId, 0, 1, []);
       expect(result.success).to.be.false;
       expect(result.result).to.equal(3); // NotStarted
     });
 
     it("should succeed after event starts", async () => {
       await time.increaseTo(startTime + 1);
-      await expect(ticketEngine.connect(user1).grabTicket(eventId))
+      await expect(ticketEngine.connect(user1).grabTicket(eventId, 0, 1, []))
         .to.emit(ticketEngine, "TicketGrabbed")
-        .withArgs(eventId, 1, user1.address, 1);
+        .withArgs(eventId, 1, user1.address, 1, 0);
 
       const hasTicket = await ticketEngine.hasTicketForEvent(eventId, user1.address);
       expect(hasTicket).to.be.true;
@@ -74,37 +89,810 @@ describe("TicketEngine", function () {
 
     it("should prevent double grab", async () => {
       await time.increaseTo(startTime + 1);
-      await ticketEngine.connect(user1).grabTicket(eventId);
+      await ticketEngine.connect(user1).grabTicket(eventId, 0, 1, []);
 
-      const result = await ticketEngine.connect(user1).grabTicket.staticCall(eventId);
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(eventId, 0, 1, []);
       expect(result.success).to.be.false;
       expect(result.result).to.equal(1); // AlreadyOwnsTicket
     });
 
     it("should emit SoldOut when last ticket grabbed", async () => {
       await time.increaseTo(startTime + 1);
-      await ticketEngine.connect(user1).grabTicket(eventId);
-      await expect(ticketEngine.connect(user2).grabTicket(eventId))
+      await ticketEngine.connect(user1).grabTicket(eventId, 0, 1, []);
+      await expect(ticketEngine.connect(user2).grabTicket(eventId, 0, 1, []))
         .to.emit(ticketEngine, "EventSoldOut")
         .withArgs(eventId);
     });
 
     it("should reject grab when sold out", async () => {
       await time.increaseTo(startTime + 1);
-      await ticketEngine.connect(user1).grabTicket(eventId);
-      await ticketEngine.connect(user2).grabTicket(eventId);
+      await ticketEngine.connect(user1).grabTicket(eventId, 0, 1, []);
+      await ticketEngine.connect(user2).grabTicket(eventId, 0, 1, []);
 
-      const result = await ticketEngine.connect(owner).grabTicket.staticCall(eventId);
+      const result = await ticketEngine.connect(owner).grabTicket.staticCall(eventId, 0, 1, []);
       expect(result.success).to.be.false;
       expect(result.result).to.equal(2); // SoldOut
     });
   });
 
+  describe("purchase limit", () => {
+    let startTime: number;
+
+    beforeEach(async () => {
+      startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Group Buy", startTime, 5, 3, 0);
+      await time.increaseTo(startTime + 1);
+    });
+
+    it("should grant several tickets in one grab", async () => {
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(1, 0, 2, []);
+      expect(result.success).to.equal(true);
+      expect(result.ticketIds.length).to.equal(2);
+
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 2, []))
+        .to.emit(ticketEngine, "TicketGrabbed")
+        .withArgs(1, 2, user1.address, 3, 0);
+      expect(await ticketEngine.ticketCountForEvent(1, user1.address)).to.equal(2);
+      expect(await ticketEngine.getUserTicketsForEvent(1, user1.address)).to.deep.equal([1n, 2n]);
+    });
+
+    it("should enforce the per-address limit across grabs", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, []);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 1, []);
+
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(1, 0, 1, []);
+      expect(result.success).to.equal(false);
+      expect(result.result).to.equal(1); // AlreadyOwnsTicket
+    });
+
+    it("should grant only up to the limit", async () => {
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(1, 0, 4, []);
+      expect(result.success).to.equal(true);
+      expect(result.ticketIds.length).to.equal(3);
+
+      await ticketEngine.connect(user2).grabTicket(1, 0, 1, []);
+      await ticketEngine.connect(user2).grabTicket(1, 0, 3, []);
+      expect(await ticketEngine.ticketCountForEvent(1, user2.address)).to.equal(3);
+      expect((await ticketEngine["getEvent(uint256)"](1)).remainingTickets).to.equal(2);
+    });
+
+    it("should apply the limit before the remaining supply", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 3, []);
+      await ticketEngine.connect(user2).grabTicket(1, 0, 1, []);
+
+      // One ticket left, user2 may hold two more
+      await ticketEngine.connect(user2).grabTicket(1, 0, 3, []);
+      expect(await ticketEngine.ticketCountForEvent(1, user2.address)).to.equal(2);
+    });
+
+    it("should grant only the remaining tickets", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 3, []);
+      await expect(ticketEngine.connect(user2).grabTicket(1, 0, 3, []))
+        .to.emit(ticketEngine, "EventSoldOut")
+        .withArgs(1);
+      expect(await ticketEngine.ticketCountForEvent(1, user2.address)).to.equal(2);
+    });
+
+    it("should reject a zero quantity", async () => {
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 0, [])).to.be.revertedWith(
+        "Quantity must be at least 1",
+      );
+    });
+
+    it("should list every ticket in getUserTickets", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 3, []);
+      const userTickets = await ticketEngine.getUserTickets(user1.address);
+      expect(userTickets.ticketIds).to.deep.equal([1n, 2n, 3n]);
+      expect(userTickets.eventIds).to.deep.equal([1n, 1n, 1n]);
+    });
+  });
+
+  describe("paid tickets", () => {
+    const price = ethers.parseEther("0.1");
+    let startTime: number;
+
+    beforeEach(async () => {
+      startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Paid Event", startTime, 3, 2, price);
+      await time.increaseTo(startTime + 1);
+    });
+
+    it("should expose the price in getEvent", async () => {
+      const event = await ticketEngine["getEvent(uint256)"](1);
+      expect(event.tiers.length).to.equal(1);
+      expect(event.tiers[0].name).to.equal("General");
+      expect(event.tiers[0].price).to.equal(price);
+    });
+
+    it("should require payment for the granted tickets", async () => {
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 2, [], { value: price })).to.be.revertedWith(
+        "Insufficient payment",
+      );
+    });
+
+    it("should escrow the payment and record it on the ticket", async () => {
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 2, [], { value: price * 2n })).to.changeEtherBalances(
+        [user1, ticketEngine],
+        [-price * 2n, price * 2n],
+      );
+      expect(await ticketEngine.eventProceeds(1)).to.equal(price * 2n);
+      expect((await ticketEngine.tickets(1)).pricePaid).to.equal(price);
+    });
+
+    it("should refund overpayment", async () => {
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: price * 3n }))
+        .to.emit(ticketEngine, "PaymentRefunded")
+        .withArgs(1, user1.address, price * 2n);
+      expect(await ticketEngine.eventProceeds(1)).to.equal(price);
+    });
+
+    it("should charge only for the remaining tickets", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, [], { value: price * 2n });
+      await expect(ticketEngine.connect(user2).grabTicket(1, 0, 2, [], { value: price * 2n })).to.changeEtherBalance(
+        user2,
+        -price,
+      );
+    });
+
+    it("should refund the full payment on a failed attempt", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, [], { value: price * 2n });
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: price })).to.changeEtherBalance(
+        user1,
+        0,
+      );
+      expect(await ticketEngine.eventProceeds(1)).to.equal(price * 2n);
+    });
+
+    it("should lock proceeds until after the event", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: price });
+      await expect(ticketEngine.withdrawProceeds(1)).to.be.revertedWith("Proceeds still locked");
+
+      const lockPeriod = await ticketEngine.PROCEEDS_LOCK_PERIOD();
+      await time.increaseTo(BigInt(startTime) + lockPeriod);
+      await expect(ticketEngine.connect(user1).withdrawProceeds(1)).to.be.revertedWith("Only organizer");
+      await expect(ticketEngine.withdrawProceeds(1))
+        .to.emit(ticketEngine, "ProceedsWithdrawn")
+        .withArgs(1, owner.address, price);
+      expect(await ticketEngine.eventProceeds(1)).to.equal(0);
+      await expect(ticketEngine.withdrawProceeds(1)).to.be.revertedWith("No proceeds to withdraw");
+    });
+
+    it("should accept returns after the proceeds were withdrawn", async () => {
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, [], { value: price * 2n });
+      await time.increaseTo(BigInt(startTime) + (await ticketEngine.PROCEEDS_LOCK_PERIOD()));
+      await ticketEngine.withdrawProceeds(1);
+
+      await ticketEngine.connect(user1).returnTicket(1);
+      expect(await ticketEngine.eventProceeds(1)).to.equal(0);
+      expect(await ticketEngine.returnedProceeds(1)).to.equal(0);
+    });
+  });
+
+  describe("tiers", () => {
+    const vipPrice = ethers.parseEther("0.5");
+    const generalPrice = ethers.parseEther("0.1");
+    const tiers = [
+      { name: "VIP", supply: 1, price: vipPrice },
+      { name: "General", supply: 3, price: generalPrice },
+      { name: "Student", supply: 2, price: 0 },
+    ];
+    let startTime: number;
+
+    beforeEach(async () => {
+      startTime = (await time.latest()) + 60;
+      await ticketEngine.createTieredEvent("Tiered Event", startTime, 2, tiers);
+    });
+
+    it("should sum tier supplies into the event totals", async () => {
+      const event = await ticketEngine["getEvent(uint256)"](1);
+      expect(event.totalTickets).to.equal(6);
+      expect(event.tiers.map(tier => tier.name)).to.deep.equal(["VIP", "General", "Student"]);
+      expect(event.tiers[1].remaining).to.equal(3);
+    });
+
+    it("should reject invalid tiers", async () => {
+      await expect(ticketEngine.createTieredEvent("Bad", startTime, 1, [])).to.be.revertedWith(
+        "Must have at least 1 ticket",
+      );
+      await expect(
+        ticketEngine.createTieredEvent("Bad", startTime, 1, [{ name: "", supply: 1, price: 0 }]),
+      ).to.be.revertedWith("Tier name cannot be empty");
+      await expect(
+        ticketEngine.createTieredEvent("Bad", startTime, 1, [
+          { name: "VIP", supply: 0, price: 0 },
+          { name: "General", supply: 2, price: 0 },
+        ]),
+      ).to.be.revertedWith("Tier must have at least 1 ticket");
+    });
+
+    it("should charge the tier price and sell out each tier separately", async () => {
+      await time.increaseTo(startTime + 1);
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: vipPrice }))
+        .to.emit(ticketEngine, "TicketGrabbed")
+        .withArgs(1, 1, user1.address, 5, 0);
+      expect((await ticketEngine.tickets(1)).tierId).to.equal(0);
+
+      const result = await ticketEngine.connect(user2).grabTicket.staticCall(1, 0, 1, [], { value: vipPrice });
+      expect(result.result).to.equal(2); // SoldOut
+
+      await expect(ticketEngine.connect(user2).grabTicket(1, 2, 2, [])).to.emit(ticketEngine, "TicketGrabbed");
+      const event = await ticketEngine["getEvent(uint256)"](1);
+      expect(event.tiers[2].remaining).to.equal(0);
+      expect(event.remainingTickets).to.equal(3);
+      expect(await ticketEngine.getEventStatus(1)).to.equal(1); // InProgress
+    });
+
+    it("should apply the per-address limit across tiers", async () => {
+      await time.increaseTo(startTime + 1);
+      await ticketEngine.connect(user1).grabTicket(1, 1, 1, [], { value: generalPrice });
+      await ticketEngine.connect(user1).grabTicket(1, 2, 1, []);
+
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(1, 1, 1, [], { value: generalPrice });
+      expect(result.result).to.equal(1); // AlreadyOwnsTicket
+    });
+
+    it("should reject unknown tiers", async () => {
+      await time.increaseTo(startTime + 1);
+      await expect(ticketEngine.connect(user1).grabTicket(1, 3, 1, [])).to.be.revertedWith("Tier does not exist");
+    });
+
+    it("should update each tier's supply", async () => {
+      await expect(ticketEngine.updateEvent(1, "Tiered Event", startTime, [2, 3])).to.be.revertedWith(
+        "Tier count mismatch",
+      );
+      await ticketEngine.updateEvent(1, "Tiered Event", startTime, [2, 5, 1]);
+
+      const event = await ticketEngine["getEvent(uint256)"](1);
+      expect(event.totalTickets).to.equal(8);
+      expect(event.tiers.map(tier => tier.supply)).to.deep.equal([2n, 5n, 1n]);
+    });
+
+    it("should name the tier in the token metadata", async () => {
+      await time.increaseTo(startTime + 1);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: vipPrice });
+
+      const uri = await ticketEngine.tokenURI(1);
+      const json = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+      expect(json.attributes).to.deep.include({ trait_type: "Tier", value: "VIP" });
+    });
+  });
+
+  describe("updateEvent", () => {
+    let startTime: number;
+
+    beforeEach(async () => {
+      startTime = (await time.latest()) + 3600;
+      await ticketEngine.createEvent("Tpyo Event", startTime, 10, 2, 0);
+    });
+
+    it("should update details before the sale opens", async () => {
+      const newStart = startTime + 600;
+      await expect(ticketEngine.updateEvent(1, "Typo Event", newStart, [20]))
+        .to.emit(ticketEngine, "EventUpdated")
+        .withArgs(1, "Typo Event", newStart, 20);
+
+      const event = await ticketEngine["getEvent(uint256)"](1);
+      expect(event.title).to.equal("Typo Event");
+      expect(event.startTime).to.equal(newStart);
+      expect(event.totalTickets).to.equal(20);
+      expect(event.remainingTickets).to.equal(20);
+    });
+
+    it("should only allow the organizer", async () => {
+      await expect(ticketEngine.connect(user1).updateEvent(1, "Hijack", startTime, [10])).to.be.revertedWith(
+        "Only organizer",
+      );
+    });
+
+    it("should apply the creation rules", async () => {
+      await expect(ticketEngine.updateEvent(1, "", startTime, [10])).to.be.revertedWith("Title cannot be empty");
+      await expect(ticketEngine.updateEvent(1, "Test", startTime, [1])).to.be.revertedWith(
+        "Limit exceeds total tickets",
+      );
+      await expect(ticketEngine.updateEvent(1, "Test", (await time.latest()) - 1, [10])).to.be.revertedWith(
+        "Start time must be in future",
+      );
+    });
+
+    it("should reject updates once the sale has opened", async () => {
+      await time.increaseTo(startTime);
+      await expect(ticketEngine.updateEvent(1, "Late", startTime + 3600, [10])).to.be.revertedWith(
+        "Event already started",
+      );
+    });
+  });
+
+  describe("presale", () => {
+    let presaleStart: number;
+    let startTime: number;
+    let user3: HardhatEthersSigner;
+    let allowlist: ReturnType<typeof buildAllowlist>;
+
+    beforeEach(async () => {
+      const signers = await ethers.getSigners();
+      user3 = signers[3];
+      allowlist = buildAllowlist([user1.address, user2.address, signers[4].address]);
+
+      presaleStart = (await time.latest()) + 60;
+      startTime = presaleStart + 3600;
+      await ticketEngine.createEvent("Member Presale", startTime, 10, 2, 0);
+      await ticketEngine.setPresale(1, allowlist.root, presaleStart);
+    });
+
+    const proofOf = (signer: HardhatEthersSigner) => allowlist.proofs[signer.address.toLowerCase()] ?? [];
+
+    it("should verify allowlist proofs", async () => {
+      expect(await ticketEngine.isAllowlisted(1, user1.address, proofOf(user1))).to.equal(true);
+      expect(await ticketEngine.isAllowlisted(1, user3.address, proofOf(user1))).to.equal(false);
+    });
+
+    it("should keep the sale closed before the presale", async () => {
+      const result = await ticketEngine.connect(user1).grabTicket.staticCall(1, 0, 1, proofOf(user1));
+      expect(result.result).to.equal(3); // NotStarted
+    });
+
+    it("should only let allowlisted addresses grab during the presale", async () => {
+      await time.increaseTo(presaleStart);
+      await expect(ticketEngine.connect(user2).grabTicket(1, 0, 1, proofOf(user2))).to.emit(
+        ticketEngine,
+        "TicketGrabbed",
+      );
+
+      const result = await ticketEngine.connect(user3).grabTicket.staticCall(1, 0, 1, proofOf(user1));
+      expect(result.success).to.equal(false);
+      expect(result.result).to.equal(4); // NotAllowlisted
+    });
+
+    it("should freeze the event once presale tickets can exist", async () => {
+      await time.increaseTo(presaleStart);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, proofOf(user1));
+
+      await expect(ticketEngine.updateEvent(1, "Member Presale", startTime, [10])).to.be.revertedWith(
+        "Presale already open",
+      );
+      const event = await ticketEngine["getEvent(uint256)"](1);
+      expect(event.totalTickets).to.equal(10);
+      expect(event.remainingTickets).to.equal(8);
+    });
+
+    it("should open to everyone at startTime", async () => {
+      await time.increaseTo(startTime);
+      await expect(ticketEngine.connect(user3).grabTicket(1, 0, 1, [])).to.emit(ticketEngine, "TicketGrabbed");
+    });
+
+    it("should validate the presale window", async () => {
+      await expect(ticketEngine.connect(user1).setPresale(1, allowlist.root, presaleStart)).to.be.revertedWith(
+        "Only organizer",
+      );
+      await expect(ticketEngine.setPresale(1, allowlist.root, startTime)).to.be.revertedWith(
+        "Presale must start before sale",
+      );
+      await expect(ticketEngine.updateEvent(1, "Member Presale", presaleStart, [10])).to.be.revertedWith(
+        "Presale must start before sale",
+      );
+
+      await time.increaseTo(presaleStart);
+      await expect(ticketEngine.setPresale(1, ethers.ZeroHash, 0)).to.be.revertedWith("Presale already open");
+    });
+  });
+
+  describe("returnTicket", () => {
+    beforeEach(async () => {
+      const startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Returnable Event", startTime, 3, 2, 0);
+      await time.increaseTo(startTime + 1);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, []);
+      await ticketEngine.connect(user2).grabTicket(1, 0, 1, []);
+    });
+
+    it("should burn the ticket and restore the supply", async () => {
+      await expect(ticketEngine.connect(user1).returnTicket(1))
+        .to.emit(ticketEngine, "TicketReturned")
+        .withArgs(1, 1, user1.address);
+
+      await expect(ticketEngine.ownerOf(1)).to.be.reverted;
+      await expect(ticketEngine.tokenURI(1)).to.be.revertedWith("Token does not exist");
+      expect((await ticketEngine["getEvent(uint256)"](1)).remainingTickets).to.equal(1);
+      expect(await ticketEngine.getEventStatus(1)).to.equal(1); // InProgress
+    });
+
+    it("should clear the holder's bookkeeping", async () => {
+      await ticketEngine.connect(user1).returnTicket(1);
+      expect(await ticketEngine.ticketCountForEvent(1, user1.address)).to.equal(1);
+      expect(await ticketEngine.getUserTicketsForEvent(1, user1.address)).to.deep.equal([2n]);
+
+      await ticketEngine.connect(user1).returnTicket(2);
+      expect(await ticketEngine.hasTicketForEvent(1, user1.address)).to.equal(false);
+      expect((await ticketEngine.getUserTickets(user1.address)).ticketIds).to.deep.equal([]);
+    });
+
+    it("should drop returned tickets from the recent holders", async () => {
+      await ticketEngine.connect(user1).returnTicket(1);
+
+      // The last ticket takes the returned one's slot
+      expect(await ticketEngine.eventTickets(1, 0)).to.equal(3);
+      expect(await ticketEngine.eventTickets(1, 1)).to.equal(2);
+      await expect(ticketEngine.eventTickets(1, 2)).to.be.reverted;
+      const recent = await ticketEngine.getRecentTickets(1, 10);
+      expect(recent.ticketIds).to.deep.equal([2n, 3n]);
+      expect(recent.owners).to.deep.equal([user1.address, user2.address]);
+    });
+
+    it("should return an early ticket of a large event at a bounded cost", async () => {
+      const startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Stadium", startTime, 1000, 50, 0);
+      await time.increaseTo(startTime + 1);
+      const signers = await ethers.getSigners();
+      for (const signer of signers.slice(0, 20)) {
+        await ticketEngine.connect(signer).grabTicket(2, 0, 50, []);
+      }
+      expect((await ticketEngine["getEvent(uint256)"](2)).remainingTickets).to.equal(0);
+
+      // Ticket 4 is the first of event 2, issued before the other 999
+      const tx = await ticketEngine.connect(signers[0]).returnTicket(4);
+      const receipt = await tx.wait();
+      expect(receipt!.gasUsed < 500_000n).to.equal(true);
+      expect((await ticketEngine["getEvent(uint256)"](2)).remainingTickets).to.equal(1);
+    });
+
+    it("should only let the holder return a ticket", async () => {
+      await expect(ticketEngine.connect(user2).returnTicket(1)).to.be.revertedWith("Not ticket holder");
+    });
+  });
+
+  describe("check-in", () => {
+    beforeEach(async () => {
+      const startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Concert", startTime, 10, 1, 0);
+      await time.increaseTo(startTime + 1);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 1, []);
+    });
+
+    it("should let the organizer designate operators", async () => {
+      await expect(ticketEngine.connect(user2).checkIn(1)).to.be.revertedWith("Not a check-in operator");
+      await expect(ticketEngine.connect(user2).setCheckInOperator(1, user2.address, true)).to.be.revertedWith(
+        "Only organizer",
+      );
+
+      await expect(ticketEngine.setCheckInOperator(1, user2.address, true))
+        .to.emit(ticketEngine, "CheckInOperatorSet")
+        .withArgs(1, user2.address, true);
+      await expect(ticketEngine.connect(user2).checkIn(1))
+        .to.emit(ticketEngine, "TicketCheckedIn")
+        .withArgs(1, 1, user1.address, user2.address, (await time.latest()) + 1);
+    });
+
+    it("should redeem a ticket only once", async () => {
+      await ticketEngine.checkIn(1);
+      expect(await ticketEngine.checkedInAt(1)).to.equal(await time.latest());
+      await expect(ticketEngine.checkIn(1)).to.be.revertedWith("Already checked in");
+      await expect(ticketEngine.connect(user1).returnTicket(1)).to.be.revertedWith("Ticket already used");
+    });
+
+    it("should not let a used ticket be burned back into the supply", async () => {
+      await ticketEngine.checkIn(1);
+      const remaining = (await ticketEngine["getEvent(uint256)"](1)).remainingTickets;
+
+      await expect(ticketEngine.connect(user1).burn(1)).to.be.revertedWith("Ticket already used");
+      expect((await ticketEngine["getEvent(uint256)"](1)).remainingTickets).to.equal(remaining);
+      expect(await ticketEngine.ownerOf(1)).to.equal(user1.address);
+    });
+
+    it("should mark used tickets in the token metadata", async () => {
+      await ticketEngine.checkIn(1);
+
+      const uri = await ticketEngine.tokenURI(1);
+      const json = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+      expect(json.attributes).to.deep.include({ trait_type: "Status", value: "Used" });
+      const svg = Buffer.from(json.image.split(",")[1], "base64").toString();
+      expect(svg).to.include("USED");
+    });
+
+    it("should reject unknown tickets", async () => {
+      await expect(ticketEngine.checkIn(99)).to.be.revertedWith("Ticket does not exist");
+    });
+  });
+
+  describe("waitlist", () => {
+    const price = ethers.parseEther("0.1");
+    let user3: HardhatEthersSigner;
+    let user4: HardhatEthersSigner;
+
+    beforeEach(async () => {
+      [, , , user3, user4] = await ethers.getSigners();
+      const startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Popular Event", startTime, 2, 1, price);
+      await time.increaseTo(startTime + 1);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: price });
+      await ticketEngine.connect(user2).grabTicket(1, 0, 1, [], { value: price });
+    });
+
+    it("should only open once the event is sold out", async () => {
+      await ticketEngine.createEvent("Quiet Event", (await time.latest()) + 60, 2, 1, 0);
+      await expect(ticketEngine.connect(user3).joinWaitlist(2)).to.be.revertedWith("Tickets still available");
+      await expect(ticketEngine.connect(user1).joinWaitlist(1)).to.be.revertedWith("Purchase limit reached");
+    });
+
+    it("should queue addresses in join order", async () => {
+      await expect(ticketEngine.connect(user3).joinWaitlist(1))
+        .to.emit(ticketEngine, "WaitlistJoined")
+        .withArgs(1, user3.address, 1);
+      await ticketEngine.connect(user4).joinWaitlist(1);
+      await expect(ticketEngine.connect(user4).joinWaitlist(1)).to.be.revertedWith("Already on waitlist");
+
+      expect(await ticketEngine.getWaitlistPosition(1, user4.address)).to.equal(2);
+      expect(await ticketEngine.getWaitlistLength(1)).to.equal(2);
+    });
+
+    it("should offer a burned ticket to the head of the waitlist", async () => {
+      await ticketEngine.connect(user3).joinWaitlist(1);
+      await ticketEngine.connect(user4).joinWaitlist(1);
+
+      await expect(ticketEngine.connect(user1).burn(1)).to.emit(ticketEngine, "WaitlistOffered");
+      expect(await ticketEngine.hasTicketForEvent(1, user1.address)).to.equal(false);
+      expect(await ticketEngine.getEventStatus(1)).to.equal(2); // still SoldOut, the ticket is reserved
+      expect(await ticketEngine.getWaitlistPosition(1, user4.address)).to.equal(1);
+
+      const waitlists = await ticketEngine.getUserWaitlists(user3.address);
+      expect(waitlists.eventIds).to.deep.equal([1n]);
+      expect(waitlists.positions).to.deep.equal([0n]);
+
+      await expect(ticketEngine.connect(user4).claimWaitlistTicket(1, { value: price })).to.be.revertedWith(
+        "No waitlist offer",
+      );
+      await expect(ticketEngine.connect(user3).claimWaitlistTicket(1, { value: price }))
+        .to.emit(ticketEngine, "TicketGrabbed")
+        .withArgs(1, 3, user3.address, 0, 0)
+        .and.to.emit(ticketEngine, "WaitlistOfferClaimed")
+        .withArgs(1, user3.address, 3);
+      expect(await ticketEngine.ownerOf(3)).to.equal(user3.address);
+      expect((await ticketEngine.getUserWaitlists(user3.address)).eventIds).to.deep.equal([]);
+    });
+
+    it("should pass an expired offer to the next address", async () => {
+      await ticketEngine.connect(user3).joinWaitlist(1);
+      await ticketEngine.connect(user4).joinWaitlist(1);
+      await ticketEngine.connect(user1).burn(1);
+
+      await expect(ticketEngine.expireWaitlistOffer(1, user3.address)).to.be.revertedWith("Offer still active");
+      await time.increase(await ticketEngine.WAITLIST_CLAIM_WINDOW());
+      await expect(ticketEngine.connect(user3).claimWaitlistTicket(1, { value: price })).to.be.revertedWith(
+        "Offer expired",
+      );
+
+      await expect(ticketEngine.expireWaitlistOffer(1, user3.address))
+        .to.emit(ticketEngine, "WaitlistOfferExpired")
+        .withArgs(1, user3.address, 0)
+        .and.to.emit(ticketEngine, "WaitlistOffered")
+        .withArgs(1, user4.address, 0, (await time.latest()) + 1 + 3600);
+    });
+
+    it("should return the ticket to sale when nobody is waiting", async () => {
+      await ticketEngine.connect(user1).burn(1);
+      expect(await ticketEngine.getEventStatus(1)).to.equal(1); // InProgress
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 1, [], { value: price })).to.emit(
+        ticketEngine,
+        "TicketGrabbed",
+      );
+    });
+  });
+
+  describe("cancellation", () => {
+    const price = ethers.parseEther("0.1");
+    let startTime: number;
+
+    beforeEach(async () => {
+      startTime = (await time.latest()) + 60;
+      await ticketEngine.createEvent("Cancel Test", startTime, 5, 2, price);
+      await time.increaseTo(startTime + 1);
+      await ticketEngine.connect(user1).grabTicket(1, 0, 2, [], { value: price * 2n });
+    });
+
+    it("should only allow the organizer to cancel", async () => {
+      await expect(ticketEngine.connect(user1).cancelEvent(1)).to.be.revertedWith("Only organizer");
+      await expect(ticketEngine.cancelEvent(1)).to.emit(ticketEngine, "EventCancelled").withArgs(1);
+      expect(await ticketEngine.getEventStatus(1)).to.equal(3); // Cancelled
+      await expect(ticketEngine.cancelEvent(1)).to.be.revertedWith("Event already cancelled");
+    });
+
+    it("should stop further grabs and withdrawals", async () => {
+      await ticketEngine.cancelEvent(1);
+      await expect(ticketEngine.connect(user2).grabTicket(1, 0, 1, [], { value: price })).to.be.revertedWith(
+        "Event cancelled",
+      );
+
+      await time.increaseTo(BigInt(startTime) + (await ticketEngine.PROCEEDS_LOCK_PERIOD()));
+      await expect(ticketEngine.withdrawProceeds(1)).to.be.revertedWith("No proceeds to withdraw");
+    });
+
+    it("should keep the payment of a returned ticket withdrawable after cancellation", async () => {
+      await ticketEngine.connect(user1).returnTicket(1);
+      expect(await ticketEngine.eventProceeds(1)).to.equal(price);
+      expect(await ticketEngine.returnedProceeds(1)).to.equal(price);
+      await ticketEngine.cancelEvent(1);
+
+      await expect(ticketEngine.connect(user1).claimRefund([2])).to.changeEtherBalance(user1, price);
+      expect(await ticketEngine.eventProceeds(1)).to.equal(0);
+
+      await time.increaseTo(BigInt(startTime) + (await ticketEngine.PROCEEDS_LOCK_PERIOD()));
+      await expect(ticketEngine.withdrawProceeds(1)).to.changeEtherBalance(owner, price);
+      expect(await ethers.provider.getBalance(await ticketEngine.getAddress())).to.equal(0);
+    });
+
+    it("should not allow cancelling once proceeds are unlocked", async () => {
+      await time.increaseTo(BigInt(startTime) + (await ticketEngine.PROCEEDS_LOCK_PERIOD()));
+      await expect(ticketEngine.cancelEvent(1)).to.be.revertedWith("Cancellation window closed");
+    });
+
+    it("should refund the current holder once", async () => {
+      await ticketEngine.cancelEvent(1);
+      const refundable = await ticketEngine.getRefundableTickets(1, user1.address);
+      expect(refundable.ticketIds).to.deep.equal([1n, 2n]);
+      expect(refundable.totalRefund).to.equal(price * 2n);
+
+      await ticketEngine.connect(user1).transferFrom(user1.address, user2.address, 2);
+      await expect(ticketEngine.connect(user1).claimRefund([2])).to.be.revertedWith("Not ticket holder");
+
+      await expect(ticketEngine.connect(user1).claimRefund([1]))
+        .to.emit(ticketEngine, "RefundClaimed")
+        .withArgs(1, 1, user1.address, price);
+      await expect(ticketEngine.connect(user2).claimRefund([2])).to.changeEtherBalance(user2, price);
+      await expect(ticketEngine.connect(user1).claimRefund([1])).to.be.revertedWith("Already refunded");
+
+      expect(await ticketEngine.eventProceeds(1)).to.equal(0);
+      expect((await ticketEngine.getRefundableTickets(1, user1.address)).ticketIds).to.deep.equal([]);
+    });
+
+    it("should reject refunds for active events", async () => {
+      await expect(ticketEngine.connect(user1).claimRefund([1])).to.be.revertedWith("Event not cancelled");
+    });
+
+    it("should mark tickets as void in tokenURI", async () => {
+      await ticketEngine.cancelEvent(1);
+      const uri = await ticketEngine.tokenURI(1);
+      const metadata = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+      expect(metadata.attributes).to.deep.include({ trait_type: "Status", value: "Void" });
+    });
+  });
+
+  describe("raffle", () => {
+    const seed = ethers.encodeBytes32String("organizer-secret");
+    const commitment = ethers.keccak256(seed);
+    let startTime: number;
+    let registrationEnd: number;
+    let user3: HardhatEthersSigner;
+
+    beforeEach(async () => {
+      user3 = (await ethers.getSigners())[3];
+      startTime = (await time.latest()) + 60;
+      registrationEnd = startTime + 600;
+      await ticketEngine.createRaffleEvent("Raffle Test", startTime, registrationEnd, 2, commitment, 0);
+    });
+
+    const registerAll = async () => {
+      await time.increaseTo(startTime + 1);
+      for (const user of [user1, user2, user3]) {
+        await ticketEngine.connect(user).registerForRaffle(1);
+      }
+    };
+
+    it("should reject a raffle without seed commitment", async () => {
+      await expect(
+        ticketEngine.createRaffleEvent("Raffle", startTime, registrationEnd, 2, ethers.ZeroHash, 0),
+      ).to.be.revertedWith("Seed commitment required");
+    });
+
+    it("should only accept registrations inside the window", async () => {
+      await expect(ticketEngine.connect(user1).registerForRaffle(1)).to.be.revertedWith("Registration not open");
+
+      await time.increaseTo(startTime + 1);
+      await expect(ticketEngine.connect(user1).registerForRaffle(1))
+        .to.emit(ticketEngine, "RaffleRegistered")
+        .withArgs(1, user1.address, 1);
+      await expect(ticketEngine.connect(user1).registerForRaffle(1)).to.be.revertedWith("Already registered");
+
+      await time.increaseTo(registrationEnd);
+      await expect(ticketEngine.connect(user2).registerForRaffle(1)).to.be.revertedWith("Registration closed");
+    });
+
+    it("should not allow grabTicket on a raffle event", async () => {
+      await time.increaseTo(startTime + 1);
+      await expect(ticketEngine.connect(user1).grabTicket(1, 0, 1, [])).to.be.revertedWith(
+        "Raffle event: register instead",
+      );
+    });
+
+    it("should not allow claiming before the seed is revealed", async () => {
+      await registerAll();
+      await time.increaseTo(registrationEnd);
+      await expect(ticketEngine.connect(user1).claimRaffleTicket(1)).to.be.revertedWith("Seed not revealed");
+    });
+
+    it("should reject reveal while registration is open", async () => {
+      await registerAll();
+      await expect(ticketEngine.revealRaffleSeed(1, seed)).to.be.revertedWith("Registration still open");
+    });
+
+    it("should reject a wrong seed", async () => {
+      await registerAll();
+      await time.increaseTo(registrationEnd);
+      await expect(ticketEngine.revealRaffleSeed(1, ethers.encodeBytes32String("wrong-secret"))).to.be.revertedWith(
+        "Seed does not match commitment",
+      );
+    });
+
+    it("should reject reveal from anyone but the organizer", async () => {
+      await registerAll();
+      await time.increaseTo(registrationEnd);
+      await expect(ticketEngine.connect(user1).revealRaffleSeed(1, seed)).to.be.revertedWith("Only organizer");
+    });
+
+    it("should reject a late reveal", async () => {
+      await registerAll();
+      const revealWindow = await ticketEngine.REVEAL_WINDOW();
+      await time.increaseTo(BigInt(registrationEnd) + revealWindow + 1n);
+      await expect(ticketEngine.revealRaffleSeed(1, seed)).to.be.revertedWith("Reveal window closed");
+    });
+
+    it("should draw winners who can claim exactly once", async () => {
+      await registerAll();
+      await time.increaseTo(registrationEnd);
+      await expect(ticketEngine.revealRaffleSeed(1, seed)).to.emit(ticketEngine, "RaffleDrawn");
+
+      const raffle = await ticketEngine.getRaffle(1);
+      expect(raffle.revealed).to.equal(true);
+      expect(raffle.entrantCount).to.equal(3);
+      expect(raffle.winnerCount).to.equal(2);
+
+      const winners = await ticketEngine.getRaffleWinners(1);
+      expect(winners.length).to.equal(2);
+
+      const signers = [user1, user2, user3];
+      const loser = signers.find(s => !winners.includes(s.address))!;
+      await expect(ticketEngine.connect(loser).claimRaffleTicket(1)).to.be.revertedWith("Not a raffle winner");
+
+      const first = signers.find(s => s.address === winners[0])!;
+      await expect(ticketEngine.connect(first).claimRaffleTicket(1))
+        .to.emit(ticketEngine, "TicketGrabbed")
+        .withArgs(1, 1, first.address, 1, 0);
+      expect(await ticketEngine.ownerOf(1)).to.equal(first.address);
+      await expect(ticketEngine.connect(first).claimRaffleTicket(1)).to.be.revertedWith("Already claimed");
+
+      const second = signers.find(s => s.address === winners[1])!;
+      await expect(ticketEngine.connect(second).claimRaffleTicket(1)).to.emit(ticketEngine, "EventSoldOut");
+    });
+
+    it("should keep a winner to one claim and refuse raffle returns", async () => {
+      await registerAll();
+      await time.increaseTo(registrationEnd);
+      await ticketEngine.revealRaffleSeed(1, seed);
+      const winners = await ticketEngine.getRaffleWinners(1);
+      const winner = [user1, user2, user3].find(s => s.address === winners[0])!;
+
+      await ticketEngine.connect(winner).claimRaffleTicket(1);
+      expect(await ticketEngine.raffleClaimed(1, winner.address)).to.equal(true);
+      await expect(ticketEngine.connect(winner).returnTicket(1)).to.be.revertedWith(
+        "Raffle tickets cannot be returned",
+      );
+      await expect(ticketEngine.connect(winner).burn(1)).to.be.revertedWith("Raffle tickets cannot be returned");
+
+      await ticketEngine.connect(winner).transferFrom(winner.address, owner.address, 1);
+      await expect(ticketEngine.connect(winner).claimRaffleTicket(1)).to.be.revertedWith("Already claimed");
+    });
+
+    it("should reject a second reveal", async () => {
+      await registerAll();
+      await time.increaseTo(registrationEnd);
+      await ticketEngine.revealRaffleSeed(1, seed);
+      await expect(ticketEngine.revealRaffleSeed(1, seed)).to.be.revertedWith("Seed already revealed");
+    });
+  });
+
   describe("view functions", () => {
     beforeEach(async () => {
       const futureTime = (await time.latest()) + 60;
-      await ticketEngine.createEvent("Event 1", futureTime, 10);
-      await ticketEngine.createEvent("Event 2", futureTime + 3600, 20);
+      await ticketEngine.createEvent("Event 1", futureTime, 10, 1, 0);
+      await ticketEngine.createEvent("Event 2", futureTime + 3600, 20, 1, 0);
     });
 
     it("should return all event IDs", async () => {
@@ -122,5 +910,65 @@ describe("TicketEngine", function () {
       status = await ticketEngine.getEventStatus(1);
       expect(status).to.equal(1); // InProgress
     });
+
+    it("should page events in creation order", async () => {
+      await ticketEngine.connect(user1).createEvent("Event 3", (await time.latest()) + 60, 5, 1, 0);
+
+      const [first, total] = await ticketEngine.getEventsPage(0, 2);
+      expect(total).to.equal(3);
+      expect(first.map(e => e.id)).to.deep.equal([1n, 2n]);
+      expect(first[1].title).to.equal("Event 2");
+      expect(first[1].tiers[0].supply).to.equal(20);
+
+      const [second] = await ticketEngine.getEventsPage(2, 2);
+      expect(second.map(e => e.id)).to.deep.equal([3n]);
+
+      const [past] = await ticketEngine.getEventsPage(5, 2);
+      expect(past.length).to.equal(0);
+    });
+
+    it("should page events by organizer", async () => {
+      await ticketEngine.connect(user1).createEvent("Event 3", (await time.latest()) + 60, 5, 1, 0);
+
+      const [page, total] = await ticketEngine.getEventsPageByOrganizer(user1.address, 0, 10);
+      expect(total).to.equal(1);
+      expect(page.map(e => e.id)).to.deep.equal([3n]);
+      expect(page[0].organizer).to.equal(user1.address);
+
+      const [ownPage, ownTotal] = await ticketEngine.getEventsPageByOrganizer(owner.address, 1, 10);
+      expect(ownTotal).to.equal(2);
+      expect(ownPage.map(e => e.id)).to.deep.equal([2n]);
+    });
+
+    it("should page events by status", async () => {
+      await time.increase(61);
+
+      const [inProgress, total, nextOffset] = await ticketEngine.getEventsPageByStatus(1, 0, 10);
+      expect(total).to.equal(2);
+      expect(inProgress.map(e => e.id)).to.deep.equal([1n]);
+      expect(inProgress[0].status).to.equal(1);
+      expect(nextOffset).to.equal(2);
+
+      // The limit stops the scan at the first match
+      const [notStarted, , next] = await ticketEngine.getEventsPageByStatus(0, 0, 1);
+      expect(notStarted.map(e => e.id)).to.deep.equal([2n]);
+      expect(next).to.equal(2);
+
+      await ticketEngine.cancelEvent(2);
+      const [cancelled] = await ticketEngine.getEventsPageByStatus(3, 0, 10);
+      expect(cancelled.map(e => e.id)).to.deep.equal([2n]);
+    });
+
+    it("should cap the page size", async () => {
+      const maxPageSize = await ticketEngine.MAX_PAGE_SIZE();
+      const futureTime = (await time.latest()) + 3600;
+      for (let i = 0; i < Number(maxPageSize); i++) {
+        await ticketEngine.createEvent(`Event ${i + 3}`, futureTime, 1, 1, 0);
+      }
+
+      const [page, total] = await ticketEngine.getEventsPage(0, maxPageSize + 10n);
+      expect(total).to.equal(maxPageSize + 2n);
+      expect(page.length).to.equal(maxPageSize);
+    });
   });
 });
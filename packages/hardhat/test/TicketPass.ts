@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  HolderSnapshot,
+  TicketPass,
+  admitTicketPass,
+  buildTicketPassMessage,
+  decodeTicketPass,
+  encodeTicketPass,
+  verifyTicketPass,
+} from "../scripts/ticketPass";
+
+describe("ticketPass", function () {
+  const contract = "0x00000000000000000000000000000000000000aa";
+  const now = 1_700_000_000;
+  const holder = ethers.Wallet.createRandom();
+  const stranger = ethers.Wallet.createRandom();
+
+  const snapshot: HolderSnapshot = {
+    chainId: 10143,
+    contract,
+    eventId: "1",
+    blockNumber: 100,
+    holders: { "7": holder.address },
+  };
+
+  const signPass = async (
+    wallet: ethers.HDNodeWallet,
+    fields: Partial<Omit<TicketPass, "signature">> = {},
+  ): Promise<TicketPass> => {
+    const unsigned: Omit<TicketPass, "signature"> = {
+      ticketId: "7",
+      eventId: "1",
+      nonce: "0x01",
+      expiresAt: now + 60,
+      ...fields,
+    };
+    const signature = await wallet.signMessage(buildTicketPassMessage(snapshot.chainId, contract, unsigned));
+    return { ...unsigned, signature: signature as TicketPass["signature"] };
+  };
+
+  it("should accept a pass signed by the current holder", async () => {
+    const pass = await signPass(holder);
+    expect(verifyTicketPass(pass, snapshot, { now })).to.deep.equal({ valid: true, holder: holder.address });
+  });
+
+  it("should round-trip through the QR payload", async () => {
+    const pass = await signPass(holder);
+    expect(decodeTicketPass(encodeTicketPass(pass))).to.deep.equal(pass);
+    expect(decodeTicketPass("7")).to.equal(null);
+    expect(decodeTicketPass(JSON.stringify({ v: 2, ...pass }))).to.equal(null);
+  });
+
+  it("should reject a pass signed by someone else", async () => {
+    const pass = await signPass(stranger);
+    expect(verifyTicketPass(pass, snapshot, { now })).to.deep.equal({ valid: false, reason: "bad-signature" });
+  });
+
+  it("should reject a pass whose fields were altered after signing", async () => {
+    const pass = { ...(await signPass(holder)), expiresAt: now + 120 };
+    expect(verifyTicketPass(pass, snapshot, { now })).to.deep.equal({ valid: false, reason: "bad-signature" });
+  });
+
+  it("should reject expired and long-lived passes", async () => {
+    const pass = await signPass(holder);
+    expect(verifyTicketPass(pass, snapshot, { now: now + 61 })).to.deep.equal({ valid: false, reason: "expired" });
+
+    const longLived = await signPass(holder, { expiresAt: now + 24 * 3600 });
+    expect(verifyTicketPass(longLived, snapshot, { now })).to.deep.equal({
+      valid: false,
+      reason: "lifetime-too-long",
+    });
+  });
+
+  it("should reject tickets of other events or missing from the snapshot", async () => {
+    const otherEvent = await signPass(holder, { eventId: "2" });
+    expect(verifyTicketPass(otherEvent, snapshot, { now })).to.deep.equal({ valid: false, reason: "wrong-event" });
+
+    const unknown = await signPass(holder, { ticketId: "8" });
+    expect(verifyTicketPass(unknown, snapshot, { now })).to.deep.equal({ valid: false, reason: "unknown-ticket" });
+  });
+
+  it("should reject a ticket already admitted at this gate", async () => {
+    const pass = await signPass(holder);
+    const admitted = new Set(["7"]);
+    expect(verifyTicketPass(pass, snapshot, { now, admitted })).to.deep.equal({
+      valid: false,
+      reason: "already-admitted",
+    });
+  });
+
+  it("should refuse a pass for the same ticket once it was admitted", async () => {
+    const admitted = new Set<string>();
+    expect(admitTicketPass(await signPass(holder), snapshot, admitted, { now }).valid).to.equal(true);
+    expect(admitted.has("7")).to.equal(true);
+
+    // A fresh pass for the same ticket is refused too
+    const again = await signPass(holder, { nonce: "0x02" });
+    expect(admitTicketPass(again, snapshot, admitted, { now })).to.deep.equal({
+      valid: false,
+      reason: "already-admitted",
+    });
+  });
+
+  it("should reject tickets checked in on-chain before the export", async () => {
+    const pass = await signPass(holder);
+    const usedSnapshot = { ...snapshot, holders: {}, checkedIn: ["7"] };
+    expect(verifyTicketPass(pass, usedSnapshot, { now })).to.deep.equal({ valid: false, reason: "checked-in" });
+  });
+
+  it("should bind the pass to the chain and contract", async () => {
+    const pass = await signPass(holder);
+    const otherDeployment = { ...snapshot, contract: "0x00000000000000000000000000000000000000bb" };
+    expect(verifyTicketPass(pass, otherDeployment, { now })).to.deep.equal({ valid: false, reason: "bad-signature" });
+  });
+});
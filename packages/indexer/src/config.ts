@@ -0,0 +1,47 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { Abi, Address } from "viem";
+
+dotenv.config();
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  contract: Address;
+  abi: Abi;
+  startBlock: bigint;
+  databaseFile: string;
+  port: number;
+  pollIntervalMs: number;
+  // Blocks fetched per eth_getLogs call
+  batchSize: bigint;
+};
+
+const packageRoot = path.join(__dirname, "..");
+
+/**
+ * Reads the indexer settings from the environment.
+ * The contract address, ABI and deployment block come from the hardhat-deploy artifact,
+ * so `yarn deploy` against the local node is all the setup it needs.
+ */
+export function loadConfig(): IndexerConfig {
+  const deploymentFile = path.resolve(
+    packageRoot,
+    process.env.DEPLOYMENT_FILE || "../hardhat/deployments/localhost/TicketEngine.json",
+  );
+  if (!fs.existsSync(deploymentFile)) {
+    throw new Error(`Deployment not found at ${deploymentFile}, run \`yarn deploy\` first or set DEPLOYMENT_FILE`);
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+
+  return {
+    rpcUrl: process.env.RPC_URL || "http://127.0.0.1:8545",
+    contract: deployment.address,
+    abi: deployment.abi,
+    startBlock: BigInt(deployment.receipt?.blockNumber ?? 0),
+    databaseFile: path.resolve(packageRoot, process.env.DATABASE_FILE || "data/indexer.db"),
+    port: Number(process.env.PORT || 42069),
+    pollIntervalMs: Number(process.env.POLL_INTERVAL_MS || 1000),
+    batchSize: BigInt(process.env.BATCH_SIZE || 500),
+  };
+}
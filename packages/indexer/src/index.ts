@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createPublicClient, http } from "viem";
+import { loadConfig } from "./config";
+import { ChainReader, Indexer } from "./indexer";
+import { createServer } from "./server";
+import { IndexerStore } from "./store";
+
+/**
+ * Runs the indexer against the configured chain and serves its HTTP API.
+ *
+ * Usage: yarn indexer (after `yarn chain` and `yarn deploy`)
+ */
+async function main() {
+  const config = loadConfig();
+  fs.mkdirSync(path.dirname(config.databaseFile), { recursive: true });
+
+  const store = new IndexerStore(config.databaseFile);
+  const client = createPublicClient({ transport: http(config.rpcUrl) });
+  const reader: ChainReader = {
+    getChainId: () => client.getChainId(),
+    getBlockNumber: () => client.getBlockNumber({ cacheTime: 0 }),
+    getBlock: ({ blockNumber }) => client.getBlock({ blockNumber }),
+    getLogs: args => client.getLogs(args),
+  };
+  const indexer = new Indexer(store, reader, config);
+  await indexer.init();
+  const chainId = await client.getChainId();
+
+  createServer(store, () => ({ chainId, contract: config.contract })).listen(config.port, () => {
+    console.log(`🌐 Indexer API listening on http://localhost:${config.port}`);
+  });
+
+  console.log(`🔎 Indexing TicketEngine at ${config.contract} from block ${config.startBlock}`);
+  // Errors (RPC hiccups, a block changing mid-sync) are retried on the next poll
+  const poll = async () => {
+    try {
+      const indexed = await indexer.sync();
+      if (indexed > 0) console.log(`📥 Indexed ${indexed} logs up to block ${store.getHead()?.number}`);
+    } catch (error) {
+      console.error("Sync failed:", error instanceof Error ? error.message : error);
+    }
+    setTimeout(poll, config.pollIntervalMs);
+  };
+  poll();
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,225 @@
+import { Abi, Address, Hash, Log, parseEventLogs } from "viem";
+import { BlockRecord, IndexedLog, IndexerStore } from "./store";
+
+/**
+ * The RPC calls the indexer needs, kept narrow so tests can drive it with a scripted chain
+ */
+export interface ChainReader {
+  getChainId(): Promise<number>;
+  getBlockNumber(): Promise<bigint>;
+  getBlock(args: { blockNumber: bigint }): Promise<{ number: bigint; hash: Hash; timestamp: bigint }>;
+  getLogs(args: { address: Address; fromBlock: bigint; toBlock: bigint }): Promise<Log[]>;
+}
+
+export type IndexerOptions = {
+  contract: Address;
+  abi: Abi;
+  startBlock: bigint;
+  batchSize: bigint;
+};
+
+const TRACKED_EVENTS = [
+  "EventCreated",
+  "EventUpdated",
+  "EventCancelled",
+  "TicketGrabbed",
+  "AttemptRecorded",
+  "EventSoldOut",
+  "TicketReturned",
+  "WaitlistOffered",
+  "WaitlistOfferClaimed",
+  "WaitlistOfferExpired",
+  "Transfer",
+];
+
+// Block hashes kept for reorg detection; a deeper reorg rebuilds the store from the deployment block
+export const KEPT_BLOCKS = 256;
+
+/**
+ * Follows TicketEngine logs into the store.
+ * Each sync first checks that the last indexed block is still canonical, rolls back to the newest
+ * stored block whose hash matches the chain if it is not, then indexes forward to the chain head.
+ */
+export class Indexer {
+  constructor(
+    private store: IndexerStore,
+    private reader: ChainReader,
+    private options: IndexerOptions,
+  ) {}
+
+  async init() {
+    const chainId = await this.reader.getChainId();
+    if (this.store.resetIfChanged(chainId, this.options.contract)) {
+      console.log("♻️  Chain or contract changed, indexing from scratch");
+    }
+  }
+
+  /**
+   * @returns The number of logs indexed
+   */
+  async sync(): Promise<number> {
+    const chainHead = await this.reader.getBlockNumber();
+    await this.handleReorg(chainHead);
+
+    const head = this.store.getHead();
+    let from = head ? BigInt(head.number) + 1n : this.options.startBlock;
+    let indexed = 0;
+
+    while (from <= chainHead) {
+      const to = from + this.options.batchSize - 1n < chainHead ? from + this.options.batchSize - 1n : chainHead;
+      indexed += await this.indexRange(from, to);
+      from = to + 1n;
+    }
+
+    this.store.pruneBlocks(Number(chainHead) - KEPT_BLOCKS);
+    return indexed;
+  }
+
+  private async handleReorg(chainHead: bigint) {
+    const head = this.store.getHead();
+    if (!head) return;
+    if (BigInt(head.number) <= chainHead && (await this.canonicalHash(head.number)) === head.hash) return;
+
+    for (const block of this.store.getRecentBlocks(KEPT_BLOCKS)) {
+      if (BigInt(block.number) > chainHead) continue;
+      if ((await this.canonicalHash(block.number)) === block.hash) {
+        console.log(`🔀 Reorg detected, rolling back to block ${block.number}`);
+        this.store.rollback(block.number);
+        return;
+      }
+    }
+
+    console.log("🔀 Reorg deeper than the kept block hashes, reindexing");
+    this.store.rollback(Number(this.options.startBlock) - 1);
+  }
+
+  private async canonicalHash(blockNumber: number): Promise<string> {
+    const block = await this.reader.getBlock({ blockNumber: BigInt(blockNumber) });
+    return block.hash;
+  }
+
+  private async indexRange(from: bigint, to: bigint): Promise<number> {
+    const logs = await this.reader.getLogs({ address: this.options.contract, fromBlock: from, toBlock: to });
+    const parsed = parseEventLogs({ abi: this.options.abi, logs, eventName: TRACKED_EVENTS });
+
+    const blockNumbers = new Set([...parsed.map(log => log.blockNumber as bigint), to]);
+    const blocks = await Promise.all([...blockNumbers].map(blockNumber => this.reader.getBlock({ blockNumber })));
+    const records = new Map<bigint, BlockRecord>(
+      blocks.map(block => [
+        block.number,
+        { number: Number(block.number), hash: block.hash, timestamp: Number(block.timestamp) },
+      ]),
+    );
+
+    // A reorg between getLogs and getBlock would pair logs with the wrong block; retry on the next sync
+    for (const log of parsed) {
+      if (records.get(log.blockNumber as bigint)?.hash !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed while indexing`);
+      }
+    }
+
+    const indexedLogs = parsed.map(log => toIndexedLog(log, records.get(log.blockNumber as bigint)!.timestamp));
+    this.store.apply([...records.values()], indexedLogs);
+    return indexedLogs.length;
+  }
+}
+
+type ParsedLog = ReturnType<typeof parseEventLogs<Abi>>[number];
+
+function toIndexedLog(log: ParsedLog, timestamp: number): IndexedLog {
+  const args = log.args as Record<string, unknown>;
+  const meta = {
+    blockNumber: Number(log.blockNumber),
+    logIndex: Number(log.logIndex),
+    txHash: log.transactionHash as string,
+    timestamp,
+  };
+
+  switch (log.eventName) {
+    case "EventCreated":
+      return {
+        ...meta,
+        name: "EventCreated",
+        eventId: Number(args.eventId),
+        title: args.title as string,
+        startTime: Number(args.startTime),
+        totalTickets: Number(args.totalTickets),
+        organizer: args.organizer as string,
+      };
+    case "EventUpdated":
+      return {
+        ...meta,
+        name: "EventUpdated",
+        eventId: Number(args.eventId),
+        title: args.title as string,
+        startTime: Number(args.startTime),
+        totalTickets: Number(args.totalTickets),
+      };
+    case "EventCancelled":
+      return { ...meta, name: "EventCancelled", eventId: Number(args.eventId) };
+    case "TicketGrabbed":
+      return {
+        ...meta,
+        name: "TicketGrabbed",
+        eventId: Number(args.eventId),
+        ticketId: Number(args.ticketId),
+        participant: args.participant as string,
+        remainingTickets: Number(args.remainingTickets),
+        tierId: Number(args.tierId),
+      };
+    case "AttemptRecorded":
+      return {
+        ...meta,
+        name: "AttemptRecorded",
+        eventId: Number(args.eventId),
+        participant: args.participant as string,
+        result: Number(args.result),
+        attemptedAt: Number(args.timestamp),
+      };
+    case "EventSoldOut":
+      return { ...meta, name: "EventSoldOut", eventId: Number(args.eventId) };
+    case "TicketReturned":
+      return {
+        ...meta,
+        name: "TicketReturned",
+        eventId: Number(args.eventId),
+        ticketId: Number(args.ticketId),
+        holder: args.holder as string,
+      };
+    case "WaitlistOffered":
+      return {
+        ...meta,
+        name: "WaitlistOffered",
+        eventId: Number(args.eventId),
+        participant: args.participant as string,
+        tierId: Number(args.tierId),
+        expiresAt: Number(args.expiresAt),
+      };
+    case "WaitlistOfferClaimed":
+      return {
+        ...meta,
+        name: "WaitlistOfferClaimed",
+        eventId: Number(args.eventId),
+        participant: args.participant as string,
+        ticketId: Number(args.ticketId),
+      };
+    case "WaitlistOfferExpired":
+      return {
+        ...meta,
+        name: "WaitlistOfferExpired",
+        eventId: Number(args.eventId),
+        participant: args.participant as string,
+        tierId: Number(args.tierId),
+      };
+    case "Transfer":
+      return {
+        ...meta,
+        name: "Transfer",
+        from: args.from as string,
+        to: args.to as string,
+        tokenId: Number(args.tokenId),
+      };
+    default:
+      throw new Error(`Unexpected event ${log.eventName}`);
+  }
+}
@@ -0,0 +1,108 @@
+import * as http from "http";
+import { IndexerStore } from "./store";
+
+const MAX_LIMIT = 100;
+
+type Route = {
+  pattern: RegExp;
+  handle: (match: RegExpMatchArray, query: URLSearchParams) => unknown;
+};
+
+class NotFoundError extends Error {}
+
+const readLimit = (query: URLSearchParams, fallback: number) =>
+  Math.min(Math.max(Number(query.get("limit")) || fallback, 1), MAX_LIMIT);
+
+const readAddress = (value: string) => {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) throw new NotFoundError("Invalid address");
+  return value;
+};
+
+/**
+ * Read-only JSON API over the indexed data
+ *
+ * GET /status
+ * GET /events?offset=&limit=&organizer=&active=
+ * GET /events/:id
+ * GET /events/:id/attempts?limit=
+ * GET /events/:id/grabs?limit=
+ * GET /events/:id/returns?limit=
+ * GET /events/:id/leaderboard?limit=
+ * GET /users/:address/history?limit=
+ */
+export function createServer(store: IndexerStore, status: () => { chainId: number; contract: string }) {
+  const routes: Route[] = [
+    {
+      pattern: /^\/status$/,
+      handle: () => ({ ...status(), indexedBlock: store.getHead()?.number ?? null }),
+    },
+    {
+      pattern: /^\/events$/,
+      handle: (_, query) =>
+        store.listEvents({
+          offset: Math.max(Number(query.get("offset")) || 0, 0),
+          limit: readLimit(query, 20),
+          organizer: query.get("organizer") ? readAddress(query.get("organizer")!) : undefined,
+          active: query.get("active") === "true",
+        }),
+    },
+    {
+      pattern: /^\/events\/(\d+)$/,
+      handle: ([, id]) => {
+        const event = store.getEvent(Number(id));
+        if (!event) throw new NotFoundError("Event not indexed");
+        return event;
+      },
+    },
+    {
+      pattern: /^\/events\/(\d+)\/attempts$/,
+      handle: ([, id], query) => store.recentAttempts(Number(id), readLimit(query, 50)),
+    },
+    {
+      pattern: /^\/events\/(\d+)\/grabs$/,
+      handle: ([, id], query) => store.recentGrabs(Number(id), readLimit(query, 50)),
+    },
+    {
+      pattern: /^\/events\/(\d+)\/returns$/,
+      handle: ([, id], query) => store.recentReturns(Number(id), readLimit(query, 50)),
+    },
+    {
+      pattern: /^\/events\/(\d+)\/leaderboard$/,
+      handle: ([, id], query) => store.leaderboard(Number(id), readLimit(query, 10)),
+    },
+    {
+      pattern: /^\/users\/([^/]+)\/history$/,
+      handle: ([, address], query) => ({
+        attempts: store.userAttempts(readAddress(address), readLimit(query, 50)),
+        transfers: store.userTransfers(readAddress(address), readLimit(query, 50)),
+      }),
+    },
+  ];
+
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    // The frontend calls the API straight from the browser
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+
+    const send = (code: number, body: unknown) => {
+      res.statusCode = code;
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "GET") return send(405, { error: "Method not allowed" });
+
+    for (const route of routes) {
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+      try {
+        return send(200, route.handle(match, url.searchParams));
+      } catch (error) {
+        if (error instanceof NotFoundError) return send(404, { error: error.message });
+        console.error(error);
+        return send(500, { error: "Internal error" });
+      }
+    }
+    send(404, { error: "Not found" });
+  });
+}
@@ -0,0 +1,485 @@
+import Database from "better-sqlite3";
+
+export type BlockRecord = {
+  number: number;
+  hash: string;
+  timestamp: number;
+};
+
+type LogMeta = {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+};
+
+export type IndexedLog = LogMeta &
+  (
+    | {
+        name: "EventCreated";
+        eventId: number;
+        title: string;
+        startTime: number;
+        totalTickets: number;
+        organizer: string;
+      }
+    | { name: "EventUpdated"; eventId: number; title: string; startTime: number; totalTickets: number }
+    | { name: "EventCancelled"; eventId: number }
+    | {
+        name: "TicketGrabbed";
+        eventId: number;
+        ticketId: number;
+        participant: string;
+        remainingTickets: number;
+        tierId: number;
+      }
+    | { name: "AttemptRecorded"; eventId: number; participant: string; result: number; attemptedAt: number }
+    | { name: "EventSoldOut"; eventId: number }
+    | { name: "TicketReturned"; eventId: number; ticketId: number; holder: string }
+    | { name: "WaitlistOffered"; eventId: number; participant: string; tierId: number; expiresAt: number }
+    | { name: "WaitlistOfferClaimed"; eventId: number; participant: string; ticketId: number }
+    | { name: "WaitlistOfferExpired"; eventId: number; participant: string; tierId: number }
+    | { name: "Transfer"; from: string; to: string; tokenId: number }
+  );
+
+export type EventSummary = {
+  eventId: number;
+  title: string;
+  startTime: number;
+  totalTickets: number;
+  organizer: string;
+  createdAt: number;
+  ticketsGrabbed: number;
+  ticketsReturned: number;
+  reservedTickets: number;
+  remainingTickets: number;
+  attempts: number;
+  participants: number;
+  soldOutAt: number | null;
+  cancelledAt: number | null;
+};
+
+export type AttemptRow = {
+  eventId: number;
+  participant: string;
+  result: number;
+  attemptedAt: number;
+  blockNumber: number;
+  txHash: string;
+};
+
+export type GrabRow = {
+  eventId: number;
+  ticketId: number;
+  participant: string;
+  tierId: number;
+  remainingTickets: number;
+  blockNumber: number;
+  txHash: string;
+  timestamp: number;
+};
+
+export type ReturnRow = {
+  eventId: number;
+  ticketId: number;
+  holder: string;
+  blockNumber: number;
+  txHash: string;
+  timestamp: number;
+};
+
+export type LeaderboardRow = {
+  rank: number;
+  participant: string;
+  tickets: number;
+  firstGrabAt: number;
+  secondsAfterStart: number;
+  blockNumber: number;
+};
+
+export type TransferRow = {
+  tokenId: number;
+  from: string;
+  to: string;
+  blockNumber: number;
+  txHash: string;
+  timestamp: number;
+};
+
+// Every table holding log data, all keyed by (block_number, log_index) so a rollback is a range delete
+const LOG_TABLES = [
+  "events",
+  "updates",
+  "cancellations",
+  "grabs",
+  "attempts",
+  "sellouts",
+  "returns",
+  "offers",
+  "offer_claims",
+  "offer_expiries",
+  "transfers",
+] as const;
+
+// Bumped when the tracked logs change, so existing databases are reindexed instead of missing them
+const SCHEMA_VERSION = 3;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL);
+  CREATE TABLE IF NOT EXISTS events (
+    event_id INTEGER NOT NULL, title TEXT NOT NULL, start_time INTEGER NOT NULL, total_tickets INTEGER NOT NULL,
+    organizer TEXT NOT NULL, block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS updates (
+    event_id INTEGER NOT NULL, title TEXT NOT NULL, start_time INTEGER NOT NULL, total_tickets INTEGER NOT NULL,
+    block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS cancellations (
+    event_id INTEGER NOT NULL, block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS grabs (
+    event_id INTEGER NOT NULL, ticket_id INTEGER NOT NULL, participant TEXT NOT NULL, remaining_tickets INTEGER NOT NULL,
+    tier_id INTEGER NOT NULL, block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS attempts (
+    event_id INTEGER NOT NULL, participant TEXT NOT NULL, result INTEGER NOT NULL, attempted_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS sellouts (
+    event_id INTEGER NOT NULL, block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS returns (
+    event_id INTEGER NOT NULL, ticket_id INTEGER NOT NULL, holder TEXT NOT NULL, block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS offers (
+    event_id INTEGER NOT NULL, participant TEXT NOT NULL, tier_id INTEGER NOT NULL, expires_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS offer_claims (
+    event_id INTEGER NOT NULL, participant TEXT NOT NULL, ticket_id INTEGER NOT NULL, block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS offer_expiries (
+    event_id INTEGER NOT NULL, participant TEXT NOT NULL, tier_id INTEGER NOT NULL, block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS transfers (
+    token_id INTEGER NOT NULL, from_address TEXT NOT NULL, to_address TEXT NOT NULL, block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, timestamp INTEGER NOT NULL, PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_organizer ON events (organizer);
+  CREATE INDEX IF NOT EXISTS updates_event ON updates (event_id);
+  CREATE INDEX IF NOT EXISTS grabs_event ON grabs (event_id);
+  CREATE INDEX IF NOT EXISTS grabs_ticket ON grabs (ticket_id);
+  CREATE INDEX IF NOT EXISTS attempts_event ON attempts (event_id);
+  CREATE INDEX IF NOT EXISTS attempts_participant ON attempts (participant);
+  CREATE INDEX IF NOT EXISTS returns_event ON returns (event_id);
+  CREATE INDEX IF NOT EXISTS offers_event ON offers (event_id);
+  CREATE INDEX IF NOT EXISTS offer_claims_event ON offer_claims (event_id);
+  CREATE INDEX IF NOT EXISTS offer_expiries_event ON offer_expiries (event_id);
+  CREATE INDEX IF NOT EXISTS transfers_from ON transfers (from_address);
+  CREATE INDEX IF NOT EXISTS transfers_to ON transfers (to_address);
+
+  -- Events with the details of their latest EventUpdated, so every read sees the current title, start and supply
+  CREATE VIEW IF NOT EXISTS current_events AS
+  SELECT e.event_id, COALESCE(u.title, e.title) AS title, COALESCE(u.start_time, e.start_time) AS start_time,
+    COALESCE(u.total_tickets, e.total_tickets) AS total_tickets, e.organizer, e.timestamp
+  FROM events e LEFT JOIN updates u ON u.event_id = e.event_id AND NOT EXISTS (
+    SELECT 1 FROM updates newer
+    WHERE newer.event_id = u.event_id AND (newer.block_number, newer.log_index) > (u.block_number, u.log_index)
+  );
+`;
+
+// Counters are computed per event from the log tables; a sold-out event may sell out more than once after returns.
+// Returned tickets are burns (returnTicket and the inherited burn both emit a Transfer to the zero address).
+// Their seats go back on sale unless offered to the waitlist, where they stay reserved until the offer is claimed
+// or expires; an offer expiring after cancellation leaves its seat off sale, like the contract does.
+const EVENT_SUMMARY = `
+  SELECT eventId, title, startTime, totalTickets, organizer, createdAt, ticketsGrabbed, ticketsReturned,
+    offersMade - offersClaimed - offersExpired AS reservedTickets,
+    totalTickets - ticketsGrabbed + ticketsReturned - (offersMade - offersClaimed - offersExpired) AS remainingTickets,
+    attempts, participants, soldOutAt, cancelledAt
+  FROM (
+    SELECT e.event_id AS eventId, e.title, e.start_time AS startTime, e.total_tickets AS totalTickets,
+      e.organizer, e.timestamp AS createdAt,
+      (SELECT COUNT(*) FROM grabs g WHERE g.event_id = e.event_id) AS ticketsGrabbed,
+      (SELECT COUNT(*) FROM transfers t JOIN grabs g ON g.ticket_id = t.token_id
+        WHERE g.event_id = e.event_id AND t.to_address = '${ZERO_ADDRESS}') AS ticketsReturned,
+      (SELECT COUNT(*) FROM offers o WHERE o.event_id = e.event_id) AS offersMade,
+      (SELECT COUNT(*) FROM offer_claims oc WHERE oc.event_id = e.event_id) AS offersClaimed,
+      (SELECT COUNT(*) FROM offer_expiries x WHERE x.event_id = e.event_id AND NOT EXISTS (
+        SELECT 1 FROM cancellations c
+        WHERE c.event_id = x.event_id AND (c.block_number, c.log_index) < (x.block_number, x.log_index)
+      )) AS offersExpired,
+      (SELECT COUNT(*) FROM attempts a WHERE a.event_id = e.event_id) AS attempts,
+      (SELECT COUNT(DISTINCT a.participant) FROM attempts a WHERE a.event_id = e.event_id) AS participants,
+      (SELECT MIN(s.timestamp) FROM sellouts s WHERE s.event_id = e.event_id) AS soldOutAt,
+      (SELECT MIN(c.timestamp) FROM cancellations c WHERE c.event_id = e.event_id) AS cancelledAt
+    FROM current_events e
+  )
+`;
+
+/**
+ * SQLite persistence for the indexer.
+ * Addresses are stored lowercased; ids, counts and timestamps fit comfortably in SQLite integers.
+ */
+export class IndexerStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * Clears all data when the store was built for another chain or contract,
+   * e.g. after the local hardhat node was restarted and the contract redeployed.
+   * @returns Whether previously indexed data was discarded
+   */
+  resetIfChanged(chainId: number, contract: string): boolean {
+    const key = `${SCHEMA_VERSION}:${chainId}:${contract.toLowerCase()}`;
+    const current = this.db.prepare("SELECT value FROM meta WHERE key = 'source'").get() as
+      { value: string } | undefined;
+    if (current?.value === key) return false;
+
+    this.db.transaction(() => {
+      for (const table of [...LOG_TABLES, "blocks"]) this.db.prepare(`DELETE FROM ${table}`).run();
+      this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('source', ?)").run(key);
+    })();
+    return !!current;
+  }
+
+  /**
+   * @returns The last indexed block, or undefined before the first sync
+   */
+  getHead(): BlockRecord | undefined {
+    return this.db.prepare("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT 1").get() as
+      BlockRecord | undefined;
+  }
+
+  /**
+   * @returns Stored block hashes, newest first, used to find the common ancestor after a reorg
+   */
+  getRecentBlocks(limit: number): BlockRecord[] {
+    return this.db
+      .prepare("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?")
+      .all(limit) as BlockRecord[];
+  }
+
+  /**
+   * Stores a synced block range atomically; `blocks` must include the last block of the range
+   */
+  apply(blocks: BlockRecord[], logs: IndexedLog[]) {
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+    const insertEvent = this.db.prepare(
+      "INSERT OR REPLACE INTO events VALUES (@eventId, @title, @startTime, @totalTickets, @organizer, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertUpdate = this.db.prepare(
+      "INSERT OR REPLACE INTO updates VALUES (@eventId, @title, @startTime, @totalTickets, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertCancellation = this.db.prepare(
+      "INSERT OR REPLACE INTO cancellations VALUES (@eventId, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertGrab = this.db.prepare(
+      "INSERT OR REPLACE INTO grabs VALUES (@eventId, @ticketId, @participant, @remainingTickets, @tierId, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertAttempt = this.db.prepare(
+      "INSERT OR REPLACE INTO attempts VALUES (@eventId, @participant, @result, @attemptedAt, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertSellout = this.db.prepare(
+      "INSERT OR REPLACE INTO sellouts VALUES (@eventId, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertReturn = this.db.prepare(
+      "INSERT OR REPLACE INTO returns VALUES (@eventId, @ticketId, @holder, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertOffer = this.db.prepare(
+      "INSERT OR REPLACE INTO offers VALUES (@eventId, @participant, @tierId, @expiresAt, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertOfferClaim = this.db.prepare(
+      "INSERT OR REPLACE INTO offer_claims VALUES (@eventId, @participant, @ticketId, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertOfferExpiry = this.db.prepare(
+      "INSERT OR REPLACE INTO offer_expiries VALUES (@eventId, @participant, @tierId, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+    const insertTransfer = this.db.prepare(
+      "INSERT OR REPLACE INTO transfers VALUES (@tokenId, @from, @to, @blockNumber, @logIndex, @txHash, @timestamp)",
+    );
+
+    this.db.transaction(() => {
+      for (const block of blocks) insertBlock.run(block.number, block.hash, block.timestamp);
+      for (const log of logs) {
+        switch (log.name) {
+          case "EventCreated":
+            insertEvent.run({ ...log, organizer: log.organizer.toLowerCase() });
+            break;
+          case "EventUpdated":
+            insertUpdate.run(log);
+            break;
+          case "EventCancelled":
+            insertCancellation.run(log);
+            break;
+          case "TicketGrabbed":
+            insertGrab.run({ ...log, participant: log.participant.toLowerCase() });
+            break;
+          case "AttemptRecorded":
+            insertAttempt.run({ ...log, participant: log.participant.toLowerCase() });
+            break;
+          case "EventSoldOut":
+            insertSellout.run(log);
+            break;
+          case "TicketReturned":
+            insertReturn.run({ ...log, holder: log.holder.toLowerCase() });
+            break;
+          case "WaitlistOffered":
+            insertOffer.run({ ...log, participant: log.participant.toLowerCase() });
+            break;
+          case "WaitlistOfferClaimed":
+            insertOfferClaim.run({ ...log, participant: log.participant.toLowerCase() });
+            break;
+          case "WaitlistOfferExpired":
+            insertOfferExpiry.run({ ...log, participant: log.participant.toLowerCase() });
+            break;
+          case "Transfer":
+            insertTransfer.run({ ...log, from: log.from.toLowerCase(), to: log.to.toLowerCase() });
+            break;
+        }
+      }
+    })();
+  }
+
+  /**
+   * Drops everything indexed after `blockNumber`, the last block still on the canonical chain
+   */
+  rollback(blockNumber: number) {
+    this.db.transaction(() => {
+      for (const table of LOG_TABLES) this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+    })();
+  }
+
+  /**
+   * Forgets block hashes below `blockNumber`; reorgs deeper than the kept range trigger a full resync
+   */
+  pruneBlocks(blockNumber: number) {
+    this.db.prepare("DELETE FROM blocks WHERE number < ?").run(blockNumber);
+  }
+
+  /**
+   * @param active - Only events that are not cancelled and still have tickets left
+   */
+  listEvents({
+    offset,
+    limit,
+    organizer,
+    active,
+  }: {
+    offset: number;
+    limit: number;
+    organizer?: string;
+    active?: boolean;
+  }) {
+    const filters = [
+      ...(organizer ? ["organizer = @organizer"] : []),
+      ...(active ? ["cancelledAt IS NULL", "remainingTickets > 0"] : []),
+    ];
+    const where = filters.length > 0 ? `WHERE ${filters.join(" AND ")}` : "";
+    const params = { offset, limit, organizer: organizer?.toLowerCase() };
+    const events = this.db
+      .prepare(`SELECT * FROM (${EVENT_SUMMARY}) ${where} ORDER BY eventId LIMIT @limit OFFSET @offset`)
+      .all(params) as EventSummary[];
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM (${EVENT_SUMMARY}) ${where}`).get(params) as {
+      total: number;
+    };
+    return { events, total };
+  }
+
+  getEvent(eventId: number): EventSummary | undefined {
+    return this.db.prepare(`${EVENT_SUMMARY} WHERE eventId = ?`).get(eventId) as EventSummary | undefined;
+  }
+
+  recentAttempts(eventId: number, limit: number): AttemptRow[] {
+    return this.db
+      .prepare(
+        `SELECT event_id AS eventId, participant, result, attempted_at AS attemptedAt, block_number AS blockNumber,
+          tx_hash AS txHash
+        FROM attempts WHERE event_id = ? ORDER BY block_number DESC, log_index DESC LIMIT ?`,
+      )
+      .all(eventId, limit) as AttemptRow[];
+  }
+
+  recentGrabs(eventId: number, limit: number): GrabRow[] {
+    return this.db
+      .prepare(
+        `SELECT event_id AS eventId, ticket_id AS ticketId, participant, tier_id AS tierId,
+          remaining_tickets AS remainingTickets, block_number AS blockNumber, tx_hash AS txHash, timestamp
+        FROM grabs WHERE event_id = ? ORDER BY block_number DESC, log_index DESC LIMIT ?`,
+      )
+      .all(eventId, limit) as GrabRow[];
+  }
+
+  recentReturns(eventId: number, limit: number): ReturnRow[] {
+    return this.db
+      .prepare(
+        `SELECT event_id AS eventId, ticket_id AS ticketId, holder, block_number AS blockNumber, tx_hash AS txHash,
+          timestamp
+        FROM returns WHERE event_id = ? ORDER BY block_number DESC, log_index DESC LIMIT ?`,
+      )
+      .all(eventId, limit) as ReturnRow[];
+  }
+
+  /**
+   * Participants ranked by when their first ticket for the event landed on-chain
+   */
+  leaderboard(eventId: number, limit: number): LeaderboardRow[] {
+    const rows = this.db
+      .prepare(
+        `SELECT g.participant, COUNT(*) AS tickets, MIN(g.timestamp) AS firstGrabAt,
+          MIN(g.timestamp) - MAX(e.start_time) AS secondsAfterStart, MIN(g.block_number) AS blockNumber
+        FROM grabs g JOIN current_events e ON e.event_id = g.event_id
+        WHERE g.event_id = ?
+        GROUP BY g.participant
+        ORDER BY MIN(g.block_number * 1000000 + g.log_index)
+        LIMIT ?`,
+      )
+      .all(eventId, limit) as Omit<LeaderboardRow, "rank">[];
+    return rows.map((row, index) => ({ rank: index + 1, ...row }));
+  }
+
+  userAttempts(address: string, limit: number): (AttemptRow & { eventTitle: string | null })[] {
+    return this.db
+      .prepare(
+        `SELECT a.event_id AS eventId, a.participant, a.result, a.attempted_at AS attemptedAt,
+          a.block_number AS blockNumber, a.tx_hash AS txHash, e.title AS eventTitle
+        FROM attempts a LEFT JOIN current_events e ON e.event_id = a.event_id
+        WHERE a.participant = ? ORDER BY a.block_number DESC, a.log_index DESC LIMIT ?`,
+      )
+      .all(address.toLowerCase(), limit) as (AttemptRow & { eventTitle: string | null })[];
+  }
+
+  userTransfers(address: string, limit: number): TransferRow[] {
+    return this.db
+      .prepare(
+        `SELECT token_id AS tokenId, from_address AS "from", to_address AS "to", block_number AS blockNumber,
+          tx_hash AS txHash, timestamp
+        FROM transfers WHERE from_address = @address OR to_address = @address
+        ORDER BY block_number DESC, log_index DESC LIMIT @limit`,
+      )
+      .all({ address: address.toLowerCase(), limit }) as TransferRow[];
+  }
+}
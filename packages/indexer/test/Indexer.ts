@@ -0,0 +1,331 @@
+import { expect } from "chai";
+import { Address, Hash, Log, encodeAbiParameters, encodeEventTopics, keccak256, parseAbi, toHex } from "viem";
+import { ChainReader, Indexer } from "../src/indexer";
+import { IndexerStore } from "../src/store";
+
+const abi = parseAbi([
+  "event EventCreated(uint256 indexed eventId, string title, uint256 startTime, uint256 totalTickets, address indexed organizer)",
+  "event EventUpdated(uint256 indexed eventId, string title, uint256 startTime, uint256 totalTickets)",
+  "event EventCancelled(uint256 indexed eventId)",
+  "event TicketGrabbed(uint256 indexed eventId, uint256 indexed ticketId, address indexed participant, uint256 remainingTickets, uint256 tierId)",
+  "event AttemptRecorded(uint256 indexed eventId, address indexed participant, uint8 result, uint256 timestamp)",
+  "event EventSoldOut(uint256 indexed eventId)",
+  "event TicketReturned(uint256 indexed eventId, uint256 indexed ticketId, address indexed holder)",
+  "event WaitlistOffered(uint256 indexed eventId, address indexed participant, uint256 tierId, uint256 expiresAt)",
+  "event WaitlistOfferClaimed(uint256 indexed eventId, address indexed participant, uint256 indexed ticketId)",
+  "event WaitlistOfferExpired(uint256 indexed eventId, address indexed participant, uint256 tierId)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+]);
+
+const contract: Address = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const organizer: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const alice: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const bob: Address = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+const zero: Address = "0x0000000000000000000000000000000000000000";
+
+type EventLog = { topics: [Hash, ...Hash[]]; data: Hash };
+
+const eventCreated = (eventId: bigint, startTime: bigint, totalTickets: bigint): EventLog => ({
+  topics: encodeEventTopics({ abi, eventName: "EventCreated", args: { eventId, organizer } }) as EventLog["topics"],
+  data: encodeAbiParameters(
+    [{ type: "string" }, { type: "uint256" }, { type: "uint256" }],
+    [`Event ${eventId}`, startTime, totalTickets],
+  ),
+});
+
+const eventUpdated = (eventId: bigint, title: string, startTime: bigint, totalTickets: bigint): EventLog => ({
+  topics: encodeEventTopics({ abi, eventName: "EventUpdated", args: { eventId } }) as EventLog["topics"],
+  data: encodeAbiParameters(
+    [{ type: "string" }, { type: "uint256" }, { type: "uint256" }],
+    [title, startTime, totalTickets],
+  ),
+});
+
+const eventCancelled = (eventId: bigint): EventLog => ({
+  topics: encodeEventTopics({ abi, eventName: "EventCancelled", args: { eventId } }) as EventLog["topics"],
+  data: "0x",
+});
+
+const ticketGrabbed = (eventId: bigint, ticketId: bigint, participant: Address, remaining: bigint): EventLog => ({
+  topics: encodeEventTopics({
+    abi,
+    eventName: "TicketGrabbed",
+    args: { eventId, ticketId, participant },
+  }) as EventLog["topics"],
+  data: encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [remaining, 0n]),
+});
+
+const attemptRecorded = (eventId: bigint, participant: Address, result: number): EventLog => ({
+  topics: encodeEventTopics({
+    abi,
+    eventName: "AttemptRecorded",
+    args: { eventId, participant },
+  }) as EventLog["topics"],
+  data: encodeAbiParameters([{ type: "uint8" }, { type: "uint256" }], [result, 0n]),
+});
+
+const eventSoldOut = (eventId: bigint): EventLog => ({
+  topics: encodeEventTopics({ abi, eventName: "EventSoldOut", args: { eventId } }) as EventLog["topics"],
+  data: "0x",
+});
+
+const ticketReturned = (eventId: bigint, ticketId: bigint, holder: Address): EventLog => ({
+  topics: encodeEventTopics({
+    abi,
+    eventName: "TicketReturned",
+    args: { eventId, ticketId, holder },
+  }) as EventLog["topics"],
+  data: "0x",
+});
+
+const waitlistOffered = (eventId: bigint, participant: Address): EventLog => ({
+  topics: encodeEventTopics({
+    abi,
+    eventName: "WaitlistOffered",
+    args: { eventId, participant },
+  }) as EventLog["topics"],
+  data: encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [0n, 5000n]),
+});
+
+const waitlistOfferClaimed = (eventId: bigint, participant: Address, ticketId: bigint): EventLog => ({
+  topics: encodeEventTopics({
+    abi,
+    eventName: "WaitlistOfferClaimed",
+    args: { eventId, participant, ticketId },
+  }) as EventLog["topics"],
+  data: "0x",
+});
+
+const waitlistOfferExpired = (eventId: bigint, participant: Address): EventLog => ({
+  topics: encodeEventTopics({
+    abi,
+    eventName: "WaitlistOfferExpired",
+    args: { eventId, participant },
+  }) as EventLog["topics"],
+  data: encodeAbiParameters([{ type: "uint256" }], [0n]),
+});
+
+const transfer = (from: Address, to: Address, tokenId: bigint): EventLog => ({
+  topics: encodeEventTopics({ abi, eventName: "Transfer", args: { from, to, tokenId } }) as EventLog["topics"],
+  data: "0x",
+});
+
+/**
+ * In-memory chain whose blocks can be replaced to simulate reorgs
+ */
+class ScriptedChain implements ChainReader {
+  blocks: { hash: Hash; timestamp: bigint; logs: EventLog[] }[] = [];
+
+  mine(logs: EventLog[] = [], fork = "") {
+    const number = this.blocks.length;
+    this.blocks.push({ hash: keccak256(toHex(`${fork}:${number}`)), timestamp: 1000n + BigInt(number) * 2n, logs });
+  }
+
+  // Replaces every block from `number` on with a fork, like a reorg would
+  reorg(number: number, forkBlocks: EventLog[][]) {
+    this.blocks = this.blocks.slice(0, number);
+    forkBlocks.forEach(logs => this.mine(logs, "fork"));
+  }
+
+  async getChainId() {
+    return 31337;
+  }
+
+  async getBlockNumber() {
+    return BigInt(this.blocks.length - 1);
+  }
+
+  async getBlock({ blockNumber }: { blockNumber: bigint }) {
+    const block = this.blocks[Number(blockNumber)];
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+    return { number: blockNumber, hash: block.hash, timestamp: block.timestamp };
+  }
+
+  async getLogs({ fromBlock, toBlock }: { address: Address; fromBlock: bigint; toBlock: bigint }): Promise<Log[]> {
+    const logs: Log[] = [];
+    let logIndex = 0;
+    for (let number = Number(fromBlock); number <= Number(toBlock); number++) {
+      const block = this.blocks[number];
+      block.logs.forEach((log, i) =>
+        logs.push({
+          ...log,
+          address: contract,
+          blockHash: block.hash,
+          blockNumber: BigInt(number),
+          logIndex: logIndex++,
+          transactionHash: keccak256(toHex(`${block.hash}:${i}`)),
+          transactionIndex: i,
+          removed: false,
+        }),
+      );
+    }
+    return logs;
+  }
+}
+
+describe("Indexer", function () {
+  let chain: ScriptedChain;
+  let store: IndexerStore;
+  let indexer: Indexer;
+
+  beforeEach(async () => {
+    chain = new ScriptedChain();
+    store = new IndexerStore(":memory:");
+    indexer = new Indexer(store, chain, { contract, abi, startBlock: 1n, batchSize: 2n });
+    await indexer.init();
+
+    chain.mine();
+    chain.mine([eventCreated(1n, 1002n, 2n)]);
+    chain.mine([attemptRecorded(1n, alice, 0), transfer(zero, alice, 1n), ticketGrabbed(1n, 1n, alice, 1n)]);
+    chain.mine([
+      attemptRecorded(1n, bob, 0),
+      transfer(zero, bob, 2n),
+      ticketGrabbed(1n, 2n, bob, 0n),
+      eventSoldOut(1n),
+      attemptRecorded(1n, alice, 1),
+    ]);
+  });
+
+  afterEach(() => store.close());
+
+  it("should index all tracked logs in batches", async () => {
+    expect(await indexer.sync()).to.equal(9);
+    expect(store.getHead()?.number).to.equal(3);
+
+    const event = store.getEvent(1)!;
+    expect(event.title).to.equal("Event 1");
+    expect(event.organizer).to.equal(organizer.toLowerCase());
+    expect(event.ticketsGrabbed).to.equal(2);
+    expect(event.attempts).to.equal(3);
+    expect(event.participants).to.equal(2);
+    expect(event.soldOutAt).to.equal(1006);
+
+    expect(await indexer.sync()).to.equal(0);
+  });
+
+  it("should rank participants by their first grab", async () => {
+    await indexer.sync();
+
+    const leaderboard = store.leaderboard(1, 10);
+    expect(leaderboard.map(row => row.participant)).to.deep.equal([alice.toLowerCase(), bob.toLowerCase()]);
+    expect(leaderboard[0]).to.include({ rank: 1, tickets: 1, secondsAfterStart: 2 });
+
+    const history = store.userAttempts(alice, 10);
+    expect(history.map(row => row.result)).to.deep.equal([1, 0]);
+    expect(history[0].eventTitle).to.equal("Event 1");
+    expect(store.userTransfers(bob, 10)[0]).to.include({ tokenId: 2, from: zero });
+  });
+
+  it("should serve the details of the latest update", async () => {
+    // Event 2 is moved from t=2000 to t=1010 with a larger supply before alice grabs at t=1012
+    chain.mine([eventCreated(2n, 2000n, 5n)]);
+    chain.mine([eventUpdated(2n, "Moved", 1010n, 8n)]);
+    chain.mine([attemptRecorded(2n, alice, 0), transfer(zero, alice, 3n), ticketGrabbed(2n, 3n, alice, 7n)]);
+    await indexer.sync();
+
+    expect(store.getEvent(2)).to.include({ title: "Moved", startTime: 1010, totalTickets: 8, remainingTickets: 7 });
+    expect(store.listEvents({ offset: 0, limit: 10 }).events[1].title).to.equal("Moved");
+    expect(store.leaderboard(2, 10)[0]).to.include({ secondsAfterStart: 2 });
+    expect(store.userAttempts(alice, 10)[0].eventTitle).to.equal("Moved");
+
+    // Rolling back the update restores the created details
+    chain.reorg(5, [[], []]);
+    await indexer.sync();
+    expect(store.getEvent(2)).to.include({ title: "Event 2", startTime: 2000, totalTickets: 5 });
+  });
+
+  it("should mark cancelled events and leave them out of the active list", async () => {
+    chain.mine([eventCreated(2n, 2000n, 5n), eventCreated(3n, 2000n, 5n)]);
+    chain.mine([eventCancelled(2n)]);
+    await indexer.sync();
+
+    expect(store.getEvent(2)!.cancelledAt).to.equal(1010);
+    expect(store.getEvent(3)!.cancelledAt).to.equal(null);
+    const active = store.listEvents({ offset: 0, limit: 10, active: true });
+    expect(active.events.map(event => event.eventId)).to.deep.equal([3]);
+    expect(active.total).to.equal(1);
+    expect(store.listEvents({ offset: 0, limit: 10 }).total).to.equal(3);
+  });
+
+  it("should put returned and burned tickets back on sale", async () => {
+    // Alice returns ticket 1, bob burns ticket 2 without going through returnTicket
+    chain.mine([transfer(alice, zero, 1n), ticketReturned(1n, 1n, alice)]);
+    chain.mine([transfer(bob, zero, 2n)]);
+    await indexer.sync();
+
+    expect(store.getEvent(1)).to.include({ ticketsGrabbed: 2, ticketsReturned: 2, remainingTickets: 2 });
+    expect(store.listEvents({ offset: 0, limit: 10, active: true }).total).to.equal(1);
+    const returns = store.recentReturns(1, 10);
+    expect(returns).to.have.length(1);
+    expect(returns[0]).to.include({ ticketId: 1, holder: alice.toLowerCase(), blockNumber: 4, timestamp: 1008 });
+    expect(store.userTransfers(bob, 10)[0]).to.include({ tokenId: 2, to: zero });
+  });
+
+  it("should keep seats offered to the waitlist off sale until the offer is resolved", async () => {
+    const carol: Address = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+    const dave: Address = "0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc";
+    // Alice's returned ticket goes to carol, who lets the offer expire; it passes on to dave, who claims it
+    chain.mine([transfer(alice, zero, 1n), waitlistOffered(1n, carol), ticketReturned(1n, 1n, alice)]);
+    await indexer.sync();
+    expect(store.getEvent(1)).to.include({ ticketsReturned: 1, reservedTickets: 1, remainingTickets: 0 });
+    expect(store.listEvents({ offset: 0, limit: 10, active: true }).total).to.equal(0);
+
+    chain.mine([waitlistOfferExpired(1n, carol), waitlistOffered(1n, dave)]);
+    await indexer.sync();
+    expect(store.getEvent(1)).to.include({ reservedTickets: 1, remainingTickets: 0 });
+
+    chain.mine([
+      attemptRecorded(1n, dave, 0),
+      transfer(zero, dave, 3n),
+      ticketGrabbed(1n, 3n, dave, 0n),
+      waitlistOfferClaimed(1n, dave, 3n),
+    ]);
+    await indexer.sync();
+    expect(store.getEvent(1)).to.include({ ticketsGrabbed: 3, reservedTickets: 0, remainingTickets: 0 });
+
+    // Bob's seat finds nobody waiting and goes back on sale once the last offer expires unclaimed
+    chain.mine([transfer(bob, zero, 2n), waitlistOffered(1n, carol), ticketReturned(1n, 2n, bob)]);
+    chain.mine([waitlistOfferExpired(1n, carol)]);
+    await indexer.sync();
+    expect(store.getEvent(1)).to.include({ reservedTickets: 0, remainingTickets: 1 });
+  });
+
+  it("should not put a seat back on sale when its offer expires after cancellation", async () => {
+    const carol: Address = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+    chain.mine([transfer(alice, zero, 1n), waitlistOffered(1n, carol), ticketReturned(1n, 1n, alice)]);
+    chain.mine([eventCancelled(1n)]);
+    chain.mine([waitlistOfferExpired(1n, carol)]);
+    await indexer.sync();
+
+    expect(store.getEvent(1)!.remainingTickets).to.equal(0);
+  });
+
+  it("should roll back logs from orphaned blocks", async () => {
+    await indexer.sync();
+
+    // Block 3 is replaced: bob's grab never happened, carol's did
+    const carol: Address = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+    chain.reorg(3, [[attemptRecorded(1n, carol, 0), transfer(zero, carol, 2n), ticketGrabbed(1n, 2n, carol, 0n)], []]);
+
+    expect(await indexer.sync()).to.equal(3);
+    expect(store.getHead()?.number).to.equal(4);
+    expect(store.recentGrabs(1, 10).map(row => row.participant)).to.deep.equal([
+      carol.toLowerCase(),
+      alice.toLowerCase(),
+    ]);
+    expect(store.getEvent(1)!.soldOutAt).to.equal(null);
+    expect(store.userAttempts(bob, 10)).to.have.length(0);
+  });
+
+  it("should reindex when the chain is shorter than the store", async () => {
+    await indexer.sync();
+
+    // A restarted local node starts over from scratch
+    chain.reorg(1, [[eventCreated(1n, 2000n, 5n)]]);
+
+    await indexer.sync();
+    expect(store.getHead()?.number).to.equal(1);
+    expect(store.getEvent(1)!.totalTickets).to.equal(5);
+    expect(store.recentGrabs(1, 10)).to.have.length(0);
+  });
+});
@@ -0,0 +1,15 @@
+import { createServerPresenceTransport } from "~~/services/presence/server";
+import { createPresenceWriteHandler } from "~~/services/presence/writeHandler";
+
+const transport = createServerPresenceTransport();
+const handleWrite = transport ? createPresenceWriteHandler(transport) : null;
+
+/**
+ * Signed "正在抢票" writes from useGrabbingSync, see services/presence/writeHandler.ts
+ */
+export async function POST(request: Request) {
+  if (!handleWrite) {
+    return Response.json({ error: "Presence writes are not configured on this server" }, { status: 503 });
+  }
+  return handleWrite(request);
+}
@@ -2,13 +2,32 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { Hex } from "viem";
 import { useAccount, usePublicClient } from "wagmi";
-import { ArrowLeftIcon, CalendarIcon, CheckIcon, ClipboardDocumentIcon, TicketIcon } from "@heroicons/react/24/outline";
+import {
+  ArrowLeftIcon,
+  CalendarIcon,
+  CheckIcon,
+  ClipboardDocumentIcon,
+  PlusIcon,
+  TicketIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
 import { TransactionStatsDisplay } from "~~/components/TransactionStats";
 import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
 import { useTransactionHistory } from "~~/hooks/useTransactionHistory";
+import { AllocationMode, getAllocationModeLabel } from "~~/types/ticket-engine";
 import { TransactionRecord } from "~~/types/transaction";
 import { notification } from "~~/utils/scaffold-eth";
+import {
+  MAX_TIERS,
+  TierFormValues,
+  generateRaffleSeed,
+  saveRaffleSeed,
+  validateEventForm,
+} from "~~/utils/ticket-engine";
+
+const emptyTier = (name = ""): TierFormValues => ({ name, supply: "", price: "" });
 
 type TxStats = {
   confirmTime: number;
@@ -29,11 +48,29 @@ export default function CreateEventPage() {
 
   const [title, setTitle] = useState("");
   const [startDateTime, setStartDateTime] = useState("");
-  const [totalTickets, setTotalTickets] = useState("");
+  const [tiers, setTiers] = useState<TierFormValues[]>([emptyTier("普通票")]);
+  const [maxPerAddress, setMaxPerAddress] = useState("1");
+  const [mode, setMode] = useState<AllocationMode>(AllocationMode.FirstCome);
+  const [registrationEndDateTime, setRegistrationEndDateTime] = useState("");
+  const [raffleSeed, setRaffleSeed] = useState<Hex | null>(null);
   const [createdEventId, setCreatedEventId] = useState<bigint | null>(null);
   const [copied, setCopied] = useState(false);
   const [txStats, setTxStats] = useState<TxStats>(null);
 
+  const updateTier = (index: number, field: keyof TierFormValues, value: string) => {
+    setTiers(current => current.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const handleModeChange = (option: AllocationMode) => {
+    setMode(option);
+    // Raffle events have a single tier, and its name is not shown
+    if (option === AllocationMode.Raffle) {
+      setTiers(current => [{ ...current[0], name: current[0].name || "普通票" }]);
+    }
+  };
+
+  const totalTickets = tiers.reduce((sum, tier) => sum + (parseInt(tier.supply) || 0), 0);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -47,30 +84,37 @@ export default function CreateEventPage() {
       return;
     }
 
-    if (!title.trim()) {
-      notification.error("请输入活动标题");
-      return;
-    }
-
-    const startTime = Math.floor(new Date(startDateTime).getTime() / 1000);
-    if (startTime <= Math.floor(Date.now() / 1000)) {
-      notification.error("开始时间必须在未来");
-      return;
-    }
-
-    const tickets = parseInt(totalTickets);
-    if (isNaN(tickets) || tickets <= 0) {
-      notification.error("请输入有效的票数");
+    const { data: form, error } = validateEventForm({
+      title,
+      startDateTime,
+      tiers,
+      maxPerAddress,
+      mode,
+      registrationEndDateTime,
+    });
+    if (!form) {
+      notification.error(error);
       return;
     }
 
     let txHash: string | undefined;
 
     try {
-      txHash = await writeContractAsync({
-        functionName: "createEvent",
-        args: [title.trim(), BigInt(startTime), BigInt(tickets)],
-      });
+      if (mode === AllocationMode.Raffle) {
+        // Commit to a fresh seed now; the organizer reveals it after registration closes
+        const { seed, commitment } = generateRaffleSeed();
+        saveRaffleSeed(commitment, seed);
+        txHash = await writeContractAsync({
+          functionName: "createRaffleEvent",
+          args: [form.title, form.startTime, form.registrationEnd, form.totalTickets, commitment, form.tiers[0].price],
+        });
+        setRaffleSeed(seed);
+      } else {
+        txHash = await writeContractAsync({
+          functionName: "createTieredEvent",
+          args: [form.title, form.startTime, form.maxPerAddress, form.tiers],
+        });
+      }
 
       // Start timing AFTER MetaMask confirmation (after writeContractAsync returns)
       const txStartTime = Date.now();
@@ -92,7 +136,7 @@ export default function CreateEventPage() {
             hash: txHash,
             type: "create",
             eventId: nextEventId?.toString(),
-            eventTitle: title.trim(),
+            eventTitle: form.title,
             userAddress: address,
             success: true,
             confirmTime,
@@ -150,6 +194,16 @@ export default function CreateEventPage() {
             </div>
           )}
 
+          {raffleSeed && (
+            <div className="bg-warning/10 border border-warning/30 rounded-lg p-4 mb-6">
+              <label className="text-sm font-medium block mb-2">抽签种子（请妥善保存）</label>
+              <div className="font-mono text-xs break-all mb-2">{raffleSeed}</div>
+              <p className="text-xs text-base-content/70">
+                报名截止后需用此种子开奖。种子已保存在当前浏览器，更换设备时需手动输入。
+              </p>
+            </div>
+          )}
+
           <div className="bg-base-200/50 rounded-lg p-4 mb-6">
             <label className="text-sm text-base-content/70 block mb-2">活动链接</label>
             <div className="flex gap-2">
@@ -219,34 +273,154 @@ export default function CreateEventPage() {
                 required
               />
               <label className="label">
-                <span className="label-text-alt text-base-content/50">到达此时间后，用户可以开始抢票</span>
+                <span className="label-text-alt text-base-content/50">
+                  {mode === AllocationMode.Raffle ? "到达此时间后，用户可以开始报名" : "到达此时间后，用户可以开始抢票"}
+                </span>
+              </label>
+            </div>
+
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text font-medium">分配方式 *</span>
               </label>
+              <div className="join w-full">
+                {[AllocationMode.FirstCome, AllocationMode.Raffle].map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    className={`btn join-item flex-1 ${mode === option ? "btn-primary" : "btn-outline"}`}
+                    onClick={() => handleModeChange(option)}
+                  >
+                    {getAllocationModeLabel(option)}
+                  </button>
+                ))}
+              </div>
             </div>
 
+            {mode === AllocationMode.Raffle && (
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium flex items-center gap-1">
+                    <CalendarIcon className="h-4 w-4" />
+                    报名截止时间 *
+                  </span>
+                </label>
+                <input
+                  type="datetime-local"
+                  className="input input-bordered w-full"
+                  value={registrationEndDateTime}
+                  onChange={e => setRegistrationEndDateTime(e.target.value)}
+                  min={startDateTime || minDateTime}
+                  required
+                />
+                <label className="label">
+                  <span className="label-text-alt text-base-content/50">截止后由你公布种子开奖，中签者领取门票</span>
+                </label>
+              </div>
+            )}
+
             <div className="form-control">
               <label className="label">
                 <span className="label-text font-medium flex items-center gap-1">
                   <TicketIcon className="h-4 w-4" />
-                  总票数 *
+                  票档 *
                 </span>
+                <span className="label-text-alt text-base-content/50">共 {totalTickets} 张</span>
+              </label>
+              <div className="space-y-2">
+                {tiers.map((tier, index) => (
+                  <div key={index} className="flex gap-2 items-center">
+                    {mode === AllocationMode.FirstCome && (
+                      <input
+                        type="text"
+                        placeholder="名称，如 VIP"
+                        className="input input-bordered input-sm flex-1 min-w-0"
+                        value={tier.name}
+                        onChange={e => updateTier(index, "name", e.target.value)}
+                        maxLength={32}
+                        required
+                      />
+                    )}
+                    <input
+                      type="number"
+                      placeholder="票数"
+                      className="input input-bordered input-sm w-24"
+                      value={tier.supply}
+                      onChange={e => updateTier(index, "supply", e.target.value)}
+                      min={1}
+                      max={10000}
+                      required
+                    />
+                    <input
+                      type="number"
+                      placeholder="票价 MON，0 为免费"
+                      className="input input-bordered input-sm flex-1 min-w-0"
+                      value={tier.price}
+                      onChange={e => updateTier(index, "price", e.target.value)}
+                      min={0}
+                      step="any"
+                    />
+                    {tiers.length > 1 && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-sm btn-square"
+                        onClick={() => setTiers(current => current.filter((_, i) => i !== index))}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {mode === AllocationMode.FirstCome && tiers.length < MAX_TIERS && (
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-sm gap-1 self-start mt-2"
+                  onClick={() => setTiers(current => [...current, emptyTier()])}
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  添加票档
+                </button>
+              )}
+              <label className="label">
+                <span className="label-text-alt text-base-content/50">票款由合约托管，活动开始 7 天后可提取</span>
               </label>
-              <input
-                type="number"
-                placeholder="例如：100"
-                className="input input-bordered w-full"
-                value={totalTickets}
-                onChange={e => setTotalTickets(e.target.value)}
-                min={1}
-                max={10000}
-                required
-              />
             </div>
 
+            {mode === AllocationMode.FirstCome && (
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium">每人限购 *</span>
+                </label>
+                <input
+                  type="number"
+                  placeholder="例如：1"
+                  className="input input-bordered w-full"
+                  value={maxPerAddress}
+                  onChange={e => setMaxPerAddress(e.target.value)}
+                  min={1}
+                  max={totalTickets || undefined}
+                  required
+                />
+                <label className="label">
+                  <span className="label-text-alt text-base-content/50">同一地址最多可持有的票数，团购可适当调高</span>
+                </label>
+              </div>
+            )}
+
             <div className="bg-base-200/50 rounded-lg p-4">
-              <h3 className="font-medium mb-2">规则（V1 固定）</h3>
+              <h3 className="font-medium mb-2">规则</h3>
               <ul className="text-sm text-base-content/70 space-y-1">
-                <li>• 先到先得</li>
-                <li>• 每个参与者最多 1 张</li>
+                <li>
+                  • {mode === AllocationMode.Raffle ? "报名抽签，创建时提交种子承诺，截止后公布种子开奖" : "先到先得"}
+                </li>
+                <li>• 每个参与者最多 {mode === AllocationMode.Raffle ? 1 : maxPerAddress || 1} 张</li>
+                {tiers.map((tier, index) => (
+                  <li key={index}>
+                    • {mode === AllocationMode.FirstCome ? tier.name || "未命名票档" : "票价"}：
+                    {tier.price && parseFloat(tier.price) > 0 ? `${tier.price} MON` : "免费"}
+                  </li>
+                ))}
               </ul>
             </div>
 
@@ -1,183 +1,304 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { formatEther } from "viem";
 import {
   ArrowPathIcon,
   BoltIcon,
   ChartBarIcon,
+  CubeIcon,
+  DocumentArrowUpIcon,
   PlayIcon,
   StopIcon,
   TicketIcon,
   TrophyIcon,
   UserGroupIcon,
 } from "@heroicons/react/24/outline";
+import { ClassCaptureReport, ReplayControls, ScenarioEditor, TpsChart } from "~~/components/demo";
+import { useReplayPlayback, useSaleReplay } from "~~/hooks/useSaleReplay";
+import { LoadTestOutcome, LoadTestReport, getLoadTestOutcomeLabel, isLoadTestReport } from "~~/types/loadTest";
+import { AttemptResult } from "~~/types/ticket-engine";
+import {
+  ClassStats,
+  SIMULATION_PRESETS,
+  SimulatedParticipant,
+  SimulationConfig,
+  getClassCaptureReport,
+  getReplayFrame,
+  getTotalUsers,
+  getTpsSeries,
+  runSimulation,
+} from "~~/utils/demo";
 
 // ============ Types ============
-interface Participant {
-  id: number;
-  address: string;
-  success: boolean;
-  confirmTime: number;
-  gasCost: bigint;
-  timestamp: number;
-  ticketNumber?: number;
+interface Participant extends Omit<SimulatedParticipant, "classId" | "attempt"> {
+  classId?: string; // simulated attempts only
+  attempt?: number;
+  outcome?: LoadTestOutcome; // replayed load test and chain attempts only
+  blockNumber?: bigint; // replayed chain attempts only, shown instead of the confirm time
 }
 
 interface Winner {
   address: string;
   ticketNumber: number;
   confirmTime: number;
-  timestamp: number;
+  blockNumber?: bigint;
 }
 
 // ============ Constants ============
-const TOTAL_USERS = 10000;
-const TOTAL_TICKETS = 100;
-const MONAD_TPS = 10000;
-const AVG_CONFIRM_TIME = 400;
-const CONFIRM_TIME_VARIANCE = 200;
-const AVG_GAS_COST = 42000000000000n;
-const GAS_VARIANCE = 10000000000000n;
-
-const generateAddress = (seed: number): string => {
-  const chars = "0123456789abcdef";
-  let addr = "0x";
-  let hash = seed;
-  for (let i = 0; i < 40; i++) {
-    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
-    addr += chars[hash % 16];
-  }
-  return addr;
-};
-
-const USER_ADDRESSES = Array.from({ length: TOTAL_USERS }, (_, i) => generateAddress(i + 1000));
+const DEFAULT_PRESET = SIMULATION_PRESETS[0];
+
+const REPLAY_TICK_MS = 50;
+
+// Written by `yarn load-test`
+const LATEST_LOAD_TEST_URL = "/load-tests/latest.json";
 
 // ============ Main Component ============
 export default function DemoPage() {
   const [isRunning, setIsRunning] = useState(false);
-  const [remainingTickets, setRemainingTickets] = useState(TOTAL_TICKETS);
+  const [config, setConfig] = useState<SimulationConfig>(DEFAULT_PRESET.config);
+  const [presetId, setPresetId] = useState<string | null>(DEFAULT_PRESET.id);
+  const [remainingTickets, setRemainingTickets] = useState(DEFAULT_PRESET.config.tickets);
   const [processedUsers, setProcessedUsers] = useState(0);
+  const [processedAttempts, setProcessedAttempts] = useState(0);
+  const [classStats, setClassStats] = useState<Record<string, ClassStats> | null>(null);
+  // Config of the run on screen, the editor may have moved on since
+  const [runConfig, setRunConfig] = useState<SimulationConfig>(DEFAULT_PRESET.config);
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [winners, setWinners] = useState<Winner[]>([]);
   const [currentTps, setCurrentTps] = useState(0);
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [report, setReport] = useState<LoadTestReport | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [chainEventInput, setChainEventInput] = useState("");
+  const [chainEventId, setChainEventId] = useState<bigint>();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
-  const tpsWindowRef = useRef<number[]>([]);
   const winnersRef = useRef<Winner[]>([]);
-  const ticketCounterRef = useRef<number>(1);
 
-  const reset = useCallback(() => {
+  const saleReplay = useSaleReplay(chainEventId);
+  const playback = useReplayPlayback(saleReplay.timeline);
+  const isChainReplay = chainEventId !== undefined;
+  const chainFrame = useMemo(
+    () => (isChainReplay ? getReplayFrame(saleReplay.timeline, playback.blockCount) : null),
+    [isChainReplay, saleReplay.timeline, playback.blockCount],
+  );
+  const chainTotals = useMemo(
+    () => getReplayFrame(saleReplay.timeline, saleReplay.timeline.blocks.length),
+    [saleReplay.timeline],
+  );
+  const tpsSeries = useMemo(() => getTpsSeries(saleReplay.timeline), [saleReplay.timeline]);
+  const chainTickets = Number(saleReplay.totalTickets ?? 0n);
+
+  const stop = useCallback(() => {
     setIsRunning(false);
-    setRemainingTickets(TOTAL_TICKETS);
-    setProcessedUsers(0);
-    setParticipants([]);
-    setWinners([]);
-    setCurrentTps(0);
-    setElapsedTime(0);
-    tpsWindowRef.current = [];
-    winnersRef.current = [];
-    ticketCounterRef.current = 1;
     if (intervalRef.current) {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
   }, []);
 
-  const generateParticipant = useCallback((userId: number, ticketsLeft: number): Participant => {
-    const success = ticketsLeft > 0 && Math.random() < 0.02;
-    const confirmTime = Math.round(AVG_CONFIRM_TIME + (Math.random() - 0.5) * 2 * CONFIRM_TIME_VARIANCE);
-    const gasVariance = BigInt(Math.floor((Math.random() - 0.5) * 2 * Number(GAS_VARIANCE)));
-    const gasCost = AVG_GAS_COST + gasVariance;
-    const address = USER_ADDRESSES[userId % USER_ADDRESSES.length];
-
-    const participant: Participant = {
-      id: userId,
-      address,
-      success,
-      confirmTime,
-      gasCost,
-      timestamp: Date.now(),
-    };
-
-    if (success) {
-      participant.ticketNumber = ticketCounterRef.current++;
-      const winner: Winner = {
-        address,
-        ticketNumber: participant.ticketNumber,
-        confirmTime,
-        timestamp: Date.now(),
-      };
-      winnersRef.current = [...winnersRef.current, winner];
+  const reset = useCallback(() => {
+    stop();
+    setRemainingTickets(config.tickets);
+    setProcessedUsers(0);
+    setProcessedAttempts(0);
+    setClassStats(null);
+    setParticipants([]);
+    setWinners([]);
+    setCurrentTps(0);
+    setElapsedTime(0);
+    winnersRef.current = [];
+  }, [stop, config.tickets]);
+
+  // Newest confirmations first
+  const showConfirmed = useCallback((confirmed: Participant[], newWinners: Winner[]) => {
+    setParticipants(prev => [...[...confirmed].reverse().slice(0, 20), ...prev].slice(0, 100));
+    if (newWinners.length > 0) {
+      winnersRef.current = [...winnersRef.current, ...newWinners];
+      setWinners(winnersRef.current);
     }
-
-    return participant;
   }, []);
 
+  // Renders one engine frame per tick; the run itself is fully determined by the scenario config
   const startSimulation = useCallback(() => {
     reset();
+    setReport(null);
     setIsRunning(true);
-    startTimeRef.current = Date.now();
-
-    let ticketsLeft = TOTAL_TICKETS;
-    let usersProcessed = 0;
+    setRunConfig(config);
 
+    const frames = runSimulation(config);
     intervalRef.current = setInterval(() => {
-      const now = Date.now();
-      const elapsed = now - startTimeRef.current;
-      setElapsedTime(elapsed);
-
-      const batchSize = Math.min(Math.floor(MONAD_TPS / 20), TOTAL_USERS - usersProcessed);
-
-      if (batchSize <= 0 || usersProcessed >= TOTAL_USERS) {
-        setIsRunning(false);
-        setWinners([...winnersRef.current]);
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
+      const { value: frame } = frames.next();
+      if (!frame) return stop();
+
+      setElapsedTime(frame.elapsedMs);
+      setProcessedUsers(frame.processedUsers);
+      setProcessedAttempts(frame.processedAttempts);
+      setRemainingTickets(frame.remainingTickets);
+      setCurrentTps(frame.tps);
+      setClassStats(frame.classes);
+      showConfirmed(
+        frame.confirmed,
+        frame.confirmed.flatMap(p => (p.ticketNumber !== undefined ? [winnerOf(p, p.ticketNumber)] : [])),
+      );
+      if (frame.done) stop();
+    }, config.tickMs);
+  }, [reset, stop, showConfirmed, config]);
+
+  const selectPreset = (id: string) => {
+    const preset = SIMULATION_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    setConfig(preset.config);
+    setRemainingTickets(preset.config.tickets);
+  };
+
+  const editConfig = (edited: SimulationConfig) => {
+    setPresetId(null);
+    setConfig(edited);
+    if (processedAttempts === 0) setRemainingTickets(edited.tickets);
+  };
+
+  // Replays a real load test in real time: attempts appear when they were confirmed
+  const startReplay = useCallback(
+    (loaded: LoadTestReport) => {
+      reset();
+      setIsRunning(true);
+      startTimeRef.current = Date.now();
+
+      const attempts = [...loaded.attempts].sort((a, b) => a.confirmedAtMs - b.confirmedAtMs);
+      let cursor = 0;
+      let ticketsGranted = 0;
+
+      intervalRef.current = setInterval(() => {
+        const elapsed = Date.now() - startTimeRef.current;
+        setElapsedTime(Math.min(elapsed, loaded.summary.durationMs));
+
+        const newParticipants: Participant[] = [];
+        const newWinners: Winner[] = [];
+        while (cursor < attempts.length && attempts[cursor].confirmedAtMs <= elapsed) {
+          const attempt = attempts[cursor];
+          const ticketNumbers = attempt.ticketIds.map(Number);
+          const participant: Participant = {
+            id: cursor,
+            address: attempt.account,
+            submittedAtMs: attempt.sentAtMs,
+            confirmedAtMs: attempt.confirmedAtMs,
+            confirmTime: attempt.latencyMs,
+            success: attempt.outcome === "Success",
+            gasCost: BigInt(attempt.gasCost),
+            ticketNumber: ticketNumbers[0],
+            outcome: attempt.outcome,
+          };
+          newParticipants.push(participant);
+          // Multi-ticket grabs list every ticket
+          newWinners.push(...ticketNumbers.map(ticketNumber => winnerOf(participant, ticketNumber)));
+          ticketsGranted += ticketNumbers.length;
+          cursor++;
         }
+
+        setProcessedUsers(cursor);
+        setProcessedAttempts(cursor);
+        setRemainingTickets(Math.max(0, loaded.config.tickets - ticketsGranted));
+        setCurrentTps(attempts.filter(a => a.confirmedAtMs > elapsed - 1000 && a.confirmedAtMs <= elapsed).length);
+        showConfirmed(newParticipants, newWinners);
+
+        if (cursor >= attempts.length) stop();
+      }, REPLAY_TICK_MS);
+    },
+    [reset, stop, showConfirmed],
+  );
+
+  const loadReport = useCallback(
+    (data: unknown) => {
+      if (!isLoadTestReport(data)) {
+        setReportError("不是有效的压测报告");
         return;
       }
+      setReportError(null);
+      setReport(data);
+      startReplay(data);
+    },
+    [startReplay],
+  );
 
-      const newParticipants: Participant[] = [];
-      for (let i = 0; i < batchSize; i++) {
-        if (ticketsLeft <= 0) {
-          const address = USER_ADDRESSES[(usersProcessed + i) % USER_ADDRESSES.length];
-          const confirmTime = Math.round(AVG_CONFIRM_TIME + (Math.random() - 0.5) * 2 * CONFIRM_TIME_VARIANCE);
-          const gasVariance = BigInt(Math.floor((Math.random() - 0.5) * 2 * Number(GAS_VARIANCE)));
-          newParticipants.push({
-            id: usersProcessed + i,
-            address,
-            success: false,
-            confirmTime,
-            gasCost: AVG_GAS_COST + gasVariance,
-            timestamp: Date.now(),
-          });
-        } else {
-          const participant = generateParticipant(usersProcessed + i, ticketsLeft);
-          if (participant.success) {
-            ticketsLeft--;
-          }
-          newParticipants.push(participant);
-        }
+  const loadLatestReport = async () => {
+    try {
+      const response = await fetch(LATEST_LOAD_TEST_URL, { cache: "no-store" });
+      if (!response.ok) {
+        setReportError("还没有压测报告，请先运行 yarn load-test");
+        return;
       }
+      loadReport(await response.json());
+    } catch {
+      setReportError("读取压测报告失败");
+    }
+  };
+
+  const loadReportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      loadReport(JSON.parse(await file.text()));
+    } catch {
+      setReportError("无法解析报告文件");
+    }
+  };
 
-      usersProcessed += batchSize;
-      setProcessedUsers(usersProcessed);
-      setRemainingTickets(ticketsLeft);
-      setParticipants(prev => [...newParticipants.slice(-20), ...prev].slice(0, 100));
-      setWinners([...winnersRef.current]);
+  // Replays a real sale from its logs, the playback position decides how many blocks are on screen
+  const startChainReplay = () => {
+    if (!/^\d+$/.test(chainEventInput.trim())) {
+      setReportError("请输入有效的活动 ID");
+      return;
+    }
+    reset();
+    setReport(null);
+    setReportError(null);
+    playback.rewind();
+    setChainEventId(BigInt(chainEventInput.trim()));
+  };
+
+  const exitChainReplay = () => {
+    playback.rewind();
+    setChainEventId(undefined);
+    reset();
+  };
 
-      tpsWindowRef.current.push(batchSize);
-      if (tpsWindowRef.current.length > 20) {
-        tpsWindowRef.current.shift();
-      }
-      const avgTps = tpsWindowRef.current.reduce((a, b) => a + b, 0) * 20;
-      setCurrentTps(avgTps);
-    }, 50);
-  }, [reset, generateParticipant]);
+  useEffect(() => {
+    if (!chainFrame) return;
+    setElapsedTime(chainFrame.elapsedMs);
+    setProcessedUsers(chainFrame.uniqueParticipants);
+    setProcessedAttempts(chainFrame.processedAttempts);
+    setRemainingTickets(Math.max(0, chainTickets - chainFrame.ticketsSold));
+    setCurrentTps(chainFrame.tps);
+    setParticipants(
+      chainFrame.entries
+        .map((entry, i) => ({
+          id: i,
+          address: entry.participant,
+          submittedAtMs: 0,
+          confirmedAtMs: 0,
+          confirmTime: 0,
+          success: entry.ticketIds.length > 0,
+          gasCost: 0n,
+          ticketNumber: entry.ticketIds.length > 0 ? Number(entry.ticketIds[0]) : undefined,
+          outcome: AttemptResult[entry.result] as LoadTestOutcome,
+          blockNumber: entry.blockNumber,
+        }))
+        .slice(-100)
+        .reverse(),
+    );
+    winnersRef.current = chainFrame.winners.map(winner => ({
+      address: winner.participant,
+      ticketNumber: Number(winner.ticketId),
+      confirmTime: 0,
+      blockNumber: winner.blockNumber,
+    }));
+    setWinners(winnersRef.current);
+  }, [chainFrame, chainTickets]);
 
   useEffect(() => {
     return () => {
@@ -192,7 +313,18 @@ export default function DemoPage() {
       ? Math.round(participants.reduce((sum, p) => sum + p.confirmTime, 0) / participants.length)
       : 0;
 
-  const isComplete = processedUsers > 0 && !isRunning;
+  const isComplete = processedUsers > 0 && !isRunning && !isChainReplay;
+  const isLive = isRunning || playback.isPlaying;
+  const totalUsers = isChainReplay
+    ? chainTotals.uniqueParticipants
+    : report
+      ? report.attempts.length
+      : getTotalUsers(config);
+  const totalTickets = isChainReplay ? chainTickets : report ? report.config.tickets : config.tickets;
+  const avgGasCost =
+    report && report.attempts.length > 0
+      ? report.attempts.reduce((sum, a) => sum + BigInt(a.gasCost), 0n) / BigInt(report.attempts.length)
+      : runConfig.gasCost.mean;
 
   return (
     <div className="min-h-screen p-4 md:p-8 bg-gradient-to-br from-base-200 to-base-300">
@@ -202,7 +334,13 @@ export default function DemoPage() {
           <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-violet-500 to-purple-500 bg-clip-text text-transparent">
             Monad 性能压力测试
           </h1>
-          <p className="text-base-content/70">模拟 10,000 人同时抢 100 张票的极端场景</p>
+          <p className="text-base-content/70">
+            {isChainReplay
+              ? `回放链上活动 #${chainEventId}${saleReplay.title ? `「${saleReplay.title}」` : ""}：${chainTotals.processedAttempts.toLocaleString()} 次尝试抢 ${chainTickets} 张票`
+              : report
+                ? `回放真实压测：${report.config.accounts.toLocaleString()} 个账户抢 ${report.config.tickets} 张票（链 ${report.chainId}）`
+                : `模拟 ${totalUsers.toLocaleString()} 人抢 ${config.tickets} 张票的极端场景`}
+          </p>
         </div>
 
         {/* Stats Bar */}
@@ -211,14 +349,14 @@ export default function DemoPage() {
             icon={<UserGroupIcon className="h-6 w-6" />}
             label="参与人数"
             value={`${processedUsers.toLocaleString()}`}
-            subValue={`/ ${TOTAL_USERS.toLocaleString()}`}
+            subValue={`/ ${totalUsers.toLocaleString()}`}
             color="text-blue-500"
           />
           <StatCard
             icon={<TicketIcon className="h-6 w-6" />}
             label="剩余票数"
             value={remainingTickets.toString()}
-            subValue={`/ ${TOTAL_TICKETS}`}
+            subValue={`/ ${totalTickets}`}
             color="text-green-500"
             highlight={remainingTickets === 0}
           />
@@ -249,47 +387,145 @@ export default function DemoPage() {
           <div className="flex justify-between text-sm mb-2">
             <span className="font-semibold">抢票进度</span>
             <span className="text-base-content/70">
-              {TOTAL_TICKETS - remainingTickets} / {TOTAL_TICKETS} 张已售出
+              {totalTickets - remainingTickets} / {totalTickets} 张已售出
             </span>
           </div>
           <div className="w-full bg-base-200 rounded-full h-3 overflow-hidden">
             <div
               className="h-full bg-gradient-to-r from-green-500 to-emerald-500 transition-all duration-100"
-              style={{ width: `${((TOTAL_TICKETS - remainingTickets) / TOTAL_TICKETS) * 100}%` }}
+              style={{ width: `${totalTickets > 0 ? ((totalTickets - remainingTickets) / totalTickets) * 100 : 0}%` }}
             />
           </div>
         </div>
 
         {/* Control Button */}
-        <div className="flex justify-center gap-4 mb-6">
-          {!isRunning ? (
-            <button onClick={startSimulation} className="btn btn-primary btn-lg gap-2 px-8">
-              <PlayIcon className="h-6 w-6" />
-              开始测试
-            </button>
-          ) : (
-            <button onClick={() => setIsRunning(false)} className="btn btn-error btn-lg gap-2 px-8">
-              <StopIcon className="h-6 w-6" />
-              停止测试
+        {isChainReplay ? (
+          <>
+            <ReplayControls
+              mode={playback.mode}
+              isPlaying={playback.isPlaying}
+              speed={playback.speed}
+              position={playback.position}
+              max={playback.max}
+              label={
+                playback.mode === "time"
+                  ? `${(playback.position / 1000).toFixed(1)}s / ${(playback.max / 1000).toFixed(1)}s`
+                  : `区块 ${playback.blockCount} / ${playback.max}${chainFrame?.block ? ` · #${chainFrame.block.blockNumber}` : ""}`
+              }
+              onModeChange={playback.setMode}
+              onPlayPause={playback.togglePlay}
+              onSpeedChange={playback.setSpeed}
+              onSeek={playback.seek}
+            />
+            {saleReplay.isLoading ? (
+              <p className="text-center text-sm text-base-content/70 mb-6">正在读取链上日志...</p>
+            ) : saleReplay.error ? (
+              <p className="text-center text-sm text-error mb-6">读取链上日志失败</p>
+            ) : saleReplay.timeline.blocks.length === 0 ? (
+              <p className="text-center text-sm text-base-content/70 mb-6">该活动还没有链上抢票记录</p>
+            ) : (
+              <TpsChart series={tpsSeries} cursor={chainFrame?.block ? chainFrame.elapsedMs / 1000 : -1} />
+            )}
+          </>
+        ) : (
+          <div className="flex justify-center gap-4 mb-6">
+            {!isRunning ? (
+              <button
+                onClick={report ? () => startReplay(report) : startSimulation}
+                className="btn btn-primary btn-lg gap-2 px-8"
+              >
+                <PlayIcon className="h-6 w-6" />
+                {report ? "回放压测" : "开始测试"}
+              </button>
+            ) : (
+              <button onClick={stop} className="btn btn-error btn-lg gap-2 px-8">
+                <StopIcon className="h-6 w-6" />
+                停止测试
+              </button>
+            )}
+            {(processedUsers > 0 || participants.length > 0) && (
+              <button onClick={reset} className="btn btn-ghost btn-lg gap-2">
+                <ArrowPathIcon className="h-6 w-6" />
+                重置
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Load Test Report */}
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-6">
+          <button
+            onClick={loadLatestReport}
+            className="btn btn-sm btn-outline gap-1"
+            disabled={isRunning || isChainReplay}
+          >
+            <DocumentArrowUpIcon className="h-4 w-4" />
+            加载最新压测报告
+          </button>
+          <label className={`btn btn-sm btn-ghost ${isRunning || isChainReplay ? "btn-disabled" : ""}`}>
+            选择报告文件
+            <input type="file" accept="application/json" className="hidden" onChange={loadReportFile} />
+          </label>
+          {report && (
+            <button
+              onClick={() => {
+                reset();
+                setReport(null);
+              }}
+              className="btn btn-sm btn-ghost"
+              disabled={isRunning}
+            >
+              返回模拟
             </button>
           )}
-          {(processedUsers > 0 || participants.length > 0) && (
-            <button onClick={reset} className="btn btn-ghost btn-lg gap-2">
-              <ArrowPathIcon className="h-6 w-6" />
-              重置
+          <div className="join">
+            <input
+              type="text"
+              inputMode="numeric"
+              className="input input-bordered input-sm join-item w-24"
+              placeholder="活动 ID"
+              value={chainEventInput}
+              onChange={e => setChainEventInput(e.target.value)}
+              disabled={isRunning}
+            />
+            <button onClick={startChainReplay} className="btn btn-sm btn-outline join-item gap-1" disabled={isRunning}>
+              <CubeIcon className="h-4 w-4" />
+              回放链上活动
+            </button>
+          </div>
+          {isChainReplay && (
+            <button onClick={exitChainReplay} className="btn btn-sm btn-ghost">
+              返回模拟
             </button>
           )}
+          {reportError && <span className="text-sm text-error w-full text-center">{reportError}</span>}
         </div>
 
+        {isChainReplay ? null : report ? (
+          <LoadTestSummaryPanel report={report} />
+        ) : (
+          <ScenarioEditor
+            config={config}
+            presetId={presetId}
+            disabled={isRunning}
+            onPresetChange={selectPreset}
+            onChange={editConfig}
+          />
+        )}
+
+        {!report && !isChainReplay && classStats && (
+          <ClassCaptureReport rows={getClassCaptureReport(runConfig, classStats)} />
+        )}
+
         {/* Two Panels */}
         <div className="grid md:grid-cols-2 gap-6">
           {/* Left Panel - Live Transaction Feed */}
           <div className="bg-base-100 rounded-2xl shadow-xl overflow-hidden">
             <div className="bg-gradient-to-r from-blue-500 to-cyan-500 p-4">
               <h3 className="font-bold text-lg text-white flex items-center gap-2">
-                <span className={`w-3 h-3 rounded-full ${isRunning ? "bg-white animate-pulse" : "bg-white/50"}`} />
+                <span className={`w-3 h-3 rounded-full ${isLive ? "bg-white animate-pulse" : "bg-white/50"}`} />
                 实时交易流
-                <span className="badge badge-ghost ml-auto">已处理 {processedUsers.toLocaleString()} 笔</span>
+                <span className="badge badge-ghost ml-auto">已处理 {processedAttempts.toLocaleString()} 笔</span>
               </h3>
             </div>
             <div className="p-4 h-[500px] overflow-y-auto">
@@ -302,7 +538,7 @@ export default function DemoPage() {
                 <div className="space-y-2">
                   {participants.map((p, index) => (
                     <div
-                      key={`${p.id}-${p.timestamp}`}
+                      key={`${p.id}-${p.attempt ?? 1}`}
                       className={`flex items-center justify-between p-3 rounded-lg text-sm ${
                         p.success ? "bg-success/10 border border-success/30" : "bg-base-200/50"
                       } ${index === 0 ? "ring-2 ring-primary animate-pulse" : ""}`}
@@ -312,14 +548,26 @@ export default function DemoPage() {
                         <span className="font-mono text-xs">
                           {p.address.slice(0, 8)}...{p.address.slice(-6)}
                         </span>
+                        {p.classId && runConfig.classes.length > 1 && (
+                          <span className="badge badge-ghost badge-xs">
+                            {runConfig.classes.find(c => c.id === p.classId)?.label}
+                          </span>
+                        )}
+                        {p.attempt !== undefined && p.attempt > 1 && (
+                          <span className="text-xs text-base-content/40">第 {p.attempt} 次</span>
+                        )}
                       </div>
                       <div className="flex items-center gap-3">
                         {p.success ? (
                           <span className="badge badge-success badge-sm">#{p.ticketNumber}</span>
                         ) : (
-                          <span className="text-base-content/40 text-xs">未中签</span>
+                          <span className="text-base-content/40 text-xs">
+                            {p.outcome ? getLoadTestOutcomeLabel(p.outcome) : "未中签"}
+                          </span>
                         )}
-                        <span className="font-mono text-xs text-base-content/50">{p.confirmTime}ms</span>
+                        <span className="font-mono text-xs text-base-content/50">
+                          {p.blockNumber !== undefined ? `区块 #${p.blockNumber}` : `${p.confirmTime}ms`}
+                        </span>
                       </div>
                     </div>
                   ))}
@@ -335,7 +583,7 @@ export default function DemoPage() {
                 <TrophyIcon className="h-6 w-6" />
                 抢到票的钱包
                 <span className="badge badge-ghost ml-auto">
-                  {winners.length} / {TOTAL_TICKETS}
+                  {winners.length} / {totalTickets}
                 </span>
               </h3>
             </div>
@@ -356,7 +604,9 @@ export default function DemoPage() {
                         <span className="bg-gradient-to-r from-yellow-500 to-orange-500 text-white text-xs font-bold px-2 py-1 rounded">
                           #{winner.ticketNumber}
                         </span>
-                        <span className="text-xs text-base-content/50">{winner.confirmTime}ms</span>
+                        <span className="text-xs text-base-content/50">
+                          {winner.blockNumber !== undefined ? `区块 #${winner.blockNumber}` : `${winner.confirmTime}ms`}
+                        </span>
                       </div>
                       <div className="font-mono text-xs text-base-content/70">
                         {winner.address.slice(0, 8)}...{winner.address.slice(-6)}
@@ -379,7 +629,7 @@ export default function DemoPage() {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                 <div className="bg-base-100/50 rounded-xl p-4">
                   <div className="text-sm text-base-content/70">处理交易数</div>
-                  <div className="text-2xl font-bold font-mono text-primary">{processedUsers.toLocaleString()}</div>
+                  <div className="text-2xl font-bold font-mono text-primary">{processedAttempts.toLocaleString()}</div>
                 </div>
                 <div className="bg-base-100/50 rounded-xl p-4">
                   <div className="text-sm text-base-content/70">总耗时</div>
@@ -398,7 +648,7 @@ export default function DemoPage() {
               </div>
               <p className="text-base-content/70">
                 Monad 以 <span className="font-bold text-primary">{avgConfirmTime}ms</span> 的平均确认时间，
-                <span className="font-bold text-primary">{formatEther(AVG_GAS_COST)} MON</span> 的超低 Gas
+                <span className="font-bold text-primary">{formatEther(avgGasCost)} MON</span> 的超低 Gas
                 费用，轻松应对万人抢票场景
               </p>
             </div>
@@ -416,6 +666,12 @@ export default function DemoPage() {
   );
 }
 
+const winnerOf = (participant: Participant, ticketNumber: number): Winner => ({
+  address: participant.address,
+  ticketNumber,
+  confirmTime: participant.confirmTime,
+});
+
 // ============ Helper Components ============
 function StatCard({
   icon,
@@ -443,3 +699,76 @@ function StatCard({
     </div>
   );
 }
+
+function LoadTestSummaryPanel({ report }: { report: LoadTestReport }) {
+  const { summary } = report;
+  const outcomes = Object.entries(summary.outcomes) as [LoadTestOutcome, number][];
+
+  return (
+    <div className="bg-base-100 rounded-2xl shadow-xl p-4 mb-6">
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-4">
+        <h3 className="font-bold text-lg">压测报告</h3>
+        <span className="text-xs text-base-content/50 font-mono">
+          {new Date(report.generatedAt).toLocaleString()} · 活动 #{report.eventId} · {report.config.waves} 波 ·{" "}
+          {report.config.waveIntervalMs}ms 间隔
+        </span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <StatCard
+          icon={<BoltIcon className="h-6 w-6" />}
+          label="实测吞吐"
+          value={summary.throughputTps.toLocaleString()}
+          subValue="tx/s"
+          color="text-orange-500"
+        />
+        <StatCard
+          icon={<ChartBarIcon className="h-6 w-6" />}
+          label="确认延迟 p50 / p90 / p99"
+          value={`${summary.latencyMs.p50} / ${summary.latencyMs.p90} / ${summary.latencyMs.p99}`}
+          subValue="ms"
+          color="text-green-500"
+        />
+        <StatCard
+          icon={<TicketIcon className="h-6 w-6" />}
+          label="售罄用时"
+          value={summary.soldOutAtMs !== null ? (summary.soldOutAtMs / 1000).toFixed(2) : "未售罄"}
+          subValue={summary.soldOutAtMs !== null ? "秒" : undefined}
+          color="text-blue-500"
+        />
+        <StatCard
+          icon={<UserGroupIcon className="h-6 w-6" />}
+          label="打包区块数"
+          value={summary.blocks.toLocaleString()}
+          color="text-purple-500"
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>结果</th>
+              <th className="text-right">次数</th>
+              <th className="text-right">占比</th>
+              <th className="text-right">平均 Gas</th>
+              <th className="text-right">总 Gas 费用</th>
+            </tr>
+          </thead>
+          <tbody>
+            {outcomes.map(([outcome, count]) => {
+              const gas = summary.gasPerOutcome[outcome];
+              return (
+                <tr key={outcome}>
+                  <td>{getLoadTestOutcomeLabel(outcome)}</td>
+                  <td className="text-right font-mono">{count}</td>
+                  <td className="text-right font-mono">{((count / summary.attempts) * 100).toFixed(1)}%</td>
+                  <td className="text-right font-mono">{gas ? Number(gas.avgGasUsed).toLocaleString() : "-"}</td>
+                  <td className="text-right font-mono">{gas ? formatEther(BigInt(gas.totalGasCost)) : "-"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Address, AddressInput } from "@scaffold-ui/components";
+import { isAddress } from "viem";
+import { useAccount } from "wagmi";
+import {
+  ArrowLeftIcon,
+  CheckBadgeIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  PhotoIcon,
+  QrCodeIcon,
+  UserPlusIcon,
+} from "@heroicons/react/24/outline";
+import { useCheckIn, useTicketVerification } from "~~/hooks/useCheckIn";
+import { useEvent } from "~~/hooks/useTicketEngine";
+import { EventStatus } from "~~/types/ticket-engine";
+import { notification } from "~~/utils/scaffold-eth";
+import { TicketPayload, parseTicketPayload } from "~~/utils/ticket-engine";
+
+// Shape-detection API, available in Chromium based browsers only; Safari and Firefox fall back to pasting
+type BarcodeDetectorLike = { detect: (image: ImageBitmap) => Promise<{ rawValue: string }[]> };
+type BarcodeDetectorConstructor = {
+  new (options: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats?: () => Promise<string[]>;
+};
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  typeof window !== "undefined"
+    ? (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    : undefined;
+
+export default function CheckInPage() {
+  const params = useParams();
+  const router = useRouter();
+  const eventId = BigInt(params.id as string);
+
+  const { address } = useAccount();
+  const { event } = useEvent(eventId);
+  const { isOperator, setOperator, checkIn, isMining } = useCheckIn(eventId);
+
+  const [payloadInput, setPayloadInput] = useState("");
+  const [scanned, setScanned] = useState<TicketPayload | null>(null);
+  const [operatorInput, setOperatorInput] = useState("");
+  // Unknown until checked on the client, so server and first client render agree
+  const [canScanImage, setCanScanImage] = useState<boolean>();
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) {
+      setCanScanImage(false);
+      return;
+    }
+    if (!Detector.getSupportedFormats) {
+      setCanScanImage(true);
+      return;
+    }
+    Detector.getSupportedFormats()
+      .then(formats => setCanScanImage(formats.includes("qr_code")))
+      .catch(() => setCanScanImage(false));
+  }, []);
+
+  const verification = useTicketVerification(scanned?.ticketId);
+
+  const isOrganizer = !!address && !!event && address.toLowerCase() === event.organizer.toLowerCase();
+  const canCheckIn = isOrganizer || isOperator;
+
+  const handleVerify = (payload: string) => {
+    const parsed = parseTicketPayload(payload);
+    if (!parsed) {
+      notification.error("无法识别的票据内容");
+      setScanned(null);
+      return;
+    }
+    setScanned(parsed);
+  };
+
+  const handleImage = async (file: File | undefined) => {
+    const Detector = getBarcodeDetector();
+    if (!file) return;
+    if (!Detector) {
+      notification.error("当前浏览器无法识别二维码图片，请粘贴扫码结果");
+      return;
+    }
+    try {
+      const codes = await new Detector({ formats: ["qr_code"] }).detect(await createImageBitmap(file));
+      if (codes.length === 0) {
+        notification.error("图片中未找到二维码");
+        return;
+      }
+      setPayloadInput(codes[0].rawValue);
+      handleVerify(codes[0].rawValue);
+    } catch (error) {
+      console.error("QR decode error:", error);
+      notification.error("二维码识别失败");
+    }
+  };
+
+  const handleCheckIn = async () => {
+    if (!scanned) return;
+    try {
+      await checkIn(scanned.ticketId);
+      await verification.refetch();
+      notification.success(`票号 #${scanned.ticketId} 检票成功`);
+    } catch (error) {
+      console.error("Check-in error:", error);
+    }
+  };
+
+  const handleSetOperator = async (allowed: boolean) => {
+    if (!isAddress(operatorInput)) {
+      notification.error("请输入有效的地址");
+      return;
+    }
+    try {
+      await setOperator(operatorInput, allowed);
+      notification.success(allowed ? "已添加检票员" : "已移除检票员");
+      setOperatorInput("");
+    } catch (error) {
+      console.error("Set check-in operator error:", error);
+    }
+  };
+
+  if (!event) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <span className="loading loading-spinner loading-lg text-primary"></span>
+      </div>
+    );
+  }
+
+  const isWrongEvent = verification.eventId !== undefined && verification.exists && verification.eventId !== eventId;
+  const isUsed = verification.checkedInAt > 0n;
+  const isCancelled = event.status === EventStatus.Cancelled;
+  const tier = verification.tierId !== undefined ? event.tiers[verification.tierId] : undefined;
+
+  const renderVerdict = () => {
+    if (!scanned) return null;
+    if (verification.isLoading) {
+      return (
+        <div className="flex justify-center py-6">
+          <span className="loading loading-spinner loading-md text-primary"></span>
+        </div>
+      );
+    }
+
+    const problem = !verification.exists
+      ? "票据不存在或已被退回"
+      : isWrongEvent
+        ? `该票属于活动 #${verification.eventId?.toString()}，不是本活动`
+        : scanned.eventId !== undefined && scanned.eventId !== eventId
+          ? `票据内容指向活动 #${scanned.eventId.toString()}`
+          : isCancelled
+            ? "活动已取消，门票已作废"
+            : isUsed
+              ? `已于 ${new Date(Number(verification.checkedInAt) * 1000).toLocaleString("zh-CN")} 检票`
+              : null;
+
+    return (
+      <div
+        className={`p-4 rounded-xl border space-y-3 ${problem ? "bg-error/10 border-error/30" : "bg-success/10 border-success/30"}`}
+      >
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">票号 #{scanned.ticketId.toString()}</span>
+          <span className={`badge ${problem ? "badge-error" : "badge-success"}`}>{problem ? "无效" : "有效"}</span>
+        </div>
+        {verification.holder && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-base-content/70">持有人</span>
+            <Address address={verification.holder} />
+          </div>
+        )}
+        {tier && !isWrongEvent && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-base-content/70">票档</span>
+            <span>{tier.name}</span>
+          </div>
+        )}
+        {problem ? (
+          <div className="text-sm flex items-start gap-2">
+            <ExclamationTriangleIcon className="h-5 w-5 text-error shrink-0" />
+            {problem}
+          </div>
+        ) : (
+          <button className="btn btn-success w-full gap-2" onClick={handleCheckIn} disabled={isMining}>
+            {isMining ? (
+              <span className="loading loading-spinner"></span>
+            ) : (
+              <>
+                <CheckBadgeIcon className="h-5 w-5" />
+                确认检票
+              </>
+            )}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-base-200/30">
+      <div className="max-w-lg mx-auto">
+        <button onClick={() => router.back()} className="btn btn-ghost btn-sm gap-2 mb-6">
+          <ArrowLeftIcon className="h-4 w-4" />
+          返回
+        </button>
+
+        <div className="bg-base-100 rounded-2xl p-6 shadow-xl border border-base-200 mb-6">
+          <h1 className="text-2xl font-bold mb-1 flex items-center gap-2">
+            <QrCodeIcon className="h-6 w-6 text-primary" />
+            检票
+          </h1>
+          <p className="text-base-content/70 mb-6">{event.title}</p>
+
+          {!canCheckIn ? (
+            <div className="alert alert-warning">
+              <span>只有主办方或其指定的检票员可以检票</span>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium">票号或二维码内容</span>
+                </label>
+                <textarea
+                  className="textarea textarea-bordered w-full font-mono"
+                  rows={3}
+                  placeholder="粘贴票号、扫码结果或票据链接"
+                  value={payloadInput}
+                  onChange={e => setPayloadInput(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <button className="btn btn-primary flex-1" onClick={() => handleVerify(payloadInput)}>
+                  验票
+                </button>
+                {canScanImage && (
+                  <label className="btn btn-outline gap-2">
+                    <PhotoIcon className="h-5 w-5" />
+                    识别二维码图片
+                    <input
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      className="hidden"
+                      onChange={e => handleImage(e.target.files?.[0])}
+                    />
+                  </label>
+                )}
+              </div>
+              {canScanImage === false && (
+                <div className="text-sm text-base-content/70 flex items-start gap-2">
+                  <InformationCircleIcon className="h-5 w-5 shrink-0" />
+                  当前浏览器不支持识别二维码图片，请用手机相机或扫码工具扫描票据二维码，再将识别结果粘贴到上方输入框
+                </div>
+              )}
+
+              {renderVerdict()}
+            </div>
+          )}
+        </div>
+
+        {isOrganizer && (
+          <div className="bg-base-100 rounded-2xl p-6 shadow-xl border border-base-200">
+            <h2 className="font-semibold mb-4 flex items-center gap-2">
+              <UserPlusIcon className="h-5 w-5" />
+              检票员
+            </h2>
+            <div className="space-y-3">
+              <AddressInput placeholder="检票员地址" value={operatorInput} onChange={setOperatorInput} />
+              <div className="flex gap-2">
+                <button
+                  className="btn btn-primary btn-sm flex-1"
+                  onClick={() => handleSetOperator(true)}
+                  disabled={isMining}
+                >
+                  添加
+                </button>
+                <button
+                  className="btn btn-ghost btn-sm flex-1"
+                  onClick={() => handleSetOperator(false)}
+                  disabled={isMining}
+                >
+                  移除
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { ArrowLeftIcon, CalendarIcon, PencilSquareIcon, TicketIcon } from "@heroicons/react/24/outline";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useAllowlist } from "~~/hooks/useAllowlist";
+import { useChainClock } from "~~/hooks/useChainClock";
+import { useRaffle } from "~~/hooks/useRaffle";
+import { useEvent } from "~~/hooks/useTicketEngine";
+import { AllocationMode, EventStatus, formatTicketPrice, getAllocationModeLabel } from "~~/types/ticket-engine";
+import { notification } from "~~/utils/scaffold-eth";
+import { toDateTimeLocal, validateEventForm } from "~~/utils/ticket-engine";
+
+export default function EditEventPage() {
+  const params = useParams();
+  const router = useRouter();
+  const eventId = BigInt(params.id as string);
+
+  const { address } = useAccount();
+  const { event, refetch } = useEvent(eventId);
+  const isRaffle = event?.mode === AllocationMode.Raffle;
+  const { raffle } = useRaffle(eventId, isRaffle);
+  const { presale } = useAllowlist(eventId);
+  const { now } = useChainClock();
+  const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+
+  const [title, setTitle] = useState("");
+  const [startDateTime, setStartDateTime] = useState("");
+  const [tierSupplies, setTierSupplies] = useState<string[]>([]);
+  const [initialized, setInitialized] = useState(false);
+
+  // Prefill the form once the event has loaded
+  useEffect(() => {
+    if (!event || initialized) return;
+    setTitle(event.title);
+    setStartDateTime(toDateTimeLocal(event.startTime));
+    setTierSupplies(event.tiers.map(tier => tier.supply.toString()));
+    setInitialized(true);
+  }, [event, initialized]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!event) return;
+
+    if (!address) {
+      notification.error("请先连接钱包");
+      return;
+    }
+
+    // Fields that cannot be edited are validated with their current on-chain values
+    const { data: form, error } = validateEventForm({
+      title,
+      startDateTime,
+      tiers: event.tiers.map((tier, index) => ({
+        name: tier.name,
+        supply: tierSupplies[index] ?? "",
+        price: formatEther(tier.price),
+      })),
+      maxPerAddress: event.maxPerAddress.toString(),
+      mode: event.mode,
+      registrationEndDateTime: raffle ? toDateTimeLocal(raffle.registrationEnd) : "",
+    });
+    if (!form) {
+      notification.error(error);
+      return;
+    }
+
+    try {
+      await writeContractAsync({
+        functionName: "updateEvent",
+        args: [eventId, form.title, form.startTime, form.tiers.map(tier => tier.supply)],
+      });
+      await refetch();
+      notification.success("活动已更新");
+      router.push(`/event/${eventId}`);
+    } catch (error) {
+      console.error("Update event error:", error);
+      notification.error("更新失败，请重试");
+    }
+  };
+
+  if (!event) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <span className="loading loading-spinner loading-lg text-primary"></span>
+      </div>
+    );
+  }
+
+  const isOrganizer = !!address && address.toLowerCase() === event.organizer.toLowerCase();
+  // Presale grabs issue tickets before the start time, so updateEvent rejects edits once the presale opens
+  const isPresaleOpen = !!presale && now >= presale.startTime;
+  const isEditable = event.status === EventStatus.NotStarted && !isPresaleOpen;
+  const minDateTime = new Date(Date.now() + 60000).toISOString().slice(0, 16);
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-base-200/30">
+      <div className="max-w-lg mx-auto">
+        <button onClick={() => router.back()} className="btn btn-ghost btn-sm gap-2 mb-6">
+          <ArrowLeftIcon className="h-4 w-4" />
+          返回
+        </button>
+
+        <div className="bg-base-100 rounded-2xl p-6 shadow-xl border border-base-200">
+          <h1 className="text-2xl font-bold mb-6 flex items-center gap-2">
+            <PencilSquareIcon className="h-6 w-6 text-primary" />
+            编辑活动
+          </h1>
+
+          {!isOrganizer ? (
+            <div className="alert alert-warning">
+              <span>只有主办方可以编辑此活动</span>
+            </div>
+          ) : !isEditable ? (
+            <div className="alert alert-warning">
+              <span>{isPresaleOpen ? "预售开始后无法再编辑" : "活动开始后无法再编辑"}</span>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium">活动标题 *</span>
+                </label>
+                <input
+                  type="text"
+                  className="input input-bordered w-full"
+                  value={title}
+                  onChange={e => setTitle(e.target.value)}
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium flex items-center gap-1">
+                    <CalendarIcon className="h-4 w-4" />
+                    开始时间 *
+                  </span>
+                </label>
+                <input
+                  type="datetime-local"
+                  className="input input-bordered w-full"
+                  value={startDateTime}
+                  onChange={e => setStartDateTime(e.target.value)}
+                  min={minDateTime}
+                  required
+                />
+                {raffle && (
+                  <label className="label">
+                    <span className="label-text-alt text-base-content/50">
+                      需早于报名截止时间 {new Date(Number(raffle.registrationEnd) * 1000).toLocaleString("zh-CN")}
+                    </span>
+                  </label>
+                )}
+              </div>
+
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium flex items-center gap-1">
+                    <TicketIcon className="h-4 w-4" />
+                    各票档票数 *
+                  </span>
+                </label>
+                <div className="space-y-2">
+                  {event.tiers.map((tier, index) => (
+                    <div key={tier.id} className="flex gap-2 items-center">
+                      <span className="flex-1 text-sm">
+                        {tier.name} · {formatTicketPrice(tier.price)}
+                      </span>
+                      <input
+                        type="number"
+                        className="input input-bordered input-sm w-28"
+                        value={tierSupplies[index] ?? ""}
+                        onChange={e =>
+                          setTierSupplies(current =>
+                            current.map((supply, i) => (i === index ? e.target.value : supply)),
+                          )
+                        }
+                        min={1}
+                        max={10000}
+                        required
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-base-200/50 rounded-lg p-4">
+                <h3 className="font-medium mb-2">不可修改</h3>
+                <ul className="text-sm text-base-content/70 space-y-1">
+                  <li>• 分配方式：{getAllocationModeLabel(event.mode)}</li>
+                  <li>• 每人限购：{event.maxPerAddress.toString()} 张</li>
+                  <li>• 票档名称与票价</li>
+                </ul>
+              </div>
+
+              <button type="submit" className="btn btn-primary w-full btn-lg" disabled={isMining}>
+                {isMining ? (
+                  <>
+                    <span className="loading loading-spinner"></span>
+                    保存中...
+                  </>
+                ) : (
+                  "保存修改"
+                )}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,26 +10,53 @@ import {
   BoltIcon,
   CheckCircleIcon,
   ClockIcon,
+  PencilSquareIcon,
+  QrCodeIcon,
   TicketIcon,
   TrophyIcon,
   UserGroupIcon,
 } from "@heroicons/react/24/outline";
-import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import {
+  CancellationPanel,
+  LeaderboardPanel,
+  PreflightConfirmModal,
+  ProceedsPanel,
+  RafflePanel,
+  WaitlistPanel,
+} from "~~/components/ticket-engine";
+import { useDeployedContractInfo, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useAllowlist } from "~~/hooks/useAllowlist";
+import { useChainClock } from "~~/hooks/useChainClock";
 import { useGrabbingSync } from "~~/hooks/useGrabbingSync";
-import { useEvent, useHasTicket, useRecentTickets } from "~~/hooks/useTicketEngine";
+import { useLiveSale } from "~~/hooks/useLiveSale";
+import { getEventStatusFromData, useHasTicket } from "~~/hooks/useTicketEngine";
 import { useTransactionHistory } from "~~/hooks/useTransactionHistory";
-import { AttemptResult, EventStatus, getStatusColor, getStatusLabel } from "~~/types/ticket-engine";
+import {
+  AllocationMode,
+  AttemptResult,
+  EventStatus,
+  TicketTier,
+  formatPriceRange,
+  formatTicketPrice,
+  getAttemptResultLabel,
+  getStatusColor,
+  getStatusLabel,
+} from "~~/types/ticket-engine";
 import { TransactionRecord } from "~~/types/transaction";
 import { notification } from "~~/utils/scaffold-eth";
+import { GrabPreflight, decodeGrabReceipt, simulateGrab } from "~~/utils/ticket-engine";
 
 type GrabResult = {
   success: boolean;
-  result: AttemptResult;
-  ticketId?: bigint;
+  result?: AttemptResult;
+  ticketIds?: readonly bigint[];
   confirmTime?: number;
   gasCost?: string;
+  amountPaid?: string;
 } | null;
 
+const RECONCILE_INTERVAL_MS = 15_000;
+
 export default function EventDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -37,16 +64,15 @@ export default function EventDetailPage() {
 
   const { address } = useAccount();
   const publicClient = usePublicClient();
-  const { event, refetch } = useEvent(eventId);
-  const { hasTicket, ticketId } = useHasTicket(eventId, address);
-  // Get more recent tickets for the winners panel
-  const { recentTickets, refetch: refetchRecent } = useRecentTickets(eventId, 100n);
+  // Remaining tickets and the winners panel follow TicketGrabbed / EventSoldOut logs
+  const { event, recentTickets, refetch, refetchRecent, refetchAll } = useLiveSale(eventId, 100n);
+  const { hasTicket, ticketCount, ticketIds } = useHasTicket(eventId, address);
   // Real-time grabbing sync via Supabase
   const { grabbingList, startGrabbing, endGrabbing } = useGrabbingSync(eventId.toString());
   const { transactions, addTransaction } = useTransactionHistory();
 
   // Filter out winners from grabbing list
-  const winnersSet = new Set(recentTickets.map((t: { owner: string }) => t.owner.toLowerCase()));
+  const winnersSet = new Set(recentTickets.map(t => t.owner.toLowerCase()));
   const activeGrabbingList = grabbingList.filter(g => !winnersSet.has(g.wallet_address.toLowerCase()));
 
   // Filter transactions for this event
@@ -62,80 +88,126 @@ export default function EventDetailPage() {
   };
 
   const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+  const { data: ticketEngineContract } = useDeployedContractInfo({ contractName: "TicketEngine" });
 
-  const [countdown, setCountdown] = useState("");
-  const [currentStatus, setCurrentStatus] = useState<EventStatus | null>(null);
   const [grabResult, setGrabResult] = useState<GrabResult>(null);
-
-  useEffect(() => {
-    if (!event) return;
-
-    const updateStatus = () => {
-      const now = BigInt(Math.floor(Date.now() / 1000));
-
-      if (now < event.startTime) {
-        setCurrentStatus(EventStatus.NotStarted);
-        const diff = Number(event.startTime - now);
-        const hours = Math.floor(diff / 3600);
-        const minutes = Math.floor((diff % 3600) / 60);
-        const seconds = diff % 60;
-
-        if (hours > 0) {
-          setCountdown(`${hours}时 ${minutes}分 ${seconds}秒`);
-        } else if (minutes > 0) {
-          setCountdown(`${minutes}分 ${seconds}秒`);
-        } else {
-          setCountdown(`${seconds}秒`);
-        }
-      } else if (event.remainingTickets === 0n) {
-        setCurrentStatus(EventStatus.SoldOut);
-        setCountdown("");
-      } else {
-        setCurrentStatus(EventStatus.InProgress);
-        setCountdown("");
-      }
-    };
-
-    updateStatus();
-    const interval = setInterval(updateStatus, 1000);
-    return () => clearInterval(interval);
-  }, [event]);
-
+  const [quantity, setQuantity] = useState(1);
+  const [isPreflighting, setIsPreflighting] = useState(false);
+  // Grab whose simulation predicted a failure, waiting for the user to confirm or drop it
+  const [doomedGrab, setDoomedGrab] = useState<{
+    tier: TicketTier;
+    quantity: number;
+    preflight: GrabPreflight;
+  } | null>(null);
+
+  // Status and countdown follow chain time: the contract rejects grabs before block.timestamp reaches startTime
+  const { now: chainNow } = useChainClock();
+  const currentStatus = event
+    ? getEventStatusFromData(event.startTime, event.remainingTickets, event.status === EventStatus.Cancelled, chainNow)
+    : null;
+  const countdown =
+    event && currentStatus === EventStatus.NotStarted ? formatCountdown(Number(event.startTime - chainNow)) : "";
+
+  const { presale, proof, isEligible, isLoading: isAllowlistLoading } = useAllowlist(eventId, address);
+  const isPresaleOpen = !!presale && currentStatus === EventStatus.NotStarted && chainNow >= presale.startTime;
+
+  // Slow reconciliation with the contract in case a log was missed or a ticket was returned
   useEffect(() => {
-    if (currentStatus !== EventStatus.InProgress) return;
+    if (currentStatus !== EventStatus.InProgress && !isPresaleOpen) return;
 
-    const pollInterval = setInterval(() => {
-      refetch();
-      refetchRecent();
-    }, 1000);
+    const pollInterval = setInterval(refetchAll, RECONCILE_INTERVAL_MS);
 
     return () => clearInterval(pollInterval);
-  }, [currentStatus, refetch, refetchRecent]);
+  }, [currentStatus, isPresaleOpen, refetchAll]);
 
-  const handleGrabTicket = async () => {
+  const handleGrabTicket = async (tier: TicketTier, requestedQuantity: number) => {
     if (!address) {
       notification.error("请先连接钱包");
       return;
     }
 
-    if (!publicClient) {
+    if (!publicClient || !ticketEngineContract) {
       notification.error("无法连接到网络");
       return;
     }
 
+    // Buttons stay disabled until chain time reaches startTime, this catches a click racing the clock
+    if (event && chainNow < event.startTime && !isPresaleOpen) {
+      notification.error("活动尚未开始");
+      return;
+    }
+
+    // Pre-flight: predict the attempt with an eth_call so doomed attempts are not paid for blindly
+    setIsPreflighting(true);
+    const preflight = await simulateGrab(
+      publicClient,
+      ticketEngineContract,
+      address,
+      [eventId, BigInt(tier.id), BigInt(requestedQuantity), proof],
+      tier.price * BigInt(requestedQuantity),
+    );
+    setIsPreflighting(false);
+
+    if (preflight.result === AttemptResult.Success) {
+      logPreflight(preflight, true);
+      await sendGrab(tier, requestedQuantity);
+    } else {
+      setDoomedGrab({ tier, quantity: requestedQuantity, preflight });
+    }
+  };
+
+  const logPreflight = (preflight: GrabPreflight, sent: boolean) => {
+    addTransaction({
+      hash: `preflight-${crypto.randomUUID()}`,
+      type: "preflight",
+      eventId: eventId.toString(),
+      eventTitle: event?.title,
+      userAddress: address,
+      success: preflight.result === AttemptResult.Success,
+      result: preflight.result,
+      revertReason: preflight.revertReason,
+      sent,
+      confirmTime: preflight.durationMs,
+      gasUsed: "0",
+      gasPrice: "0",
+      gasCost: "0",
+      timestamp: Date.now(),
+    });
+  };
+
+  const confirmDoomedGrab = async () => {
+    if (!doomedGrab) return;
+    setDoomedGrab(null);
+    logPreflight(doomedGrab.preflight, true);
+    await sendGrab(doomedGrab.tier, doomedGrab.quantity);
+  };
+
+  const cancelDoomedGrab = () => {
+    if (!doomedGrab) return;
+    setDoomedGrab(null);
+    logPreflight(doomedGrab.preflight, false);
+  };
+
+  const sendGrab = async (tier: TicketTier, requestedQuantity: number) => {
+    if (!address || !publicClient || !ticketEngineContract) return;
+
     let txHash: string | undefined;
+    // Resolves once the grab is announced; startGrabbing and endGrabbing handle their own errors
+    let presence: Promise<void> | undefined;
 
     try {
       setGrabResult(null);
 
-      // Broadcast grabbing state to all clients via Supabase
-      await startGrabbing(address);
-
+      // Overpayment is refunded by the contract, so paying for the full request is safe
       txHash = await writeContractAsync({
         functionName: "grabTicket",
-        args: [eventId],
+        args: [eventId, BigInt(tier.id), BigInt(requestedQuantity), proof],
+        value: tier.price * BigInt(requestedQuantity),
       });
 
+      // Broadcast grabbing state to all clients once the transaction is out, so the presence signature never delays it
+      presence = startGrabbing(address);
+
       // Start timing AFTER MetaMask confirmation
       const startTime = Date.now();
 
@@ -147,10 +219,14 @@ export default function EventDetailPage() {
         const gasPrice = receipt.effectiveGasPrice;
         const gasCost = (gasUsed * gasPrice).toString();
 
-        const isSuccess = receipt.status === "success";
+        // grabTicket does not revert on a failed attempt, so read the outcome from the logs
+        const decoded = decodeGrabReceipt(receipt, ticketEngineContract.abi, address);
+        const isSuccess = decoded?.success ?? false;
+        // Only granted tickets are charged; the rest of msg.value came back as a refund
+        const amountPaid = (tier.price * BigInt(decoded?.ticketIds.length ?? 0)).toString();
 
-        // Update grabbing status in Supabase
-        await endGrabbing(address, isSuccess);
+        // Update grabbing status after the start was written, without holding up the result
+        presence.then(() => endGrabbing(address, isSuccess));
 
         // Save to transaction history (persistent)
         const txRecord: TransactionRecord = {
@@ -160,10 +236,13 @@ export default function EventDetailPage() {
           eventTitle: event?.title,
           userAddress: address,
           success: isSuccess,
+          result: decoded?.result,
+          ticketIds: decoded?.ticketIds.map(id => id.toString()),
           confirmTime,
           gasUsed: gasUsed.toString(),
           gasPrice: gasPrice.toString(),
           gasCost,
+          amountPaid,
           timestamp: Date.now(),
         };
         addTransaction(txRecord);
@@ -171,31 +250,27 @@ export default function EventDetailPage() {
         await refetch();
         await refetchRecent();
 
+        setGrabResult({
+          success: isSuccess,
+          result: decoded?.result,
+          ticketIds: decoded?.ticketIds,
+          confirmTime,
+          gasCost,
+          amountPaid,
+        });
+
         if (isSuccess) {
-          setGrabResult({
-            success: true,
-            result: AttemptResult.Success,
-            ticketId: ticketId,
-            confirmTime,
-            gasCost,
-          });
           notification.success("恭喜！抢票成功！");
+        } else if (decoded) {
+          notification.error(`抢票失败：${getAttemptResultLabel(decoded.result)}`);
         } else {
-          setGrabResult({
-            success: false,
-            result: AttemptResult.SoldOut,
-            confirmTime,
-            gasCost,
-          });
           notification.error("抢票失败");
         }
       }
     } catch (error: unknown) {
       console.error("Grab ticket error:", error);
-      // Update grabbing status on error
-      if (address) {
-        await endGrabbing(address, false);
-      }
+      // Update grabbing status on error, if the grab was announced
+      presence?.then(() => endGrabbing(address, false));
       await refetch();
       notification.error("抢票失败，请重试");
     }
@@ -218,48 +293,114 @@ export default function EventDetailPage() {
     minute: "2-digit",
   });
 
+  const isRaffle = event.mode === AllocationMode.Raffle;
+  const isOrganizer = !!address && address.toLowerCase() === event.organizer.toLowerCase();
+  const isPaid = event.tiers.some(tier => tier.price > 0n);
   const soldTickets = Number(event.totalTickets) - Number(event.remainingTickets);
   const progressPercent = (soldTickets / Number(event.totalTickets)) * 100;
+  const winnerCount = new Set(recentTickets.map(t => t.owner.toLowerCase())).size;
+  // How many more tickets this address may still grab, across all tiers
+  const maxGrabQuantity = Math.max(
+    0,
+    Math.min(
+      Number(event.maxPerAddress - ticketCount),
+      Math.max(0, ...event.tiers.map(tier => Number(tier.remaining))),
+    ),
+  );
+  const grabQuantity = Math.min(quantity, Math.max(maxGrabQuantity, 1));
 
   const renderButton = () => {
-    if (hasTicket) {
+    if (hasTicket && ticketCount >= event.maxPerAddress && currentStatus !== EventStatus.Cancelled) {
       return (
         <button className="btn btn-success btn-lg w-full gap-2" disabled>
           <CheckCircleIcon className="h-6 w-6" />
-          已获得票号 #{ticketId?.toString()}
+          已获得 {ticketCount.toString()} 张（已达限购）
         </button>
       );
     }
 
+    const renderGrabControls = (label: string) => (
+      <div className="flex gap-2">
+        {maxGrabQuantity > 1 && (
+          <select
+            className="select select-bordered select-lg"
+            value={grabQuantity}
+            onChange={e => setQuantity(Number(e.target.value))}
+            disabled={isMining || isPreflighting}
+          >
+            {Array.from({ length: maxGrabQuantity }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>
+                {n} 张
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex flex-col gap-2 flex-1">
+          {event.tiers.map(tier => (
+            <button
+              key={tier.id}
+              className={`btn btn-primary btn-lg w-full ${tier.remaining > 0n ? "animate-pulse" : ""}`}
+              onClick={() => handleGrabTicket(tier, grabQuantity)}
+              disabled={isMining || isPreflighting || tier.remaining === 0n}
+            >
+              {isPreflighting ? (
+                <>
+                  <span className="loading loading-spinner"></span>
+                  预检中...
+                </>
+              ) : isMining ? (
+                <>
+                  <span className="loading loading-spinner"></span>
+                  抢票中...
+                </>
+              ) : (
+                [
+                  event.tiers.length > 1 ? `${label} · ${tier.name}` : label,
+                  tier.remaining === 0n
+                    ? "已售罄"
+                    : tier.price > 0n
+                      ? formatTicketPrice(tier.price * BigInt(grabQuantity))
+                      : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
     switch (currentStatus) {
       case EventStatus.NotStarted:
+        if (isPresaleOpen && event.remainingTickets > 0n) {
+          return isEligible ? (
+            renderGrabControls("白名单抢票")
+          ) : (
+            <button className="btn btn-lg w-full gap-2" disabled>
+              <ClockIcon className="h-6 w-6" />
+              白名单预售中，{countdown} 后公开发售
+            </button>
+          );
+        }
         return (
           <button className="btn btn-lg w-full gap-2" disabled>
             <ClockIcon className="h-6 w-6" />
-            {countdown} 后开始
+            {isPresaleOpen ? "已售罄" : `${countdown} 后开始`}
           </button>
         );
       case EventStatus.InProgress:
+        return renderGrabControls("立即抢票");
+      case EventStatus.SoldOut:
         return (
-          <button
-            className="btn btn-primary btn-lg w-full animate-pulse"
-            onClick={handleGrabTicket}
-            disabled={isMining}
-          >
-            {isMining ? (
-              <>
-                <span className="loading loading-spinner"></span>
-                抢票中...
-              </>
-            ) : (
-              "立即抢票"
-            )}
+          <button className="btn btn-lg w-full" disabled>
+            已售罄
           </button>
         );
-      case EventStatus.SoldOut:
+      case EventStatus.Cancelled:
         return (
           <button className="btn btn-lg w-full" disabled>
-            已售罄
+            活动已取消
           </button>
         );
       default:
@@ -281,10 +422,17 @@ export default function EventDetailPage() {
           </span>
         </div>
 
+        {currentStatus === EventStatus.Cancelled && (
+          <div className="alert alert-warning mb-6">
+            <span>主办方已取消本活动，已发放的门票作废。付费票持有人可在下方申请退款。</span>
+          </div>
+        )}
+
         {/* Title */}
         <div className="text-center mb-6">
           <h1 className="text-3xl md:text-4xl font-bold mb-2">{event.title}</h1>
           <p className="text-base-content/70">开始时间: {formattedDate}</p>
+          <p className="text-base-content/70">票价: {formatPriceRange(event.tiers)}</p>
         </div>
 
         {/* Stats Bar */}
@@ -307,7 +455,7 @@ export default function EventDetailPage() {
           <StatCard
             icon={<UserGroupIcon className="h-6 w-6" />}
             label="中签人数"
-            value={recentTickets.length.toString()}
+            value={winnerCount.toString()}
             subValue="人"
             color="text-blue-500"
           />
@@ -319,7 +467,9 @@ export default function EventDetailPage() {
                 ? "抢票中"
                 : currentStatus === EventStatus.NotStarted
                   ? "未开始"
-                  : "已结束"
+                  : currentStatus === EventStatus.Cancelled
+                    ? "已取消"
+                    : "已结束"
             }
             color="text-purple-500"
           />
@@ -339,6 +489,32 @@ export default function EventDetailPage() {
               style={{ width: `${progressPercent}%` }}
             />
           </div>
+
+          {event.tiers.length > 1 && (
+            <div className="mt-4 space-y-3">
+              {event.tiers.map(tier => {
+                const tierSold = Number(tier.supply - tier.remaining);
+                return (
+                  <div key={tier.id}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="font-medium">
+                        {tier.name} · {formatTicketPrice(tier.price)}
+                      </span>
+                      <span className="text-base-content/70">
+                        {tierSold} / {tier.supply.toString()}
+                      </span>
+                    </div>
+                    <div className="w-full bg-base-200 rounded-full h-2 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-primary to-secondary transition-all duration-300"
+                        style={{ width: `${(tierSold / Number(tier.supply)) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
 
         {/* Two Panels */}
@@ -348,20 +524,75 @@ export default function EventDetailPage() {
             <div className="bg-gradient-to-r from-primary to-secondary p-4">
               <h3 className="font-bold text-lg text-white flex items-center gap-2">
                 <TicketIcon className="h-6 w-6" />
-                抢票入口
+                {isRaffle ? "抽签入口" : "抢票入口"}
               </h3>
             </div>
             <div className="p-6">
-              {/* Countdown or Status */}
-              {currentStatus === EventStatus.NotStarted && countdown && (
-                <div className="text-center mb-6 p-4 bg-warning/10 rounded-xl border border-warning/30">
-                  <div className="text-sm text-base-content/70">距离开始</div>
-                  <div className="text-3xl font-bold text-warning font-mono">{countdown}</div>
+              {isRaffle && currentStatus !== EventStatus.Cancelled ? (
+                <div className="mb-6">
+                  <RafflePanel
+                    event={event}
+                    hasTicket={hasTicket}
+                    ticketId={ticketIds[0]}
+                    onTicketClaimed={() => {
+                      refetch();
+                      refetchRecent();
+                    }}
+                  />
                 </div>
-              )}
+              ) : (
+                <>
+                  {/* Countdown or Status */}
+                  {currentStatus === EventStatus.NotStarted && countdown && (
+                    <div className="text-center mb-6 p-4 bg-warning/10 rounded-xl border border-warning/30">
+                      <div className="text-sm text-base-content/70">距离开始</div>
+                      <div className="text-3xl font-bold text-warning font-mono">{countdown}</div>
+                    </div>
+                  )}
+
+                  {presale && (
+                    <div className="mb-4 p-3 rounded-xl bg-base-200/50 text-sm space-y-1">
+                      <div className="font-semibold">
+                        白名单预售：{new Date(Number(presale.startTime) * 1000).toLocaleString("zh-CN")} 开始
+                      </div>
+                      <div className="text-base-content/70">
+                        {!address
+                          ? "连接钱包查看预售资格"
+                          : isAllowlistLoading
+                            ? "正在查询预售资格..."
+                            : isEligible
+                              ? "✅ 你的地址在白名单中，可参与预售"
+                              : "你的地址不在白名单中，请等待公开发售"}
+                      </div>
+                    </div>
+                  )}
 
-              {/* Grab Button */}
-              <div className="mb-6">{renderButton()}</div>
+                  {/* Grab Button */}
+                  <div className="mb-6">
+                    {renderButton()}
+                    {hasTicket && (
+                      <div className="mt-2 text-center text-sm text-base-content/70">
+                        已持有 {ticketCount.toString()} / {event.maxPerAddress.toString()} 张：
+                        {ticketIds.map(id => ` #${id.toString()}`).join("")}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Offers are only made while the event is sold out */}
+                  {currentStatus === EventStatus.SoldOut && (
+                    <div className="mb-6">
+                      <WaitlistPanel
+                        event={event}
+                        hasReachedLimit={ticketCount >= event.maxPerAddress}
+                        onTicketClaimed={() => {
+                          refetch();
+                          refetchRecent();
+                        }}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
 
               {/* Grab Result */}
               {grabResult && (
@@ -372,7 +603,10 @@ export default function EventDetailPage() {
                     {grabResult.success ? (
                       <span className="text-success font-bold">🎉 抢票成功！</span>
                     ) : (
-                      <span className="text-error font-bold">😥 抢票失败</span>
+                      <span className="text-error font-bold">
+                        😥 抢票失败
+                        {grabResult.result !== undefined && `：${getAttemptResultLabel(grabResult.result)}`}
+                      </span>
                     )}
                   </div>
                   {grabResult.confirmTime !== undefined && (
@@ -387,11 +621,21 @@ export default function EventDetailPage() {
                           {parseFloat(formatEther(BigInt(grabResult.gasCost || "0"))).toFixed(6)} MON
                         </div>
                       </div>
+                      {grabResult.amountPaid && BigInt(grabResult.amountPaid) > 0n && (
+                        <div>
+                          <div className="text-base-content/50">票款</div>
+                          <div className="font-mono font-bold">{formatEther(BigInt(grabResult.amountPaid))} MON</div>
+                        </div>
+                      )}
                     </div>
                   )}
-                  {grabResult.success && grabResult.ticketId && (
-                    <div className="mt-3 text-center">
-                      <span className="badge badge-success badge-lg">票号 #{grabResult.ticketId.toString()}</span>
+                  {grabResult.success && grabResult.ticketIds && grabResult.ticketIds.length > 0 && (
+                    <div className="mt-3 flex flex-wrap justify-center gap-2">
+                      {grabResult.ticketIds.map(id => (
+                        <span key={id.toString()} className="badge badge-success badge-lg">
+                          票号 #{id.toString()}
+                        </span>
+                      ))}
                     </div>
                   )}
                 </div>
@@ -442,12 +686,59 @@ export default function EventDetailPage() {
               <div className="mt-6 p-4 bg-base-200/50 rounded-xl">
                 <h4 className="font-semibold mb-2 text-sm">规则说明</h4>
                 <ul className="text-xs space-y-1 text-base-content/70">
-                  <li>• 规则：先到先得</li>
-                  <li>• 限购：每个参与者最多 1 张</li>
-                  <li>• 结束：售罄自动结束</li>
+                  {isRaffle ? (
+                    <>
+                      <li>• 规则：报名抽签，主办方创建时已提交种子承诺</li>
+                      <li>• 开奖：报名截止后公布种子，按种子与报名名单确定中签者</li>
+                      <li>• 领取：中签者自行领取门票，每个参与者最多 1 张</li>
+                      {isPaid && <li>• 付款：中签者领取时支付票价</li>}
+                    </>
+                  ) : (
+                    <>
+                      <li>• 规则：先到先得</li>
+                      {presale && <li>• 预售：白名单地址可提前抢票，开始时间后公开发售</li>}
+                      {event.tiers.length > 1 && <li>• 票档：各票档独立计数，售完即止</li>}
+                      <li>
+                        • 限购：每个参与者最多 {event.maxPerAddress.toString()} 张
+                        {event.tiers.length > 1 && "（所有票档合计）"}
+                      </li>
+                      {isPaid && <li>• 付款：按实际获得的票数扣款，多付部分自动退回</li>}
+                      <li>• 结束：售罄自动结束</li>
+                    </>
+                  )}
                 </ul>
               </div>
 
+              {isOrganizer && currentStatus === EventStatus.NotStarted && (
+                <button
+                  className="btn btn-outline btn-sm w-full gap-2 mt-4"
+                  onClick={() => router.push(`/event/${eventId}/edit`)}
+                >
+                  <PencilSquareIcon className="h-4 w-4" />
+                  编辑活动
+                </button>
+              )}
+
+              {isOrganizer && currentStatus !== EventStatus.Cancelled && (
+                <button
+                  className="btn btn-outline btn-sm w-full gap-2 mt-4"
+                  onClick={() => router.push(`/event/${eventId}/checkin`)}
+                >
+                  <QrCodeIcon className="h-4 w-4" />
+                  检票
+                </button>
+              )}
+
+              <div className="mt-4">
+                <CancellationPanel event={event} onCancelled={refetch} />
+              </div>
+
+              {isOrganizer && isPaid && (
+                <div className="mt-4">
+                  <ProceedsPanel event={event} />
+                </div>
+              )}
+
               {/* Organizer */}
               <div className="mt-4 pt-4 border-t border-base-200 text-sm flex justify-between items-center">
                 <span className="text-base-content/70">主办方</span>
@@ -516,7 +807,7 @@ export default function EventDetailPage() {
                   </div>
                 ) : (
                   <div className="grid grid-cols-1 gap-2">
-                    {recentTickets.map((ticket: { ticketId: bigint; owner: string; acquiredAt: bigint }) => (
+                    {recentTickets.map(ticket => (
                       <div
                         key={ticket.ticketId.toString()}
                         className="flex items-center justify-between p-3 bg-gradient-to-r from-yellow-500/5 to-orange-500/5 rounded-lg border border-yellow-500/20"
@@ -539,6 +830,8 @@ export default function EventDetailPage() {
           </div>
         </div>
 
+        <LeaderboardPanel eventId={eventId} />
+
         {/* Transaction History - Persistent from localStorage */}
         {eventTransactions.length > 0 && (
           <div className="bg-base-100 rounded-2xl shadow-xl overflow-hidden mb-6">
@@ -568,7 +861,9 @@ export default function EventDetailPage() {
                       {tx.success ? (
                         <span className="badge badge-success badge-sm">成功</span>
                       ) : (
-                        <span className="badge badge-error badge-sm">失败</span>
+                        <span className="badge badge-error badge-sm">
+                          {tx.result !== undefined ? getAttemptResultLabel(tx.result) : "失败"}
+                        </span>
                       )}
                     </div>
                     <div className="flex items-center gap-4">
@@ -576,6 +871,9 @@ export default function EventDetailPage() {
                       <span className="font-mono text-xs text-yellow-500">
                         {parseFloat(formatEther(BigInt(tx.gasCost))).toFixed(6)} MON
                       </span>
+                      {tx.amountPaid && BigInt(tx.amountPaid) > 0n && (
+                        <span className="font-mono text-xs">票款 {formatEther(BigInt(tx.amountPaid))} MON</span>
+                      )}
                       <span className="text-xs text-base-content/50">
                         {new Date(tx.timestamp).toLocaleTimeString("zh-CN")}
                       </span>
@@ -593,6 +891,14 @@ export default function EventDetailPage() {
           <p>V1 不提供实名核验，不保证现实意义的一人一票。</p>
         </div>
       </div>
+
+      {doomedGrab && (
+        <PreflightConfirmModal
+          preflight={doomedGrab.preflight}
+          onConfirm={confirmDoomedGrab}
+          onCancel={cancelDoomedGrab}
+        />
+      )}
     </div>
   );
 }
@@ -625,6 +931,15 @@ function StatCard({
   );
 }
 
+function formatCountdown(diff: number): string {
+  const hours = Math.floor(diff / 3600);
+  const minutes = Math.floor((diff % 3600) / 60);
+  const seconds = diff % 60;
+  if (hours > 0) return `${hours}时 ${minutes}分 ${seconds}秒`;
+  if (minutes > 0) return `${minutes}分 ${seconds}秒`;
+  return `${seconds}秒`;
+}
+
 function formatTimeAgo(timestamp: number): string {
   const seconds = Math.floor(Date.now() / 1000 - timestamp);
   if (seconds < 60) return `${seconds}秒前`;
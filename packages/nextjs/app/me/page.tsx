@@ -7,22 +7,29 @@ import {
   ChartBarIcon,
   CheckCircleIcon,
   ClockIcon,
+  QueueListIcon,
   TicketIcon,
   TrashIcon,
   XCircleIcon,
 } from "@heroicons/react/24/outline";
-import { TransactionHistoryItem, TransactionStatsSummary } from "~~/components/TransactionStats";
+import { PreflightHistoryItem, TransactionHistoryItem, TransactionStatsSummary } from "~~/components/TransactionStats";
 import { RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
-import { useTokenURI, useUserAttempts, useUserTickets } from "~~/hooks/useTicketEngine";
+import { TicketPassPanel } from "~~/components/ticket-engine";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useEvent, useTokenURI, useUserAttempts, useUserTickets } from "~~/hooks/useTicketEngine";
 import { useTransactionHistory } from "~~/hooks/useTransactionHistory";
-import { AttemptResult, getAttemptResultLabel } from "~~/types/ticket-engine";
+import { useUserWaitlists } from "~~/hooks/useWaitlist";
+import { AllocationMode, AttemptResult, getAttemptResultLabel } from "~~/types/ticket-engine";
+import { TransactionRecord } from "~~/types/transaction";
+import { notification } from "~~/utils/scaffold-eth";
 
 type TabType = "tickets" | "history" | "txHistory";
 
 export default function PersonalPage() {
   const { address, isConnected } = useAccount();
-  const { tickets } = useUserTickets(address);
+  const { tickets, refetch: refetchTickets } = useUserTickets(address);
   const { attempts } = useUserAttempts(address);
+  const { waitlists } = useUserWaitlists(address);
   const { transactions, getGrabStats, clearHistory, isLoaded } = useTransactionHistory();
   const [activeTab, setActiveTab] = useState<TabType>("tickets");
 
@@ -57,6 +64,8 @@ export default function PersonalPage() {
           </div>
         </div>
 
+        {waitlists.length > 0 && <WaitlistSection waitlists={waitlists} />}
+
         <div className="tabs tabs-boxed mb-6 p-1 bg-base-100 rounded-xl shadow border border-base-200">
           <button
             className={`tab tab-lg flex-1 gap-2 ${activeTab === "tickets" ? "tab-active" : ""}`}
@@ -82,7 +91,7 @@ export default function PersonalPage() {
         </div>
 
         <div className="bg-base-100 rounded-2xl p-6 shadow-xl border border-base-200">
-          {activeTab === "tickets" && <TicketsTab tickets={tickets} />}
+          {activeTab === "tickets" && <TicketsTab tickets={tickets} onTicketReturned={refetchTickets} />}
           {activeTab === "history" && <HistoryTab attempts={attempts} />}
           {activeTab === "txHistory" && (
             <TransactionHistoryTab
@@ -98,7 +107,46 @@ export default function PersonalPage() {
   );
 }
 
-function TicketsTab({ tickets }: { tickets: ReturnType<typeof useUserTickets>["tickets"] }) {
+function WaitlistSection({ waitlists }: { waitlists: ReturnType<typeof useUserWaitlists>["waitlists"] }) {
+  return (
+    <div className="bg-base-100 rounded-2xl p-6 shadow-xl mb-6 border border-base-200">
+      <h2 className="font-semibold mb-4 flex items-center gap-2">
+        <QueueListIcon className="h-5 w-5" />
+        候补中
+      </h2>
+      <div className="space-y-3">
+        {waitlists.map(entry => (
+          <div
+            key={entry.eventId.toString()}
+            className="flex items-center justify-between p-4 bg-base-200/50 rounded-xl"
+          >
+            <div>
+              <div className="font-medium">活动 #{entry.eventId.toString()}</div>
+              <div className="text-sm text-base-content/70">
+                {entry.offer
+                  ? `已为你保留门票，请在 ${new Date(Number(entry.offer.expiresAt) * 1000).toLocaleString("zh-CN")} 前领取`
+                  : `候补第 ${entry.position.toString()} 位`}
+              </div>
+            </div>
+            <Link href={`/event/${entry.eventId}`}>
+              <button className={`btn btn-sm ${entry.offer ? "btn-primary" : "btn-ghost"}`}>
+                {entry.offer ? "去领取" : "查看活动"}
+              </button>
+            </Link>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TicketsTab({
+  tickets,
+  onTicketReturned,
+}: {
+  tickets: ReturnType<typeof useUserTickets>["tickets"];
+  onTicketReturned: () => void;
+}) {
   if (tickets.length === 0) {
     return (
       <div className="text-center py-12">
@@ -112,17 +160,58 @@ function TicketsTab({ tickets }: { tickets: ReturnType<typeof useUserTickets>["t
     );
   }
 
+  // Group tickets by event so multi-ticket purchases show up together
+  const ticketsByEvent = tickets.reduce<Map<string, typeof tickets>>((groups, ticket) => {
+    const key = ticket.eventId.toString();
+    groups.set(key, [...(groups.get(key) ?? []), ticket]);
+    return groups;
+  }, new Map());
+
   return (
-    <div className="space-y-4">
-      {tickets.map(ticket => (
-        <TicketCard key={ticket.id.toString()} ticket={ticket} />
+    <div className="space-y-6">
+      {Array.from(ticketsByEvent.entries()).map(([eventId, eventTickets]) => (
+        <div key={eventId} className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">{eventTickets[0].eventTitle}</h3>
+            <span className="badge badge-primary">× {eventTickets.length} 张</span>
+          </div>
+          {eventTickets.map(ticket => (
+            <TicketCard key={ticket.id.toString()} ticket={ticket} onReturned={onTicketReturned} />
+          ))}
+        </div>
       ))}
     </div>
   );
 }
 
-function TicketCard({ ticket }: { ticket: ReturnType<typeof useUserTickets>["tickets"][0] }) {
+function TicketCard({
+  ticket,
+  onReturned,
+}: {
+  ticket: ReturnType<typeof useUserTickets>["tickets"][0];
+  onReturned: () => void;
+}) {
   const { nftData, isLoading } = useTokenURI(ticket.id);
+  const { event } = useEvent(ticket.eventId);
+  // Raffle seats have nobody to pass them on to, the contract refuses their return
+  const isReturnable = event?.mode === AllocationMode.FirstCome;
+  const { writeContractAsync, isPending: isReturning } = useScaffoldWriteContract("TicketEngine");
+  const [confirmingReturn, setConfirmingReturn] = useState(false);
+
+  const handleReturn = async () => {
+    try {
+      await writeContractAsync({
+        functionName: "returnTicket",
+        args: [ticket.id],
+      });
+      notification.success("门票已退回");
+      onReturned();
+    } catch (error) {
+      console.error("Return ticket error:", error);
+    } finally {
+      setConfirmingReturn(false);
+    }
+  };
 
   return (
     <div className="bg-gradient-to-r from-primary/5 to-secondary/5 rounded-xl border border-base-200 overflow-hidden">
@@ -166,6 +255,34 @@ function TicketCard({ ticket }: { ticket: ReturnType<typeof useUserTickets>["tic
           <button className="btn btn-ghost btn-sm">查看活动</button>
         </Link>
       </div>
+
+      {/* Entry pass and return */}
+      <div className="px-4 pb-4 space-y-2">
+        <TicketPassPanel ticketId={ticket.id} eventId={ticket.eventId} />
+        {confirmingReturn ? (
+          <div className="p-3 bg-error/10 rounded-lg border border-error/30 space-y-2">
+            <div className="text-sm">退回后门票将被销毁，名额优先让给候补用户，票款不予退还。</div>
+            <div className="flex gap-2">
+              <button
+                className="btn btn-ghost btn-xs flex-1"
+                onClick={() => setConfirmingReturn(false)}
+                disabled={isReturning}
+              >
+                取消
+              </button>
+              <button className="btn btn-error btn-xs flex-1" onClick={handleReturn} disabled={isReturning}>
+                {isReturning ? <span className="loading loading-spinner loading-xs"></span> : "确认退回"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          isReturnable && (
+            <button className="btn btn-ghost btn-xs text-error w-full" onClick={() => setConfirmingReturn(true)}>
+              无法参加？退回门票
+            </button>
+          )
+        )}
+      </div>
     </div>
   );
 }
@@ -233,6 +350,12 @@ function TransactionHistoryTab({ transactions, stats, clearHistory, isLoaded }:
     );
   }
 
+  // Pre-flights are simulations, listed apart from the transactions they preceded
+  const onChainTxs = transactions.filter(
+    (tx): tx is TransactionRecord & { type: "grab" | "create" } => tx.type !== "preflight",
+  );
+  const preflights = transactions.filter(tx => tx.type === "preflight");
+
   if (transactions.length === 0) {
     return (
       <div className="text-center py-12">
@@ -255,6 +378,7 @@ function TransactionHistoryTab({ transactions, stats, clearHistory, isLoaded }:
         failCount={stats.failCount}
         averageConfirmTime={stats.averageConfirmTime}
         totalGasCost={stats.totalGasCost}
+        totalAmountPaid={stats.totalAmountPaid}
       />
 
       {/* Monad Highlight */}
@@ -282,7 +406,7 @@ function TransactionHistoryTab({ transactions, stats, clearHistory, isLoaded }:
           </button>
         </div>
         <div className="space-y-3">
-          {transactions.map(tx => (
+          {onChainTxs.map(tx => (
             <TransactionHistoryItem
               key={tx.hash}
               eventId={tx.eventId}
@@ -290,12 +414,35 @@ function TransactionHistoryTab({ transactions, stats, clearHistory, isLoaded }:
               success={tx.success}
               confirmTime={tx.confirmTime}
               gasCost={tx.gasCost}
+              amountPaid={tx.amountPaid}
               timestamp={tx.timestamp}
               type={tx.type}
             />
           ))}
         </div>
       </div>
+
+      {preflights.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-1">交易前预检</h3>
+          <p className="text-sm text-base-content/60 mb-4">
+            预检为模拟调用，不上链、不计入上方统计；已取消的预检节省了一次注定失败的交易。
+          </p>
+          <div className="space-y-2">
+            {preflights.map(tx => (
+              <PreflightHistoryItem
+                key={tx.hash}
+                eventId={tx.eventId}
+                eventTitle={tx.eventTitle}
+                result={tx.result}
+                revertReason={tx.revertReason}
+                sent={tx.sent}
+                timestamp={tx.timestamp}
+              />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
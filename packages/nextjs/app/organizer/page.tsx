@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  PencilSquareIcon,
+  PlusCircleIcon,
+  PresentationChartLineIcon,
+  QrCodeIcon,
+} from "@heroicons/react/24/outline";
+import { RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
+import { CancellationPanel, SaleAnalyticsPanel } from "~~/components/ticket-engine";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useChainClock } from "~~/hooks/useChainClock";
+import { useEventFeed } from "~~/hooks/useEventFeed";
+import { getEventStatusFromData } from "~~/hooks/useTicketEngine";
+import { EventStatus, TicketEvent, getStatusColor, getStatusLabel } from "~~/types/ticket-engine";
+
+export default function OrganizerPage() {
+  const { address, isConnected } = useAccount();
+  const { events, total, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading, refetch } = useEventFeed(
+    { organizer: address },
+    10n,
+  );
+  const { data: lockPeriod } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "PROCEEDS_LOCK_PERIOD",
+  });
+
+  if (!isConnected || !address) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-base-200/30">
+        <div className="bg-base-100 rounded-2xl p-8 shadow-xl max-w-md w-full text-center border border-base-200">
+          <div className="text-7xl mb-4">🔐</div>
+          <h1 className="text-2xl font-bold mb-2">连接钱包</h1>
+          <p className="text-base-content/70 mb-6">连接钱包以查看你创建的活动</p>
+          <RainbowKitCustomConnectButton />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 bg-base-200/30">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <PresentationChartLineIcon className="h-6 w-6 text-primary" />
+            我的活动
+            {total > 0n && <span className="badge badge-primary">{total.toString()}</span>}
+          </h1>
+          <Link href="/create">
+            <button className="btn btn-primary btn-sm gap-2">
+              <PlusCircleIcon className="h-4 w-4" />
+              创建活动
+            </button>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <span className="loading loading-spinner loading-lg text-primary"></span>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="bg-base-100 rounded-2xl p-12 shadow-xl text-center border border-base-200">
+            <div className="text-6xl mb-4">🎪</div>
+            <h3 className="text-lg font-semibold mb-2">你还没有创建活动</h3>
+            <p className="text-base-content/70">创建活动后，这里会显示售票数据</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event, index) => (
+              <OrganizerEventCard
+                key={event.id.toString()}
+                event={event}
+                lockPeriod={lockPeriod}
+                defaultExpanded={index === 0}
+                onCancelled={refetch}
+              />
+            ))}
+            {hasNextPage && (
+              <div className="text-center">
+                <button className="btn btn-ghost" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? <span className="loading loading-spinner loading-sm"></span> : "加载更多"}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function OrganizerEventCard({
+  event,
+  lockPeriod,
+  defaultExpanded,
+  onCancelled,
+}: {
+  event: TicketEvent;
+  lockPeriod?: bigint;
+  defaultExpanded: boolean;
+  onCancelled: () => void;
+}) {
+  const { now } = useChainClock();
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const status = getEventStatusFromData(
+    event.startTime,
+    event.remainingTickets,
+    event.status === EventStatus.Cancelled,
+    now,
+  );
+  const sold = event.totalTickets - event.remainingTickets;
+  // cancelEvent is only accepted while the proceeds are still locked
+  const canCancel = status !== EventStatus.Cancelled && lockPeriod !== undefined && now < event.startTime + lockPeriod;
+
+  return (
+    <div className="bg-base-100 rounded-2xl shadow-xl border border-base-200 overflow-hidden">
+      <div className="p-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Link href={`/event/${event.id}`} className="font-semibold hover:underline">
+              {event.title}
+            </Link>
+            <span className={`badge badge-sm ${getStatusColor(status)}`}>{getStatusLabel(status)}</span>
+          </div>
+          <div className="text-sm text-base-content/70">
+            活动 #{event.id.toString()} · {new Date(Number(event.startTime) * 1000).toLocaleString("zh-CN")} · 已售{" "}
+            {sold.toString()} / {event.totalTickets.toString()}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {status === EventStatus.NotStarted && (
+            <Link href={`/event/${event.id}/edit`}>
+              <button className="btn btn-outline btn-sm gap-1">
+                <PencilSquareIcon className="h-4 w-4" />
+                编辑
+              </button>
+            </Link>
+          )}
+          {status !== EventStatus.Cancelled && (
+            <Link href={`/event/${event.id}/checkin`}>
+              <button className="btn btn-outline btn-sm gap-1">
+                <QrCodeIcon className="h-4 w-4" />
+                检票
+              </button>
+            </Link>
+          )}
+          <button className="btn btn-ghost btn-sm gap-1" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+            售票数据
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 border-t border-base-200 pt-4">
+          <SaleAnalyticsPanel event={event} />
+          {canCancel && <CancellationPanel event={event} onCancelled={onCancelled} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,31 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
 import type { NextPage } from "next";
 import { PlusCircleIcon, TicketIcon } from "@heroicons/react/24/outline";
 import { EventCard } from "~~/components/ticket-engine";
-import { useTicketEngine } from "~~/hooks/useTicketEngine";
+import { useEventFeed } from "~~/hooks/useEventFeed";
+import { EventStatus, getStatusLabel } from "~~/types/ticket-engine";
+
+const STATUS_FILTERS = [EventStatus.InProgress, EventStatus.NotStarted, EventStatus.SoldOut, EventStatus.Cancelled];
 
 const Home: NextPage = () => {
-  const { events } = useTicketEngine();
+  const [statusFilter, setStatusFilter] = useState<EventStatus | undefined>(undefined);
+  const { events, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useEventFeed({ status: statusFilter });
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
 
-  const sortedEvents = [...events].sort((a, b) => {
-    const statusOrder: Record<number, number> = { 1: 0, 0: 1, 2: 2 };
-    return statusOrder[a.status] - statusOrder[b.status];
-  });
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   return (
     <div className="flex flex-col grow">
@@ -44,12 +57,41 @@ const Home: NextPage = () => {
       {/* Events Grid */}
       <div className="flex-grow p-4 md:p-8 bg-base-200/30">
         <div className="max-w-6xl mx-auto">
-          <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
-            <TicketIcon className="h-6 w-6 text-primary" />
-            活动广场
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <TicketIcon className="h-6 w-6 text-primary" />
+              活动广场
+            </h2>
+            <div role="tablist" className="tabs tabs-boxed">
+              <button
+                role="tab"
+                className={`tab ${statusFilter === undefined ? "tab-active" : ""}`}
+                onClick={() => setStatusFilter(undefined)}
+              >
+                全部
+              </button>
+              {STATUS_FILTERS.map(status => (
+                <button
+                  key={status}
+                  role="tab"
+                  className={`tab ${statusFilter === status ? "tab-active" : ""}`}
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {getStatusLabel(status)}
+                </button>
+              ))}
+            </div>
+          </div>
 
-          {events.length === 0 ? (
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <span className="loading loading-spinner loading-lg text-primary"></span>
+            </div>
+          ) : events.length === 0 && !hasNextPage && statusFilter !== undefined ? (
+            <div className="text-center py-16 bg-base-100 rounded-2xl shadow-sm">
+              <p className="text-base-content/70">暂无{getStatusLabel(statusFilter)}的活动</p>
+            </div>
+          ) : events.length === 0 && !hasNextPage ? (
             <div className="text-center py-16 bg-base-100 rounded-2xl shadow-sm">
               <div className="text-7xl mb-6">🎫</div>
               <h3 className="text-xl font-semibold mb-2">暂无活动</h3>
@@ -59,11 +101,16 @@ const Home: NextPage = () => {
               </Link>
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {sortedEvents.map(event => (
-                <EventCard key={event.id.toString()} event={event} />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {events.map(event => (
+                  <EventCard key={event.id.toString()} event={event} />
+                ))}
+              </div>
+              <div ref={sentinelRef} className="flex justify-center py-8">
+                {isFetchingNextPage && <span className="loading loading-spinner text-primary"></span>}
+              </div>
+            </>
           )}
         </div>
       </div>
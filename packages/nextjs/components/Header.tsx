@@ -5,7 +5,14 @@ import Image from "next/image";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { hardhat } from "viem/chains";
-import { Bars3Icon, BoltIcon, PlusCircleIcon, TicketIcon, UserIcon } from "@heroicons/react/24/outline";
+import {
+  Bars3Icon,
+  BoltIcon,
+  PlusCircleIcon,
+  PresentationChartLineIcon,
+  TicketIcon,
+  UserIcon,
+} from "@heroicons/react/24/outline";
 import { FaucetButton, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
 import { useOutsideClick, useTargetNetwork } from "~~/hooks/scaffold-eth";
 
@@ -31,6 +38,11 @@ export const menuLinks: HeaderMenuLink[] = [
     href: "/me",
     icon: <UserIcon className="h-4 w-4" />,
   },
+  {
+    label: "我的活动",
+    href: "/organizer",
+    icon: <PresentationChartLineIcon className="h-4 w-4" />,
+  },
   {
     label: "压力测试",
     href: "/demo",
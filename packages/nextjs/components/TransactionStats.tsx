@@ -1,12 +1,22 @@
 "use client";
 
 import { formatEther } from "viem";
-import { BoltIcon, CheckCircleIcon, CurrencyDollarIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import {
+  BanknotesIcon,
+  BeakerIcon,
+  BoltIcon,
+  CheckCircleIcon,
+  CurrencyDollarIcon,
+  XCircleIcon,
+} from "@heroicons/react/24/outline";
+import { AttemptResult, getAttemptResultLabel } from "~~/types/ticket-engine";
+import { TransactionType } from "~~/types/transaction";
 
 interface TransactionStatsDisplayProps {
   success: boolean;
   confirmTime: number;
   gasCost: string;
+  amountPaid?: string;
   message?: string;
   failReason?: string;
 }
@@ -15,6 +25,7 @@ export const TransactionStatsDisplay = ({
   success,
   confirmTime,
   gasCost,
+  amountPaid,
   message,
   failReason,
 }: TransactionStatsDisplayProps) => {
@@ -43,6 +54,13 @@ export const TransactionStatsDisplay = ({
             <span className="font-medium">Gas 费用:</span>
             <span className="font-mono font-bold">{gasCostDisplay} MON</span>
           </div>
+          {amountPaid && BigInt(amountPaid) > 0n && (
+            <div className="flex items-center gap-1.5 bg-base-100/20 rounded-lg px-3 py-1.5">
+              <BanknotesIcon className="h-4 w-4" />
+              <span className="font-medium">票款:</span>
+              <span className="font-mono font-bold">{formatEther(BigInt(amountPaid))} MON</span>
+            </div>
+          )}
         </div>
 
         {!success && (
@@ -62,6 +80,7 @@ interface TransactionStatsSummaryProps {
   failCount: number;
   averageConfirmTime: number;
   totalGasCost: string;
+  totalAmountPaid?: string;
 }
 
 export const TransactionStatsSummary = ({
@@ -70,6 +89,7 @@ export const TransactionStatsSummary = ({
   failCount,
   averageConfirmTime,
   totalGasCost,
+  totalAmountPaid,
 }: TransactionStatsSummaryProps) => {
   if (totalAttempts === 0) return null;
 
@@ -109,6 +129,13 @@ export const TransactionStatsSummary = ({
           <div className="font-bold font-mono text-lg">{gasCostDisplay}</div>
         </div>
       </div>
+      {totalAmountPaid && BigInt(totalAmountPaid) > 0n && (
+        <div className="mt-3 text-sm text-base-content/70 flex items-center gap-1">
+          <BanknotesIcon className="h-4 w-4" />
+          票款合计（不含 Gas）:
+          <span className="font-mono font-bold text-base-content">{formatEther(BigInt(totalAmountPaid))} MON</span>
+        </div>
+      )}
     </div>
   );
 };
@@ -119,8 +146,9 @@ interface TransactionHistoryItemProps {
   success: boolean;
   confirmTime: number;
   gasCost: string;
+  amountPaid?: string;
   timestamp: number;
-  type: "grab" | "create";
+  type: Exclude<TransactionType, "preflight">;
 }
 
 export const TransactionHistoryItem = ({
@@ -129,6 +157,7 @@ export const TransactionHistoryItem = ({
   success,
   confirmTime,
   gasCost,
+  amountPaid,
   timestamp,
   type,
 }: TransactionHistoryItemProps) => {
@@ -164,6 +193,12 @@ export const TransactionHistoryItem = ({
             <CurrencyDollarIcon className="h-3 w-3" />
             <span className="font-mono">{gasCostDisplay} MON</span>
           </div>
+          {amountPaid && BigInt(amountPaid) > 0n && (
+            <div className="flex items-center gap-1 text-base-content/70">
+              <BanknotesIcon className="h-3 w-3" />
+              <span className="font-mono">{formatEther(BigInt(amountPaid))} MON</span>
+            </div>
+          )}
         </div>
         <div className="text-base-content/50 text-xs min-w-[60px] text-right">{timeAgo}</div>
       </div>
@@ -171,6 +206,50 @@ export const TransactionHistoryItem = ({
   );
 };
 
+interface PreflightHistoryItemProps {
+  eventId?: string;
+  eventTitle?: string;
+  result?: AttemptResult;
+  revertReason?: string;
+  sent?: boolean;
+  timestamp: number;
+}
+
+/**
+ * A simulated grab: the predicted outcome and whether the transaction was sent after it
+ */
+export const PreflightHistoryItem = ({
+  eventId,
+  eventTitle,
+  result,
+  revertReason,
+  sent,
+  timestamp,
+}: PreflightHistoryItemProps) => {
+  const prediction = result !== undefined ? getAttemptResultLabel(result) : `回滚: ${revertReason ?? "未知"}`;
+
+  return (
+    <div className="flex items-center justify-between p-3 bg-base-200/30 rounded-xl text-sm">
+      <div className="flex items-center gap-3">
+        <BeakerIcon className="h-4 w-4 text-base-content/50" />
+        <div>
+          <div className="font-medium">
+            预检
+            {eventTitle ? ` - ${eventTitle}` : eventId ? ` #${eventId}` : ""}
+          </div>
+          <div className={result === AttemptResult.Success ? "text-success" : "text-error"}>预测：{prediction}</div>
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <span className={`badge badge-sm ${sent ? "badge-ghost" : "badge-success"}`}>
+          {sent ? "已发送" : "已取消，未花费 Gas"}
+        </span>
+        <div className="text-base-content/50 text-xs min-w-[60px] text-right">{formatTimeAgo(timestamp)}</div>
+      </div>
+    </div>
+  );
+};
+
 function formatTimeAgo(timestamp: number): string {
   const seconds = Math.floor((Date.now() - timestamp) / 1000);
   if (seconds < 60) return `${seconds}秒前`;
@@ -0,0 +1,56 @@
+"use client";
+
+import { formatEther } from "viem";
+import { ClassCaptureRow } from "~~/utils/demo";
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+/**
+ * Tickets captured per participant class against the class's share of the crowd
+ */
+export const ClassCaptureReport = ({ rows }: { rows: ClassCaptureRow[] }) => (
+  <div className="bg-base-100 rounded-2xl shadow-xl p-4 mb-6">
+    <h3 className="font-bold text-lg mb-1">各类参与者抢到的票</h3>
+    <p className="text-sm text-base-content/60 mb-4">
+      占比倍数 = 抢到的票占比 ÷ 人数占比，1.00 表示与人数成比例，大于 1 表示多拿
+    </p>
+    <div className="overflow-x-auto">
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>类别</th>
+            <th className="text-right">人数 (占比)</th>
+            <th className="text-right">尝试次数</th>
+            <th className="text-right">抢到 (占比)</th>
+            <th className="text-right">占比倍数</th>
+            <th className="text-right">平均确认</th>
+            <th className="text-right">Gas 总花费</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.id}>
+              <td>{row.label}</td>
+              <td className="text-right font-mono">
+                {row.users.toLocaleString()} ({formatShare(row.userShare)})
+              </td>
+              <td className="text-right font-mono">{row.attempts.toLocaleString()}</td>
+              <td className="text-right font-mono">
+                {row.tickets} ({formatShare(row.ticketShare)})
+              </td>
+              <td
+                className={`text-right font-mono font-bold ${
+                  row.captureRatio > 1.05 ? "text-error" : row.captureRatio < 0.95 ? "text-info" : ""
+                }`}
+              >
+                {row.captureRatio.toFixed(2)}
+              </td>
+              <td className="text-right font-mono">{row.avgConfirmTime}ms</td>
+              <td className="text-right font-mono">{parseFloat(formatEther(row.gasCost)).toFixed(4)} MON</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
@@ -0,0 +1,99 @@
+"use client";
+
+import { BackwardIcon, ForwardIcon, PauseIcon, PlayIcon } from "@heroicons/react/24/outline";
+import { ReplayMode } from "~~/utils/demo";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10, 50];
+
+interface ReplayControlsProps {
+  mode: ReplayMode;
+  isPlaying: boolean;
+  speed: number;
+  position: number; // ms in time mode, revealed blocks in block mode
+  max: number;
+  label: string;
+  onModeChange: (mode: ReplayMode) => void;
+  onPlayPause: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (position: number) => void;
+}
+
+/**
+ * Playback controls for an on-chain sale replay: play/pause, speed, a scrubber and block-by-block stepping
+ */
+export const ReplayControls = ({
+  mode,
+  isPlaying,
+  speed,
+  position,
+  max,
+  label,
+  onModeChange,
+  onPlayPause,
+  onSpeedChange,
+  onSeek,
+}: ReplayControlsProps) => (
+  <div className="bg-base-100 rounded-xl p-4 shadow-lg mb-6 space-y-3">
+    <div className="flex flex-wrap items-center gap-2">
+      <button className="btn btn-primary btn-sm gap-1" onClick={onPlayPause} disabled={max === 0}>
+        {isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+        {isPlaying ? "暂停" : position >= max ? "重新播放" : "播放"}
+      </button>
+      {mode === "block" && (
+        <>
+          <button
+            className="btn btn-ghost btn-sm"
+            onClick={() => onSeek(position - 1)}
+            disabled={position <= 0}
+            aria-label="上一个区块"
+          >
+            <BackwardIcon className="h-4 w-4" />
+          </button>
+          <button
+            className="btn btn-ghost btn-sm"
+            onClick={() => onSeek(position + 1)}
+            disabled={position >= max}
+            aria-label="下一个区块"
+          >
+            <ForwardIcon className="h-4 w-4" />
+          </button>
+        </>
+      )}
+      <div className="join">
+        <button
+          className={`btn btn-sm join-item ${mode === "time" ? "btn-active" : ""}`}
+          onClick={() => onModeChange("time")}
+        >
+          按时间
+        </button>
+        <button
+          className={`btn btn-sm join-item ${mode === "block" ? "btn-active" : ""}`}
+          onClick={() => onModeChange("block")}
+        >
+          逐区块
+        </button>
+      </div>
+      <select
+        className="select select-bordered select-sm"
+        value={speed}
+        onChange={e => onSpeedChange(Number(e.target.value))}
+      >
+        {REPLAY_SPEEDS.map(s => (
+          <option key={s} value={s}>
+            {s}x
+          </option>
+        ))}
+      </select>
+      <span className="text-sm text-base-content/70 ml-auto font-mono">{label}</span>
+    </div>
+    <input
+      type="range"
+      className="range range-primary range-sm"
+      min={0}
+      max={max}
+      step={mode === "time" ? 100 : 1}
+      value={Math.min(position, max)}
+      onChange={e => onSeek(Number(e.target.value))}
+    />
+  </div>
+);
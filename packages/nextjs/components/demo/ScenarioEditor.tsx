@@ -0,0 +1,271 @@
+"use client";
+
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import {
+  LatencyDistribution,
+  ParticipantClass,
+  RetryStrategy,
+  SIMULATION_PRESETS,
+  SimulationConfig,
+  SuccessModel,
+} from "~~/utils/demo";
+
+interface ScenarioEditorProps {
+  config: SimulationConfig;
+  presetId: string | null; // null once the preset has been edited
+  disabled: boolean;
+  onPresetChange: (presetId: string) => void;
+  onChange: (config: SimulationConfig) => void;
+}
+
+const DEFAULT_LATENCY: Record<LatencyDistribution["kind"], LatencyDistribution> = {
+  uniform: { kind: "uniform", meanMs: 400, spreadMs: 200 },
+  normal: { kind: "normal", meanMs: 400, stdDevMs: 100 },
+};
+
+const DEFAULT_RETRY: Record<RetryStrategy["kind"], RetryStrategy> = {
+  none: { kind: "none" },
+  immediate: { kind: "immediate", maxRetries: 3 },
+  backoff: { kind: "backoff", maxRetries: 3, baseDelayMs: 500 },
+};
+
+const DEFAULT_SUCCESS: Record<SuccessModel["kind"], SuccessModel> = {
+  firstCome: { kind: "firstCome" },
+  lottery: { kind: "lottery", probability: 0.02 },
+};
+
+/**
+ * Editor for the /demo simulation: pick a preset, then tune the sale and its participant classes
+ */
+export const ScenarioEditor = ({ config, presetId, disabled, onPresetChange, onChange }: ScenarioEditorProps) => {
+  const preset = SIMULATION_PRESETS.find(p => p.id === presetId);
+
+  const updateClass = (index: number, changes: Partial<ParticipantClass>) =>
+    onChange({ ...config, classes: config.classes.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+
+  const addClass = () => {
+    // Ids only need to be unique within the scenario
+    const id = `class-${Date.now().toString(36)}`;
+    onChange({
+      ...config,
+      classes: [
+        ...config.classes,
+        {
+          id,
+          label: `类别 ${config.classes.length + 1}`,
+          users: 1000,
+          arrivalSpreadMs: 1000,
+          latency: DEFAULT_LATENCY.uniform,
+          retry: DEFAULT_RETRY.none,
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className="bg-base-100 rounded-2xl shadow-xl p-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h3 className="font-bold text-lg mr-2">场景</h3>
+        {SIMULATION_PRESETS.map(p => (
+          <button
+            key={p.id}
+            className={`btn btn-sm ${p.id === presetId ? "btn-primary" : "btn-ghost"}`}
+            onClick={() => onPresetChange(p.id)}
+            disabled={disabled}
+          >
+            {p.label}
+          </button>
+        ))}
+        {!preset && <span className="badge badge-outline">自定义</span>}
+      </div>
+      {preset && <p className="text-sm text-base-content/60 mb-4">{preset.description}</p>}
+
+      <fieldset disabled={disabled} className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <NumberField label="随机种子" value={config.seed} onChange={seed => onChange({ ...config, seed })} />
+          <NumberField
+            label="票数"
+            value={config.tickets}
+            min={1}
+            onChange={tickets => onChange({ ...config, tickets })}
+          />
+          <NumberField
+            label="链上容量 (TPS)"
+            value={config.tps}
+            min={1}
+            onChange={tps => onChange({ ...config, tps })}
+          />
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">分配方式</span>
+            <select
+              className="select select-bordered select-sm"
+              value={config.success.kind}
+              onChange={e => onChange({ ...config, success: DEFAULT_SUCCESS[e.target.value as SuccessModel["kind"]] })}
+            >
+              <option value="firstCome">先到先得</option>
+              <option value="lottery">随机中签</option>
+            </select>
+          </label>
+          {config.success.kind === "lottery" && (
+            <NumberField
+              label="中签概率"
+              value={config.success.probability}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={probability => onChange({ ...config, success: { kind: "lottery", probability } })}
+            />
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>类别</th>
+                <th>人数</th>
+                <th>到达窗口 (ms)</th>
+                <th>提交延迟</th>
+                <th>重试策略</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {config.classes.map((participantClass, index) => (
+                <tr key={participantClass.id}>
+                  <td>
+                    <input
+                      className="input input-bordered input-sm w-28"
+                      value={participantClass.label}
+                      onChange={e => updateClass(index, { label: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <NumberInput
+                      value={participantClass.users}
+                      min={0}
+                      onChange={users => updateClass(index, { users })}
+                    />
+                  </td>
+                  <td>
+                    <NumberInput
+                      value={participantClass.arrivalSpreadMs}
+                      min={0}
+                      onChange={arrivalSpreadMs => updateClass(index, { arrivalSpreadMs })}
+                    />
+                  </td>
+                  <td>
+                    <LatencyInput
+                      latency={participantClass.latency}
+                      onChange={latency => updateClass(index, { latency })}
+                    />
+                  </td>
+                  <td>
+                    <RetryInput retry={participantClass.retry} onChange={retry => updateClass(index, { retry })} />
+                  </td>
+                  <td>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => onChange({ ...config, classes: config.classes.filter((_, i) => i !== index) })}
+                      disabled={config.classes.length === 1}
+                      aria-label="删除类别"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button className="btn btn-sm btn-ghost gap-1" onClick={addClass}>
+          <PlusIcon className="h-4 w-4" />
+          添加类别
+        </button>
+      </fieldset>
+    </div>
+  );
+};
+
+// ============ Inputs ============
+type NumberInputProps = {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+};
+
+const NumberInput = ({ value, onChange, min, max, step }: NumberInputProps) => (
+  <input
+    type="number"
+    className="input input-bordered input-sm w-24"
+    value={value}
+    min={min}
+    max={max}
+    step={step}
+    onChange={e => {
+      const parsed = Number(e.target.value);
+      if (e.target.value !== "" && Number.isFinite(parsed)) onChange(parsed);
+    }}
+  />
+);
+
+const NumberField = ({ label, ...props }: NumberInputProps & { label: string }) => (
+  <label className="form-control">
+    <span className="label-text text-xs mb-1">{label}</span>
+    <NumberInput {...props} />
+  </label>
+);
+
+const LatencyInput = ({
+  latency,
+  onChange,
+}: {
+  latency: LatencyDistribution;
+  onChange: (latency: LatencyDistribution) => void;
+}) => (
+  <div className="flex items-center gap-1">
+    <select
+      className="select select-bordered select-sm"
+      value={latency.kind}
+      onChange={e => onChange(DEFAULT_LATENCY[e.target.value as LatencyDistribution["kind"]])}
+    >
+      <option value="uniform">均匀</option>
+      <option value="normal">正态</option>
+    </select>
+    <NumberInput value={latency.meanMs} min={0} onChange={meanMs => onChange({ ...latency, meanMs })} />
+    <span className="text-xs">±</span>
+    {latency.kind === "uniform" ? (
+      <NumberInput value={latency.spreadMs} min={0} onChange={spreadMs => onChange({ ...latency, spreadMs })} />
+    ) : (
+      <NumberInput value={latency.stdDevMs} min={0} onChange={stdDevMs => onChange({ ...latency, stdDevMs })} />
+    )}
+  </div>
+);
+
+const RetryInput = ({ retry, onChange }: { retry: RetryStrategy; onChange: (retry: RetryStrategy) => void }) => (
+  <div className="flex items-center gap-1">
+    <select
+      className="select select-bordered select-sm"
+      value={retry.kind}
+      onChange={e => onChange(DEFAULT_RETRY[e.target.value as RetryStrategy["kind"]])}
+    >
+      <option value="none">不重试</option>
+      <option value="immediate">立即重试</option>
+      <option value="backoff">指数退避</option>
+    </select>
+    {retry.kind !== "none" && (
+      <>
+        <NumberInput value={retry.maxRetries} min={0} onChange={maxRetries => onChange({ ...retry, maxRetries })} />
+        <span className="text-xs">次</span>
+      </>
+    )}
+    {retry.kind === "backoff" && (
+      <>
+        <NumberInput value={retry.baseDelayMs} min={0} onChange={baseDelayMs => onChange({ ...retry, baseDelayMs })} />
+        <span className="text-xs">ms 起</span>
+      </>
+    )}
+  </div>
+);
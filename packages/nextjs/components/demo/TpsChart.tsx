@@ -0,0 +1,41 @@
+"use client";
+
+const MAX_BARS = 60;
+
+interface TpsChartProps {
+  series: number[]; // attempts per second
+  cursor: number; // index of the current second, later seconds are dimmed
+}
+
+/**
+ * Bar chart of attempts per second; long series are merged into at most MAX_BARS bars
+ */
+export const TpsChart = ({ series, cursor }: TpsChartProps) => {
+  const secondsPerBar = Math.max(1, Math.ceil(series.length / MAX_BARS));
+  const bars = Array.from({ length: Math.ceil(series.length / secondsPerBar) }, (_, i) =>
+    series.slice(i * secondsPerBar, (i + 1) * secondsPerBar).reduce((sum, count) => sum + count, 0),
+  );
+  const max = Math.max(1, ...bars);
+
+  return (
+    <div className="bg-base-100 rounded-xl p-4 shadow-lg mb-6">
+      <div className="flex justify-between text-sm mb-2">
+        <span className="font-semibold">每秒抢票尝试</span>
+        <span className="text-base-content/70">
+          峰值 {Math.max(0, ...series).toLocaleString()} 次/秒
+          {secondsPerBar > 1 && ` · 每柱 ${secondsPerBar} 秒`}
+        </span>
+      </div>
+      <div className="flex items-end gap-px h-24">
+        {bars.map((count, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-t ${i * secondsPerBar <= cursor ? "bg-orange-500" : "bg-base-300"}`}
+            style={{ height: `${(count / max) * 100}%`, minHeight: count > 0 ? 2 : 0 }}
+            title={`${i * secondsPerBar}s: ${count}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
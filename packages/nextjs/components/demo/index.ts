@@ -0,0 +1,4 @@
+export * from "./ScenarioEditor";
+export * from "./ClassCaptureReport";
+export * from "./TpsChart";
+export * from "./ReplayControls";
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { ExclamationTriangleIcon, NoSymbolIcon } from "@heroicons/react/24/outline";
+import { useEventCancellation } from "~~/hooks/useEventCancellation";
+import { EventStatus, TicketEvent } from "~~/types/ticket-engine";
+import { notification } from "~~/utils/scaffold-eth";
+
+interface CancellationPanelProps {
+  event: TicketEvent;
+  onCancelled?: () => void;
+}
+
+/**
+ * Organizer cancel button before cancellation, refund claim for ticket holders after it
+ */
+export const CancellationPanel = ({ event, onCancelled }: CancellationPanelProps) => {
+  const { address } = useAccount();
+  const isCancelled = event.status === EventStatus.Cancelled;
+  const { refundableTicketIds, refundAmount, cancel, claimRefund, isMining } = useEventCancellation(
+    event.id,
+    isCancelled,
+  );
+  const [confirming, setConfirming] = useState(false);
+
+  const isOrganizer = !!address && address.toLowerCase() === event.organizer.toLowerCase();
+
+  const handleCancel = async () => {
+    try {
+      await cancel();
+      notification.success("活动已取消");
+      setConfirming(false);
+      onCancelled?.();
+    } catch (error) {
+      console.error("Cancel event error:", error);
+    }
+  };
+
+  const handleRefund = async () => {
+    try {
+      await claimRefund();
+      notification.success("退款已到账");
+    } catch (error) {
+      console.error("Claim refund error:", error);
+    }
+  };
+
+  if (isCancelled) {
+    if (refundableTicketIds.length === 0) return null;
+    return (
+      <div className="p-4 bg-base-200/50 rounded-xl space-y-2">
+        <div className="text-sm">
+          你持有 {refundableTicketIds.length} 张可退款门票，共 {formatEther(refundAmount)} MON
+        </div>
+        <button className="btn btn-primary btn-sm w-full" onClick={handleRefund} disabled={isMining}>
+          {isMining ? <span className="loading loading-spinner loading-sm"></span> : "申请退款"}
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOrganizer) return null;
+
+  return confirming ? (
+    <div className="p-4 bg-error/10 rounded-xl border border-error/30 space-y-3">
+      <div className="text-sm flex items-start gap-2">
+        <ExclamationTriangleIcon className="h-5 w-5 text-error shrink-0" />
+        取消后无法恢复：抢票将停止，已发放的门票作废，付费票持有人可申请退款。
+      </div>
+      <div className="flex gap-2">
+        <button className="btn btn-ghost btn-sm flex-1" onClick={() => setConfirming(false)} disabled={isMining}>
+          返回
+        </button>
+        <button className="btn btn-error btn-sm flex-1" onClick={handleCancel} disabled={isMining}>
+          {isMining ? <span className="loading loading-spinner loading-sm"></span> : "确认取消"}
+        </button>
+      </div>
+    </div>
+  ) : (
+    <button className="btn btn-outline btn-error btn-sm w-full gap-2" onClick={() => setConfirming(true)}>
+      <NoSymbolIcon className="h-4 w-4" />
+      取消活动
+    </button>
+  );
+};
@@ -1,53 +1,46 @@
 "use client";
 
-import { useEffect, useState } from "react";
 import Link from "next/link";
-import { EventStatus, TicketEvent, getStatusColor, getStatusLabel } from "~~/types/ticket-engine";
+import { useChainClock } from "~~/hooks/useChainClock";
+import { getEventStatusFromData } from "~~/hooks/useTicketEngine";
+import {
+  AllocationMode,
+  EventStatus,
+  TicketEvent,
+  formatPriceRange,
+  getAllocationModeLabel,
+  getStatusColor,
+  getStatusLabel,
+} from "~~/types/ticket-engine";
 
 interface EventCardProps {
   event: TicketEvent;
 }
 
-export const EventCard = ({ event }: EventCardProps) => {
-  const [countdown, setCountdown] = useState("");
-  const [currentStatus, setCurrentStatus] = useState(event.status);
-
-  useEffect(() => {
-    const updateCountdown = () => {
-      const now = BigInt(Math.floor(Date.now() / 1000));
-
-      if (now >= event.startTime) {
-        if (event.remainingTickets === 0n) {
-          setCurrentStatus(EventStatus.SoldOut);
-        } else {
-          setCurrentStatus(EventStatus.InProgress);
-        }
-        setCountdown("");
-        return;
-      }
+const formatCountdown = (diff: number) => {
+  const hours = Math.floor(diff / 3600);
+  const minutes = Math.floor((diff % 3600) / 60);
+  const seconds = diff % 60;
 
-      setCurrentStatus(EventStatus.NotStarted);
-      const diff = Number(event.startTime - now);
-      const hours = Math.floor(diff / 3600);
-      const minutes = Math.floor((diff % 3600) / 60);
-      const seconds = diff % 60;
-
-      if (hours > 24) {
-        const days = Math.floor(hours / 24);
-        setCountdown(`${days}天 ${hours % 24}时`);
-      } else if (hours > 0) {
-        setCountdown(`${hours}时 ${minutes}分 ${seconds}秒`);
-      } else if (minutes > 0) {
-        setCountdown(`${minutes}分 ${seconds}秒`);
-      } else {
-        setCountdown(`${seconds}秒`);
-      }
-    };
+  if (hours > 24) {
+    const days = Math.floor(hours / 24);
+    return `${days}天 ${hours % 24}时`;
+  }
+  if (hours > 0) return `${hours}时 ${minutes}分 ${seconds}秒`;
+  if (minutes > 0) return `${minutes}分 ${seconds}秒`;
+  return `${seconds}秒`;
+};
 
-    updateCountdown();
-    const interval = setInterval(updateCountdown, 1000);
-    return () => clearInterval(interval);
-  }, [event.startTime, event.remainingTickets]);
+export const EventCard = ({ event }: EventCardProps) => {
+  // Chain time, so a skewed local clock does not show the sale as started early
+  const { now } = useChainClock();
+  const currentStatus = getEventStatusFromData(
+    event.startTime,
+    event.remainingTickets,
+    event.status === EventStatus.Cancelled,
+    now,
+  );
+  const countdown = currentStatus === EventStatus.NotStarted ? formatCountdown(Number(event.startTime - now)) : "";
 
   const startDate = new Date(Number(event.startTime) * 1000);
   const formattedDate = startDate.toLocaleString("zh-CN", {
@@ -62,9 +55,11 @@ export const EventCard = ({ event }: EventCardProps) => {
       case EventStatus.NotStarted:
         return "查看详情";
       case EventStatus.InProgress:
-        return "去抢票";
+        return event.mode === AllocationMode.Raffle ? "去报名" : "去抢票";
       case EventStatus.SoldOut:
         return "查看结果";
+      case EventStatus.Cancelled:
+        return "已取消";
     }
   };
 
@@ -75,6 +70,7 @@ export const EventCard = ({ event }: EventCardProps) => {
       case EventStatus.InProgress:
         return "btn-primary animate-pulse";
       case EventStatus.SoldOut:
+      case EventStatus.Cancelled:
         return "btn-ghost";
     }
   };
@@ -84,7 +80,12 @@ export const EventCard = ({ event }: EventCardProps) => {
       <div className="card-body">
         <div className="flex justify-between items-start gap-2">
           <h2 className="card-title text-lg line-clamp-2">{event.title}</h2>
-          <span className={`badge ${getStatusColor(currentStatus)} shrink-0`}>{getStatusLabel(currentStatus)}</span>
+          <div className="flex gap-1 shrink-0">
+            {event.mode === AllocationMode.Raffle && (
+              <span className="badge badge-info">{getAllocationModeLabel(event.mode)}</span>
+            )}
+            <span className={`badge ${getStatusColor(currentStatus)}`}>{getStatusLabel(currentStatus)}</span>
+          </div>
         </div>
 
         <div className="flex flex-col gap-1 text-sm text-base-content/70">
@@ -92,6 +93,10 @@ export const EventCard = ({ event }: EventCardProps) => {
             <span>开始:</span>
             <span className="font-mono">{formattedDate}</span>
           </div>
+          <div className="flex items-center gap-2">
+            <span>票价:</span>
+            <span className="font-mono">{formatPriceRange(event.tiers)}</span>
+          </div>
           {countdown && (
             <div className="flex items-center gap-2">
               <span>倒计时:</span>
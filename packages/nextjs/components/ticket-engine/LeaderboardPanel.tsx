@@ -0,0 +1,48 @@
+"use client";
+
+import { Address } from "@scaffold-ui/components";
+import { Address as AddressType } from "viem";
+import { BoltIcon } from "@heroicons/react/24/outline";
+import { useIndexerQuery } from "~~/hooks/useIndexer";
+import { LeaderboardEntry, indexerUrl } from "~~/services/indexer/client";
+
+interface LeaderboardPanelProps {
+  eventId: bigint;
+}
+
+/**
+ * Fastest participants of a sale, ranked by when their first ticket landed on-chain
+ * Only rendered when the indexer is configured
+ */
+export const LeaderboardPanel = ({ eventId }: LeaderboardPanelProps) => {
+  const { data: entries } = useIndexerQuery<LeaderboardEntry[]>(`/events/${eventId}/leaderboard?limit=10`);
+
+  if (!indexerUrl || !entries || entries.length === 0) return null;
+
+  return (
+    <div className="bg-base-100 rounded-2xl shadow-xl overflow-hidden mb-6">
+      <div className="bg-gradient-to-r from-emerald-500 to-teal-500 p-4">
+        <h3 className="font-bold text-lg text-white flex items-center gap-2">
+          <BoltIcon className="h-6 w-6" />
+          手速榜
+        </h3>
+      </div>
+      <div className="p-4 space-y-2">
+        {entries.map(entry => (
+          <div key={entry.participant} className="flex items-center justify-between p-3 bg-base-200/50 rounded-lg">
+            <div className="flex items-center gap-3">
+              <span className="font-bold w-6 text-center">{entry.rank}</span>
+              <Address address={entry.participant as AddressType} size="sm" />
+            </div>
+            <div className="text-right text-sm">
+              <div>开售后 {entry.secondsAfterStart} 秒</div>
+              <div className="text-xs text-base-content/50">
+                区块 #{entry.blockNumber} · {entry.tickets} 张
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
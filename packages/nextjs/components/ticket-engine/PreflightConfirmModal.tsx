@@ -0,0 +1,47 @@
+"use client";
+
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { getAttemptResultLabel } from "~~/types/ticket-engine";
+import { GrabPreflight } from "~~/utils/ticket-engine";
+
+interface PreflightConfirmModalProps {
+  preflight: GrabPreflight;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when the simulated grab predicts a failure: sending it anyway costs gas for a recorded failed attempt
+ */
+export const PreflightConfirmModal = ({ preflight, onConfirm, onCancel }: PreflightConfirmModalProps) => {
+  const reason =
+    preflight.result !== undefined ? getAttemptResultLabel(preflight.result) : (preflight.revertReason ?? "交易会回滚");
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <ExclamationTriangleIcon className="h-6 w-6 text-warning" />
+          预检显示本次抢票会失败
+        </h3>
+        <p className="py-4 text-base-content/70">
+          原因：<span className="font-semibold text-error">{reason}</span>
+          <br />
+          {preflight.result !== undefined
+            ? "发送交易仍会消耗 Gas，并记录一次失败的抢票尝试。"
+            : "交易会被合约拒绝，发送仍会消耗 Gas。"}
+          预检基于最新区块，链上状态可能在交易打包前变化。
+        </p>
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={onCancel}>
+            取消
+          </button>
+          <button className="btn btn-warning" onClick={onConfirm}>
+            仍然发送
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onCancel} />
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+"use client";
+
+import { formatEther } from "viem";
+import { BanknotesIcon, LockClosedIcon } from "@heroicons/react/24/outline";
+import { useChainClock } from "~~/hooks/useChainClock";
+import { useEventProceeds } from "~~/hooks/useEventProceeds";
+import { EventStatus, TicketEvent } from "~~/types/ticket-engine";
+import { notification } from "~~/utils/scaffold-eth";
+
+interface ProceedsPanelProps {
+  event: TicketEvent;
+}
+
+/**
+ * Organizer view of the event's escrowed ticket payments
+ * - Once cancelled, only the payments of returned tickets are shown, the rest goes back as refunds
+ */
+export const ProceedsPanel = ({ event }: ProceedsPanelProps) => {
+  const { proceeds: total, returnedProceeds, lockPeriod, withdraw, isMining } = useEventProceeds(event.id);
+  const isCancelled = event.status === EventStatus.Cancelled;
+  const proceeds = isCancelled ? returnedProceeds : total;
+
+  const unlockTime = lockPeriod !== undefined ? event.startTime + lockPeriod : undefined;
+  const { now } = useChainClock();
+  const isUnlocked = unlockTime !== undefined && now >= unlockTime;
+
+  const handleWithdraw = async () => {
+    try {
+      await withdraw();
+      notification.success("票款已提取");
+    } catch (error) {
+      console.error("Withdraw proceeds error:", error);
+    }
+  };
+
+  if (isCancelled && proceeds === 0n) return null;
+
+  return (
+    <div className="p-4 bg-base-200/50 rounded-xl">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold text-sm flex items-center gap-2">
+          <BanknotesIcon className="h-4 w-4" />
+          {isCancelled ? "退票票款" : "托管票款"}
+        </h4>
+        <span className="font-mono font-bold">{formatEther(proceeds)} MON</span>
+      </div>
+      {isUnlocked ? (
+        <button
+          className="btn btn-primary btn-sm w-full"
+          onClick={handleWithdraw}
+          disabled={isMining || proceeds === 0n}
+        >
+          {isMining ? <span className="loading loading-spinner loading-sm"></span> : "提取票款"}
+        </button>
+      ) : (
+        <div className="text-xs text-base-content/70 flex items-center gap-1">
+          <LockClosedIcon className="h-3 w-3" />
+          {unlockTime !== undefined
+            ? `${new Date(Number(unlockTime) * 1000).toLocaleString("zh-CN")} 后可提取`
+            : "活动结束后可提取"}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { Hex, isHex } from "viem";
+import { useAccount } from "wagmi";
+import { CheckCircleIcon, ClockIcon, GiftIcon, LockClosedIcon } from "@heroicons/react/24/outline";
+import { useChainClock } from "~~/hooks/useChainClock";
+import { useRaffle } from "~~/hooks/useRaffle";
+import { TicketEvent, formatTicketPrice, getRafflePhase } from "~~/types/ticket-engine";
+import { notification } from "~~/utils/scaffold-eth";
+
+interface RafflePanelProps {
+  event: TicketEvent;
+  hasTicket: boolean;
+  ticketId?: bigint;
+  onTicketClaimed?: () => void;
+}
+
+export const RafflePanel = ({ event, hasTicket, ticketId, onTicketClaimed }: RafflePanelProps) => {
+  const { address } = useAccount();
+  const { raffle, isRegistered, isWinner, storedSeed, register, reveal, claim, isMining } = useRaffle(event.id);
+  const { now } = useChainClock();
+  const [seedInput, setSeedInput] = useState("");
+
+  if (!raffle) {
+    return (
+      <div className="flex justify-center py-6">
+        <span className="loading loading-spinner loading-md text-primary"></span>
+      </div>
+    );
+  }
+
+  const phase = getRafflePhase(raffle, event.startTime, now);
+  const isOrganizer = !!address && address.toLowerCase() === event.organizer.toLowerCase();
+
+  const handleRegister = async () => {
+    if (!address) {
+      notification.error("请先连接钱包");
+      return;
+    }
+    try {
+      await register();
+      notification.success("报名成功！");
+    } catch (error) {
+      console.error("Raffle register error:", error);
+    }
+  };
+
+  const handleReveal = async () => {
+    const seed = (storedSeed ?? seedInput.trim()) as Hex;
+    if (!isHex(seed) || seed.length !== 66) {
+      notification.error("请输入有效的种子 (0x 开头的 32 字节)");
+      return;
+    }
+    try {
+      await reveal(seed);
+      notification.success("开奖完成！");
+    } catch (error) {
+      console.error("Raffle reveal error:", error);
+    }
+  };
+
+  // Raffle events have a single tier
+  const price = event.tiers[0]?.price ?? 0n;
+
+  const handleClaim = async () => {
+    try {
+      await claim(price);
+      notification.success("恭喜！领取成功！");
+      onTicketClaimed?.();
+    } catch (error) {
+      console.error("Raffle claim error:", error);
+    }
+  };
+
+  const renderAction = () => {
+    if (hasTicket) {
+      return (
+        <button className="btn btn-success btn-lg w-full gap-2" disabled>
+          <CheckCircleIcon className="h-6 w-6" />
+          已获得票号 #{ticketId?.toString()}
+        </button>
+      );
+    }
+
+    switch (phase) {
+      case "upcoming":
+        return (
+          <button className="btn btn-lg w-full gap-2" disabled>
+            <ClockIcon className="h-6 w-6" />
+            {formatDuration(event.startTime - now)} 后开放报名
+          </button>
+        );
+      case "registration":
+        return isRegistered ? (
+          <button className="btn btn-success btn-lg w-full gap-2" disabled>
+            <CheckCircleIcon className="h-6 w-6" />
+            已报名，等待开奖
+          </button>
+        ) : (
+          <button className="btn btn-primary btn-lg w-full" onClick={handleRegister} disabled={isMining}>
+            {isMining ? <span className="loading loading-spinner"></span> : "立即报名"}
+          </button>
+        );
+      case "awaitingReveal":
+        if (!isOrganizer) {
+          return (
+            <button className="btn btn-lg w-full gap-2" disabled>
+              <LockClosedIcon className="h-6 w-6" />
+              报名已截止，等待主办方开奖
+            </button>
+          );
+        }
+        return (
+          <div className="space-y-3">
+            {!storedSeed && (
+              <input
+                type="text"
+                placeholder="输入创建活动时保存的种子 0x..."
+                className="input input-bordered w-full font-mono text-sm"
+                value={seedInput}
+                onChange={e => setSeedInput(e.target.value)}
+              />
+            )}
+            <button className="btn btn-primary btn-lg w-full" onClick={handleReveal} disabled={isMining}>
+              {isMining ? <span className="loading loading-spinner"></span> : "公布种子并开奖"}
+            </button>
+          </div>
+        );
+      case "drawn":
+        if (isWinner) {
+          return (
+            <button className="btn btn-primary btn-lg w-full gap-2" onClick={handleClaim} disabled={isMining}>
+              {isMining ? (
+                <span className="loading loading-spinner"></span>
+              ) : (
+                <>
+                  <GiftIcon className="h-6 w-6" />
+                  已中签，领取门票
+                  {price > 0n && `（${formatTicketPrice(price)}）`}
+                </>
+              )}
+            </button>
+          );
+        }
+        return (
+          <button className="btn btn-lg w-full" disabled>
+            {isRegistered ? "未中签" : "已开奖"}
+          </button>
+        );
+      case "expired":
+        return (
+          <button className="btn btn-lg w-full" disabled>
+            主办方未按时开奖
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div className="bg-base-200/50 rounded-lg p-3 text-center">
+          <div className="text-xs text-base-content/50">报名人数</div>
+          <div className="text-xl font-bold font-mono">{raffle.entrantCount.toString()}</div>
+        </div>
+        <div className="bg-base-200/50 rounded-lg p-3 text-center">
+          <div className="text-xs text-base-content/50">{raffle.revealed ? "中签人数" : "报名截止"}</div>
+          <div className="text-xl font-bold font-mono">
+            {raffle.revealed
+              ? raffle.winnerCount.toString()
+              : new Date(Number(raffle.registrationEnd) * 1000).toLocaleTimeString("zh-CN")}
+          </div>
+        </div>
+      </div>
+
+      {phase === "registration" && (
+        <div className="text-center p-3 bg-warning/10 rounded-xl border border-warning/30">
+          <div className="text-sm text-base-content/70">距离报名截止</div>
+          <div className="text-2xl font-bold text-warning font-mono">
+            {formatDuration(raffle.registrationEnd - now)}
+          </div>
+        </div>
+      )}
+
+      {renderAction()}
+
+      <div className="text-xs text-base-content/50 break-all">
+        种子承诺: <span className="font-mono">{raffle.seedCommitment}</span>
+      </div>
+    </div>
+  );
+};
+
+function formatDuration(diffSeconds: bigint): string {
+  const diff = Number(diffSeconds > 0n ? diffSeconds : 0n);
+  const hours = Math.floor(diff / 3600);
+  const minutes = Math.floor((diff % 3600) / 60);
+  const seconds = diff % 60;
+
+  if (hours > 0) return `${hours}时 ${minutes}分 ${seconds}秒`;
+  if (minutes > 0) return `${minutes}分 ${seconds}秒`;
+  return `${seconds}秒`;
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useMemo } from "react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { useSaleReplay } from "~~/hooks/useSaleReplay";
+import { TicketEvent, getAttemptResultLabel } from "~~/types/ticket-engine";
+import { getSaleAnalytics, toSaleCsv } from "~~/utils/ticket-engine";
+
+interface SaleAnalyticsPanelProps {
+  event: TicketEvent;
+}
+
+const formatDuration = (ms: number) =>
+  ms < 60_000 ? `${(ms / 1000).toFixed(0)} 秒` : `${Math.floor(ms / 60_000)} 分 ${Math.round((ms % 60_000) / 1000)} 秒`;
+
+/**
+ * Sale statistics for the organizer, rebuilt from the event's AttemptRecorded and TicketGrabbed logs
+ */
+export const SaleAnalyticsPanel = ({ event }: SaleAnalyticsPanelProps) => {
+  const { timeline, isLoading, error } = useSaleReplay(event.id);
+  const analytics = useMemo(
+    () => getSaleAnalytics(timeline, event.totalTickets, event.startTime),
+    [timeline, event.totalTickets, event.startTime],
+  );
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([toSaleCsv(timeline)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `event-${event.id}-attempts.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <span className="loading loading-spinner loading-md text-primary"></span>
+      </div>
+    );
+  }
+
+  if (error) return <div className="text-sm text-error py-4 text-center">读取链上日志失败</div>;
+
+  if (timeline.blocks.length === 0) {
+    return <div className="text-sm text-base-content/50 py-4 text-center">还没有人参与抢票</div>;
+  }
+
+  const total = Number(event.totalTickets);
+  const maxMinute = Math.max(1, ...analytics.perMinute.map(minute => minute.attempts));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat label="抢票尝试" value={analytics.attempts.toLocaleString()} />
+        <Stat label="独立参与者" value={analytics.uniqueParticipants.toLocaleString()} />
+        <Stat label="已发放门票" value={`${analytics.ticketsSold} / ${total}`} />
+        <Stat
+          label="售罄用时"
+          value={analytics.soldOutAfterMs !== null ? formatDuration(analytics.soldOutAfterMs) : "未售罄"}
+        />
+      </div>
+
+      <div>
+        <div className="text-sm font-semibold mb-2">售出进度</div>
+        <SellThroughChart points={analytics.sellThrough} total={total} durationMs={timeline.durationMs} />
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="font-semibold">每分钟抢票</span>
+          <span className="text-base-content/50">峰值 {maxMinute.toLocaleString()} 次/分钟</span>
+        </div>
+        <div className="flex items-end gap-px h-16">
+          {analytics.perMinute.map((minute, i) => (
+            <div
+              key={i}
+              className="flex-1 rounded-t bg-primary/70"
+              style={{ height: `${(minute.attempts / maxMinute) * 100}%`, minHeight: minute.attempts > 0 ? 2 : 0 }}
+              title={`第 ${i + 1} 分钟：${minute.attempts} 次尝试，${minute.tickets} 张门票`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm font-semibold mb-2">尝试结果</div>
+        <div className="space-y-1">
+          {analytics.outcomes
+            .filter(outcome => outcome.count > 0)
+            .map(outcome => (
+              <div key={outcome.result} className="flex items-center gap-3 text-sm">
+                <span className="w-24 shrink-0">{getAttemptResultLabel(outcome.result)}</span>
+                <progress
+                  className="progress progress-primary flex-1"
+                  value={outcome.count}
+                  max={Math.max(1, analytics.attempts)}
+                />
+                <span className="w-16 text-right font-mono">{outcome.count}</span>
+              </div>
+            ))}
+        </div>
+      </div>
+
+      <button className="btn btn-ghost btn-sm gap-1" onClick={exportCsv}>
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        导出参与记录 (CSV)
+      </button>
+    </div>
+  );
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-base-200/50 rounded-lg p-3">
+      <div className="text-xs text-base-content/70">{label}</div>
+      <div className="font-bold font-mono">{value}</div>
+    </div>
+  );
+}
+
+function SellThroughChart({
+  points,
+  total,
+  durationMs,
+}: {
+  points: { offsetMs: number; sold: number }[];
+  total: number;
+  durationMs: number;
+}) {
+  const maxSold = Math.max(1, total, ...points.map(point => point.sold));
+  // Step line through every block, starting from nothing sold
+  const path = points
+    .map(point => {
+      const x = durationMs > 0 ? (point.offsetMs / durationMs) * 100 : 100;
+      const y = 40 - (point.sold / maxSold) * 40;
+      return `H ${x} V ${y}`;
+    })
+    .join(" ");
+
+  return (
+    <div className="bg-base-200/50 rounded-lg p-2">
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-24">
+        <path
+          d={`M 0 40 ${path}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-base-content/50">
+        <span>首笔交易</span>
+        <span>+{formatDuration(durationMs)}</span>
+      </div>
+    </div>
+  );
+}
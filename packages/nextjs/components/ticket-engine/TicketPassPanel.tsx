@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { QrCodeIcon } from "@heroicons/react/24/outline";
+import { useTicketPass } from "~~/hooks/useTicketPass";
+
+interface TicketPassPanelProps {
+  ticketId: bigint;
+  eventId: bigint;
+}
+
+/**
+ * Entry pass QR code for a ticket, signed by the holder's wallet and valid for a few minutes
+ */
+export const TicketPassPanel = ({ ticketId, eventId }: TicketPassPanelProps) => {
+  const { pass, payload, generate, clear, isSigning } = useTicketPass(ticketId, eventId);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    if (!pass) return;
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [pass]);
+
+  const handleGenerate = async () => {
+    try {
+      await generate();
+      setNow(Math.floor(Date.now() / 1000));
+    } catch (error) {
+      console.error("Sign ticket pass error:", error);
+    }
+  };
+
+  if (!pass || !payload) {
+    return (
+      <button className="btn btn-outline btn-sm w-full gap-2" onClick={handleGenerate} disabled={isSigning}>
+        {isSigning ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          <>
+            <QrCodeIcon className="h-4 w-4" />
+            出示入场码
+          </>
+        )}
+      </button>
+    );
+  }
+
+  const secondsLeft = pass.expiresAt - now;
+
+  return (
+    <div className="flex flex-col items-center gap-3 p-4 bg-base-100 rounded-lg">
+      {secondsLeft > 0 ? (
+        <>
+          <QRCodeSVG value={payload} size={220} />
+          <div className="text-sm text-base-content/70">
+            {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, "0")} 后失效，请勿截图转发
+          </div>
+        </>
+      ) : (
+        <div className="text-sm text-base-content/70">入场码已失效</div>
+      )}
+      <div className="flex gap-2 w-full">
+        <button className="btn btn-ghost btn-sm flex-1" onClick={clear}>
+          收起
+        </button>
+        <button className="btn btn-primary btn-sm flex-1" onClick={handleGenerate} disabled={isSigning}>
+          {isSigning ? <span className="loading loading-spinner loading-sm"></span> : "重新生成"}
+        </button>
+      </div>
+    </div>
+  );
+};
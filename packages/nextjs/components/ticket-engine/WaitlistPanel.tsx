@@ -0,0 +1,117 @@
+"use client";
+
+import { useAccount } from "wagmi";
+import { ClockIcon, GiftIcon, QueueListIcon } from "@heroicons/react/24/outline";
+import { useChainClock } from "~~/hooks/useChainClock";
+import { useWaitlist } from "~~/hooks/useWaitlist";
+import { EventStatus, TicketEvent, formatTicketPrice } from "~~/types/ticket-engine";
+import { notification } from "~~/utils/scaffold-eth";
+
+interface WaitlistPanelProps {
+  event: TicketEvent;
+  hasReachedLimit: boolean;
+  onTicketClaimed?: () => void;
+}
+
+/**
+ * Join button for sold-out events, then queue position and the claim button once a ticket is offered
+ */
+export const WaitlistPanel = ({ event, hasReachedLimit, onTicketClaimed }: WaitlistPanelProps) => {
+  const { address } = useAccount();
+  const { position, length, offer, join, claim, expire, isMining } = useWaitlist(event.id);
+
+  const { now } = useChainClock();
+  const isExpired = !!offer && now > offer.expiresAt;
+  const offeredTier = offer ? event.tiers[offer.tierId] : undefined;
+
+  const handleJoin = async () => {
+    try {
+      await join();
+      notification.success("已加入候补队列");
+    } catch (error) {
+      console.error("Join waitlist error:", error);
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      await claim(offeredTier?.price ?? 0n);
+      notification.success("恭喜！候补成功！");
+      onTicketClaimed?.();
+    } catch (error) {
+      console.error("Waitlist claim error:", error);
+    }
+  };
+
+  const handleExpire = async () => {
+    if (!address) return;
+    try {
+      await expire(address);
+      notification.info("已让给下一位候补");
+    } catch (error) {
+      console.error("Expire waitlist offer error:", error);
+    }
+  };
+
+  if (offer && !isExpired) {
+    return (
+      <div className="p-4 bg-success/10 rounded-xl border border-success/30 space-y-3">
+        <div className="text-sm">
+          有门票退回，已为你保留 1 张{offeredTier && `「${offeredTier.name}」`}，请在{" "}
+          {new Date(Number(offer.expiresAt) * 1000).toLocaleString("zh-CN")} 前领取
+        </div>
+        <button className="btn btn-primary btn-lg w-full gap-2" onClick={handleClaim} disabled={isMining}>
+          {isMining ? (
+            <span className="loading loading-spinner"></span>
+          ) : (
+            <>
+              <GiftIcon className="h-6 w-6" />
+              领取候补门票
+              {offeredTier && offeredTier.price > 0n && `（${formatTicketPrice(offeredTier.price)}）`}
+            </>
+          )}
+        </button>
+      </div>
+    );
+  }
+
+  if (offer && isExpired) {
+    return (
+      <div className="p-4 bg-base-200/50 rounded-xl space-y-2">
+        <div className="text-sm text-base-content/70">为你保留的门票已过期</div>
+        <button className="btn btn-ghost btn-sm w-full" onClick={handleExpire} disabled={isMining}>
+          {isMining ? <span className="loading loading-spinner loading-sm"></span> : "让给下一位候补"}
+        </button>
+      </div>
+    );
+  }
+
+  if (position > 0n) {
+    return (
+      <div className="p-4 bg-base-200/50 rounded-xl text-sm flex items-center gap-2">
+        <ClockIcon className="h-5 w-5 text-warning shrink-0" />
+        你在候补队列第 {position.toString()} 位（共 {length.toString()} 人），有人退票时将按顺序为你保留
+      </div>
+    );
+  }
+
+  if (event.status !== EventStatus.SoldOut || hasReachedLimit) return null;
+
+  return (
+    <div className="p-4 bg-base-200/50 rounded-xl space-y-2">
+      <div className="text-sm text-base-content/70">
+        门票已售罄{length > 0n && `，当前 ${length.toString()} 人候补`}。加入候补后，有人退票时按先后顺序为你保留门票。
+      </div>
+      <button className="btn btn-outline btn-sm w-full gap-2" onClick={handleJoin} disabled={isMining || !address}>
+        {isMining ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          <>
+            <QueueListIcon className="h-4 w-4" />
+            加入候补
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
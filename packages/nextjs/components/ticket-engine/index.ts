@@ -1 +1,9 @@
 export * from "./EventCard";
+export * from "./RafflePanel";
+export * from "./ProceedsPanel";
+export * from "./CancellationPanel";
+export * from "./WaitlistPanel";
+export * from "./TicketPassPanel";
+export * from "./LeaderboardPanel";
+export * from "./PreflightConfirmModal";
+export * from "./SaleAnalyticsPanel";
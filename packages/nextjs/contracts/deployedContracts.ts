@@ -203,6 +203,44 @@ const deployedContracts = {
           name: "AttemptRecorded",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "allowed",
+              type: "bool",
+            },
+          ],
+          name: "CheckInOperatorSet",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+          ],
+          name: "EventCancelled",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -263,25 +301,25 @@ const deployedContracts = {
               type: "uint256",
             },
             {
-              indexed: true,
-              internalType: "uint256",
-              name: "ticketId",
-              type: "uint256",
+              indexed: false,
+              internalType: "string",
+              name: "title",
+              type: "string",
             },
             {
-              indexed: true,
-              internalType: "address",
-              name: "participant",
-              type: "address",
+              indexed: false,
+              internalType: "uint256",
+              name: "startTime",
+              type: "uint256",
             },
             {
               indexed: false,
               internalType: "uint256",
-              name: "remainingTickets",
+              name: "totalTickets",
               type: "uint256",
             },
           ],
-          name: "TicketGrabbed",
+          name: "EventUpdated",
           type: "event",
         },
         {
@@ -289,251 +327,1631 @@ const deployedContracts = {
           inputs: [
             {
               indexed: true,
-              internalType: "address",
-              name: "from",
-              type: "address",
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
             },
             {
               indexed: true,
               internalType: "address",
-              name: "to",
+              name: "participant",
               type: "address",
             },
             {
-              indexed: true,
+              indexed: false,
               internalType: "uint256",
-              name: "tokenId",
+              name: "amount",
               type: "uint256",
             },
           ],
-          name: "Transfer",
+          name: "PaymentRefunded",
           type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "",
+              name: "eventId",
               type: "uint256",
             },
-          ],
-          name: "allEventIds",
-          outputs: [
             {
+              indexed: false,
+              internalType: "bytes32",
+              name: "merkleRoot",
+              type: "bytes32",
+            },
+            {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "presaleStart",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "PresaleConfigured",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
-              internalType: "address",
-              name: "to",
-              type: "address",
-            },
-            {
+              indexed: true,
               internalType: "uint256",
-              name: "tokenId",
+              name: "eventId",
               type: "uint256",
             },
-          ],
-          name: "approve",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
-        },
-        {
-          inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "owner",
+              name: "organizer",
               type: "address",
             },
-          ],
-          name: "balanceOf",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "amount",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "ProceedsWithdrawn",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
-              internalType: "string",
-              name: "_title",
-              type: "string",
-            },
-            {
+              indexed: true,
               internalType: "uint256",
-              name: "_startTime",
+              name: "eventId",
               type: "uint256",
             },
             {
-              internalType: "uint256",
-              name: "_totalTickets",
-              type: "uint256",
+              indexed: false,
+              internalType: "bytes32",
+              name: "seed",
+              type: "bytes32",
+            },
+            {
+              indexed: false,
+              internalType: "bytes32",
+              name: "drawSeed",
+              type: "bytes32",
             },
-          ],
-          name: "createEvent",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "eventId",
+              name: "winnerCount",
               type: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "RaffleDrawn",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "",
+              name: "eventId",
               type: "uint256",
             },
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
             },
-          ],
-          name: "eventTickets",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "entrantCount",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "RaffleRegistered",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "",
+              name: "eventId",
               type: "uint256",
             },
-          ],
-          name: "events",
-          outputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "id",
+              name: "ticketId",
               type: "uint256",
             },
             {
-              internalType: "string",
-              name: "title",
-              type: "string",
+              indexed: true,
+              internalType: "address",
+              name: "holder",
+              type: "address",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "startTime",
+              name: "amount",
               type: "uint256",
             },
+          ],
+          name: "RefundClaimed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "totalTickets",
+              name: "eventId",
               type: "uint256",
             },
             {
+              indexed: true,
               internalType: "uint256",
-              name: "remainingTickets",
+              name: "ticketId",
               type: "uint256",
             },
             {
+              indexed: true,
               internalType: "address",
-              name: "organizer",
+              name: "holder",
               type: "address",
             },
             {
-              internalType: "bool",
-              name: "exists",
-              type: "bool",
+              indexed: false,
+              internalType: "address",
+              name: "operator",
+              type: "address",
             },
-          ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "getAllEventIds",
-          outputs: [
             {
-              internalType: "uint256[]",
-              name: "",
-              type: "uint256[]",
+              indexed: false,
+              internalType: "uint256",
+              name: "timestamp",
+              type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "TicketCheckedIn",
+          type: "event",
         },
         {
-          inputs: [],
-          name: "getAllEvents",
-          outputs: [
-            {
-              internalType: "uint256[]",
-              name: "ids",
-              type: "uint256[]",
-            },
+          anonymous: false,
+          inputs: [
             {
-              internalType: "string[]",
-              name: "titles",
-              type: "string[]",
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
             },
             {
-              internalType: "uint256[]",
-              name: "startTimes",
-              type: "uint256[]",
+              indexed: true,
+              internalType: "uint256",
+              name: "ticketId",
+              type: "uint256",
             },
             {
-              internalType: "uint256[]",
-              name: "totalTicketCounts",
-              type: "uint256[]",
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
             },
             {
-              internalType: "uint256[]",
-              name: "remainingTicketCounts",
-              type: "uint256[]",
+              indexed: false,
+              internalType: "uint256",
+              name: "remainingTickets",
+              type: "uint256",
             },
             {
-              internalType: "address[]",
-              name: "organizers",
-              type: "address[]",
+              indexed: false,
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "TicketGrabbed",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "tokenId",
+              name: "eventId",
               type: "uint256",
             },
-          ],
-          name: "getApproved",
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "ticketId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "holder",
+              type: "address",
+            },
+          ],
+          name: "TicketReturned",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "Transfer",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "position",
+              type: "uint256",
+            },
+          ],
+          name: "WaitlistJoined",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "ticketId",
+              type: "uint256",
+            },
+          ],
+          name: "WaitlistOfferClaimed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+          ],
+          name: "WaitlistOfferExpired",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "participant",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+          ],
+          name: "WaitlistOffered",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "MAX_PAGE_SCAN",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_PAGE_SIZE",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_TIERS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "PROCEEDS_LOCK_PERIOD",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "REVEAL_WINDOW",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "WAITLIST_CLAIM_WINDOW",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "allEventIds",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "approve",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "balanceOf",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "burn",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "cancelEvent",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_ticketId",
+              type: "uint256",
+            },
+          ],
+          name: "checkIn",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "checkedInAt",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "claimRaffleTicket",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "ticketId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256[]",
+              name: "_ticketIds",
+              type: "uint256[]",
+            },
+          ],
+          name: "claimRefund",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "claimWaitlistTicket",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "ticketId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "_title",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "_startTime",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_totalTickets",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_maxPerAddress",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_price",
+              type: "uint256",
+            },
+          ],
+          name: "createEvent",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "_title",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "_startTime",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_registrationEnd",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_totalTickets",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes32",
+              name: "_seedCommitment",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256",
+              name: "_price",
+              type: "uint256",
+            },
+          ],
+          name: "createRaffleEvent",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "_title",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "_startTime",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_maxPerAddress",
+              type: "uint256",
+            },
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "supply",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "price",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct TicketEngine.TierConfig[]",
+              name: "_tiers",
+              type: "tuple[]",
+            },
+          ],
+          name: "createTieredEvent",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "eventId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "eventProceeds",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "eventTickets",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "events",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "title",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "startTime",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "totalTickets",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "remainingTickets",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "organizer",
+              type: "address",
+            },
+            {
+              internalType: "bool",
+              name: "exists",
+              type: "bool",
+            },
+            {
+              internalType: "enum TicketEngine.AllocationMode",
+              name: "mode",
+              type: "uint8",
+            },
+            {
+              internalType: "uint256",
+              name: "maxPerAddress",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "cancelled",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
+          ],
+          name: "expireWaitlistOffer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getAllEventIds",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "getApproved",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "getEvent",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "title",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "startTime",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "totalTickets",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "remainingTickets",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "organizer",
+              type: "address",
+            },
+            {
+              internalType: "enum TicketEngine.EventStatus",
+              name: "status",
+              type: "uint8",
+            },
+            {
+              internalType: "enum TicketEngine.AllocationMode",
+              name: "mode",
+              type: "uint8",
+            },
+            {
+              internalType: "uint256",
+              name: "maxPerAddress",
+              type: "uint256",
+            },
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "supply",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "remaining",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "price",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct TicketEngine.Tier[]",
+              name: "tiers",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getEventCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "getEventStatus",
+          outputs: [
+            {
+              internalType: "enum TicketEngine.EventStatus",
+              name: "",
+              type: "uint8",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_offset",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_limit",
+              type: "uint256",
+            },
+          ],
+          name: "getEventsPage",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "id",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "title",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "startTime",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalTickets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "remainingTickets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "organizer",
+                  type: "address",
+                },
+                {
+                  internalType: "enum TicketEngine.EventStatus",
+                  name: "status",
+                  type: "uint8",
+                },
+                {
+                  internalType: "enum TicketEngine.AllocationMode",
+                  name: "mode",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "maxPerAddress",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "string",
+                      name: "name",
+                      type: "string",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "supply",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "remaining",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "price",
+                      type: "uint256",
+                    },
+                  ],
+                  internalType: "struct TicketEngine.Tier[]",
+                  name: "tiers",
+                  type: "tuple[]",
+                },
+              ],
+              internalType: "struct TicketEngine.EventView[]",
+              name: "page",
+              type: "tuple[]",
+            },
+            {
+              internalType: "uint256",
+              name: "total",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_organizer",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "_offset",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_limit",
+              type: "uint256",
+            },
+          ],
+          name: "getEventsPageByOrganizer",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "id",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "title",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "startTime",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalTickets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "remainingTickets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "organizer",
+                  type: "address",
+                },
+                {
+                  internalType: "enum TicketEngine.EventStatus",
+                  name: "status",
+                  type: "uint8",
+                },
+                {
+                  internalType: "enum TicketEngine.AllocationMode",
+                  name: "mode",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "maxPerAddress",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "string",
+                      name: "name",
+                      type: "string",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "supply",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "remaining",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "price",
+                      type: "uint256",
+                    },
+                  ],
+                  internalType: "struct TicketEngine.Tier[]",
+                  name: "tiers",
+                  type: "tuple[]",
+                },
+              ],
+              internalType: "struct TicketEngine.EventView[]",
+              name: "page",
+              type: "tuple[]",
+            },
+            {
+              internalType: "uint256",
+              name: "total",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "enum TicketEngine.EventStatus",
+              name: "_status",
+              type: "uint8",
+            },
+            {
+              internalType: "uint256",
+              name: "_offset",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_limit",
+              type: "uint256",
+            },
+          ],
+          name: "getEventsPageByStatus",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "id",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "title",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "startTime",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalTickets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "remainingTickets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "organizer",
+                  type: "address",
+                },
+                {
+                  internalType: "enum TicketEngine.EventStatus",
+                  name: "status",
+                  type: "uint8",
+                },
+                {
+                  internalType: "enum TicketEngine.AllocationMode",
+                  name: "mode",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "maxPerAddress",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "string",
+                      name: "name",
+                      type: "string",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "supply",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "remaining",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "price",
+                      type: "uint256",
+                    },
+                  ],
+                  internalType: "struct TicketEngine.Tier[]",
+                  name: "tiers",
+                  type: "tuple[]",
+                },
+              ],
+              internalType: "struct TicketEngine.EventView[]",
+              name: "page",
+              type: "tuple[]",
+            },
+            {
+              internalType: "uint256",
+              name: "total",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "nextOffset",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "getRaffle",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "registrationEnd",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "revealDeadline",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes32",
+              name: "seedCommitment",
+              type: "bytes32",
+            },
+            {
+              internalType: "bool",
+              name: "revealed",
+              type: "bool",
+            },
+            {
+              internalType: "uint256",
+              name: "entrantCount",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "winnerCount",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "getRaffleWinners",
+          outputs: [
+            {
+              internalType: "address[]",
+              name: "winners",
+              type: "address[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_limit",
+              type: "uint256",
+            },
+          ],
+          name: "getRecentTickets",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "ticketIds",
+              type: "uint256[]",
+            },
+            {
+              internalType: "address[]",
+              name: "owners",
+              type: "address[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "acquiredTimes",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
+          ],
+          name: "getRefundableTickets",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "ticketIds",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256",
+              name: "totalRefund",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
+          ],
+          name: "getUserAttempts",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "eventId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "participant",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "timestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum TicketEngine.AttemptResult",
+                  name: "result",
+                  type: "uint8",
+                },
+              ],
+              internalType: "struct TicketEngine.Attempt[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
+          ],
+          name: "getUserTickets",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "ticketIds",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "eventIds",
+              type: "uint256[]",
+            },
+            {
+              internalType: "string[]",
+              name: "eventTitles",
+              type: "string[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "acquiredTimes",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
+          ],
+          name: "getUserTicketsForEvent",
           outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "address",
-              name: "",
+              name: "_user",
               type: "address",
             },
           ],
+          name: "getUserWaitlists",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "eventIds",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "positions",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "offerTierIds",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "offerExpiries",
+              type: "uint256[]",
+            },
+          ],
           stateMutability: "view",
           type: "function",
         },
@@ -545,45 +1963,83 @@ const deployedContracts = {
               type: "uint256",
             },
           ],
-          name: "getEvent",
+          name: "getWaitlistLength",
           outputs: [
             {
               internalType: "uint256",
-              name: "id",
+              name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
             {
-              internalType: "string",
-              name: "title",
-              type: "string",
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
             },
+          ],
+          name: "getWaitlistPosition",
+          outputs: [
             {
               internalType: "uint256",
-              name: "startTime",
+              name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "uint256",
-              name: "totalTickets",
+              name: "_eventId",
               type: "uint256",
             },
             {
               internalType: "uint256",
-              name: "remainingTickets",
+              name: "_tierId",
               type: "uint256",
             },
             {
-              internalType: "address",
-              name: "organizer",
-              type: "address",
+              internalType: "uint256",
+              name: "_quantity",
+              type: "uint256",
             },
             {
-              internalType: "enum TicketEngine.EventStatus",
-              name: "status",
+              internalType: "bytes32[]",
+              name: "_proof",
+              type: "bytes32[]",
+            },
+          ],
+          name: "grabTicket",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "success",
+              type: "bool",
+            },
+            {
+              internalType: "enum TicketEngine.AttemptResult",
+              name: "result",
               type: "uint8",
             },
+            {
+              internalType: "uint256[]",
+              name: "ticketIds",
+              type: "uint256[]",
+            },
           ],
-          stateMutability: "view",
+          stateMutability: "payable",
           type: "function",
         },
         {
@@ -593,13 +2049,18 @@ const deployedContracts = {
               name: "_eventId",
               type: "uint256",
             },
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
           ],
-          name: "getEventStatus",
+          name: "hasTicketForEvent",
           outputs: [
             {
-              internalType: "enum TicketEngine.EventStatus",
+              internalType: "bool",
               name: "",
-              type: "uint8",
+              type: "bool",
             },
           ],
           stateMutability: "view",
@@ -612,28 +2073,95 @@ const deployedContracts = {
               name: "_eventId",
               type: "uint256",
             },
+            {
+              internalType: "address",
+              name: "_user",
+              type: "address",
+            },
+            {
+              internalType: "bytes32[]",
+              name: "_proof",
+              type: "bytes32[]",
+            },
+          ],
+          name: "isAllowlisted",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+          ],
+          name: "isApprovedForAll",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "uint256",
-              name: "_limit",
+              name: "",
               type: "uint256",
             },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
           ],
-          name: "getRecentTickets",
+          name: "isCheckInOperator",
           outputs: [
             {
-              internalType: "uint256[]",
-              name: "ticketIds",
-              type: "uint256[]",
+              internalType: "bool",
+              name: "",
+              type: "bool",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
             {
-              internalType: "address[]",
-              name: "owners",
-              type: "address[]",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
             },
             {
-              internalType: "uint256[]",
-              name: "acquiredTimes",
-              type: "uint256[]",
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "isRaffleWinner",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
             },
           ],
           stateMutability: "view",
@@ -641,40 +2169,81 @@ const deployedContracts = {
         },
         {
           inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
             {
               internalType: "address",
-              name: "_user",
+              name: "",
               type: "address",
             },
           ],
-          name: "getUserAttempts",
+          name: "isRegisteredForRaffle",
           outputs: [
             {
-              components: [
-                {
-                  internalType: "uint256",
-                  name: "eventId",
-                  type: "uint256",
-                },
-                {
-                  internalType: "address",
-                  name: "participant",
-                  type: "address",
-                },
-                {
-                  internalType: "uint256",
-                  name: "timestamp",
-                  type: "uint256",
-                },
-                {
-                  internalType: "enum TicketEngine.AttemptResult",
-                  name: "result",
-                  type: "uint8",
-                },
-              ],
-              internalType: "struct TicketEngine.Attempt[]",
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "joinWaitlist",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "position",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "name",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "nextEventId",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "nextTicketId",
+          outputs: [
+            {
+              internalType: "uint256",
               name: "",
-              type: "tuple[]",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
@@ -683,32 +2252,17 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "address",
-              name: "_user",
-              type: "address",
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
             },
           ],
-          name: "getUserTickets",
+          name: "ownerOf",
           outputs: [
             {
-              internalType: "uint256[]",
-              name: "ticketIds",
-              type: "uint256[]",
-            },
-            {
-              internalType: "uint256[]",
-              name: "eventIds",
-              type: "uint256[]",
-            },
-            {
-              internalType: "string[]",
-              name: "eventTitles",
-              type: "string[]",
-            },
-            {
-              internalType: "uint256[]",
-              name: "acquiredTimes",
-              type: "uint256[]",
+              internalType: "address",
+              name: "",
+              type: "address",
             },
           ],
           stateMutability: "view",
@@ -718,29 +2272,24 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "uint256",
-              name: "_eventId",
+              name: "",
               type: "uint256",
             },
           ],
-          name: "grabTicket",
+          name: "presales",
           outputs: [
             {
-              internalType: "bool",
-              name: "success",
-              type: "bool",
-            },
-            {
-              internalType: "enum TicketEngine.AttemptResult",
-              name: "result",
-              type: "uint8",
+              internalType: "bytes32",
+              name: "merkleRoot",
+              type: "bytes32",
             },
             {
               internalType: "uint256",
-              name: "ticketId",
+              name: "startTime",
               type: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
         {
@@ -756,7 +2305,7 @@ const deployedContracts = {
               type: "address",
             },
           ],
-          name: "hasTicketForEvent",
+          name: "raffleClaimed",
           outputs: [
             {
               internalType: "bool",
@@ -770,56 +2319,82 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "address",
-              name: "owner",
-              type: "address",
-            },
-            {
-              internalType: "address",
-              name: "operator",
-              type: "address",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
             },
           ],
-          name: "isApprovedForAll",
+          name: "raffles",
           outputs: [
+            {
+              internalType: "uint256",
+              name: "registrationEnd",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes32",
+              name: "seedCommitment",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "entrantsHash",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "drawSeed",
+              type: "bytes32",
+            },
             {
               internalType: "bool",
-              name: "",
+              name: "revealed",
               type: "bool",
             },
+            {
+              internalType: "uint256",
+              name: "winnerCount",
+              type: "uint256",
+            },
           ],
           stateMutability: "view",
           type: "function",
         },
         {
-          inputs: [],
-          name: "name",
-          outputs: [
+          inputs: [
             {
-              internalType: "string",
-              name: "",
-              type: "string",
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
             },
           ],
-          stateMutability: "view",
+          name: "registerForRaffle",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
-          inputs: [],
-          name: "nextEventId",
-          outputs: [
+          inputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "_ticketId",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
+          name: "returnTicket",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
-          inputs: [],
-          name: "nextTicketId",
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "returnedProceeds",
           outputs: [
             {
               internalType: "uint256",
@@ -834,19 +2409,18 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "_eventId",
               type: "uint256",
             },
-          ],
-          name: "ownerOf",
-          outputs: [
             {
-              internalType: "address",
-              name: "",
-              type: "address",
+              internalType: "bytes32",
+              name: "_seed",
+              type: "bytes32",
             },
           ],
-          stateMutability: "view",
+          name: "revealRaffleSeed",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
@@ -918,6 +2492,52 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "_operator",
+              type: "address",
+            },
+            {
+              internalType: "bool",
+              name: "_allowed",
+              type: "bool",
+            },
+          ],
+          name: "setCheckInOperator",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes32",
+              name: "_merkleRoot",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256",
+              name: "_presaleStart",
+              type: "uint256",
+            },
+          ],
+          name: "setPresale",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -950,6 +2570,49 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "ticketCountForEvent",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "ticketRefunded",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -980,6 +2643,16 @@ const deployedContracts = {
               name: "acquiredAt",
               type: "uint256",
             },
+            {
+              internalType: "uint256",
+              name: "pricePaid",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
           ],
           stateMutability: "view",
           type: "function",
@@ -1026,6 +2699,34 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "_title",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "_startTime",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256[]",
+              name: "_tierSupplies",
+              type: "uint256[]",
+            },
+          ],
+          name: "updateEvent",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -1102,17 +2803,41 @@ const deployedContracts = {
               type: "address",
             },
           ],
-          name: "userTicketForEvent",
+          name: "waitlistOffers",
           outputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "expiresAt",
               type: "uint256",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_eventId",
+              type: "uint256",
+            },
+          ],
+          name: "withdrawProceeds",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
       ],
       inheritedFunctions: {
         approve: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
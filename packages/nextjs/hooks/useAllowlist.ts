@@ -0,0 +1,51 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Hex, zeroHash } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { PresaleInfo } from "~~/types/ticket-engine";
+
+type AllowlistFile = {
+  root: Hex;
+  proofs: Record<string, Hex[]>;
+};
+
+/**
+ * Hook for allowlist presales
+ * - Reads the event's Merkle root and presale start from the contract
+ * - Fetches the proofs generated by `yarn allowlist` from /allowlists/<eventId>.json
+ * - The proof is only used when the file was built for the root currently set on-chain
+ */
+export const useAllowlist = (eventId: bigint, userAddress?: string) => {
+  const { data } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "presales",
+    args: [eventId],
+  });
+
+  const presale: PresaleInfo | null = useMemo(
+    () => (data && data[0] !== zeroHash ? { merkleRoot: data[0], startTime: data[1] } : null),
+    [data],
+  );
+
+  const { data: allowlist, isLoading } = useQuery({
+    queryKey: ["allowlist", eventId.toString(), presale?.merkleRoot],
+    queryFn: async (): Promise<AllowlistFile | null> => {
+      const response = await fetch(`/allowlists/${eventId}.json`);
+      return response.ok ? response.json() : null;
+    },
+    enabled: !!presale,
+    staleTime: Infinity,
+  });
+
+  const isCurrentList = !!allowlist && !!presale && allowlist.root.toLowerCase() === presale.merkleRoot.toLowerCase();
+  const proof = isCurrentList && userAddress ? allowlist.proofs[userAddress.toLowerCase()] : undefined;
+
+  return {
+    presale,
+    proof: proof ?? [],
+    isEligible: !!proof,
+    isLoading: !!presale && isLoading,
+  };
+};
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useBlock } from "wagmi";
+import { create } from "zustand";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+// Recent offset samples kept; the largest is the one least delayed by block propagation and polling
+const SAMPLE_WINDOW = 8;
+const TICK_MS = 1000;
+
+type ChainClockState = {
+  // Offset from the local clock to block time in ms, null until a new block has been seen
+  offsetMs: number | null;
+  samples: number[];
+  latestBlock?: { number: bigint; timestamp: bigint };
+  observe: (block: { number: bigint; timestamp: bigint }, receivedAt: number) => void;
+};
+
+/**
+ * Shared by every useChainClock instance, so all countdowns agree and each block is sampled once
+ */
+const useChainClockStore = create<ChainClockState>(set => ({
+  offsetMs: null,
+  samples: [],
+  observe: (block, receivedAt) =>
+    set(state => {
+      if (state.latestBlock && block.number <= state.latestBlock.number) return state;
+      // The block loaded on mount can be arbitrarily old (e.g. an idle local chain), only blocks
+      // that appear while watching are fresh enough to measure the offset with
+      if (!state.latestBlock) return { latestBlock: block };
+
+      const samples = [...state.samples, Number(block.timestamp) * 1000 - receivedAt].slice(-SAMPLE_WINDOW);
+      return { latestBlock: block, samples, offsetMs: Math.max(...samples) };
+    }),
+}));
+
+/**
+ * Current chain time in seconds, for code outside React. Never earlier than the latest block.
+ */
+export const readChainNow = (): bigint => {
+  const { offsetMs, latestBlock } = useChainClockStore.getState();
+  const estimated = BigInt(Math.floor((Date.now() + (offsetMs ?? 0)) / 1000));
+  return latestBlock && latestBlock.timestamp > estimated ? latestBlock.timestamp : estimated;
+};
+
+/**
+ * Hook for the time the contract sees as block.timestamp
+ * - The local clock is corrected by its offset to recent block timestamps, so skewed clocks
+ *   neither open sales early nor keep them closed
+ * - Until a new block arrives the local clock is used, raised to the latest block's timestamp
+ * - `now` ticks every second, in unix seconds like the contract's timestamps
+ */
+export const useChainClock = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: block } = useBlock({ chainId: targetNetwork.id, watch: true });
+  const observe = useChainClockStore(state => state.observe);
+  const offsetMs = useChainClockStore(state => state.offsetMs);
+  const [now, setNow] = useState(readChainNow);
+
+  useEffect(() => {
+    if (block?.number != null) observe({ number: block.number, timestamp: block.timestamp }, Date.now());
+  }, [block?.number, block?.timestamp, observe]);
+
+  useEffect(() => {
+    setNow(readChainNow());
+    const interval = setInterval(() => setNow(readChainNow()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [offsetMs]);
+
+  return { now, offsetMs: offsetMs ?? 0, isSynced: offsetMs !== null };
+};
@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback } from "react";
+import { Address } from "viem";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+/**
+ * Hook for door check-in
+ * - The organizer designates operator addresses per event
+ * - The organizer or an operator redeems a ticket once with checkIn, which records the timestamp on-chain
+ */
+export const useCheckIn = (eventId: bigint) => {
+  const { address } = useAccount();
+
+  const { data: isOperator } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "isCheckInOperator",
+    args: [eventId, address],
+    query: { enabled: !!address },
+  });
+
+  const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+
+  const setOperator = useCallback(
+    async (operator: string, allowed: boolean) => {
+      return writeContractAsync({
+        functionName: "setCheckInOperator",
+        args: [eventId, operator, allowed],
+      });
+    },
+    [writeContractAsync, eventId],
+  );
+
+  const checkIn = useCallback(
+    async (ticketId: bigint) => {
+      return writeContractAsync({
+        functionName: "checkIn",
+        args: [ticketId],
+      });
+    },
+    [writeContractAsync],
+  );
+
+  return {
+    isOperator: !!isOperator,
+    setOperator,
+    checkIn,
+    isMining,
+  };
+};
+
+/**
+ * Current holder and redemption state of a single ticket, for the check-in page
+ */
+export const useTicketVerification = (ticketId?: bigint) => {
+  const enabled = ticketId !== undefined;
+
+  const { data: ticket, refetch: refetchTicket } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "tickets",
+    args: [ticketId],
+    query: { enabled },
+  });
+
+  // Reverts for burned or never-minted tickets
+  const {
+    data: holder,
+    isError: isMissing,
+    isLoading,
+    refetch: refetchHolder,
+  } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "ownerOf",
+    args: [ticketId],
+    query: { enabled, retry: false },
+  });
+
+  const { data: checkedInAt, refetch: refetchCheckedIn } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "checkedInAt",
+    args: [ticketId],
+    query: { enabled },
+  });
+
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchTicket(), refetchHolder(), refetchCheckedIn()]);
+  }, [refetchTicket, refetchHolder, refetchCheckedIn]);
+
+  return {
+    eventId: ticket?.[1],
+    tierId: ticket !== undefined ? Number(ticket[5]) : undefined,
+    holder: holder as Address | undefined,
+    checkedInAt: checkedInAt ?? 0n,
+    exists: !!holder && !isMissing,
+    isLoading: enabled && isLoading,
+    refetch,
+  };
+};
@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback } from "react";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+/**
+ * Hook for cancelling an event and claiming refunds afterwards
+ * - Only the organizer can cancel, and only while proceeds are still in escrow
+ * - Holders of paid tickets pull their refunds once the event is cancelled
+ */
+export const useEventCancellation = (eventId: bigint, cancelled: boolean) => {
+  const { address } = useAccount();
+
+  const { data: refundable, refetch } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "getRefundableTickets",
+    args: [eventId, address],
+    query: { enabled: cancelled && !!address },
+  });
+
+  const refundableTicketIds = refundable?.[0];
+
+  const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+
+  const cancel = useCallback(async () => {
+    return writeContractAsync({
+      functionName: "cancelEvent",
+      args: [eventId],
+    });
+  }, [writeContractAsync, eventId]);
+
+  const claimRefund = useCallback(async () => {
+    if (!refundableTicketIds || refundableTicketIds.length === 0) return;
+    const result = await writeContractAsync({
+      functionName: "claimRefund",
+      args: [refundableTicketIds],
+    });
+    await refetch();
+    return result;
+  }, [writeContractAsync, refundableTicketIds, refetch]);
+
+  return {
+    refundableTicketIds: refundableTicketIds ?? [],
+    refundAmount: refundable?.[1] ?? 0n,
+    cancel,
+    claimRefund,
+    isMining,
+    refetch,
+  };
+};
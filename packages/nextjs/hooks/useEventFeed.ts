@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Address } from "viem";
+import { useScaffoldContract } from "~~/hooks/scaffold-eth";
+import { readChainNow } from "~~/hooks/useChainClock";
+import { getEventStatusFromData, toTiers } from "~~/hooks/useTicketEngine";
+import scaffoldConfig from "~~/scaffold.config";
+import { AllocationMode, EventStatus, TicketEvent } from "~~/types/ticket-engine";
+
+type EventViewData = {
+  id: bigint;
+  title: string;
+  startTime: bigint;
+  totalTickets: bigint;
+  remainingTickets: bigint;
+  organizer: string;
+  status: number;
+  mode: number;
+  maxPerAddress: bigint;
+  tiers: readonly { name: string; supply: bigint; remaining: bigint; price: bigint }[];
+};
+
+type FeedPage = {
+  events: TicketEvent[];
+  nextOffset: bigint;
+  total: bigint;
+};
+
+export type EventFeedFilter = { status?: EventStatus; organizer?: string };
+
+const toTicketEvent = (view: EventViewData): TicketEvent => ({
+  id: view.id,
+  title: view.title,
+  startTime: view.startTime,
+  totalTickets: view.totalTickets,
+  remainingTickets: view.remainingTickets,
+  organizer: view.organizer,
+  // Recomputed locally so the status keeps up with chain time between refreshes
+  status: getEventStatusFromData(
+    view.startTime,
+    view.remainingTickets,
+    view.status === EventStatus.Cancelled,
+    readChainNow(),
+  ),
+  mode: view.mode as AllocationMode,
+  maxPerAddress: view.maxPerAddress,
+  tiers: toTiers(view.tiers),
+});
+
+/**
+ * Hook for the paginated event listing
+ * - Pages through getEventsPage / getEventsPageByStatus / getEventsPageByOrganizer in creation order,
+ *   which keeps already loaded pages stable while new events are created
+ * - Loaded pages are refreshed together at the scaffold polling interval
+ */
+export const useEventFeed = ({ status, organizer }: EventFeedFilter = {}, pageSize: bigint = 12n) => {
+  const { data: ticketEngine } = useScaffoldContract({ contractName: "TicketEngine" });
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading, refetch } = useInfiniteQuery({
+    queryKey: ["eventFeed", ticketEngine?.address, status, organizer, pageSize.toString()],
+    initialPageParam: 0n,
+    queryFn: async ({ pageParam }): Promise<FeedPage> => {
+      if (!ticketEngine) throw new Error("TicketEngine is not deployed");
+
+      if (status !== undefined) {
+        const [page, total, nextOffset] = await ticketEngine.read.getEventsPageByStatus([status, pageParam, pageSize]);
+        return { events: page.map(toTicketEvent), nextOffset, total };
+      }
+
+      const [page, total] = organizer
+        ? await ticketEngine.read.getEventsPageByOrganizer([organizer as Address, pageParam, pageSize])
+        : await ticketEngine.read.getEventsPage([pageParam, pageSize]);
+      return { events: page.map(toTicketEvent), nextOffset: pageParam + BigInt(page.length), total };
+    },
+    getNextPageParam: lastPage => (lastPage.nextOffset < lastPage.total ? lastPage.nextOffset : undefined),
+    enabled: !!ticketEngine,
+    refetchInterval: scaffoldConfig.pollingInterval,
+  });
+
+  // Pages can overlap after a refresh, keep the first copy of each event
+  const events = useMemo(() => {
+    const seen = new Set<bigint>();
+    return (data?.pages ?? [])
+      .flatMap(page => page.events)
+      .filter(event => {
+        if (seen.has(event.id)) return false;
+        seen.add(event.id);
+        return true;
+      });
+  }, [data]);
+
+  return {
+    events,
+    total: data?.pages[0]?.total ?? 0n,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading: !ticketEngine || isLoading,
+    refetch,
+  };
+};
@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback } from "react";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+/**
+ * Hook for the ticket payments an event holds in escrow
+ * - Proceeds stay locked until PROCEEDS_LOCK_PERIOD after the event starts
+ * - Only the organizer can withdraw them afterwards
+ * - Payments of returned tickets are kept separately, they stay withdrawable if the event is cancelled
+ */
+export const useEventProceeds = (eventId: bigint, enabled = true) => {
+  const { data: escrowed, refetch: refetchEscrowed } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "eventProceeds",
+    args: [eventId],
+    query: { enabled },
+  });
+
+  const { data: returned, refetch: refetchReturned } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "returnedProceeds",
+    args: [eventId],
+    query: { enabled },
+  });
+
+  const refetch = useCallback(
+    () => Promise.all([refetchEscrowed(), refetchReturned()]),
+    [refetchEscrowed, refetchReturned],
+  );
+
+  const { data: lockPeriod } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "PROCEEDS_LOCK_PERIOD",
+    query: { enabled },
+  });
+
+  const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+
+  const withdraw = useCallback(async () => {
+    const result = await writeContractAsync({
+      functionName: "withdrawProceeds",
+      args: [eventId],
+    });
+    await refetch();
+    return result;
+  }, [writeContractAsync, eventId, refetch]);
+
+  return {
+    proceeds: (escrowed ?? 0n) + (returned ?? 0n),
+    returnedProceeds: returned ?? 0n,
+    lockPeriod,
+    withdraw,
+    isMining,
+    refetch,
+  };
+};
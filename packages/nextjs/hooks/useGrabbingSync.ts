@@ -1,31 +1,46 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
-import { GRABBING_TABLE, GrabbingParticipant, supabase } from "~~/services/supabase/client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSignMessage } from "wagmi";
+import {
+  GrabbingParticipant,
+  PRESENCE_HEARTBEAT_INTERVAL_MS,
+  PresenceProof,
+  buildPresenceMessage,
+  createUnsignedPresenceProof,
+  isExpired,
+  postPresenceWrite,
+  presenceTransport,
+} from "~~/services/presence";
+
+// How often records are checked against PRESENCE_EXPIRY_MS locally
+const EXPIRY_CHECK_INTERVAL_MS = 5_000;
 
 /**
  * Hook for real-time sync of grabbing participants across clients
- * - When a user starts grabbing, their address is added to the list
+ * - When a user starts grabbing, their wallet signs a presence proof and their address is added to the list
+ *   through the presence API route, which only accepts writes for the signing wallet
  * - When they succeed or fail, their status is updated
- * - All clients see real-time updates via Supabase Realtime
+ * - While a grab is pending the record is kept alive with heartbeats; records that stop sending them
+ *   (e.g. the tab was closed mid-transaction) are dropped locally before the backend deletes them
+ * - All clients see real-time updates via the configured presence transport (Supabase or the local WebSocket server)
  */
 export const useGrabbingSync = (eventId: string) => {
   const [grabbingList, setGrabbingList] = useState<GrabbingParticipant[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const { signMessageAsync } = useSignMessage();
+  // Proof of this client's pending grab, reused for its heartbeats and final status
+  const grabProofRef = useRef<PresenceProof | null>(null);
 
   // Fetch initial data
   useEffect(() => {
     const fetchGrabbing = async () => {
       setIsLoading(true);
-      const { data, error } = await supabase
-        .from(GRABBING_TABLE)
-        .select("*")
-        .eq("event_id", eventId)
-        .eq("status", "grabbing")
-        .order("started_at", { ascending: false });
-
-      if (!error && data) {
-        setGrabbingList(data);
+      try {
+        setGrabbingList(await presenceTransport.list(eventId));
+      } catch (error) {
+        console.error("Failed to load grabbing list:", error);
       }
       setIsLoading(false);
     };
@@ -35,87 +50,92 @@ export const useGrabbingSync = (eventId: string) => {
 
   // Subscribe to real-time changes
   useEffect(() => {
-    const channel = supabase
-      .channel(`grabbing-${eventId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: GRABBING_TABLE,
-          filter: `event_id=eq.${eventId}`,
-        },
-        payload => {
-          if (payload.eventType === "INSERT") {
-            const newRecord = payload.new as GrabbingParticipant;
-            if (newRecord.status === "grabbing") {
-              setGrabbingList(prev => {
-                // Avoid duplicates
-                if (prev.some(p => p.wallet_address === newRecord.wallet_address)) {
-                  return prev;
-                }
-                return [newRecord, ...prev];
-              });
+    return presenceTransport.subscribe(eventId, change => {
+      if (change.type === "insert") {
+        const newRecord = change.participant;
+        if (newRecord.status === "grabbing") {
+          setGrabbingList(prev => {
+            // Avoid duplicates
+            if (prev.some(p => p.wallet_address === newRecord.wallet_address)) {
+              return prev;
             }
-          } else if (payload.eventType === "UPDATE") {
-            const updated = payload.new as GrabbingParticipant;
-            if (updated.status !== "grabbing") {
-              // Remove from grabbing list when status changes
-              setGrabbingList(prev => prev.filter(p => p.wallet_address !== updated.wallet_address));
-            }
-          } else if (payload.eventType === "DELETE") {
-            const deleted = payload.old as GrabbingParticipant;
-            setGrabbingList(prev => prev.filter(p => p.id !== deleted.id));
-          }
-        },
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
+            return [newRecord, ...prev];
+          });
+        }
+      } else if (change.type === "update") {
+        const updated = change.participant;
+        if (updated.status !== "grabbing") {
+          // Remove from grabbing list when status changes
+          setGrabbingList(prev => prev.filter(p => p.wallet_address !== updated.wallet_address));
+        } else {
+          // Heartbeats refresh last_seen in place
+          setGrabbingList(prev =>
+            prev.some(p => p.wallet_address === updated.wallet_address)
+              ? prev.map(p => (p.wallet_address === updated.wallet_address ? updated : p))
+              : [updated, ...prev],
+          );
+        }
+      } else {
+        // Deletes may only carry the record id
+        const deleted = change.participant;
+        setGrabbingList(prev =>
+          prev.filter(p => (deleted.id ? p.id !== deleted.id : p.wallet_address !== deleted.wallet_address)),
+        );
+      }
+    });
   }, [eventId]);
 
+  // Re-evaluate expiry even when no change arrives
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), EXPIRY_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Heartbeat while this client's grab is pending
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const proof = grabProofRef.current;
+      if (!proof) return;
+      postPresenceWrite({ action: "heartbeat", proof }).catch(error =>
+        console.error("Failed to send grabbing heartbeat:", error),
+      );
+    }, PRESENCE_HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
   // Start grabbing - call when user initiates grab
   const startGrabbing = useCallback(
     async (walletAddress: string) => {
-      const { error } = await supabase.from(GRABBING_TABLE).upsert(
-        {
-          event_id: eventId,
-          wallet_address: walletAddress.toLowerCase(),
-          started_at: new Date().toISOString(),
-          status: "grabbing",
-        },
-        {
-          onConflict: "event_id,wallet_address",
-        },
-      );
-
-      if (error) {
+      try {
+        const unsigned = createUnsignedPresenceProof(eventId, walletAddress);
+        const signature = await signMessageAsync({ message: buildPresenceMessage(unsigned) });
+        const proof = { ...unsigned, signature };
+        await postPresenceWrite({ action: "start", proof });
+        grabProofRef.current = proof;
+      } catch (error) {
         console.error("Failed to start grabbing:", error);
       }
     },
-    [eventId],
+    [eventId, signMessageAsync],
   );
 
   // End grabbing - call when transaction completes (success or fail)
   const endGrabbing = useCallback(
     async (walletAddress: string, success: boolean) => {
-      const { error } = await supabase
-        .from(GRABBING_TABLE)
-        .update({ status: success ? "success" : "failed" })
-        .eq("event_id", eventId)
-        .eq("wallet_address", walletAddress.toLowerCase());
-
-      if (error) {
+      const proof = grabProofRef.current;
+      if (!proof || proof.eventId !== eventId || proof.address.toLowerCase() !== walletAddress.toLowerCase()) return;
+      grabProofRef.current = null;
+      try {
+        await postPresenceWrite({ action: "end", status: success ? "success" : "failed", proof });
+      } catch (error) {
         console.error("Failed to end grabbing:", error);
       }
     },
     [eventId],
   );
 
-  // Get only "grabbing" status participants (exclude winners)
-  const activeGrabbing = grabbingList.filter(p => p.status === "grabbing");
+  // Get only "grabbing" status participants (exclude winners and expired records)
+  const activeGrabbing = grabbingList.filter(p => p.status === "grabbing" && !isExpired(p, now));
 
   return {
     grabbingList: activeGrabbing,
@@ -0,0 +1,20 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchIndexer, indexerUrl } from "~~/services/indexer/client";
+
+// The indexer polls the chain every second, so a short refresh keeps lists close to live
+const INDEXER_REFRESH_MS = 2000;
+
+/**
+ * Queries the indexer API; stays idle when NEXT_PUBLIC_INDEXER_URL is not configured
+ * @param path - API path, or null to skip the request
+ */
+export const useIndexerQuery = <T>(path: string | null) => {
+  return useQuery({
+    queryKey: ["indexer", path],
+    queryFn: () => fetchIndexer<T>(path!),
+    enabled: !!indexerUrl && !!path,
+    refetchInterval: INDEXER_REFRESH_MS,
+  });
+};
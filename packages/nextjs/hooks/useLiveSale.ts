@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useScaffoldWatchContractEvent } from "~~/hooks/scaffold-eth";
+import { useEvent, useRecentTickets } from "~~/hooks/useTicketEngine";
+import { TicketEvent } from "~~/types/ticket-engine";
+
+export type RecentTicket = {
+  ticketId: bigint;
+  owner: string;
+  acquiredAt: bigint;
+};
+
+type LiveTicket = RecentTicket & {
+  tierId: number;
+  remainingTickets: bigint;
+};
+
+// Logs seen since the last contract read
+type LiveUpdates = {
+  tickets: LiveTicket[];
+  soldOut: boolean;
+};
+
+const EMPTY_UPDATES: LiveUpdates = { tickets: [], soldOut: false };
+
+/**
+ * Hook for the live state of a sale
+ * - Subscribes to TicketGrabbed and EventSoldOut and applies them on top of the last contract read,
+ *   so remaining tickets and recent winners update without polling
+ * - Every fresh contract read replaces the log-derived updates, which keeps returns and missed logs consistent
+ */
+export const useLiveSale = (eventId: bigint, limit: bigint = 5n) => {
+  const { event: chainEvent, refetch, updatedAt: eventUpdatedAt } = useEvent(eventId);
+  const {
+    recentTickets: chainTickets,
+    refetch: refetchRecent,
+    updatedAt: ticketsUpdatedAt,
+  } = useRecentTickets(eventId, limit);
+  const [updates, setUpdates] = useState<LiveUpdates>(EMPTY_UPDATES);
+
+  useEffect(() => {
+    setUpdates(EMPTY_UPDATES);
+  }, [eventUpdatedAt, ticketsUpdatedAt]);
+
+  useScaffoldWatchContractEvent({
+    contractName: "TicketEngine",
+    eventName: "TicketGrabbed",
+    onLogs: logs => {
+      const grabs = logs.filter(log => log.args.eventId === eventId);
+      if (grabs.length === 0) return;
+      const now = BigInt(Math.floor(Date.now() / 1000));
+
+      setUpdates(current => {
+        const tickets = [...current.tickets];
+        for (const { args } of grabs) {
+          const ticketId = args.ticketId as bigint;
+          if (tickets.some(ticket => ticket.ticketId === ticketId)) continue;
+          tickets.unshift({
+            ticketId,
+            owner: args.participant as string,
+            // Logs carry no block timestamp, arrival time is close enough for display
+            acquiredAt: now,
+            tierId: Number(args.tierId),
+            remainingTickets: args.remainingTickets as bigint,
+          });
+        }
+        return { ...current, tickets };
+      });
+    },
+  });
+
+  useScaffoldWatchContractEvent({
+    contractName: "TicketEngine",
+    eventName: "EventSoldOut",
+    onLogs: logs => {
+      if (logs.some(log => log.args.eventId === eventId)) {
+        setUpdates(current => ({ ...current, soldOut: true }));
+      }
+    },
+  });
+
+  // Ticket ids are never reused, so grabs already included in the last read are skipped
+  const pending = useMemo(() => {
+    const readIds = new Set(chainTickets.map(ticket => ticket.ticketId));
+    return updates.tickets.filter(ticket => !readIds.has(ticket.ticketId));
+  }, [chainTickets, updates.tickets]);
+
+  const event: TicketEvent | null = useMemo(() => {
+    if (!chainEvent) return null;
+    if (updates.soldOut) {
+      return { ...chainEvent, remainingTickets: 0n, tiers: chainEvent.tiers.map(tier => ({ ...tier, remaining: 0n })) };
+    }
+    if (pending.length === 0) return chainEvent;
+
+    const remainingTickets = pending.reduce(
+      (lowest, ticket) => (ticket.remainingTickets < lowest ? ticket.remainingTickets : lowest),
+      chainEvent.remainingTickets,
+    );
+    return {
+      ...chainEvent,
+      remainingTickets,
+      tiers: chainEvent.tiers.map(tier => {
+        const grabbed = BigInt(pending.filter(ticket => ticket.tierId === tier.id).length);
+        return { ...tier, remaining: tier.remaining > grabbed ? tier.remaining - grabbed : 0n };
+      }),
+    };
+  }, [chainEvent, pending, updates.soldOut]);
+
+  const recentTickets: RecentTicket[] = useMemo(
+    () =>
+      [...pending.map(({ ticketId, owner, acquiredAt }) => ({ ticketId, owner, acquiredAt })), ...chainTickets].slice(
+        0,
+        Number(limit),
+      ),
+    [pending, chainTickets, limit],
+  );
+
+  const refetchAll = useCallback(async () => {
+    await Promise.all([refetch(), refetchRecent()]);
+  }, [refetch, refetchRecent]);
+
+  return { event, recentTickets, refetch, refetchRecent, refetchAll };
+};
@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { Hex } from "viem";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { RaffleInfo } from "~~/types/ticket-engine";
+import { loadRaffleSeed } from "~~/utils/ticket-engine";
+
+/**
+ * Hook for raffle-mode events
+ * - Participants register while the registration window is open
+ * - The organizer reveals the committed seed once registration closes, which draws the winners
+ * - Winners claim their ticket, which mints through the regular ERC721 path
+ */
+export const useRaffle = (eventId: bigint, enabled = true) => {
+  const { address } = useAccount();
+
+  const { data, refetch: refetchRaffle } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "getRaffle",
+    args: [eventId],
+    query: { enabled },
+  });
+
+  const { data: isRegistered, refetch: refetchRegistered } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "isRegisteredForRaffle",
+    args: [eventId, address],
+    query: { enabled: enabled && !!address },
+  });
+
+  const { data: isWinner, refetch: refetchWinner } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "isRaffleWinner",
+    args: [eventId, address],
+    query: { enabled: enabled && !!address },
+  });
+
+  const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+
+  const raffle: RaffleInfo | null = useMemo(
+    () =>
+      data
+        ? {
+            registrationEnd: data[0],
+            revealDeadline: data[1],
+            seedCommitment: data[2],
+            revealed: data[3],
+            entrantCount: data[4],
+            winnerCount: data[5],
+          }
+        : null,
+    [data],
+  );
+
+  // Seed saved by the create page in this browser, if the organizer created the event here
+  const storedSeed = raffle ? loadRaffleSeed(raffle.seedCommitment) : null;
+
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchRaffle(), refetchRegistered(), refetchWinner()]);
+  }, [refetchRaffle, refetchRegistered, refetchWinner]);
+
+  const register = useCallback(async () => {
+    const result = await writeContractAsync({
+      functionName: "registerForRaffle",
+      args: [eventId],
+    });
+    await refetch();
+    return result;
+  }, [writeContractAsync, eventId, refetch]);
+
+  const reveal = useCallback(
+    async (seed: Hex) => {
+      const result = await writeContractAsync({
+        functionName: "revealRaffleSeed",
+        args: [eventId, seed],
+      });
+      await refetch();
+      return result;
+    },
+    [writeContractAsync, eventId, refetch],
+  );
+
+  const claim = useCallback(
+    async (price: bigint = 0n) => {
+      const result = await writeContractAsync({
+        functionName: "claimRaffleTicket",
+        args: [eventId],
+        value: price,
+      });
+      await refetch();
+      return result;
+    },
+    [writeContractAsync, eventId, refetch],
+  );
+
+  return {
+    raffle,
+    isRegistered: !!isRegistered,
+    isWinner: !!isWinner,
+    storedSeed,
+    register,
+    reveal,
+    claim,
+    isMining,
+    refetch,
+  };
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useScaffoldEventHistory, useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { AttemptResult } from "~~/types/ticket-engine";
+import {
+  RecordedAttempt,
+  RecordedGrab,
+  ReplayMode,
+  SaleTimeline,
+  buildSaleTimeline,
+  countBlocksAt,
+} from "~~/utils/demo";
+
+/**
+ * Hook for the recorded sale of an event, replayed on /demo and summarized on /organizer
+ * - Loads every AttemptRecorded and TicketGrabbed log of the event and rebuilds its timeline block by block
+ */
+export const useSaleReplay = (eventId: bigint | undefined) => {
+  const enabled = eventId !== undefined;
+  const { data: eventData } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "getEvent",
+    args: [eventId],
+    query: { enabled },
+  });
+
+  const {
+    data: attemptEvents,
+    isLoading: isLoadingAttempts,
+    isFetchingNewEvent: isFetchingAttempts,
+    error: attemptsError,
+  } = useScaffoldEventHistory({
+    contractName: "TicketEngine",
+    eventName: "AttemptRecorded",
+    fromBlock: 0n,
+    filters: { eventId: eventId ?? 0n },
+    enabled,
+  });
+  const {
+    data: grabEvents,
+    isLoading: isLoadingGrabs,
+    isFetchingNewEvent: isFetchingGrabs,
+    error: grabsError,
+  } = useScaffoldEventHistory({
+    contractName: "TicketEngine",
+    eventName: "TicketGrabbed",
+    fromBlock: 0n,
+    filters: { eventId: eventId ?? 0n },
+    enabled,
+  });
+
+  const attempts: RecordedAttempt[] = useMemo(
+    () =>
+      (attemptEvents ?? []).map(log => ({
+        participant: log.args.participant as string,
+        result: log.args.result as AttemptResult,
+        timestamp: log.args.timestamp as bigint,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      })),
+    [attemptEvents],
+  );
+  const grabs: RecordedGrab[] = useMemo(
+    () =>
+      (grabEvents ?? []).map(log => ({
+        ticketId: log.args.ticketId as bigint,
+        participant: log.args.participant as string,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      })),
+    [grabEvents],
+  );
+
+  const timeline = useMemo(() => buildSaleTimeline(attempts, grabs), [attempts, grabs]);
+
+  return {
+    title: enabled ? eventData?.[1] : undefined,
+    totalTickets: enabled ? eventData?.[3] : undefined,
+    timeline,
+    isLoading: enabled && (isLoadingAttempts || isLoadingGrabs || isFetchingAttempts || isFetchingGrabs),
+    error: attemptsError ?? grabsError,
+  };
+};
+
+const PLAYBACK_TICK_MS = 50;
+// Block-by-block playback reveals one block per second at 1x
+const BLOCK_STEP_MS = 1000;
+
+/**
+ * Hook for the playback position of a sale replay
+ * - Time mode advances chain time at `speed`, block mode reveals one block per step
+ * - Switching modes keeps the revealed blocks in place
+ */
+export const useReplayPlayback = (timeline: SaleTimeline) => {
+  const [mode, setModeState] = useState<ReplayMode>("time");
+  const [speed, setSpeed] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [blockPosition, setBlockPosition] = useState(0);
+
+  const max = mode === "time" ? timeline.durationMs : timeline.blocks.length;
+  const position = mode === "time" ? positionMs : blockPosition;
+  const blockCount = mode === "time" ? countBlocksAt(timeline, positionMs) : blockPosition;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(
+      () => {
+        if (mode === "time") setPositionMs(p => Math.min(p + PLAYBACK_TICK_MS * speed, timeline.durationMs));
+        else setBlockPosition(count => Math.min(count + 1, timeline.blocks.length));
+      },
+      mode === "time" ? PLAYBACK_TICK_MS : BLOCK_STEP_MS / speed,
+    );
+    return () => clearInterval(interval);
+  }, [isPlaying, mode, speed, timeline]);
+
+  useEffect(() => {
+    if (isPlaying && position >= max) setIsPlaying(false);
+  }, [isPlaying, position, max]);
+
+  const seek = useCallback(
+    (next: number) => {
+      const clamped = Math.max(0, Math.min(next, max));
+      if (mode === "time") setPositionMs(clamped);
+      else setBlockPosition(clamped);
+    },
+    [mode, max],
+  );
+
+  const setMode = (next: ReplayMode) => {
+    if (next === mode) return;
+    if (next === "block") setBlockPosition(blockCount);
+    else setPositionMs(blockCount > 0 ? timeline.blocks[blockCount - 1].offsetMs : 0);
+    setModeState(next);
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && position >= max) seek(0);
+    setIsPlaying(playing => !playing);
+  };
+
+  const rewind = useCallback(() => {
+    setIsPlaying(false);
+    setPositionMs(0);
+    setBlockPosition(0);
+  }, []);
+
+  return { mode, setMode, speed, setSpeed, isPlaying, togglePlay, position, max, seek, rewind, blockCount };
+};
@@ -3,59 +3,68 @@
 import { useCallback, useMemo } from "react";
 import { useAccount } from "wagmi";
 import { useScaffoldEventHistory, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
-import { Attempt, AttemptResult, EventStatus, Ticket, TicketEvent } from "~~/types/ticket-engine";
+import { useIndexerQuery } from "~~/hooks/useIndexer";
+import { IndexedAttempt, IndexedHistory, indexerUrl } from "~~/services/indexer/client";
+import {
+  AllocationMode,
+  Attempt,
+  AttemptResult,
+  EventStatus,
+  Ticket,
+  TicketEvent,
+  TicketTier,
+} from "~~/types/ticket-engine";
+
+type TierData = { name: string; supply: bigint; remaining: bigint; price: bigint };
+
+export const toTiers = (data: readonly TierData[]): TicketTier[] =>
+  data.map((tier, index) => ({
+    id: index,
+    name: tier.name,
+    supply: tier.supply,
+    remaining: tier.remaining,
+    price: tier.price,
+  }));
 
 export const useTicketEngine = () => {
   const { address } = useAccount();
 
-  const { data: allEventsData, refetch: refetchEvents } = useScaffoldReadContract({
-    contractName: "TicketEngine",
-    functionName: "getAllEvents",
-  });
-
   const { writeContractAsync: writeTicketEngine, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
 
-  const events: TicketEvent[] = allEventsData
-    ? allEventsData[0].map((id: bigint, index: number) => ({
-        id,
-        title: allEventsData[1][index],
-        startTime: allEventsData[2][index],
-        totalTickets: allEventsData[3][index],
-        remainingTickets: allEventsData[4][index],
-        organizer: allEventsData[5][index],
-        status: getEventStatusFromData(allEventsData[2][index], allEventsData[4][index]),
-      }))
-    : [];
-
   const createEvent = useCallback(
-    async (title: string, startTime: bigint, totalTickets: bigint) => {
+    async (title: string, startTime: bigint, totalTickets: bigint, maxPerAddress: bigint, price: bigint = 0n) => {
       const result = await writeTicketEngine({
         functionName: "createEvent",
-        args: [title, startTime, totalTickets],
+        args: [title, startTime, totalTickets, maxPerAddress, price],
       });
-      await refetchEvents();
       return result;
     },
-    [writeTicketEngine, refetchEvents],
+    [writeTicketEngine],
   );
 
   const grabTicket = useCallback(
-    async (eventId: bigint) => {
+    async (
+      eventId: bigint,
+      tierId: number = 0,
+      quantity: bigint = 1n,
+      value: bigint = 0n,
+      proof: readonly `0x${string}`[] = [],
+    ) => {
       const result = await writeTicketEngine({
         functionName: "grabTicket",
-        args: [eventId],
+        args: [eventId, BigInt(tierId), quantity, proof],
+        value,
       });
-      await refetchEvents();
       return result;
     },
-    [writeTicketEngine, refetchEvents],
+    [writeTicketEngine],
   );
 
-  return { events, createEvent, grabTicket, isMining, refetchEvents, address };
+  return { createEvent, grabTicket, isMining, address };
 };
 
 export const useEvent = (eventId: bigint) => {
-  const { data, refetch } = useScaffoldReadContract({
+  const { data, refetch, dataUpdatedAt } = useScaffoldReadContract({
     contractName: "TicketEngine",
     functionName: "getEvent",
     args: [eventId],
@@ -70,10 +79,13 @@ export const useEvent = (eventId: bigint) => {
         remainingTickets: data[4],
         organizer: data[5],
         status: data[6] as EventStatus,
+        mode: data[7] as AllocationMode,
+        maxPerAddress: data[8],
+        tiers: toTiers(data[9]),
       }
     : null;
 
-  return { event, refetch };
+  return { event, refetch, updatedAt: dataUpdatedAt };
 };
 
 export const useUserTickets = (userAddress?: string) => {
@@ -96,28 +108,43 @@ export const useUserTickets = (userAddress?: string) => {
   return { tickets, refetch };
 };
 
+/**
+ * Attempts of a user in chronological order, from the indexer when configured, otherwise from getUserAttempts
+ */
 export const useUserAttempts = (userAddress?: string) => {
   const { data, refetch } = useScaffoldReadContract({
     contractName: "TicketEngine",
     functionName: "getUserAttempts",
     args: [userAddress],
-    query: { enabled: !!userAddress },
+    query: { enabled: !!userAddress && !indexerUrl },
   });
+  const { data: history, refetch: refetchHistory } = useIndexerQuery<IndexedHistory>(
+    userAddress ? `/users/${userAddress}/history?limit=100` : null,
+  );
 
-  const attempts: Attempt[] = data
-    ? data.map((attempt: { eventId: bigint; participant: string; timestamp: bigint; result: number }) => ({
-        eventId: attempt.eventId,
-        participant: attempt.participant,
-        timestamp: attempt.timestamp,
-        result: attempt.result as AttemptResult,
-      }))
-    : [];
-
-  return { attempts, refetch };
+  const attempts: Attempt[] = indexerUrl
+    ? (history?.attempts ?? [])
+        .map(attempt => ({
+          eventId: BigInt(attempt.eventId),
+          participant: attempt.participant,
+          timestamp: BigInt(attempt.attemptedAt),
+          result: attempt.result as AttemptResult,
+        }))
+        .reverse()
+    : data
+      ? data.map((attempt: { eventId: bigint; participant: string; timestamp: bigint; result: number }) => ({
+          eventId: attempt.eventId,
+          participant: attempt.participant,
+          timestamp: attempt.timestamp,
+          result: attempt.result as AttemptResult,
+        }))
+      : [];
+
+  return { attempts, refetch: indexerUrl ? refetchHistory : refetch };
 };
 
 export const useRecentTickets = (eventId: bigint, limit: bigint = 5n) => {
-  const { data, refetch } = useScaffoldReadContract({
+  const { data, refetch, dataUpdatedAt } = useScaffoldReadContract({
     contractName: "TicketEngine",
     functionName: "getRecentTickets",
     args: [eventId, limit],
@@ -131,29 +158,41 @@ export const useRecentTickets = (eventId: bigint, limit: bigint = 5n) => {
       }))
     : [];
 
-  return { recentTickets, refetch };
+  return { recentTickets, refetch, updatedAt: dataUpdatedAt };
 };
 
 export const useHasTicket = (eventId: bigint, userAddress?: string) => {
-  const { data: hasTicket } = useScaffoldReadContract({
+  const { data: ticketCount } = useScaffoldReadContract({
     contractName: "TicketEngine",
-    functionName: "hasTicketForEvent",
+    functionName: "ticketCountForEvent",
     args: [eventId, userAddress],
     query: { enabled: !!userAddress },
   });
 
-  const { data: ticketId } = useScaffoldReadContract({
+  const { data: ticketIds } = useScaffoldReadContract({
     contractName: "TicketEngine",
-    functionName: "userTicketForEvent",
+    functionName: "getUserTicketsForEvent",
     args: [eventId, userAddress],
-    query: { enabled: !!userAddress && !!hasTicket },
+    query: { enabled: !!userAddress && !!ticketCount },
   });
 
-  return { hasTicket: !!hasTicket, ticketId };
+  return {
+    hasTicket: !!ticketCount && ticketCount > 0n,
+    ticketCount: ticketCount ?? 0n,
+    ticketIds: ticketIds ?? [],
+  };
 };
 
-function getEventStatusFromData(startTime: bigint, remainingTickets: bigint): EventStatus {
-  const now = BigInt(Math.floor(Date.now() / 1000));
+/**
+ * Status as the contract would report it at `now`, in chain time (see useChainClock)
+ */
+export function getEventStatusFromData(
+  startTime: bigint,
+  remainingTickets: bigint,
+  cancelled: boolean,
+  now: bigint,
+): EventStatus {
+  if (cancelled) return EventStatus.Cancelled;
   if (now < startTime) return EventStatus.NotStarted;
   if (remainingTickets === 0n) return EventStatus.SoldOut;
   return EventStatus.InProgress;
@@ -176,14 +215,13 @@ export const useTokenURI = (tokenId: bigint | undefined) => {
 export type AttemptEvent = {
   eventId: bigint;
   participant: string;
-  result: AttemptResult;
-  timestamp: bigint;
   blockNumber: bigint;
-};
+} & ({ kind: "attempt"; result: AttemptResult; timestamp: bigint } | { kind: "waitlist"; position: bigint });
 
 /**
- * Hook to watch recent grab attempts for an event using AttemptRecorded events
- * Returns unique participants who have attempted but not yet won
+ * Hook to watch recent grab attempts and waitlist joins for an event using AttemptRecorded and WaitlistJoined events
+ * Attempts come from the indexer when configured instead of scanning AttemptRecorded from block 0
+ * Returns the most recent activity of each unique participant
  */
 export const useRecentAttempts = (eventId: bigint) => {
   const {
@@ -196,22 +234,49 @@ export const useRecentAttempts = (eventId: bigint) => {
     fromBlock: 0n,
     watch: true,
     filters: { eventId },
+    enabled: !indexerUrl,
   });
+  const { data: indexedAttempts, refetch: refetchIndexed } = useIndexerQuery<IndexedAttempt[]>(
+    `/events/${eventId}/attempts?limit=100`,
+  );
 
-  // Get all unique participants who have made attempts
+  const { data: waitlistEvents, refetch: refetchWaitlist } = useScaffoldEventHistory({
+    contractName: "TicketEngine",
+    eventName: "WaitlistJoined",
+    fromBlock: 0n,
+    watch: true,
+    filters: { eventId },
+  });
+
+  // Get all attempts and waitlist joins, newest block first
   const allAttempts = useMemo(() => {
-    if (!attemptEvents) return [];
-
-    return attemptEvents
-      .map(event => ({
-        eventId: event.args.eventId as bigint,
-        participant: event.args.participant as string,
-        result: event.args.result as AttemptResult,
-        timestamp: event.args.timestamp as bigint,
-        blockNumber: event.blockNumber,
-      }))
-      .sort((a, b) => Number(b.timestamp - a.timestamp));
-  }, [attemptEvents]);
+    const attempts: AttemptEvent[] = indexerUrl
+      ? (indexedAttempts ?? []).map(attempt => ({
+          kind: "attempt",
+          eventId: BigInt(attempt.eventId),
+          participant: attempt.participant,
+          result: attempt.result as AttemptResult,
+          timestamp: BigInt(attempt.attemptedAt),
+          blockNumber: BigInt(attempt.blockNumber),
+        }))
+      : (attemptEvents ?? []).map(event => ({
+          kind: "attempt",
+          eventId: event.args.eventId as bigint,
+          participant: event.args.participant as string,
+          result: event.args.result as AttemptResult,
+          timestamp: event.args.timestamp as bigint,
+          blockNumber: event.blockNumber,
+        }));
+    const joins: AttemptEvent[] = (waitlistEvents ?? []).map(event => ({
+      kind: "waitlist",
+      eventId: event.args.eventId as bigint,
+      participant: event.args.participant as string,
+      position: event.args.position as bigint,
+      blockNumber: event.blockNumber,
+    }));
+
+    return [...attempts, ...joins].sort((a, b) => Number(b.blockNumber - a.blockNumber));
+  }, [attemptEvents, indexedAttempts, waitlistEvents]);
 
   // Get unique participants (deduplicated by address, keep most recent attempt)
   const uniqueParticipants = useMemo(() => {
@@ -225,8 +290,10 @@ export const useRecentAttempts = (eventId: bigint) => {
 
   return {
     attempts: uniqueParticipants,
-    isLoading,
-    refetch,
+    isLoading: !indexerUrl && isLoading,
+    refetch: async () => {
+      await Promise.all([indexerUrl ? refetchIndexed() : refetch(), refetchWaitlist()]);
+    },
   };
 };
 
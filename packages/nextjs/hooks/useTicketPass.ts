@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useSignMessage } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { TicketPass, buildTicketPassMessage, createUnsignedPass, encodeTicketPass } from "~~/utils/ticket-engine";
+
+/**
+ * Hook for signed ticket passes
+ * - The holder's wallet signs a short-lived message naming the ticket, no transaction is sent
+ * - The encoded pass is rendered as a QR code and verified offline at the gate
+ */
+export const useTicketPass = (ticketId: bigint, eventId: bigint) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: ticketEngine } = useDeployedContractInfo({ contractName: "TicketEngine" });
+  const { signMessageAsync, isPending: isSigning } = useSignMessage();
+  const [pass, setPass] = useState<TicketPass | null>(null);
+
+  const generate = useCallback(async () => {
+    if (!ticketEngine) return;
+    const unsigned = createUnsignedPass(ticketId, eventId);
+    const signature = await signMessageAsync({
+      message: buildTicketPassMessage(targetNetwork.id, ticketEngine.address, unsigned),
+    });
+    setPass({ ...unsigned, signature });
+  }, [ticketEngine, ticketId, eventId, signMessageAsync, targetNetwork.id]);
+
+  return {
+    pass,
+    payload: pass ? encodeTicketPass(pass) : null,
+    generate,
+    clear: () => setPass(null),
+    isSigning,
+  };
+};
@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useState } from "react";
-import { STORAGE_KEY, TransactionRecord, TransactionStats } from "~~/types/transaction";
+import { STORAGE_KEY, TransactionRecord, TransactionStats, TransactionType } from "~~/types/transaction";
 
 export const useTransactionHistory = () => {
   const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
@@ -57,35 +57,39 @@ export const useTransactionHistory = () => {
 
   // Get transactions by type
   const getTransactionsByType = useCallback(
-    (type: "grab" | "create") => {
+    (type: TransactionType) => {
       return transactions.filter(tx => tx.type === type);
     },
     [transactions],
   );
 
-  // Calculate statistics
+  // Calculate statistics of on-chain transactions, preflights cost nothing and are left out
   const getStats = useCallback((): TransactionStats => {
-    if (transactions.length === 0) {
+    const onChainTxs = transactions.filter(tx => tx.type !== "preflight");
+    if (onChainTxs.length === 0) {
       return {
         totalAttempts: 0,
         successCount: 0,
         failCount: 0,
         averageConfirmTime: 0,
         totalGasCost: "0",
+        totalAmountPaid: "0",
       };
     }
 
-    const successCount = transactions.filter(tx => tx.success).length;
-    const failCount = transactions.length - successCount;
-    const averageConfirmTime = transactions.reduce((sum, tx) => sum + tx.confirmTime, 0) / transactions.length;
-    const totalGasCost = transactions.reduce((sum, tx) => sum + BigInt(tx.gasCost), 0n).toString();
+    const successCount = onChainTxs.filter(tx => tx.success).length;
+    const failCount = onChainTxs.length - successCount;
+    const averageConfirmTime = onChainTxs.reduce((sum, tx) => sum + tx.confirmTime, 0) / onChainTxs.length;
+    const totalGasCost = onChainTxs.reduce((sum, tx) => sum + BigInt(tx.gasCost), 0n).toString();
+    const totalAmountPaid = onChainTxs.reduce((sum, tx) => sum + BigInt(tx.amountPaid ?? "0"), 0n).toString();
 
     return {
-      totalAttempts: transactions.length,
+      totalAttempts: onChainTxs.length,
       successCount,
       failCount,
       averageConfirmTime: Math.round(averageConfirmTime),
       totalGasCost,
+      totalAmountPaid,
     };
   }, [transactions]);
 
@@ -99,6 +103,7 @@ export const useTransactionHistory = () => {
         failCount: 0,
         averageConfirmTime: 0,
         totalGasCost: "0",
+        totalAmountPaid: "0",
       };
     }
 
@@ -106,6 +111,7 @@ export const useTransactionHistory = () => {
     const failCount = grabTxs.length - successCount;
     const averageConfirmTime = grabTxs.reduce((sum, tx) => sum + tx.confirmTime, 0) / grabTxs.length;
     const totalGasCost = grabTxs.reduce((sum, tx) => sum + BigInt(tx.gasCost), 0n).toString();
+    const totalAmountPaid = grabTxs.reduce((sum, tx) => sum + BigInt(tx.amountPaid ?? "0"), 0n).toString();
 
     return {
       totalAttempts: grabTxs.length,
@@ -113,6 +119,7 @@ export const useTransactionHistory = () => {
       failCount,
       averageConfirmTime: Math.round(averageConfirmTime),
       totalGasCost,
+      totalAmountPaid,
     };
   }, [transactions]);
 
@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { WaitlistEntry, WaitlistOffer } from "~~/types/ticket-engine";
+
+/**
+ * Hook for the waitlist of a sold-out event
+ * - Participants join a FIFO queue once every ticket is gone
+ * - A burned ticket is offered to the head of the queue, who must claim it within WAITLIST_CLAIM_WINDOW
+ * - Anyone can pass an expired offer on to the next address
+ */
+export const useWaitlist = (eventId: bigint, enabled = true) => {
+  const { address } = useAccount();
+
+  const { data: position, refetch: refetchPosition } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "getWaitlistPosition",
+    args: [eventId, address],
+    query: { enabled: enabled && !!address },
+  });
+
+  const { data: length, refetch: refetchLength } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "getWaitlistLength",
+    args: [eventId],
+    query: { enabled },
+  });
+
+  const { data: offerData, refetch: refetchOffer } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "waitlistOffers",
+    args: [eventId, address],
+    query: { enabled: enabled && !!address },
+  });
+
+  const { writeContractAsync, isPending: isMining } = useScaffoldWriteContract("TicketEngine");
+
+  const offer: WaitlistOffer | null = useMemo(
+    () => (offerData && offerData[1] > 0n ? { tierId: Number(offerData[0]), expiresAt: offerData[1] } : null),
+    [offerData],
+  );
+
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchPosition(), refetchLength(), refetchOffer()]);
+  }, [refetchPosition, refetchLength, refetchOffer]);
+
+  const join = useCallback(async () => {
+    const result = await writeContractAsync({
+      functionName: "joinWaitlist",
+      args: [eventId],
+    });
+    await refetch();
+    return result;
+  }, [writeContractAsync, eventId, refetch]);
+
+  const claim = useCallback(
+    async (price: bigint = 0n) => {
+      const result = await writeContractAsync({
+        functionName: "claimWaitlistTicket",
+        args: [eventId],
+        value: price,
+      });
+      await refetch();
+      return result;
+    },
+    [writeContractAsync, eventId, refetch],
+  );
+
+  const expire = useCallback(
+    async (user: string) => {
+      const result = await writeContractAsync({
+        functionName: "expireWaitlistOffer",
+        args: [eventId, user],
+      });
+      await refetch();
+      return result;
+    },
+    [writeContractAsync, eventId, refetch],
+  );
+
+  return {
+    position: position ?? 0n,
+    length: length ?? 0n,
+    offer,
+    join,
+    claim,
+    expire,
+    isMining,
+    refetch,
+  };
+};
+
+export const useUserWaitlists = (userAddress?: string) => {
+  const { data, refetch } = useScaffoldReadContract({
+    contractName: "TicketEngine",
+    functionName: "getUserWaitlists",
+    args: [userAddress],
+    query: { enabled: !!userAddress },
+  });
+
+  const waitlists: WaitlistEntry[] = data
+    ? data[0].map((eventId: bigint, index: number) => ({
+        eventId,
+        position: data[1][index],
+        offer: data[3][index] > 0n ? { tierId: Number(data[2][index]), expiresAt: data[3][index] } : null,
+      }))
+    : [];
+
+  return { waitlists, refetch };
+};
@@ -0,0 +1,32 @@
+// Base URL of the indexer HTTP API (packages/indexer). When unset, hooks read the contract directly.
+export const indexerUrl = process.env.NEXT_PUBLIC_INDEXER_URL?.replace(/\/$/, "");
+
+// Response shapes of the indexer API; ids, counts and timestamps are plain numbers, addresses lowercase
+export interface IndexedAttempt {
+  eventId: number;
+  participant: string;
+  result: number;
+  attemptedAt: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  participant: string;
+  tickets: number;
+  firstGrabAt: number;
+  secondsAfterStart: number;
+  blockNumber: number;
+}
+
+export interface IndexedHistory {
+  attempts: (IndexedAttempt & { eventTitle: string | null })[];
+  transfers: { tokenId: number; from: string; to: string; blockNumber: number; txHash: string; timestamp: number }[];
+}
+
+export const fetchIndexer = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${indexerUrl}${path}`);
+  if (!response.ok) throw new Error(`Indexer request failed: ${response.status}`);
+  return response.json();
+};
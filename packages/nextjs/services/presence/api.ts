@@ -0,0 +1,18 @@
+import { PresenceWriteRequest } from "./writeHandler";
+
+export const PRESENCE_API_PATH = "/api/presence";
+
+/**
+ * Sends a signed presence write to the API route
+ */
+export const postPresenceWrite = async (request: PresenceWriteRequest) => {
+  const response = await fetch(PRESENCE_API_PATH, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Presence write rejected: ${error}`);
+  }
+};
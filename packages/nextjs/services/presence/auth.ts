@@ -0,0 +1,71 @@
+import { Address, Hex, getAddress, isAddress, isHex, toHex, verifyMessage } from "viem";
+
+/**
+ * Proof that a wallet is grabbing tickets of an event. The wallet signs (EIP-191) a message naming
+ * the event, its address, a random nonce and the time; the presence API route verifies it before writing.
+ * One proof covers a whole grab: the start, its heartbeats and the final status.
+ */
+
+export type PresenceProof = {
+  eventId: string;
+  address: Address;
+  nonce: Hex;
+  timestamp: number; // unix seconds
+  signature: Hex;
+};
+
+export const PRESENCE_PROOF_VERSION = 1;
+// Long enough for a wallet confirmation and a slow transaction, heartbeats included
+export const PRESENCE_PROOF_TTL_SECONDS = 10 * 60;
+// Tolerated drift between the signer's clock and the server's
+const MAX_CLOCK_SKEW_SECONDS = 60;
+
+export const createUnsignedPresenceProof = (eventId: string, address: string): Omit<PresenceProof, "signature"> => ({
+  eventId,
+  address: getAddress(address),
+  nonce: toHex(crypto.getRandomValues(new Uint8Array(16))),
+  timestamp: Math.floor(Date.now() / 1000),
+});
+
+export const buildPresenceMessage = (proof: Omit<PresenceProof, "signature">): string =>
+  [
+    `TicketEngine presence v${PRESENCE_PROOF_VERSION}`,
+    `eventId: ${proof.eventId}`,
+    `address: ${getAddress(proof.address)}`,
+    `nonce: ${proof.nonce}`,
+    `timestamp: ${proof.timestamp}`,
+  ].join("\n");
+
+export const isPresenceProof = (value: unknown): value is PresenceProof => {
+  const proof = value as PresenceProof;
+  return (
+    typeof proof === "object" &&
+    proof !== null &&
+    typeof proof.eventId === "string" &&
+    /^\d+$/.test(proof.eventId) &&
+    typeof proof.address === "string" &&
+    isAddress(proof.address) &&
+    isHex(proof.nonce) &&
+    Number.isInteger(proof.timestamp) &&
+    isHex(proof.signature)
+  );
+};
+
+/**
+ * @returns Why the proof is rejected, or null when it is valid at `now`
+ */
+export const verifyPresenceProof = async (
+  proof: PresenceProof,
+  now: number = Math.floor(Date.now() / 1000),
+): Promise<string | null> => {
+  if (proof.timestamp > now + MAX_CLOCK_SKEW_SECONDS) return "Proof timestamp is in the future";
+  if (now - proof.timestamp > PRESENCE_PROOF_TTL_SECONDS) return "Proof expired";
+
+  const { signature, ...unsigned } = proof;
+  const valid = await verifyMessage({
+    address: proof.address,
+    message: buildPresenceMessage(unsigned),
+    signature,
+  }).catch(() => false);
+  return valid ? null : "Invalid signature";
+};
@@ -0,0 +1,14 @@
+import { GrabbingParticipant } from "./types";
+
+// How often a client with a pending grab refreshes its record
+export const PRESENCE_HEARTBEAT_INTERVAL_MS = 10_000;
+
+// A record without a heartbeat for this long belongs to a closed tab or a crashed client
+export const PRESENCE_EXPIRY_MS = 30_000;
+
+/**
+ * Whether the participant missed enough heartbeats to be dropped.
+ * Records written before last_seen existed fall back to started_at.
+ */
+export const isExpired = (participant: GrabbingParticipant, now: number = Date.now()) =>
+  now - Date.parse(participant.last_seen ?? participant.started_at) > PRESENCE_EXPIRY_MS;
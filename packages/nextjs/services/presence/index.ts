@@ -0,0 +1,20 @@
+import { GRABBING_TABLE, supabase } from "../supabase/client";
+import { createSupabaseTransport } from "./supabaseTransport";
+import { PresenceTransport } from "./types";
+import { createWebSocketTransport } from "./websocketTransport";
+
+export * from "./api";
+export * from "./auth";
+export * from "./expiry";
+export * from "./types";
+export type { PresenceWriteRequest } from "./writeHandler";
+export { createSupabaseTransport, createWebSocketTransport };
+
+/**
+ * Transport useGrabbingSync reads and subscribes through (writes go through the presence API route), chosen with NEXT_PUBLIC_PRESENCE_TRANSPORT:
+ * "supabase" (default) or "websocket" for the local server started with `yarn presence`
+ */
+export const presenceTransport: PresenceTransport =
+  process.env.NEXT_PUBLIC_PRESENCE_TRANSPORT === "websocket"
+    ? createWebSocketTransport(process.env.NEXT_PUBLIC_PRESENCE_WS_URL || "ws://localhost:42070")
+    : createSupabaseTransport(supabase, GRABBING_TABLE);
@@ -0,0 +1,24 @@
+import { PresenceProof } from "./auth";
+import { GrabbingParticipant, PresenceChange } from "./types";
+
+/**
+ * Messages between the WebSocket presence transport and the server in packages/presence.
+ * Requests carry a requestId that the server echoes in its result; writes carry the proof of the wallet they change.
+ */
+export type ClientMessage =
+  | { type: "subscribe" | "unsubscribe"; eventId: string }
+  | { type: "list"; requestId: number; eventId: string }
+  | { type: "upsert"; requestId: number; participant: GrabbingParticipant; proof: PresenceProof }
+  | {
+      type: "update";
+      requestId: number;
+      eventId: string;
+      walletAddress: string;
+      status: GrabbingParticipant["status"];
+      proof: PresenceProof;
+    }
+  | { type: "heartbeat" | "remove"; requestId: number; eventId: string; walletAddress: string; proof: PresenceProof };
+
+export type ServerMessage =
+  | { type: "result"; requestId: number; data?: unknown; error?: string }
+  | { type: "change"; eventId: string; change: PresenceChange };
@@ -0,0 +1,26 @@
+import { GRABBING_TABLE, supabaseUrl } from "../supabase/client";
+import { createSupabaseTransport } from "./supabaseTransport";
+import { PresenceTransport } from "./types";
+import { createWebSocketTransport } from "./websocketTransport";
+import { createClient } from "@supabase/supabase-js";
+import { WebSocket } from "ws";
+
+/**
+ * Transport the presence API route writes through, on the same backend the clients read from.
+ * Supabase writes need SUPABASE_SERVICE_ROLE_KEY: the table only lets the anon key read.
+ * @returns null when the backend is not configured for server writes
+ */
+export const createServerPresenceTransport = (): PresenceTransport | null => {
+  if (process.env.NEXT_PUBLIC_PRESENCE_TRANSPORT === "websocket") {
+    // Node 20 has no global WebSocket
+    return createWebSocketTransport(
+      process.env.NEXT_PUBLIC_PRESENCE_WS_URL || "ws://localhost:42070",
+      WebSocket as unknown as typeof globalThis.WebSocket,
+    );
+  }
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+  const admin = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+  return createSupabaseTransport(admin, GRABBING_TABLE);
+};
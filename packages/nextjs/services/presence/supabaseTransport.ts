@@ -0,0 +1,69 @@
+import { PRESENCE_EXPIRY_MS } from "./expiry";
+import { GrabbingParticipant, PresenceTransport } from "./types";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Presence through a Supabase table and Supabase Realtime postgres_changes.
+ * last_seen and the expiry job come from the table definition in services/supabase/grabbing_participants.sql.
+ */
+export const createSupabaseTransport = (client: SupabaseClient, table: string): PresenceTransport => ({
+  async list(eventId) {
+    const { data, error } = await client
+      .from(table)
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("status", "grabbing")
+      .gt("last_seen", new Date(Date.now() - PRESENCE_EXPIRY_MS).toISOString())
+      .order("started_at", { ascending: false });
+    if (error) throw error;
+    return data as GrabbingParticipant[];
+  },
+
+  subscribe(eventId, onChange) {
+    const channel = client
+      .channel(`grabbing-${eventId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table, filter: `event_id=eq.${eventId}` }, payload => {
+        if (payload.eventType === "INSERT") {
+          onChange({ type: "insert", participant: payload.new as GrabbingParticipant });
+        } else if (payload.eventType === "UPDATE") {
+          onChange({ type: "update", participant: payload.new as GrabbingParticipant });
+        } else if (payload.eventType === "DELETE") {
+          onChange({ type: "delete", participant: payload.old as Partial<GrabbingParticipant> });
+        }
+      })
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  },
+
+  async upsert(participant) {
+    const { error } = await client.from(table).upsert(participant, { onConflict: "event_id,wallet_address" });
+    if (error) throw error;
+  },
+
+  async updateStatus(eventId, walletAddress, status) {
+    const { error } = await client
+      .from(table)
+      .update({ status })
+      .eq("event_id", eventId)
+      .eq("wallet_address", walletAddress);
+    if (error) throw error;
+  },
+
+  async heartbeat(eventId, walletAddress) {
+    // The value is replaced by now() in the table's trigger, sending it keeps the update non-empty
+    const { error } = await client
+      .from(table)
+      .update({ last_seen: new Date().toISOString() })
+      .eq("event_id", eventId)
+      .eq("wallet_address", walletAddress);
+    if (error) throw error;
+  },
+
+  async remove(eventId, walletAddress) {
+    const { error } = await client.from(table).delete().eq("event_id", eventId).eq("wallet_address", walletAddress);
+    if (error) throw error;
+  },
+});
@@ -0,0 +1,45 @@
+import { PresenceProof } from "./auth";
+
+// Record of a participant in the "正在抢票" list, shared by every presence transport
+export interface GrabbingParticipant {
+  id?: string;
+  event_id: string;
+  wallet_address: string;
+  started_at: string;
+  status: "grabbing" | "success" | "failed";
+  // Stamped by the backend on every write and heartbeat, see expiry.ts
+  last_seen?: string;
+}
+
+/**
+ * A change to an event's participant list. Deletes may only carry the record id,
+ * which is all Supabase sends for a deleted row by default.
+ */
+export type PresenceChange =
+  | { type: "insert" | "update"; participant: GrabbingParticipant }
+  | { type: "delete"; participant: Partial<GrabbingParticipant> };
+
+/**
+ * Realtime store behind useGrabbingSync, keyed by (event_id, wallet_address).
+ * Records whose last_seen is older than PRESENCE_EXPIRY_MS are left out of list() and deleted by the backend.
+ * Writes take the signed proof of the wallet they change: the WebSocket server verifies it again,
+ * Supabase relies on the service role key only the presence API route holds.
+ * Implementations reject their promises on failure.
+ */
+export interface PresenceTransport {
+  // Participants of an event still grabbing, newest first
+  list(eventId: string): Promise<GrabbingParticipant[]>;
+  // Delivers changes of one event until the returned function is called
+  subscribe(eventId: string, onChange: (change: PresenceChange) => void): () => void;
+  // Inserts the participant, or overwrites the existing record of the same wallet
+  upsert(participant: GrabbingParticipant, proof: PresenceProof): Promise<void>;
+  updateStatus(
+    eventId: string,
+    walletAddress: string,
+    status: GrabbingParticipant["status"],
+    proof: PresenceProof,
+  ): Promise<void>;
+  // Refreshes last_seen so the record does not expire while a grab is pending
+  heartbeat(eventId: string, walletAddress: string, proof: PresenceProof): Promise<void>;
+  remove(eventId: string, walletAddress: string, proof: PresenceProof): Promise<void>;
+}
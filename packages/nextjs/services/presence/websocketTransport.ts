@@ -0,0 +1,110 @@
+import { ClientMessage, ServerMessage } from "./protocol";
+import { GrabbingParticipant, PresenceChange, PresenceTransport } from "./types";
+
+const RECONNECT_DELAY_MS = 2000;
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+type Request = DistributiveOmit<Extract<ClientMessage, { requestId: number }>, "requestId">;
+
+/**
+ * Presence through the self-hosted WebSocket server in packages/presence.
+ * Connects on first use and reconnects while there are subscribers, re-subscribing on every new connection.
+ * @param WebSocketImpl - WebSocket constructor, the browser's by default; Node 20 has none, servers pass the `ws` client
+ */
+export const createWebSocketTransport = (
+  url: string,
+  WebSocketImpl: typeof WebSocket = globalThis.WebSocket,
+): PresenceTransport => {
+  let connection: Promise<WebSocket> | null = null;
+  let nextRequestId = 1;
+  const pending = new Map<number, { resolve: (data: unknown) => void; reject: (error: Error) => void }>();
+  const listeners = new Map<string, Set<(change: PresenceChange) => void>>();
+
+  const send = (socket: WebSocket, message: ClientMessage) => socket.send(JSON.stringify(message));
+
+  const connect = (): Promise<WebSocket> => {
+    if (connection) return connection;
+
+    const opening = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocketImpl(url);
+      let open = false;
+
+      socket.onopen = () => {
+        open = true;
+        for (const eventId of listeners.keys()) send(socket, { type: "subscribe", eventId });
+        resolve(socket);
+      };
+
+      socket.onerror = () => reject(new Error(`Presence server at ${url} is unreachable`));
+
+      socket.onmessage = ({ data }) => {
+        const message = JSON.parse(String(data)) as ServerMessage;
+        if (message.type === "result") {
+          const request = pending.get(message.requestId);
+          pending.delete(message.requestId);
+          if (message.error) request?.reject(new Error(message.error));
+          else request?.resolve(message.data);
+        } else {
+          listeners.get(message.eventId)?.forEach(onChange => onChange(message.change));
+        }
+      };
+
+      socket.onclose = () => {
+        reject(new Error(`Presence server at ${url} is unreachable`));
+        if (connection === opening) connection = null;
+        // A socket that never opened sent no requests; anything pending belongs to a newer connection
+        if (open) {
+          for (const request of pending.values()) request.reject(new Error("Presence connection closed"));
+          pending.clear();
+        }
+        if (listeners.size > 0) {
+          setTimeout(() => connect().catch(() => undefined), RECONNECT_DELAY_MS);
+        }
+      };
+    });
+
+    // A failed attempt (unreachable server, missing WebSocket implementation) is not cached: the next call dials again
+    connection = opening;
+    opening.catch(() => {
+      if (connection === opening) connection = null;
+    });
+    return opening;
+  };
+
+  const request = async <T>(message: Request): Promise<T> => {
+    const socket = await connect();
+    const requestId = nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(requestId, { resolve: data => resolve(data as T), reject });
+      send(socket, { ...message, requestId } as ClientMessage);
+    });
+  };
+
+  return {
+    list: eventId => request<GrabbingParticipant[]>({ type: "list", eventId }),
+
+    subscribe(eventId, onChange) {
+      const eventListeners = listeners.get(eventId) ?? new Set();
+      listeners.set(eventId, eventListeners);
+      eventListeners.add(onChange);
+      if (eventListeners.size === 1) {
+        connect()
+          .then(socket => send(socket, { type: "subscribe", eventId }))
+          .catch(error => console.error("Presence subscribe failed:", error));
+      }
+
+      return () => {
+        eventListeners.delete(onChange);
+        if (eventListeners.size > 0) return;
+        listeners.delete(eventId);
+        connection?.then(socket => send(socket, { type: "unsubscribe", eventId })).catch(() => undefined);
+      };
+    },
+
+    upsert: (participant, proof) => request({ type: "upsert", participant, proof }),
+    updateStatus: (eventId, walletAddress, status, proof) =>
+      request({ type: "update", eventId, walletAddress, status, proof }),
+    heartbeat: (eventId, walletAddress, proof) => request({ type: "heartbeat", eventId, walletAddress, proof }),
+    remove: (eventId, walletAddress, proof) => request({ type: "remove", eventId, walletAddress, proof }),
+  };
+};
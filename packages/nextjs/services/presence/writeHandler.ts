@@ -0,0 +1,90 @@
+import { PRESENCE_PROOF_TTL_SECONDS, PresenceProof, isPresenceProof, verifyPresenceProof } from "./auth";
+import { PresenceTransport } from "./types";
+
+/**
+ * Body of POST /api/presence. Every write of a grab carries the proof signed when it started.
+ */
+export type PresenceWriteRequest =
+  | { action: "start" | "heartbeat"; proof: PresenceProof }
+  | { action: "end"; status: "success" | "failed"; proof: PresenceProof };
+
+const isWriteRequest = (value: unknown): value is PresenceWriteRequest => {
+  const request = value as PresenceWriteRequest;
+  if (typeof request !== "object" || request === null || !isPresenceProof(request.proof)) return false;
+  if (request.action === "end") return request.status === "success" || request.status === "failed";
+  return request.action === "start" || request.action === "heartbeat";
+};
+
+const json = (status: number, body: object) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+/**
+ * Handler behind the presence API route: verifies the signed proof, then writes through `transport`
+ * with server credentials, so clients can only write records of wallets they control.
+ * - A proof starts a grab once; its nonce then identifies the grab for heartbeats and the final status
+ * - Nonces are remembered until their proof expires, which rejects replayed starts
+ * State is kept in memory, per server instance.
+ * @param now - Clock in unix seconds, for tests
+ */
+export const createPresenceWriteHandler = (
+  transport: PresenceTransport,
+  now: () => number = () => Math.floor(Date.now() / 1000),
+) => {
+  // `${eventId}:${wallet}` -> nonce of the grab in progress
+  const grabs = new Map<string, string>();
+  // nonce -> proof timestamp
+  const usedNonces = new Map<string, number>();
+
+  // Expired proofs fail verification anyway, so their nonces and grabs can be forgotten
+  const prune = () => {
+    for (const [nonce, timestamp] of usedNonces) {
+      if (now() - timestamp > PRESENCE_PROOF_TTL_SECONDS) usedNonces.delete(nonce);
+    }
+    for (const [key, nonce] of grabs) {
+      if (!usedNonces.has(nonce)) grabs.delete(key);
+    }
+  };
+
+  return async (request: Request): Promise<Response> => {
+    prune();
+    const body = await request.json().catch(() => null);
+    if (!isWriteRequest(body)) return json(400, { error: "Invalid presence request" });
+
+    const { proof } = body;
+    const error = await verifyPresenceProof(proof, now());
+    if (error) return json(401, { error });
+
+    const wallet = proof.address.toLowerCase();
+    const key = `${proof.eventId}:${wallet}`;
+
+    try {
+      if (body.action === "start") {
+        if (usedNonces.has(proof.nonce)) return json(409, { error: "Proof already used" });
+        usedNonces.set(proof.nonce, proof.timestamp);
+        grabs.set(key, proof.nonce);
+        await transport.upsert(
+          {
+            event_id: proof.eventId,
+            wallet_address: wallet,
+            started_at: new Date().toISOString(),
+            status: "grabbing",
+          },
+          proof,
+        );
+      } else {
+        if (grabs.get(key) !== proof.nonce) return json(409, { error: "No grab in progress for this proof" });
+        if (body.action === "end") {
+          grabs.delete(key);
+          await transport.updateStatus(proof.eventId, wallet, body.status, proof);
+        } else {
+          await transport.heartbeat(proof.eventId, wallet, proof);
+        }
+      }
+    } catch (writeError) {
+      console.error("Presence write failed:", writeError);
+      return json(502, { error: "Presence backend unavailable" });
+    }
+
+    return json(200, { ok: true });
+  };
+};
@@ -0,0 +1,48 @@
+-- Table behind the Supabase presence transport (services/presence/supabaseTransport.ts).
+-- Run in the Supabase SQL editor; every statement can be re-run on an existing project.
+-- Realtime has to be enabled for the table as well (Database → Publications → supabase_realtime).
+
+create table if not exists public.grabbing_participants (
+  id uuid primary key default gen_random_uuid(),
+  event_id text not null,
+  wallet_address text not null,
+  started_at timestamptz not null default now(),
+  status text not null check (status in ('grabbing', 'success', 'failed')),
+  unique (event_id, wallet_address)
+);
+
+-- Stamped by the database on every write, so expiry does not depend on client clocks
+alter table public.grabbing_participants add column if not exists last_seen timestamptz not null default now();
+
+create index if not exists grabbing_participants_last_seen_idx on public.grabbing_participants (last_seen);
+
+create or replace function public.touch_grabbing_participant() returns trigger as $$
+begin
+  new.last_seen := now();
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists grabbing_participants_touch on public.grabbing_participants;
+create trigger grabbing_participants_touch
+  before insert or update on public.grabbing_participants
+  for each row execute function public.touch_grabbing_participant();
+
+-- Deletes records that missed their heartbeats (PRESENCE_EXPIRY_MS in services/presence/expiry.ts).
+-- Clients hide them right away; the deletes also reach them through Realtime.
+create extension if not exists pg_cron;
+
+select cron.unschedule(jobid) from cron.job where jobname = 'expire-grabbing-participants';
+select cron.schedule(
+  'expire-grabbing-participants',
+  '30 seconds',
+  $$delete from public.grabbing_participants where last_seen < now() - interval '30 seconds'$$
+);
+
+-- Writes go through the presence API route (app/api/presence) with the service role key, which bypasses RLS.
+-- The anon key may only read, so clients cannot write records for wallets they do not control.
+-- Drop any insert/update/delete policies created for anon before this.
+alter table public.grabbing_participants enable row level security;
+
+drop policy if exists grabbing_participants_read on public.grabbing_participants;
+create policy grabbing_participants_read on public.grabbing_participants for select to anon, authenticated using (true);
@@ -0,0 +1,81 @@
+import { AttemptResult } from "../types/ticket-engine";
+import {
+  RecordedAttempt,
+  RecordedGrab,
+  buildSaleTimeline,
+  countBlocksAt,
+  getReplayFrame,
+  getTpsSeries,
+} from "../utils/demo";
+import { expect } from "chai";
+
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+
+const attempt = (
+  blockNumber: bigint,
+  timestamp: bigint,
+  logIndex: number,
+  participant: string,
+  result: AttemptResult,
+  transactionHash: string,
+): RecordedAttempt => ({ participant, result, timestamp, blockNumber, transactionHash, logIndex });
+
+const grab = (
+  blockNumber: bigint,
+  logIndex: number,
+  ticketId: bigint,
+  participant: string,
+  transactionHash: string,
+): RecordedGrab => ({ ticketId, participant, blockNumber, transactionHash, logIndex });
+
+// Block 10 at t=100: Alice wins ticket 1, block 11 at t=100: Bob wins ticket 2 and Alice fails,
+// block 12 at t=103: Bob fails on the sold out event
+const ATTEMPTS = [
+  attempt(10n, 100n, 1, ALICE, AttemptResult.Success, "0x01"),
+  attempt(11n, 100n, 1, BOB, AttemptResult.Success, "0x02"),
+  attempt(11n, 100n, 3, ALICE, AttemptResult.AlreadyOwnsTicket, "0x03"),
+  attempt(12n, 103n, 2, BOB, AttemptResult.SoldOut, "0x04"),
+];
+const GRABS = [grab(10n, 0, 1n, ALICE, "0x01"), grab(11n, 0, 2n, BOB, "0x02")];
+
+describe("Demo replay", function () {
+  describe("buildSaleTimeline", function () {
+    it("should group attempts into blocks and attach the tickets of their transaction", () => {
+      const timeline = buildSaleTimeline(ATTEMPTS, GRABS);
+
+      expect(timeline.blocks.map(block => block.blockNumber)).to.deep.equal([10n, 11n, 12n]);
+      expect(timeline.blocks.map(block => block.offsetMs)).to.deep.equal([0, 0, 3000]);
+      expect(timeline.durationMs).to.equal(3000);
+      expect(timeline.totalAttempts).to.equal(4);
+      expect(timeline.blocks[1].entries.map(entry => entry.ticketIds)).to.deep.equal([[2n], []]);
+    });
+  });
+
+  describe("playback", function () {
+    const timeline = buildSaleTimeline(ATTEMPTS, GRABS);
+
+    it("should reveal every block up to the playback position", () => {
+      expect(countBlocksAt(timeline, 0)).to.equal(2);
+      expect(countBlocksAt(timeline, 2999)).to.equal(2);
+      expect(countBlocksAt(timeline, 3000)).to.equal(3);
+      expect(countBlocksAt(buildSaleTimeline([], []), 1000)).to.equal(0);
+    });
+
+    it("should count winners, unique participants and attempts of the revealed blocks", () => {
+      expect(getReplayFrame(timeline, 0)).to.include({ blockCount: 0, processedAttempts: 0, ticketsSold: 0, tps: 0 });
+
+      const frame = getReplayFrame(timeline, 2);
+      expect(frame).to.include({ elapsedMs: 0, processedAttempts: 3, uniqueParticipants: 2, ticketsSold: 2, tps: 3 });
+      expect(frame.winners).to.deep.equal([
+        { participant: ALICE, ticketId: 1n, blockNumber: 10n },
+        { participant: BOB, ticketId: 2n, blockNumber: 11n },
+      ]);
+      expect(getReplayFrame(timeline, 3)).to.include({ elapsedMs: 3000, processedAttempts: 4, tps: 1 });
+    });
+
+    it("should bucket attempts per second of chain time", () => {
+      expect(getTpsSeries(timeline)).to.deep.equal([3, 0, 0, 1]);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  ParticipantClass,
+  SIMULATION_PRESETS,
+  SimulationConfig,
+  SimulationFrame,
+  createRandom,
+  getClassCaptureReport,
+  runSimulation,
+} from "../utils/demo";
+import { expect } from "chai";
+
+const FANS: ParticipantClass = {
+  id: "fans",
+  label: "fans",
+  users: 500,
+  arrivalSpreadMs: 500,
+  latency: { kind: "uniform", meanMs: 400, spreadMs: 200 },
+  retry: { kind: "none" },
+};
+
+const SMALL_CONFIG: SimulationConfig = {
+  ...DEFAULT_SIMULATION_CONFIG,
+  tickets: 20,
+  tps: 1000,
+  classes: [FANS],
+};
+
+const collect = (config: SimulationConfig): SimulationFrame[] => [...runSimulation(config)];
+const confirmedOf = (frames: SimulationFrame[]) => frames.flatMap(frame => frame.confirmed);
+
+describe("Demo simulation", function () {
+  describe("createRandom", function () {
+    it("should repeat the same sequence for the same seed", () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const c = createRandom(43);
+      const sequence = Array.from({ length: 5 }, () => a());
+
+      expect(Array.from({ length: 5 }, () => b())).to.deep.equal(sequence);
+      expect(Array.from({ length: 5 }, () => c())).to.not.deep.equal(sequence);
+      sequence.forEach(value => expect(value >= 0 && value < 1).to.equal(true));
+    });
+  });
+
+  describe("runSimulation", function () {
+    it("should be reproducible from its seed", () => {
+      expect(collect(SMALL_CONFIG)).to.deep.equal(collect(SMALL_CONFIG));
+      expect(confirmedOf(collect({ ...SMALL_CONFIG, seed: 2 }))).to.not.deep.equal(confirmedOf(collect(SMALL_CONFIG)));
+    });
+
+    it("should confirm every user exactly once without retries and end with a done frame", () => {
+      const frames = collect(SMALL_CONFIG);
+      const ids = confirmedOf(frames).map(p => p.id);
+
+      expect(ids).to.have.length(FANS.users);
+      expect(new Set(ids).size).to.equal(FANS.users);
+      expect(frames.at(-1)).to.include({ done: true, processedUsers: FANS.users, processedAttempts: FANS.users });
+      expect(frames.filter(frame => frame.done)).to.have.length(1);
+    });
+
+    it("should include at most tps attempts per second", () => {
+      const frames = collect({ ...SMALL_CONFIG, tps: 200, classes: [{ ...FANS, arrivalSpreadMs: 0 }] });
+
+      frames.forEach(frame => expect(frame.confirmed.length).to.be.at.most(10));
+      // Everyone has reached the chain by 600ms, from then on the line drains at exactly the chain's capacity
+      frames
+        .filter(frame => frame.elapsedMs > 600 && frame.processedAttempts < FANS.users)
+        .forEach(frame => expect(frame.confirmed.length).to.equal(10));
+    });
+
+    it("should confirm no earlier than the class latency allows", () => {
+      for (const participant of confirmedOf(collect(SMALL_CONFIG))) {
+        expect(participant.confirmTime).to.be.at.least(200);
+        expect(participant.confirmedAtMs).to.equal(participant.submittedAtMs + participant.confirmTime);
+      }
+    });
+
+    it("should never grant more tickets than the supply", () => {
+      const frames = collect({ ...SMALL_CONFIG, success: { kind: "lottery", probability: 0.5 } });
+      const ticketNumbers = confirmedOf(frames)
+        .filter(p => p.success)
+        .map(p => p.ticketNumber);
+
+      expect(ticketNumbers).to.deep.equal(Array.from({ length: SMALL_CONFIG.tickets }, (_, i) => i + 1));
+      expect(frames.at(-1)!.remainingTickets).to.equal(0);
+    });
+
+    it("should give first-come tickets to the earliest confirmations", () => {
+      const confirmed = confirmedOf(collect(SMALL_CONFIG));
+      const winners = confirmed.slice(0, SMALL_CONFIG.tickets);
+
+      winners.forEach((p, i) => expect(p).to.include({ success: true, ticketNumber: i + 1 }));
+      confirmed.slice(SMALL_CONFIG.tickets).forEach(p => expect(p.success).to.equal(false));
+      for (let i = 1; i < confirmed.length; i++) {
+        expect(confirmed[i].confirmedAtMs).to.be.at.least(confirmed[i - 1].confirmedAtMs);
+      }
+    });
+
+    it("should clamp normal latencies to a positive value", () => {
+      const confirmed = confirmedOf(
+        collect({ ...SMALL_CONFIG, classes: [{ ...FANS, latency: { kind: "normal", meanMs: 20, stdDevMs: 100 } }] }),
+      );
+      confirmed.forEach(p => expect(p.confirmTime).to.be.at.least(1));
+    });
+
+    it("should retry failed attempts up to maxRetries", () => {
+      const frames = collect({
+        ...SMALL_CONFIG,
+        tickets: 0,
+        classes: [{ ...FANS, users: 10, retry: { kind: "immediate", maxRetries: 3 } }],
+      });
+      const confirmed = confirmedOf(frames);
+
+      expect(confirmed).to.have.length(40);
+      expect(Math.max(...confirmed.map(p => p.attempt))).to.equal(4);
+      expect(frames.at(-1)!.classes.fans).to.include({ attempts: 40, finishedUsers: 10, tickets: 0 });
+    });
+
+    it("should double the backoff delay after each failure", () => {
+      const confirmed = confirmedOf(
+        collect({
+          ...SMALL_CONFIG,
+          tickets: 0,
+          classes: [{ ...FANS, users: 1, retry: { kind: "backoff", maxRetries: 2, baseDelayMs: 1000 } }],
+        }),
+      );
+
+      expect(confirmed[1].submittedAtMs - confirmed[0].confirmedAtMs).to.equal(1000);
+      expect(confirmed[2].submittedAtMs - confirmed[1].confirmedAtMs).to.equal(2000);
+    });
+  });
+
+  describe("getClassCaptureReport", function () {
+    it("should show the bot swarm capturing more than its share", () => {
+      const preset = SIMULATION_PRESETS.find(p => p.id === "bot-swarm")!;
+      const frames = collect(preset.config);
+      const [fans, bots] = getClassCaptureReport(preset.config, frames.at(-1)!.classes);
+
+      expect(fans.tickets + bots.tickets).to.equal(preset.config.tickets);
+      expect(bots.captureRatio).to.be.greaterThan(1);
+      expect(fans.captureRatio).to.be.lessThan(1);
+      expect(bots.ticketShare + fans.ticketShare).to.be.closeTo(1, 1e-9);
+    });
+  });
+});
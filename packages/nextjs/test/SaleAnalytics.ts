@@ -0,0 +1,77 @@
+import { AttemptResult } from "../types/ticket-engine";
+import { RecordedAttempt, RecordedGrab, buildSaleTimeline } from "../utils/demo";
+import { getSaleAnalytics, toSaleCsv } from "../utils/ticket-engine/saleAnalytics";
+import { expect } from "chai";
+
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const START = 1_000n;
+
+const attempt = (
+  blockNumber: bigint,
+  timestamp: bigint,
+  participant: string,
+  result: AttemptResult,
+  transactionHash: string,
+): RecordedAttempt => ({ participant, result, timestamp, blockNumber, transactionHash, logIndex: 1 });
+
+const grab = (blockNumber: bigint, ticketId: bigint, participant: string, transactionHash: string): RecordedGrab => ({
+  ticketId,
+  participant,
+  blockNumber,
+  transactionHash,
+  logIndex: 0,
+});
+
+// Alice is early, wins ticket 1 at the start and retries; Bob takes the last ticket 90 seconds in
+const TIMELINE = buildSaleTimeline(
+  [
+    attempt(1n, START - 5n, ALICE, AttemptResult.NotStarted, "0x01"),
+    attempt(2n, START, ALICE, AttemptResult.Success, "0x02"),
+    attempt(3n, START + 10n, ALICE, AttemptResult.AlreadyOwnsTicket, "0x03"),
+    attempt(4n, START + 85n, BOB, AttemptResult.Success, "0x04"),
+    attempt(5n, START + 125n, BOB, AttemptResult.SoldOut, "0x05"),
+  ],
+  [grab(2n, 1n, ALICE, "0x02"), grab(4n, 2n, BOB, "0x04")],
+);
+
+describe("Sale analytics", function () {
+  it("should break attempts down by result", () => {
+    const analytics = getSaleAnalytics(TIMELINE, 2n, START);
+
+    expect(analytics).to.include({ attempts: 5, uniqueParticipants: 2, ticketsSold: 2 });
+    expect(analytics.outcomes).to.deep.equal([
+      { result: AttemptResult.Success, count: 2 },
+      { result: AttemptResult.AlreadyOwnsTicket, count: 1 },
+      { result: AttemptResult.SoldOut, count: 1 },
+      { result: AttemptResult.NotStarted, count: 1 },
+      { result: AttemptResult.NotAllowlisted, count: 0 },
+    ]);
+  });
+
+  it("should time the sellout from the event start", () => {
+    expect(getSaleAnalytics(TIMELINE, 2n, START).soldOutAfterMs).to.equal(85_000);
+    expect(getSaleAnalytics(TIMELINE, 3n, START).soldOutAfterMs).to.equal(null);
+  });
+
+  it("should track sell-through and grabs per minute from the first block", () => {
+    const analytics = getSaleAnalytics(TIMELINE, 2n, START);
+
+    expect(analytics.sellThrough.map(point => point.sold)).to.deep.equal([0, 1, 1, 2, 2]);
+    expect(analytics.sellThrough.at(-1)!.offsetMs).to.equal(130_000);
+    expect(analytics.perMinute).to.deep.equal([
+      { attempts: 3, tickets: 1 },
+      { attempts: 1, tickets: 1 },
+      { attempts: 1, tickets: 0 },
+    ]);
+    expect(getSaleAnalytics(buildSaleTimeline([], []), 2n, START).perMinute).to.deep.equal([]);
+  });
+
+  it("should export one CSV row per attempt", () => {
+    const [header, ...rows] = toSaleCsv(TIMELINE).split("\n");
+
+    expect(header).to.equal("block,time,participant,result,ticketIds,transactionHash");
+    expect(rows).to.have.length(5);
+    expect(rows[1]).to.equal(`2,${new Date(Number(START) * 1000).toISOString()},${ALICE},Success,1,0x02`);
+  });
+});
@@ -0,0 +1,55 @@
+import { AttemptResult, getAttemptResultLabel } from "./ticket-engine";
+
+// Report written by packages/hardhat/scripts/loadTest.ts; bigints are serialized as strings
+
+export type LoadTestOutcome = keyof typeof AttemptResult | "Reverted";
+
+export interface LoadTestAttempt {
+  account: string;
+  wave: number;
+  sentAtMs: number; // since the first wave
+  confirmedAtMs: number;
+  latencyMs: number;
+  blockNumber: number;
+  outcome: LoadTestOutcome;
+  gasUsed: string;
+  gasCost: string; // wei
+  ticketIds: string[];
+}
+
+export interface LoadTestSummary {
+  attempts: number;
+  durationMs: number;
+  throughputTps: number; // confirmed attempts per second
+  blocks: number;
+  latencyMs: { p50: number; p90: number; p99: number; max: number };
+  outcomes: Partial<Record<LoadTestOutcome, number>>;
+  gasPerOutcome: Partial<Record<LoadTestOutcome, { avgGasUsed: string; totalGasCost: string }>>;
+  soldOutAtMs: number | null;
+}
+
+export interface LoadTestReport {
+  version: 1;
+  chainId: number;
+  contract: string;
+  eventId: string;
+  generatedAt: string;
+  config: {
+    accounts: number;
+    tickets: number;
+    waves: number;
+    waveIntervalMs: number;
+    quantity: number;
+    price: string; // wei
+  };
+  summary: LoadTestSummary;
+  attempts: LoadTestAttempt[];
+}
+
+export const isLoadTestReport = (value: unknown): value is LoadTestReport => {
+  const report = value as LoadTestReport | null;
+  return report?.version === 1 && Array.isArray(report.attempts) && typeof report.summary === "object";
+};
+
+export const getLoadTestOutcomeLabel = (outcome: LoadTestOutcome): string =>
+  outcome === "Reverted" ? "交易回滚" : getAttemptResultLabel(AttemptResult[outcome]);
@@ -1,7 +1,10 @@
+import { formatEther } from "viem";
+
 export enum EventStatus {
   NotStarted = 0,
   InProgress = 1,
   SoldOut = 2,
+  Cancelled = 3,
 }
 
 export enum AttemptResult {
@@ -9,6 +12,12 @@ export enum AttemptResult {
   AlreadyOwnsTicket = 1,
   SoldOut = 2,
   NotStarted = 3,
+  NotAllowlisted = 4,
+}
+
+export enum AllocationMode {
+  FirstCome = 0,
+  Raffle = 1,
 }
 
 export interface TicketEvent {
@@ -19,6 +28,42 @@ export interface TicketEvent {
   remainingTickets: bigint;
   organizer: string;
   status: EventStatus;
+  mode: AllocationMode;
+  maxPerAddress: bigint;
+  tiers: TicketTier[];
+}
+
+export interface TicketTier {
+  id: number; // index within the event, passed to grabTicket
+  name: string;
+  supply: bigint;
+  remaining: bigint;
+  price: bigint; // wei per ticket, 0 for free tiers
+}
+
+export interface RaffleInfo {
+  registrationEnd: bigint;
+  revealDeadline: bigint;
+  seedCommitment: `0x${string}`;
+  revealed: boolean;
+  entrantCount: bigint;
+  winnerCount: bigint;
+}
+
+export interface PresaleInfo {
+  merkleRoot: `0x${string}`;
+  startTime: bigint;
+}
+
+export interface WaitlistOffer {
+  tierId: number;
+  expiresAt: bigint;
+}
+
+export interface WaitlistEntry {
+  eventId: bigint;
+  position: bigint; // 1-based, 0 once a ticket has been offered
+  offer: WaitlistOffer | null;
 }
 
 export interface Ticket {
@@ -35,6 +80,16 @@ export interface Attempt {
   result: AttemptResult;
 }
 
+export type RafflePhase = "upcoming" | "registration" | "awaitingReveal" | "drawn" | "expired";
+
+export const getRafflePhase = (raffle: RaffleInfo, startTime: bigint, now: bigint): RafflePhase => {
+  if (raffle.revealed) return "drawn";
+  if (now < startTime) return "upcoming";
+  if (now < raffle.registrationEnd) return "registration";
+  if (now <= raffle.revealDeadline) return "awaitingReveal";
+  return "expired";
+};
+
 export const getStatusLabel = (status: EventStatus): string => {
   switch (status) {
     case EventStatus.NotStarted:
@@ -43,6 +98,8 @@ export const getStatusLabel = (status: EventStatus): string => {
       return "进行中";
     case EventStatus.SoldOut:
       return "已售罄";
+    case EventStatus.Cancelled:
+      return "已取消";
     default:
       return "未知";
   }
@@ -56,11 +113,40 @@ export const getStatusColor = (status: EventStatus): string => {
       return "badge-success";
     case EventStatus.SoldOut:
       return "badge-error";
+    case EventStatus.Cancelled:
+      return "badge-ghost";
     default:
       return "badge-neutral";
   }
 };
 
+export const getAllocationModeLabel = (mode: AllocationMode): string => {
+  switch (mode) {
+    case AllocationMode.FirstCome:
+      return "先到先得";
+    case AllocationMode.Raffle:
+      return "抽签";
+    default:
+      return "未知";
+  }
+};
+
+export const formatTicketPrice = (price: bigint): string => {
+  return price === 0n ? "免费" : `${formatEther(price)} MON`;
+};
+
+/**
+ * Summarises tier prices for an event, e.g. "免费", "0.1 MON" or "0.1 - 0.5 MON"
+ */
+export const formatPriceRange = (tiers: TicketTier[]): string => {
+  if (tiers.length === 0) return formatTicketPrice(0n);
+  const prices = tiers.map(tier => tier.price);
+  const min = prices.reduce((a, b) => (b < a ? b : a));
+  const max = prices.reduce((a, b) => (b > a ? b : a));
+  if (min === max) return formatTicketPrice(min);
+  return min === 0n ? `免费 - ${formatEther(max)} MON` : `${formatEther(min)} - ${formatEther(max)} MON`;
+};
+
 export const getAttemptResultLabel = (result: AttemptResult): string => {
   switch (result) {
     case AttemptResult.Success:
@@ -71,6 +157,8 @@ export const getAttemptResultLabel = (result: AttemptResult): string => {
       return "已售罄";
     case AttemptResult.NotStarted:
       return "活动未开始";
+    case AttemptResult.NotAllowlisted:
+      return "不在白名单";
     default:
       return "未知";
   }
@@ -1,14 +1,24 @@
+import { AttemptResult } from "./ticket-engine";
+
+// "preflight" records are simulated grabs (eth_call), kept apart from on-chain attempts in stats
+export type TransactionType = "grab" | "create" | "preflight";
+
 export interface TransactionRecord {
-  hash: string;
-  type: "grab" | "create";
+  hash: string; // preflight records use a local id, they have no transaction
+  type: TransactionType;
   eventId?: string;
   eventTitle?: string;
   userAddress?: string; // wallet address
   success: boolean;
-  confirmTime: number; // milliseconds
+  result?: AttemptResult; // decoded from AttemptRecorded for grabs, predicted for preflights
+  revertReason?: string; // preflight only, when the simulated call reverted
+  sent?: boolean; // preflight only, whether the grab transaction was sent after it
+  ticketIds?: string[]; // bigints as strings, successful grab only
+  confirmTime: number; // milliseconds, simulation time for preflights
   gasUsed: string; // bigint as string
   gasPrice: string; // bigint as string
   gasCost: string; // wei as string
+  amountPaid?: string; // ticket payment in wei as string, excluding gas
   timestamp: number;
 }
 
@@ -18,6 +28,7 @@ export interface TransactionStats {
   failCount: number;
   averageConfirmTime: number;
   totalGasCost: string; // wei as string
+  totalAmountPaid: string; // wei as string
 }
 
 export const STORAGE_KEY = "monad-tx-history";
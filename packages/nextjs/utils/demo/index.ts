@@ -0,0 +1,5 @@
+export * from "./random";
+export * from "./simulation";
+export * from "./scenarios";
+export * from "./report";
+export * from "./replay";
@@ -0,0 +1,25 @@
+export type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1). The same seed always yields the same sequence.
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample via Box-Muller
+export const randomNormal = (random: Random): number => {
+  const u = 1 - random(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Uniform in [center - spread, center + spread]
+export const randomAround = (random: Random, center: number, spread: number): number =>
+  center + (random() - 0.5) * 2 * spread;
@@ -0,0 +1,144 @@
+import { AttemptResult } from "../../types/ticket-engine";
+
+/**
+ * Timeline of a real sale rebuilt from TicketEngine logs, for replaying it on /demo.
+ * Chain time only has block (second) resolution, so the timeline is a list of blocks and every
+ * playback position maps to the number of blocks revealed so far.
+ */
+
+// Playback either follows chain time or steps through blocks one at a time
+export type ReplayMode = "time" | "block";
+
+export interface RecordedAttempt {
+  participant: string;
+  result: AttemptResult;
+  timestamp: bigint; // block timestamp, from the log
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface RecordedGrab {
+  ticketId: bigint;
+  participant: string;
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface ReplayEntry {
+  blockNumber: bigint;
+  participant: string;
+  result: AttemptResult;
+  ticketIds: bigint[];
+  transactionHash: string;
+}
+
+export interface ReplayBlock {
+  blockNumber: bigint;
+  timestamp: bigint;
+  offsetMs: number; // since the first block of the sale
+  entries: ReplayEntry[]; // in log order
+}
+
+export interface SaleTimeline {
+  blocks: ReplayBlock[];
+  durationMs: number;
+  totalAttempts: number;
+}
+
+export interface ReplayWinner {
+  participant: string;
+  ticketId: bigint;
+  blockNumber: bigint;
+}
+
+export interface ReplayFrame {
+  blockCount: number;
+  block?: ReplayBlock; // the last revealed block
+  elapsedMs: number;
+  entries: ReplayEntry[]; // revealed so far, oldest first
+  winners: ReplayWinner[];
+  processedAttempts: number;
+  uniqueParticipants: number;
+  ticketsSold: number;
+  tps: number; // attempts in the last revealed second of chain time
+}
+
+/**
+ * Groups the attempts into blocks and attaches the tickets issued in their transaction.
+ * Every issue (grabTicket, raffle and waitlist claims) records an attempt, so no grab is left over.
+ */
+export const buildSaleTimeline = (attempts: RecordedAttempt[], grabs: RecordedGrab[]): SaleTimeline => {
+  const byLogOrder = <T extends { blockNumber: bigint; logIndex: number }>(a: T, b: T) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+
+  const grabsByTransaction = new Map<string, RecordedGrab[]>();
+  for (const grab of [...grabs].sort(byLogOrder)) {
+    grabsByTransaction.set(grab.transactionHash, [...(grabsByTransaction.get(grab.transactionHash) ?? []), grab]);
+  }
+
+  const blocks: ReplayBlock[] = [];
+  for (const attempt of [...attempts].sort(byLogOrder)) {
+    let block = blocks.at(-1);
+    if (block?.blockNumber !== attempt.blockNumber) {
+      block = { blockNumber: attempt.blockNumber, timestamp: attempt.timestamp, offsetMs: 0, entries: [] };
+      blocks.push(block);
+    }
+    block.entries.push({
+      blockNumber: attempt.blockNumber,
+      participant: attempt.participant,
+      result: attempt.result,
+      ticketIds: (grabsByTransaction.get(attempt.transactionHash) ?? []).map(grab => grab.ticketId),
+      transactionHash: attempt.transactionHash,
+    });
+  }
+
+  const start = blocks[0]?.timestamp ?? 0n;
+  for (const block of blocks) block.offsetMs = Number(block.timestamp - start) * 1000;
+
+  return {
+    blocks,
+    durationMs: blocks.at(-1)?.offsetMs ?? 0,
+    totalAttempts: attempts.length,
+  };
+};
+
+// Number of blocks revealed at a playback position
+export const countBlocksAt = (timeline: SaleTimeline, positionMs: number): number => {
+  let count = 0;
+  while (count < timeline.blocks.length && timeline.blocks[count].offsetMs <= positionMs) count++;
+  return count;
+};
+
+export const getReplayFrame = (timeline: SaleTimeline, blockCount: number): ReplayFrame => {
+  const revealed = timeline.blocks.slice(0, Math.max(0, Math.min(blockCount, timeline.blocks.length)));
+  const block = revealed.at(-1);
+  const entries = revealed.flatMap(b => b.entries);
+  const winners = entries.flatMap(entry =>
+    entry.ticketIds.map(ticketId => ({ participant: entry.participant, ticketId, blockNumber: entry.blockNumber })),
+  );
+
+  return {
+    blockCount: revealed.length,
+    block,
+    elapsedMs: block?.offsetMs ?? 0,
+    entries,
+    winners,
+    processedAttempts: entries.length,
+    uniqueParticipants: new Set(entries.map(entry => entry.participant.toLowerCase())).size,
+    ticketsSold: winners.length,
+    tps: block
+      ? revealed.filter(b => b.timestamp === block.timestamp).reduce((sum, b) => sum + b.entries.length, 0)
+      : 0,
+  };
+};
+
+// Attempts per second of chain time, for the TPS chart
+export const getTpsSeries = (timeline: SaleTimeline): number[] => {
+  const series = Array.from({ length: Math.floor(timeline.durationMs / 1000) + 1 }, () => 0);
+  for (const block of timeline.blocks) {
+    series[block.offsetMs / 1000] += block.entries.length;
+  }
+  return series;
+};
@@ -0,0 +1,43 @@
+import { ClassStats, SimulationConfig, getTotalUsers } from "./simulation";
+
+export interface ClassCaptureRow {
+  id: string;
+  label: string;
+  users: number;
+  userShare: number; // of all users, 0-1
+  attempts: number;
+  tickets: number;
+  ticketShare: number; // of all tickets sold, 0-1
+  captureRatio: number; // ticketShare / userShare: 1 is proportional, above 1 is over-represented
+  avgConfirmTime: number; // ms
+  gasCost: bigint; // wei, spent by the class on every attempt
+}
+
+/**
+ * Per-class capture report: how many tickets each class took compared with its share of the crowd
+ */
+export const getClassCaptureReport = (
+  config: SimulationConfig,
+  classes: Record<string, ClassStats>,
+): ClassCaptureRow[] => {
+  const totalUsers = getTotalUsers(config);
+  const ticketsSold = Object.values(classes).reduce((sum, stats) => sum + stats.tickets, 0);
+
+  return config.classes.map(participantClass => {
+    const stats = classes[participantClass.id];
+    const userShare = totalUsers > 0 ? participantClass.users / totalUsers : 0;
+    const ticketShare = stats && ticketsSold > 0 ? stats.tickets / ticketsSold : 0;
+    return {
+      id: participantClass.id,
+      label: participantClass.label,
+      users: participantClass.users,
+      userShare,
+      attempts: stats?.attempts ?? 0,
+      tickets: stats?.tickets ?? 0,
+      ticketShare,
+      captureRatio: userShare > 0 ? ticketShare / userShare : 0,
+      avgConfirmTime: stats && stats.attempts > 0 ? Math.round(stats.totalConfirmTime / stats.attempts) : 0,
+      gasCost: stats?.gasCost ?? 0n,
+    };
+  });
+};
@@ -0,0 +1,71 @@
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig } from "./simulation";
+
+export interface SimulationPreset {
+  id: string;
+  label: string;
+  description: string;
+  config: SimulationConfig;
+}
+
+export const SIMULATION_PRESETS: SimulationPreset[] = [
+  {
+    id: "flash-crowd",
+    label: "瞬时涌入",
+    description: "一万名普通用户在开售后一秒内同时提交，抢 100 张票",
+    config: DEFAULT_SIMULATION_CONFIG,
+  },
+  {
+    id: "slow-trickle",
+    label: "缓慢涌入",
+    description: "两千名用户在 20 秒内陆续到达，部分用户失败后会退避重试",
+    config: {
+      ...DEFAULT_SIMULATION_CONFIG,
+      tickets: 300,
+      classes: [
+        {
+          id: "casual",
+          label: "随缘用户",
+          users: 1500,
+          arrivalSpreadMs: 20000,
+          latency: { kind: "uniform", meanMs: 500, spreadMs: 300 },
+          retry: { kind: "none" },
+        },
+        {
+          id: "persistent",
+          label: "执着用户",
+          users: 500,
+          arrivalSpreadMs: 20000,
+          latency: { kind: "uniform", meanMs: 500, spreadMs: 300 },
+          retry: { kind: "backoff", maxRetries: 3, baseDelayMs: 1000 },
+        },
+      ],
+    },
+  },
+  {
+    id: "bot-swarm",
+    label: "机器人围攻",
+    description: "少量脚本在开售瞬间以低延迟提交并不断重试，链上容量成为瓶颈",
+    config: {
+      ...DEFAULT_SIMULATION_CONFIG,
+      tps: 2000,
+      classes: [
+        {
+          id: "fans",
+          label: "普通用户",
+          users: 5000,
+          arrivalSpreadMs: 2000,
+          latency: { kind: "uniform", meanMs: 400, spreadMs: 200 },
+          retry: { kind: "none" },
+        },
+        {
+          id: "bots",
+          label: "抢票脚本",
+          users: 300,
+          arrivalSpreadMs: 20,
+          latency: { kind: "normal", meanMs: 80, stdDevMs: 20 },
+          retry: { kind: "immediate", maxRetries: 10 },
+        },
+      ],
+    },
+  },
+];
@@ -0,0 +1,263 @@
+import { Random, createRandom, randomAround, randomNormal } from "./random";
+
+/**
+ * Deterministic flash-sale simulator behind /demo. Time is virtual: the sale advances one tick per
+ * frame, so a run depends only on its config and two runs with the same seed are identical.
+ */
+
+export type LatencyDistribution =
+  | { kind: "uniform"; meanMs: number; spreadMs: number }
+  | { kind: "normal"; meanMs: number; stdDevMs: number };
+
+export type SuccessModel =
+  // Tickets go to attempts in the order they land, like TicketEngine's first-come allocation
+  | { kind: "firstCome" }
+  // Each landing attempt wins with a fixed probability while tickets remain
+  | { kind: "lottery"; probability: number };
+
+export type RetryStrategy =
+  | { kind: "none" }
+  // Resends as soon as a failed attempt lands
+  | { kind: "immediate"; maxRetries: number }
+  // Waits baseDelayMs before the first resend, doubling after each failure
+  | { kind: "backoff"; maxRetries: number; baseDelayMs: number };
+
+export interface ParticipantClass {
+  id: string;
+  label: string;
+  users: number;
+  arrivalSpreadMs: number; // users send their first attempt uniformly within this window after the sale opens
+  latency: LatencyDistribution; // from sending an attempt to it reaching the chain
+  retry: RetryStrategy;
+}
+
+export interface SimulationConfig {
+  seed: number;
+  tickets: number;
+  tps: number; // attempts the chain includes per second, the rest wait in line
+  tickMs: number;
+  gasCost: { mean: bigint; spread: bigint }; // wei per attempt, uniform around the mean
+  success: SuccessModel;
+  classes: ParticipantClass[];
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  seed: 1,
+  tickets: 100,
+  tps: 10000,
+  tickMs: 50,
+  gasCost: { mean: 42000000000000n, spread: 10000000000000n },
+  success: { kind: "firstCome" },
+  classes: [
+    {
+      id: "fans",
+      label: "普通用户",
+      users: 10000,
+      arrivalSpreadMs: 1000,
+      latency: { kind: "uniform", meanMs: 400, spreadMs: 200 },
+      retry: { kind: "none" },
+    },
+  ],
+};
+
+export interface SimulatedParticipant {
+  id: number; // user id, shared by all attempts of one user
+  classId: string;
+  attempt: number; // 1 for the first send, then counts retries
+  address: string;
+  submittedAtMs: number;
+  confirmedAtMs: number;
+  confirmTime: number; // ms from sending to being included
+  success: boolean;
+  gasCost: bigint;
+  ticketNumber?: number;
+}
+
+export interface ClassStats {
+  users: number;
+  finishedUsers: number; // won, or gave up after the last retry
+  attempts: number;
+  tickets: number;
+  gasCost: bigint;
+  totalConfirmTime: number;
+}
+
+export interface SimulationFrame {
+  elapsedMs: number;
+  confirmed: SimulatedParticipant[]; // included during this tick, in inclusion order
+  processedAttempts: number;
+  processedUsers: number; // users who are done, see ClassStats.finishedUsers
+  remainingTickets: number;
+  tps: number; // inclusions during the last second
+  classes: Record<string, ClassStats>; // cumulative, keyed by class id
+  done: boolean;
+}
+
+type PendingAttempt = {
+  id: number;
+  classIndex: number;
+  attempt: number;
+  submittedAtMs: number;
+  reachedAtMs: number;
+  order: number; // random tie-breaker, so attempts reaching the chain together are not ordered by class
+};
+
+const MIN_LATENCY_MS = 1;
+
+// Fake but stable wallet address per user
+export const simulatedAddress = (userId: number): string => {
+  const chars = "0123456789abcdef";
+  let addr = "0x";
+  let hash = userId + 1000;
+  for (let i = 0; i < 40; i++) {
+    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
+    addr += chars[hash % 16];
+  }
+  return addr;
+};
+
+export const getTotalUsers = (config: SimulationConfig) => config.classes.reduce((sum, c) => sum + c.users, 0);
+
+const sampleLatency = (random: Random, latency: LatencyDistribution): number => {
+  const sample =
+    latency.kind === "uniform"
+      ? randomAround(random, latency.meanMs, latency.spreadMs)
+      : latency.meanMs + randomNormal(random) * latency.stdDevMs;
+  return Math.max(MIN_LATENCY_MS, Math.round(sample));
+};
+
+const sampleGasCost = (random: Random, gasCost: SimulationConfig["gasCost"]): bigint =>
+  gasCost.mean + BigInt(Math.round(randomAround(random, 0, Number(gasCost.spread))));
+
+// Delay before resending after `failures` failed attempts, null once the user gives up
+const getRetryDelay = (retry: RetryStrategy, failures: number): number | null => {
+  if (retry.kind === "none" || failures > retry.maxRetries) return null;
+  return retry.kind === "immediate" ? 0 : retry.baseDelayMs * 2 ** (failures - 1);
+};
+
+const byArrival = (a: PendingAttempt, b: PendingAttempt) => a.reachedAtMs - b.reachedAtMs || a.order - b.order;
+
+/**
+ * Runs a sale tick by tick, yielding one frame per tick until every user has won or given up.
+ * Each user sends a first attempt within their class's arrival window; attempts reach the chain after
+ * the class's latency and are included in arrival order, at most `tps` per second, then resolved
+ * against the remaining tickets. Failed attempts are resent according to the class's retry strategy.
+ */
+export function* runSimulation(config: SimulationConfig): Generator<SimulationFrame, void> {
+  const random = createRandom(config.seed);
+  const inclusionsPerTick = Math.max(1, Math.round((config.tps * config.tickMs) / 1000));
+  const ticksPerSecond = Math.max(1, Math.round(1000 / config.tickMs));
+
+  const classes: Record<string, ClassStats> = {};
+  let pending: PendingAttempt[] = [];
+  let nextUserId = 0;
+  config.classes.forEach((participantClass, classIndex) => {
+    classes[participantClass.id] = {
+      users: participantClass.users,
+      finishedUsers: 0,
+      attempts: 0,
+      tickets: 0,
+      gasCost: 0n,
+      totalConfirmTime: 0,
+    };
+    for (let i = 0; i < participantClass.users; i++) {
+      const submittedAtMs = Math.floor(random() * participantClass.arrivalSpreadMs);
+      pending.push({
+        id: nextUserId++,
+        classIndex,
+        attempt: 1,
+        submittedAtMs,
+        reachedAtMs: submittedAtMs + sampleLatency(random, participantClass.latency),
+        order: random(),
+      });
+    }
+  });
+  pending.sort(byArrival);
+
+  const totalUsers = nextUserId;
+  let processedAttempts = 0;
+  let processedUsers = 0;
+  let remainingTickets = config.tickets;
+  let nextTicketNumber = 1;
+  const tpsWindow: number[] = [];
+
+  for (let tick = 1; ; tick++) {
+    const tickStartMs = (tick - 1) * config.tickMs;
+    const elapsedMs = tick * config.tickMs;
+
+    // Attempts that reached the chain by the end of this tick, oldest first, up to the block capacity
+    let included = 0;
+    while (included < pending.length && included < inclusionsPerTick && pending[included].reachedAtMs <= elapsedMs) {
+      included++;
+    }
+    const landing = pending.slice(0, included);
+    pending = pending.slice(included);
+
+    const retries: PendingAttempt[] = [];
+    const confirmed = landing.map((attempt): SimulatedParticipant => {
+      const participantClass = config.classes[attempt.classIndex];
+      const stats = classes[participantClass.id];
+      const confirmedAtMs = Math.max(attempt.reachedAtMs, tickStartMs);
+      const wins =
+        remainingTickets > 0 && (config.success.kind === "firstCome" || random() < config.success.probability);
+
+      const participant: SimulatedParticipant = {
+        id: attempt.id,
+        classId: participantClass.id,
+        attempt: attempt.attempt,
+        address: simulatedAddress(attempt.id),
+        submittedAtMs: attempt.submittedAtMs,
+        confirmedAtMs,
+        confirmTime: confirmedAtMs - attempt.submittedAtMs,
+        success: wins,
+        gasCost: sampleGasCost(random, config.gasCost),
+      };
+      stats.attempts++;
+      stats.gasCost += participant.gasCost;
+      stats.totalConfirmTime += participant.confirmTime;
+
+      if (wins) {
+        remainingTickets--;
+        participant.ticketNumber = nextTicketNumber++;
+        stats.tickets++;
+        stats.finishedUsers++;
+        return participant;
+      }
+
+      const delay = getRetryDelay(participantClass.retry, attempt.attempt);
+      if (delay === null) {
+        stats.finishedUsers++;
+      } else {
+        const submittedAtMs = confirmedAtMs + delay;
+        retries.push({
+          ...attempt,
+          attempt: attempt.attempt + 1,
+          submittedAtMs,
+          reachedAtMs: submittedAtMs + sampleLatency(random, participantClass.latency),
+          order: random(),
+        });
+      }
+      return participant;
+    });
+
+    if (retries.length > 0) pending = [...pending, ...retries].sort(byArrival);
+    processedAttempts += confirmed.length;
+    processedUsers = Object.values(classes).reduce((sum, stats) => sum + stats.finishedUsers, 0);
+
+    tpsWindow.push(confirmed.length);
+    if (tpsWindow.length > ticksPerSecond) tpsWindow.shift();
+
+    const done = processedUsers >= totalUsers;
+    yield {
+      elapsedMs,
+      confirmed,
+      processedAttempts,
+      processedUsers,
+      remainingTickets,
+      tps: tpsWindow.reduce((sum, count) => sum + count, 0),
+      classes: Object.fromEntries(Object.entries(classes).map(([id, stats]) => [id, { ...stats }])),
+      done,
+    };
+    if (done) return;
+  }
+}
@@ -0,0 +1,52 @@
+import { Address, TransactionReceipt, isAddressEqual, parseEventLogs } from "viem";
+import { AttemptResult } from "~~/types/ticket-engine";
+import { ContractAbi } from "~~/utils/scaffold-eth/contract";
+
+export type DecodedGrabReceipt = {
+  success: boolean;
+  result: AttemptResult;
+  ticketIds: bigint[];
+  remainingTickets?: bigint;
+};
+
+/**
+ * Reads the real outcome of a grabTicket transaction from its logs.
+ * grabTicket records failed attempts without reverting, so the receipt status alone
+ * cannot tell a win from a SoldOut / NotStarted / AlreadyOwnsTicket attempt.
+ * Returns null when the receipt carries no AttemptRecorded log for the participant (e.g. reverted tx).
+ */
+export const decodeGrabReceipt = (
+  receipt: TransactionReceipt,
+  abi: ContractAbi<"TicketEngine">,
+  participant: Address,
+): DecodedGrabReceipt | null => {
+  if (receipt.status !== "success") return null;
+
+  const logs = parseEventLogs({
+    abi,
+    logs: receipt.logs,
+    eventName: ["AttemptRecorded", "TicketGrabbed"],
+  });
+
+  const attempt = logs.find(
+    log => log.eventName === "AttemptRecorded" && isAddressEqual(log.args.participant, participant),
+  );
+  if (!attempt || attempt.eventName !== "AttemptRecorded") return null;
+
+  const result = attempt.args.result as AttemptResult;
+  if (result !== AttemptResult.Success) {
+    return { success: false, result, ticketIds: [] };
+  }
+
+  // One TicketGrabbed log per ticket granted in this grab
+  const grabbed = logs.flatMap(log =>
+    log.eventName === "TicketGrabbed" && isAddressEqual(log.args.participant, participant) ? [log.args] : [],
+  );
+
+  return {
+    success: true,
+    result,
+    ticketIds: grabbed.map(args => args.ticketId),
+    remainingTickets: grabbed.at(-1)?.remainingTickets,
+  };
+};
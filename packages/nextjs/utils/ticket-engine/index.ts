@@ -0,0 +1,7 @@
+export * from "./decodeGrabReceipt";
+export * from "./raffleSeed";
+export * from "./validateEventForm";
+export * from "./parseTicketPayload";
+export * from "./ticketPass";
+export * from "./simulateGrab";
+export * from "./saleAnalytics";
@@ -0,0 +1,44 @@
+export type TicketPayload = {
+  ticketId: bigint;
+  eventId?: bigint;
+};
+
+const toId = (value: unknown): bigint | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const text = String(value).trim().replace(/^#/, "");
+  return /^\d+$/.test(text) && BigInt(text) > 0n ? BigInt(text) : undefined;
+};
+
+/**
+ * Reads a ticket reference from what the door scanner produced. Accepted forms:
+ * - a bare ticket id, optionally prefixed with "#"
+ * - JSON with a `ticketId` and optional `eventId`
+ * - a URL with `ticket` / `ticketId` and optional `event` / `eventId` query parameters
+ * @returns The referenced ticket, or null when the payload is not recognised
+ */
+export const parseTicketPayload = (payload: string): TicketPayload | null => {
+  const text = payload.trim();
+  if (!text) return null;
+
+  const bareId = toId(text);
+  if (bareId !== undefined) return { ticketId: bareId };
+
+  if (text.startsWith("{")) {
+    try {
+      const json = JSON.parse(text);
+      const ticketId = toId(json.ticketId);
+      return ticketId !== undefined ? { ticketId, eventId: toId(json.eventId) } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  try {
+    const url = new URL(text);
+    const ticketId = toId(url.searchParams.get("ticketId") ?? url.searchParams.get("ticket"));
+    const eventId = toId(url.searchParams.get("eventId") ?? url.searchParams.get("event"));
+    return ticketId !== undefined ? { ticketId, eventId } : null;
+  } catch {
+    return null;
+  }
+};
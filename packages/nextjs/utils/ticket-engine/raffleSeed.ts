@@ -0,0 +1,28 @@
+import { Hex, keccak256, toHex } from "viem";
+
+const SEED_STORAGE_PREFIX = "raffle-seed-";
+
+/**
+ * Generates a fresh organizer seed and its commitment (keccak256 of the seed),
+ * matching the check in TicketEngine.revealRaffleSeed.
+ */
+export const generateRaffleSeed = (): { seed: Hex; commitment: Hex } => {
+  const seed = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  return { seed, commitment: keccak256(seed) };
+};
+
+// Seeds are keyed by commitment since the eventId is only known after the create tx is mined
+export const saveRaffleSeed = (commitment: Hex, seed: Hex) => {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(`${SEED_STORAGE_PREFIX}${commitment.toLowerCase()}`, seed);
+  } catch {
+    console.error("Failed to save raffle seed to localStorage");
+  }
+};
+
+export const loadRaffleSeed = (commitment: Hex): Hex | null => {
+  if (typeof window === "undefined") return null;
+  const stored = localStorage.getItem(`${SEED_STORAGE_PREFIX}${commitment.toLowerCase()}`);
+  return stored ? (stored as Hex) : null;
+};
@@ -0,0 +1,87 @@
+import { AttemptResult } from "../../types/ticket-engine";
+import { SaleTimeline } from "../demo/replay";
+
+export interface SellThroughPoint {
+  offsetMs: number; // since the first block of the sale
+  sold: number; // tickets issued up to and including this block
+}
+
+export interface MinuteBucket {
+  attempts: number;
+  tickets: number;
+}
+
+export interface SaleAnalytics {
+  attempts: number;
+  outcomes: { result: AttemptResult; count: number }[]; // every result, in enum order
+  uniqueParticipants: number;
+  ticketsSold: number;
+  sellThrough: SellThroughPoint[];
+  soldOutAfterMs: number | null; // since the event's start time, null while tickets remain
+  perMinute: MinuteBucket[]; // from the first block of the sale
+}
+
+const ATTEMPT_RESULTS = Object.values(AttemptResult).filter(
+  (value): value is AttemptResult => typeof value === "number",
+);
+
+/**
+ * Organizer statistics of one event, derived from its sale timeline (see buildSaleTimeline).
+ * Tickets count every ticket issued to an attempt; returned tickets are not subtracted,
+ * which makes `soldOutAfterMs` the moment the supply first ran out.
+ */
+export const getSaleAnalytics = (timeline: SaleTimeline, totalTickets: bigint, startTime: bigint): SaleAnalytics => {
+  const counts = new Map<AttemptResult, number>(ATTEMPT_RESULTS.map(result => [result, 0]));
+  const participants = new Set<string>();
+  const sellThrough: SellThroughPoint[] = [];
+  const perMinute: MinuteBucket[] = Array.from({ length: Math.floor(timeline.durationMs / 60_000) + 1 }, () => ({
+    attempts: 0,
+    tickets: 0,
+  }));
+  let sold = 0;
+  let soldOutAfterMs: number | null = null;
+
+  for (const block of timeline.blocks) {
+    const minute = perMinute[Math.floor(block.offsetMs / 60_000)];
+    for (const entry of block.entries) {
+      participants.add(entry.participant.toLowerCase());
+      minute.tickets += entry.ticketIds.length;
+      sold += entry.ticketIds.length;
+      minute.attempts++;
+      counts.set(entry.result, (counts.get(entry.result) ?? 0) + 1);
+    }
+    sellThrough.push({ offsetMs: block.offsetMs, sold });
+    if (soldOutAfterMs === null && totalTickets > 0n && BigInt(sold) >= totalTickets) {
+      soldOutAfterMs = Math.max(0, Number(block.timestamp - startTime) * 1000);
+    }
+  }
+
+  return {
+    attempts: timeline.totalAttempts,
+    outcomes: ATTEMPT_RESULTS.map(result => ({ result, count: counts.get(result) ?? 0 })),
+    uniqueParticipants: participants.size,
+    ticketsSold: sold,
+    sellThrough,
+    soldOutAfterMs,
+    perMinute: timeline.blocks.length > 0 ? perMinute : [],
+  };
+};
+
+/**
+ * One CSV row per recorded attempt, in chain order
+ */
+export const toSaleCsv = (timeline: SaleTimeline): string => {
+  const rows = timeline.blocks.flatMap(block =>
+    block.entries.map(entry =>
+      [
+        block.blockNumber,
+        new Date(Number(block.timestamp) * 1000).toISOString(),
+        entry.participant,
+        AttemptResult[entry.result],
+        entry.ticketIds.join(" "),
+        entry.transactionHash,
+      ].join(","),
+    ),
+  );
+  return ["block,time,participant,result,ticketIds,transactionHash", ...rows].join("\n");
+};
@@ -0,0 +1,47 @@
+import { Address, BaseError, ContractFunctionRevertedError, PublicClient } from "viem";
+import { AttemptResult } from "~~/types/ticket-engine";
+import { ContractAbi } from "~~/utils/scaffold-eth/contract";
+
+export type GrabPreflight = {
+  // Predicted outcome, undefined when the call would revert
+  result?: AttemptResult;
+  ticketIds: bigint[];
+  revertReason?: string;
+  durationMs: number;
+};
+
+/**
+ * Runs grabTicket as an eth_call to predict its outcome before paying gas for it.
+ * Failed attempts return an AttemptResult instead of reverting, so the prediction is read from the return value.
+ * The call runs against the latest block; the real transaction lands in a later one, so the prediction can be stale.
+ */
+export const simulateGrab = async (
+  publicClient: PublicClient,
+  contract: { address: Address; abi: ContractAbi<"TicketEngine"> },
+  account: Address,
+  args: readonly [bigint, bigint, bigint, readonly `0x${string}`[]],
+  value: bigint,
+): Promise<GrabPreflight> => {
+  const startedAt = Date.now();
+  try {
+    const { result } = await publicClient.simulateContract({
+      address: contract.address,
+      abi: contract.abi,
+      functionName: "grabTicket",
+      args,
+      value,
+      account,
+    });
+    const [, attemptResult, ticketIds] = result;
+    return { result: attemptResult as AttemptResult, ticketIds: [...ticketIds], durationMs: Date.now() - startedAt };
+  } catch (error) {
+    const reverted = error instanceof BaseError ? error.walk(e => e instanceof ContractFunctionRevertedError) : null;
+    const revertReason =
+      reverted instanceof ContractFunctionRevertedError
+        ? (reverted.reason ?? reverted.shortMessage)
+        : error instanceof BaseError
+          ? error.shortMessage
+          : String(error);
+    return { ticketIds: [], revertReason, durationMs: Date.now() - startedAt };
+  }
+};
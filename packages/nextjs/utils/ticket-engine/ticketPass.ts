@@ -0,0 +1,57 @@
+import { Hex, getAddress, toHex } from "viem";
+
+/**
+ * Ticket passes shown as QR codes at the door. The holder signs a short-lived message naming the ticket;
+ * gates verify it offline with packages/hardhat/scripts/ticketPass.ts, which imports the format from here.
+ */
+
+export type TicketPass = {
+  ticketId: string;
+  eventId: string;
+  nonce: Hex;
+  expiresAt: number; // unix seconds
+  signature: Hex;
+};
+
+export const PASS_VERSION = 1;
+// Gates reject passes living longer than 10 minutes, stay well inside that
+export const PASS_TTL_SECONDS = 5 * 60;
+
+export const createUnsignedPass = (ticketId: bigint, eventId: bigint): Omit<TicketPass, "signature"> => ({
+  ticketId: ticketId.toString(),
+  eventId: eventId.toString(),
+  nonce: toHex(crypto.getRandomValues(new Uint8Array(16))),
+  expiresAt: Math.floor(Date.now() / 1000) + PASS_TTL_SECONDS,
+});
+
+export const buildTicketPassMessage = (
+  chainId: number,
+  contract: string,
+  pass: Omit<TicketPass, "signature">,
+): string =>
+  [
+    `TicketEngine pass v${PASS_VERSION}`,
+    `chainId: ${chainId}`,
+    `contract: ${getAddress(contract)}`,
+    `eventId: ${pass.eventId}`,
+    `ticketId: ${pass.ticketId}`,
+    `nonce: ${pass.nonce}`,
+    `expiresAt: ${pass.expiresAt}`,
+  ].join("\n");
+
+export const encodeTicketPass = (pass: TicketPass): string => JSON.stringify({ v: PASS_VERSION, ...pass });
+
+export const decodeTicketPass = (payload: string): TicketPass | null => {
+  try {
+    const data = JSON.parse(payload);
+    if (data.v !== PASS_VERSION) return null;
+    const { ticketId, eventId, nonce, expiresAt, signature } = data;
+    const isId = (value: unknown) => typeof value === "string" && /^\d+$/.test(value);
+    const isHex = (value: unknown): value is Hex => typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value);
+    if (!isId(ticketId) || !isId(eventId) || !isHex(nonce) || !isHex(signature)) return null;
+    if (typeof expiresAt !== "number") return null;
+    return { ticketId, eventId, nonce, expiresAt, signature };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,104 @@
+import { parseEther } from "viem";
+import { AllocationMode } from "~~/types/ticket-engine";
+
+export type TierFormValues = {
+  name: string;
+  supply: string;
+  price: string;
+};
+
+export type EventFormValues = {
+  title: string;
+  startDateTime: string;
+  tiers: TierFormValues[];
+  maxPerAddress: string;
+  mode: AllocationMode;
+  registrationEndDateTime: string;
+};
+
+export type ValidatedTier = {
+  name: string;
+  supply: bigint;
+  price: bigint;
+};
+
+export type ValidatedEventForm = {
+  title: string;
+  startTime: bigint;
+  totalTickets: bigint;
+  maxPerAddress: bigint;
+  tiers: ValidatedTier[];
+  registrationEnd: bigint;
+};
+
+// Mirrors TicketEngine.MAX_TIERS
+export const MAX_TIERS = 10;
+
+/**
+ * Validates the create/edit event form with the same rules TicketEngine enforces on-chain,
+ * so mistakes are caught before the wallet prompt.
+ * @returns The parsed contract arguments, or a user-facing error message
+ */
+export const validateEventForm = (
+  values: EventFormValues,
+): { data: ValidatedEventForm; error?: undefined } | { data?: undefined; error: string } => {
+  const title = values.title.trim();
+  if (!title) return { error: "请输入活动标题" };
+
+  const startTime = Math.floor(new Date(values.startDateTime).getTime() / 1000);
+  if (!(startTime > Math.floor(Date.now() / 1000))) return { error: "开始时间必须在未来" };
+
+  if (values.tiers.length === 0) return { error: "请至少添加一个票档" };
+  if (values.tiers.length > MAX_TIERS) return { error: `最多 ${MAX_TIERS} 个票档` };
+  // Raffle events have a single tier
+  if (values.mode === AllocationMode.Raffle && values.tiers.length > 1) return { error: "抽签活动只能有一个票档" };
+
+  const tiers: ValidatedTier[] = [];
+  for (const tier of values.tiers) {
+    const name = tier.name.trim();
+    if (!name) return { error: "请输入票档名称" };
+
+    const supply = parseInt(tier.supply);
+    if (isNaN(supply) || supply <= 0) return { error: `请输入「${name}」的有效票数` };
+
+    let price: bigint;
+    try {
+      price = tier.price.trim() ? parseEther(tier.price.trim()) : 0n;
+    } catch {
+      return { error: `请输入「${name}」的有效票价` };
+    }
+    if (price < 0n) return { error: `请输入「${name}」的有效票价` };
+
+    tiers.push({ name, supply: BigInt(supply), price });
+  }
+  const tickets = tiers.reduce((sum, tier) => sum + Number(tier.supply), 0);
+
+  // Raffle winners always claim a single ticket
+  const limit = values.mode === AllocationMode.Raffle ? 1 : parseInt(values.maxPerAddress);
+  if (isNaN(limit) || limit <= 0 || limit > tickets) return { error: "每人限购数量需在 1 到总票数之间" };
+
+  const registrationEnd = Math.floor(new Date(values.registrationEndDateTime).getTime() / 1000);
+  if (values.mode === AllocationMode.Raffle && !(registrationEnd > startTime)) {
+    return { error: "报名截止时间必须晚于开始时间" };
+  }
+
+  return {
+    data: {
+      title,
+      startTime: BigInt(startTime),
+      totalTickets: BigInt(tickets),
+      maxPerAddress: BigInt(limit),
+      tiers,
+      registrationEnd: values.mode === AllocationMode.Raffle ? BigInt(registrationEnd) : 0n,
+    },
+  };
+};
+
+/**
+ * Formats a unix timestamp for a datetime-local input (local time, minute precision)
+ */
+export const toDateTimeLocal = (timestamp: bigint): string => {
+  const date = new Date(Number(timestamp) * 1000);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
@@ -0,0 +1,12 @@
+import { createPresenceServer } from "./server";
+
+/**
+ * Runs the presence server for offline development.
+ *
+ * Usage: yarn presence, then start the frontend with NEXT_PUBLIC_PRESENCE_TRANSPORT=websocket
+ */
+const port = Number(process.env.PORT || 42070);
+
+createPresenceServer({ port }).on("listening", () => {
+  console.log(`👥 Presence server listening on ws://localhost:${port}`);
+});
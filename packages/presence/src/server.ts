@@ -0,0 +1,117 @@
+import * as http from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import { PRESENCE_PROOF_TTL_SECONDS, isPresenceProof, verifyPresenceProof } from "../../nextjs/services/presence/auth";
+import { PRESENCE_HEARTBEAT_INTERVAL_MS } from "../../nextjs/services/presence/expiry";
+import type { ClientMessage, ServerMessage } from "../../nextjs/services/presence/protocol";
+import type { PresenceChange } from "../../nextjs/services/presence/types";
+import { PresenceStore } from "./store";
+
+export type PresenceServerOptions = { port: number } | { server: http.Server };
+
+type WriteMessage = Extract<ClientMessage, { proof: unknown }>;
+
+const isWrite = (message: ClientMessage): message is WriteMessage =>
+  ["upsert", "update", "heartbeat", "remove"].includes(message.type);
+
+/**
+ * WebSocket server backing the "websocket" presence transport of the frontend.
+ * State lives in memory, so restarting the server clears every list.
+ * Records that stop sending heartbeats are deleted on a sweep every heartbeat interval.
+ * Reads are open; every write must carry a presence proof (services/presence/auth.ts) signed by the wallet it
+ * changes, and a proof starts a grab only once, as in the presence API route.
+ */
+export function createPresenceServer(options: PresenceServerOptions, store = new PresenceStore()) {
+  const wss = new WebSocketServer(options);
+  const subscribers = new Map<string, Set<WebSocket>>();
+  // nonce -> proof timestamp of every accepted upsert, until the proof expires
+  const usedNonces = new Map<string, number>();
+
+  const send = (socket: WebSocket, message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const broadcast = (eventId: string, change: PresenceChange | null) => {
+    if (!change) return;
+    subscribers.get(eventId)?.forEach(socket => send(socket, { type: "change", eventId, change }));
+  };
+
+  /**
+   * @returns Why the write is rejected, or null when its proof is valid for the record it changes
+   */
+  const authorize = async (message: WriteMessage): Promise<string | null> => {
+    if (!isPresenceProof(message.proof)) return "Missing presence proof";
+    const [eventId, walletAddress] =
+      message.type === "upsert"
+        ? [message.participant.event_id, message.participant.wallet_address]
+        : [message.eventId, message.walletAddress];
+    if (message.proof.eventId !== eventId || message.proof.address.toLowerCase() !== walletAddress.toLowerCase()) {
+      return "Proof does not match the record";
+    }
+
+    const error = await verifyPresenceProof(message.proof);
+    if (error || message.type !== "upsert") return error;
+
+    const now = Math.floor(Date.now() / 1000);
+    for (const [nonce, timestamp] of usedNonces) {
+      if (now - timestamp > PRESENCE_PROOF_TTL_SECONDS) usedNonces.delete(nonce);
+    }
+    if (usedNonces.has(message.proof.nonce)) return "Proof already used";
+    usedNonces.set(message.proof.nonce, message.proof.timestamp);
+    return null;
+  };
+
+  const handle = async (socket: WebSocket, message: ClientMessage) => {
+    if (isWrite(message)) {
+      const error = await authorize(message);
+      if (error) return send(socket, { type: "result", requestId: message.requestId, error });
+    }
+
+    switch (message.type) {
+      case "subscribe": {
+        const sockets = subscribers.get(message.eventId) ?? new Set();
+        subscribers.set(message.eventId, sockets.add(socket));
+        return;
+      }
+      case "unsubscribe":
+        subscribers.get(message.eventId)?.delete(socket);
+        return;
+      case "list":
+        return send(socket, { type: "result", requestId: message.requestId, data: store.list(message.eventId) });
+      case "upsert":
+        broadcast(message.participant.event_id, store.upsert(message.participant));
+        return send(socket, { type: "result", requestId: message.requestId });
+      case "update":
+        broadcast(message.eventId, store.updateStatus(message.eventId, message.walletAddress, message.status));
+        return send(socket, { type: "result", requestId: message.requestId });
+      case "heartbeat":
+        broadcast(message.eventId, store.heartbeat(message.eventId, message.walletAddress));
+        return send(socket, { type: "result", requestId: message.requestId });
+      case "remove":
+        broadcast(message.eventId, store.remove(message.eventId, message.walletAddress));
+        return send(socket, { type: "result", requestId: message.requestId });
+    }
+  };
+
+  const sweep = setInterval(() => {
+    for (const change of store.expire()) broadcast(change.participant.event_id!, change);
+  }, PRESENCE_HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(sweep));
+
+  wss.on("connection", socket => {
+    socket.on("message", data => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      handle(socket, message).catch(error => console.error("Presence message failed:", error));
+    });
+
+    socket.on("close", () => {
+      for (const sockets of subscribers.values()) sockets.delete(socket);
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,91 @@
+import { isExpired } from "../../nextjs/services/presence/expiry";
+import type { GrabbingParticipant, PresenceChange } from "../../nextjs/services/presence/types";
+
+/**
+ * In-memory participant lists, one per event, keyed by wallet address.
+ * Mirrors the Supabase table: (event_id, wallet_address) is unique, upserts overwrite
+ * and every write stamps last_seen with the store's clock.
+ */
+export class PresenceStore {
+  private events = new Map<string, Map<string, GrabbingParticipant>>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  list(eventId: string): GrabbingParticipant[] {
+    const now = this.now();
+    return [...(this.events.get(eventId)?.values() ?? [])]
+      .filter(participant => participant.status === "grabbing" && !isExpired(participant, now))
+      .sort((a, b) => b.started_at.localeCompare(a.started_at));
+  }
+
+  upsert(participant: GrabbingParticipant): PresenceChange {
+    const participants = this.events.get(participant.event_id) ?? new Map();
+    this.events.set(participant.event_id, participants);
+
+    const existing = participants.get(participant.wallet_address);
+    const record = {
+      ...participant,
+      id: `${participant.event_id}:${participant.wallet_address}`,
+      last_seen: this.lastSeen(),
+    };
+    participants.set(participant.wallet_address, record);
+    return { type: existing ? "update" : "insert", participant: record };
+  }
+
+  /**
+   * @returns The change, or null when the participant is not in the list
+   */
+  updateStatus(eventId: string, walletAddress: string, status: GrabbingParticipant["status"]): PresenceChange | null {
+    const existing = this.events.get(eventId)?.get(walletAddress);
+    if (!existing) return null;
+
+    const record = { ...existing, status, last_seen: this.lastSeen() };
+    this.events.get(eventId)!.set(walletAddress, record);
+    return { type: "update", participant: record };
+  }
+
+  /**
+   * @returns The change, or null when the participant is not in the list
+   */
+  heartbeat(eventId: string, walletAddress: string): PresenceChange | null {
+    const existing = this.events.get(eventId)?.get(walletAddress);
+    if (!existing) return null;
+
+    const record = { ...existing, last_seen: this.lastSeen() };
+    this.events.get(eventId)!.set(walletAddress, record);
+    return { type: "update", participant: record };
+  }
+
+  /**
+   * @returns The change, or null when the participant is not in the list
+   */
+  remove(eventId: string, walletAddress: string): PresenceChange | null {
+    const existing = this.events.get(eventId)?.get(walletAddress);
+    if (!existing) return null;
+
+    this.events.get(eventId)!.delete(walletAddress);
+    return { type: "delete", participant: existing };
+  }
+
+  /**
+   * Deletes every record that missed its heartbeats, like the expiry job of the Supabase table
+   * @returns One delete per expired record
+   */
+  expire(): PresenceChange[] {
+    const now = this.now();
+    const changes: PresenceChange[] = [];
+    for (const [eventId, participants] of this.events) {
+      for (const [walletAddress, participant] of participants) {
+        if (!isExpired(participant, now)) continue;
+        participants.delete(walletAddress);
+        changes.push({ type: "delete", participant });
+      }
+      if (participants.size === 0) this.events.delete(eventId);
+    }
+    return changes;
+  }
+
+  private lastSeen() {
+    return new Date(this.now()).toISOString();
+  }
+}
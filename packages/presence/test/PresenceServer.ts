@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  PRESENCE_PROOF_TTL_SECONDS,
+  PresenceProof,
+  buildPresenceMessage,
+  createUnsignedPresenceProof,
+} from "../../nextjs/services/presence/auth";
+import { GrabbingParticipant, PresenceTransport } from "../../nextjs/services/presence/types";
+import { createWebSocketTransport } from "../../nextjs/services/presence/websocketTransport";
+import { createPresenceServer } from "../src/server";
+
+const alice = privateKeyToAccount(generatePrivateKey());
+const mallory = privateKeyToAccount(generatePrivateKey());
+
+const sign = async (
+  signer: typeof alice,
+  overrides: Partial<Omit<PresenceProof, "signature">> = {},
+): Promise<PresenceProof> => {
+  const unsigned = { ...createUnsignedPresenceProof("1", signer.address), ...overrides };
+  return { ...unsigned, signature: await signer.signMessage({ message: buildPresenceMessage(unsigned) }) };
+};
+
+const participant = (signer: typeof alice, eventId = "1"): GrabbingParticipant => ({
+  event_id: eventId,
+  wallet_address: signer.address.toLowerCase(),
+  started_at: "2026-01-01T00:00:01Z",
+  status: "grabbing",
+});
+
+// Message the promise rejects with; fails the test when it resolves
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => expect.fail("Expected the write to be rejected"),
+    (error: Error) => error.message,
+  );
+
+const listen = async (server: http.Server, port = 0) => {
+  await new Promise<void>(resolve => server.listen(port, resolve));
+  return (server.address() as AddressInfo).port;
+};
+
+describe("Presence server", function () {
+  let server: http.Server;
+  let wss: WebSocketServer;
+  let transport: PresenceTransport;
+
+  beforeEach(async () => {
+    server = http.createServer();
+    wss = createPresenceServer({ server });
+    const port = await listen(server);
+    transport = createWebSocketTransport(`ws://localhost:${port}`, WebSocket as unknown as typeof globalThis.WebSocket);
+  });
+
+  afterEach(async () => {
+    wss.clients.forEach(client => client.terminate());
+    await new Promise(resolve => wss.close(resolve));
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should reject writes signed by another wallet", async () => {
+    const forged = await sign(mallory, { address: alice.address });
+
+    expect(await rejection(transport.upsert(participant(alice), forged))).to.equal("Invalid signature");
+    expect(await transport.list("1")).to.have.length(0);
+  });
+
+  it("should reject writes without a proof", async () => {
+    const missing = undefined as unknown as PresenceProof;
+
+    expect(await rejection(transport.upsert(participant(alice), missing))).to.equal("Missing presence proof");
+    expect(await transport.list("1")).to.have.length(0);
+  });
+
+  it("should reject a valid proof for another wallet or event", async () => {
+    const proof = await sign(mallory);
+    await transport.upsert(participant(mallory), proof);
+    await transport.upsert(participant(alice), await sign(alice));
+
+    expect(await rejection(transport.upsert(participant(alice), proof))).to.equal("Proof does not match the record");
+    expect(await rejection(transport.upsert(participant(mallory, "2"), proof))).to.equal(
+      "Proof does not match the record",
+    );
+    for (const write of [
+      () => transport.updateStatus("1", alice.address.toLowerCase(), "failed", proof),
+      () => transport.heartbeat("1", alice.address.toLowerCase(), proof),
+      () => transport.remove("1", alice.address.toLowerCase(), proof),
+    ]) {
+      expect(await rejection(write())).to.equal("Proof does not match the record");
+    }
+
+    const list = await transport.list("1");
+    expect(list.map(p => p.wallet_address)).to.have.members([
+      alice.address.toLowerCase(),
+      mallory.address.toLowerCase(),
+    ]);
+  });
+
+  it("should reject expired proofs and replayed starts", async () => {
+    const stale = await sign(alice, { timestamp: Math.floor(Date.now() / 1000) - PRESENCE_PROOF_TTL_SECONDS - 1 });
+    expect(await rejection(transport.upsert(participant(alice), stale))).to.equal("Proof expired");
+
+    const proof = await sign(alice);
+    await transport.upsert(participant(alice), proof);
+    expect(await rejection(transport.upsert(participant(alice), proof))).to.equal("Proof already used");
+
+    // The proof still covers the rest of its grab
+    await transport.heartbeat("1", alice.address.toLowerCase(), proof);
+    await transport.updateStatus("1", alice.address.toLowerCase(), "success", proof);
+    expect(await transport.list("1")).to.have.length(0);
+  });
+
+  it("should reconnect after the server was unreachable", async () => {
+    const port = (server.address() as AddressInfo).port;
+    wss.clients.forEach(client => client.terminate());
+    await new Promise(resolve => wss.close(resolve));
+    await new Promise(resolve => server.close(resolve));
+
+    const offline = createWebSocketTransport(
+      `ws://localhost:${port}`,
+      WebSocket as unknown as typeof globalThis.WebSocket,
+    );
+    expect(await rejection(offline.list("1"))).to.include("unreachable");
+
+    server = http.createServer();
+    wss = createPresenceServer({ server });
+    await listen(server, port);
+    expect(await offline.list("1")).to.deep.equal([]);
+  });
+
+  it("should dial again after the WebSocket constructor threw", async () => {
+    const port = (server.address() as AddressInfo).port;
+    let dials = 0;
+    // Like a missing global WebSocket on the first call
+    const FlakyWebSocket = function (url: string) {
+      if (dials++ === 0) throw new TypeError("WebSocket is not a constructor");
+      return new WebSocket(url);
+    } as unknown as typeof globalThis.WebSocket;
+    const flaky = createWebSocketTransport(`ws://localhost:${port}`, FlakyWebSocket);
+
+    expect(await rejection(flaky.list("1"))).to.equal("WebSocket is not a constructor");
+    expect(await flaky.list("1")).to.deep.equal([]);
+    expect(dials).to.equal(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { PRESENCE_EXPIRY_MS } from "../../nextjs/services/presence/expiry";
+import { GrabbingParticipant } from "../../nextjs/services/presence/types";
+import { PresenceStore } from "../src/store";
+
+const participant = (wallet: string, eventId = "1"): GrabbingParticipant => ({
+  event_id: eventId,
+  wallet_address: wallet,
+  started_at: "2026-01-01T00:00:00Z",
+  status: "grabbing",
+});
+
+describe("PresenceStore", function () {
+  let now: number;
+  let store: PresenceStore;
+
+  beforeEach(() => {
+    now = Date.parse("2026-01-01T00:00:00Z");
+    store = new PresenceStore(() => now);
+  });
+
+  it("should hide participants that stopped sending heartbeats", () => {
+    store.upsert(participant("0xa"));
+    store.upsert(participant("0xb"));
+
+    now += PRESENCE_EXPIRY_MS / 2;
+    store.heartbeat("1", "0xa");
+    now += PRESENCE_EXPIRY_MS / 2 + 1;
+
+    expect(store.list("1").map(p => p.wallet_address)).to.deep.equal(["0xa"]);
+  });
+
+  it("should delete expired records of every event on expire", () => {
+    store.upsert(participant("0xa"));
+    store.upsert(participant("0xb", "2"));
+    store.updateStatus("2", "0xb", "success");
+    now += PRESENCE_EXPIRY_MS / 2;
+    store.upsert(participant("0xc"));
+    now += PRESENCE_EXPIRY_MS / 2 + 1;
+
+    const changes = store.expire();
+    expect(changes.map(change => change.type)).to.deep.equal(["delete", "delete"]);
+    expect(changes.map(change => change.participant.wallet_address)).to.deep.equal(["0xa", "0xb"]);
+    expect(store.expire()).to.have.length(0);
+    expect(store.heartbeat("1", "0xa")).to.equal(null);
+    expect(store.list("1").map(p => p.wallet_address)).to.deep.equal(["0xc"]);
+  });
+});
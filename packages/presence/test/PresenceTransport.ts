@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { WebSocket } from "ws";
+import { PresenceProof, buildPresenceMessage, createUnsignedPresenceProof } from "../../nextjs/services/presence/auth";
+import { createSupabaseTransport } from "../../nextjs/services/presence/supabaseTransport";
+import { GrabbingParticipant, PresenceChange, PresenceTransport } from "../../nextjs/services/presence/types";
+import { createWebSocketTransport } from "../../nextjs/services/presence/websocketTransport";
+import { createPresenceServer } from "../src/server";
+import { createFakeSupabase } from "./fakeSupabase";
+
+type TransportFixture = { transport: PresenceTransport; teardown: () => Promise<void> };
+type Signer = ReturnType<typeof privateKeyToAccount>;
+
+const alice = privateKeyToAccount(generatePrivateKey());
+const bob = privateKeyToAccount(generatePrivateKey());
+const carol = privateKeyToAccount(generatePrivateKey());
+const wallet = (signer: Signer) => signer.address.toLowerCase();
+
+const sign = async (signer: Signer, eventId = "1"): Promise<PresenceProof> => {
+  const unsigned = createUnsignedPresenceProof(eventId, signer.address);
+  return { ...unsigned, signature: await signer.signMessage({ message: buildPresenceMessage(unsigned) }) };
+};
+
+const participant = (signer: Signer, startedAt: string, eventId = "1"): GrabbingParticipant => ({
+  event_id: eventId,
+  wallet_address: wallet(signer),
+  started_at: startedAt,
+  status: "grabbing",
+});
+
+// Upserts a grab of `signer` and returns the proof covering its later writes
+const start = async (transport: PresenceTransport, signer: Signer, startedAt: string, eventId = "1") => {
+  const proof = await sign(signer, eventId);
+  await transport.upsert(participant(signer, startedAt, eventId), proof);
+  return proof;
+};
+
+// Resolves with the next `count` changes delivered to a subscriber of `eventId`
+const nextChanges = (transport: PresenceTransport, eventId: string, count: number) => {
+  const changes: PresenceChange[] = [];
+  let unsubscribe = () => {};
+  const received = new Promise<PresenceChange[]>(resolve => {
+    unsubscribe = transport.subscribe(eventId, change => {
+      changes.push(change);
+      if (changes.length === count) resolve(changes);
+    });
+  });
+  return { received, changes, unsubscribe: () => unsubscribe() };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+/**
+ * Behaviour every presence transport must share, so useGrabbingSync works the same on each
+ */
+function describeTransport(name: string, setup: () => Promise<TransportFixture>) {
+  describe(name, function () {
+    let fixture: TransportFixture;
+    let transport: PresenceTransport;
+
+    beforeEach(async () => {
+      fixture = await setup();
+      transport = fixture.transport;
+    });
+
+    afterEach(async () => {
+      await fixture.teardown();
+    });
+
+    it("should list grabbing participants newest first", async () => {
+      const proof = await start(transport, alice, "2026-01-01T00:00:01Z");
+      await start(transport, bob, "2026-01-01T00:00:02Z");
+      await start(transport, carol, "2026-01-01T00:00:03Z", "2");
+      await transport.updateStatus("1", wallet(alice), "success", proof);
+
+      const list = await transport.list("1");
+      expect(list.map(p => p.wallet_address)).to.deep.equal([wallet(bob)]);
+    });
+
+    it("should emit an insert for a new participant", async () => {
+      const { received, unsubscribe } = nextChanges(transport, "1", 1);
+      await settle();
+
+      await start(transport, alice, "2026-01-01T00:00:01Z");
+      const [change] = await received;
+      expect(change.type).to.equal("insert");
+      expect(change.participant).to.include({ wallet_address: wallet(alice), status: "grabbing" });
+      expect(change.participant.id).to.be.a("string");
+      unsubscribe();
+    });
+
+    it("should emit updates for status changes and repeated upserts", async () => {
+      const proof = await start(transport, alice, "2026-01-01T00:00:01Z");
+      const { received, unsubscribe } = nextChanges(transport, "1", 2);
+      await settle();
+
+      await transport.updateStatus("1", wallet(alice), "failed", proof);
+      await start(transport, alice, "2026-01-01T00:00:05Z");
+      const [finished, restarted] = await received;
+      expect(finished.type).to.equal("update");
+      expect(finished.participant).to.include({ wallet_address: wallet(alice), status: "failed" });
+      expect(restarted.type).to.equal("update");
+      expect(restarted.participant).to.include({ status: "grabbing", started_at: "2026-01-01T00:00:05Z" });
+      expect(await transport.list("1")).to.have.length(1);
+      unsubscribe();
+    });
+
+    it("should emit a delete carrying the record id", async () => {
+      const proof = await start(transport, alice, "2026-01-01T00:00:01Z");
+      const [inserted] = await transport.list("1");
+      const { received, unsubscribe } = nextChanges(transport, "1", 1);
+      await settle();
+
+      await transport.remove("1", wallet(alice), proof);
+      const [change] = await received;
+      expect(change.type).to.equal("delete");
+      expect(change.participant.id).to.equal(inserted.id);
+      expect(await transport.list("1")).to.have.length(0);
+      unsubscribe();
+    });
+
+    it("should refresh last_seen on heartbeat", async () => {
+      const proof = await start(transport, alice, "2026-01-01T00:00:01Z");
+      const [before] = await transport.list("1");
+      expect(before.last_seen).to.be.a("string");
+      const { received, unsubscribe } = nextChanges(transport, "1", 1);
+      await settle();
+
+      await transport.heartbeat("1", wallet(alice), proof);
+      await transport.heartbeat("1", wallet(bob), await sign(bob));
+      const [change] = await received;
+      expect(change.type).to.equal("update");
+      expect(change.participant).to.include({ wallet_address: wallet(alice), status: "grabbing" });
+      expect(Date.parse(change.participant.last_seen!)).to.be.at.least(Date.parse(before.last_seen!));
+      expect(await transport.list("1")).to.have.length(1);
+      unsubscribe();
+    });
+
+    it("should only deliver changes of the subscribed event", async () => {
+      const { changes, unsubscribe } = nextChanges(transport, "1", 1);
+      await settle();
+
+      await start(transport, alice, "2026-01-01T00:00:01Z", "2");
+      await settle();
+      expect(changes).to.have.length(0);
+      unsubscribe();
+    });
+
+    it("should stop delivering after unsubscribing", async () => {
+      const { changes, unsubscribe } = nextChanges(transport, "1", 1);
+      await settle();
+      unsubscribe();
+      await settle();
+
+      await start(transport, alice, "2026-01-01T00:00:01Z");
+      await settle();
+      expect(changes).to.have.length(0);
+    });
+  });
+}
+
+describe("PresenceTransport", function () {
+  describeTransport("supabase", async () => ({
+    transport: createSupabaseTransport(createFakeSupabase(), "grabbing_participants"),
+    teardown: async () => {},
+  }));
+
+  describeTransport("websocket", async () => {
+    const server = http.createServer();
+    const wss = createPresenceServer({ server });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+      transport: createWebSocketTransport(
+        `ws://localhost:${port}`,
+        WebSocket as unknown as typeof globalThis.WebSocket,
+      ),
+      teardown: async () => {
+        wss.clients.forEach(client => client.terminate());
+        await new Promise(resolve => wss.close(resolve));
+        await new Promise(resolve => server.close(resolve));
+      },
+    };
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+  PRESENCE_PROOF_TTL_SECONDS,
+  PresenceProof,
+  buildPresenceMessage,
+  createUnsignedPresenceProof,
+} from "../../nextjs/services/presence/auth";
+import { createSupabaseTransport } from "../../nextjs/services/presence/supabaseTransport";
+import { PresenceTransport } from "../../nextjs/services/presence/types";
+import { createPresenceWriteHandler } from "../../nextjs/services/presence/writeHandler";
+import { createFakeSupabase } from "./fakeSupabase";
+
+const alice = privateKeyToAccount(generatePrivateKey());
+const mallory = privateKeyToAccount(generatePrivateKey());
+
+const sign = async (
+  signer: typeof alice,
+  overrides: Partial<Omit<PresenceProof, "signature">> = {},
+): Promise<PresenceProof> => {
+  const unsigned = { ...createUnsignedPresenceProof("1", signer.address), ...overrides };
+  return { ...unsigned, signature: await signer.signMessage({ message: buildPresenceMessage(unsigned) }) };
+};
+
+const post = (body: unknown) =>
+  new Request("http://localhost/api/presence", { method: "POST", body: JSON.stringify(body) });
+
+describe("Presence write handler", function () {
+  let transport: PresenceTransport;
+  let handle: (request: Request) => Promise<Response>;
+  let now: number;
+
+  beforeEach(() => {
+    transport = createSupabaseTransport(createFakeSupabase(), "grabbing_participants");
+    now = Math.floor(Date.now() / 1000);
+    handle = createPresenceWriteHandler(transport, () => now);
+  });
+
+  it("should write the signing wallet on start", async () => {
+    const response = await handle(post({ action: "start", proof: await sign(alice) }));
+
+    expect(response.status).to.equal(200);
+    const [participant] = await transport.list("1");
+    expect(participant).to.include({ wallet_address: alice.address.toLowerCase(), status: "grabbing" });
+  });
+
+  it("should reject a proof signed by another wallet", async () => {
+    const forged = await sign(mallory, { address: alice.address });
+    const response = await handle(post({ action: "start", proof: forged }));
+
+    expect(response.status).to.equal(401);
+    expect((await response.json()).error).to.equal("Invalid signature");
+    expect(await transport.list("1")).to.have.length(0);
+  });
+
+  it("should reject a proof signed for another event", async () => {
+    const proof = await sign(alice, { eventId: "2" });
+    const response = await handle(post({ action: "start", proof: { ...proof, eventId: "1" } }));
+
+    expect(response.status).to.equal(401);
+  });
+
+  it("should reject expired proofs and replayed starts", async () => {
+    const stale = await sign(alice, { timestamp: now - PRESENCE_PROOF_TTL_SECONDS - 1 });
+    expect((await handle(post({ action: "start", proof: stale }))).status).to.equal(401);
+
+    const proof = await sign(alice);
+    expect((await handle(post({ action: "start", proof }))).status).to.equal(200);
+    expect((await handle(post({ action: "start", proof }))).status).to.equal(409);
+  });
+
+  it("should accept heartbeats and the final status only for the started grab", async () => {
+    const proof = await sign(alice);
+    const other = await sign(alice);
+    await handle(post({ action: "start", proof }));
+
+    expect((await handle(post({ action: "heartbeat", proof: other }))).status).to.equal(409);
+    expect((await handle(post({ action: "heartbeat", proof }))).status).to.equal(200);
+    expect((await handle(post({ action: "end", status: "success", proof }))).status).to.equal(200);
+    expect(await transport.list("1")).to.have.length(0);
+
+    // The grab is over, its proof cannot revive it
+    expect((await handle(post({ action: "heartbeat", proof }))).status).to.equal(409);
+  });
+
+  it("should reject malformed requests", async () => {
+    const proof = await sign(alice);
+    expect((await handle(post({ action: "upsert", proof }))).status).to.equal(400);
+    expect((await handle(post({ action: "end", status: "grabbing", proof }))).status).to.equal(400);
+    expect((await handle(post({ action: "start", proof: { ...proof, address: "alice" } }))).status).to.equal(400);
+    expect((await handle(new Request("http://localhost/api/presence", { method: "POST", body: "{" }))).status).to.equal(
+      400,
+    );
+  });
+});
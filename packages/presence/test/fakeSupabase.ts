@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Row = Record<string, string>;
+type Payload = { eventType: "INSERT" | "UPDATE" | "DELETE"; new: Row; old: Partial<Row> };
+type Channel = { filter: { table: string; filter: string }; callback: (payload: Payload) => void };
+
+/**
+ * In-memory stand-in for the parts of supabase-js the presence transport uses: one table,
+ * eq/gt filters, ordering, and postgres_changes delivered like Supabase Realtime does
+ * (deletes only carry the primary key unless the table has REPLICA IDENTITY FULL).
+ * Writes stamp last_seen like the trigger in grabbing_participants.sql.
+ */
+export function createFakeSupabase(): SupabaseClient {
+  const tables = new Map<string, Row[]>();
+  const channels = new Set<Channel>();
+  let nextId = 1;
+
+  const rowsOf = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  const touch = (row: Row) => Object.assign(row, { last_seen: new Date().toISOString() });
+
+  const emit = (table: string, payload: Payload) => {
+    const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+    for (const channel of channels) {
+      const [column, value] = channel.filter.filter.replace("=eq.", "=").split("=");
+      // Filters on deletes are not applied by Supabase without REPLICA IDENTITY FULL either
+      if (channel.filter.table !== table) continue;
+      if (payload.eventType !== "DELETE" && row[column] !== value) continue;
+      channel.callback(payload);
+    }
+  };
+
+  const query = (table: string, action: "select" | "update" | "delete", patch?: Row) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let order: { column: string; ascending: boolean } | undefined;
+
+    const run = () => {
+      const rows = rowsOf(table);
+      const matches = rows.filter(row => filters.every(filter => filter(row)));
+      if (action === "select") {
+        const data = [...matches];
+        if (order) {
+          const { column, ascending } = order;
+          data.sort((a, b) => (ascending ? 1 : -1) * a[column].localeCompare(b[column]));
+        }
+        return { data, error: null };
+      }
+      for (const row of matches) {
+        if (action === "update") {
+          touch(Object.assign(row, patch));
+          emit(table, { eventType: "UPDATE", new: { ...row }, old: { id: row.id } });
+        } else {
+          rows.splice(rows.indexOf(row), 1);
+          emit(table, { eventType: "DELETE", new: {}, old: { id: row.id } });
+        }
+      }
+      return { data: null, error: null };
+    };
+
+    const builder = {
+      eq(column: string, value: string) {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      gt(column: string, value: string) {
+        filters.push(row => row[column] > value);
+        return builder;
+      },
+      order(column: string, options: { ascending: boolean }) {
+        order = { column, ascending: options.ascending };
+        return builder;
+      },
+      then<T>(resolve: (result: ReturnType<typeof run>) => T) {
+        return Promise.resolve(run()).then(resolve);
+      },
+    };
+    return builder;
+  };
+
+  const client = {
+    from(table: string) {
+      return {
+        select: () => query(table, "select"),
+        update: (patch: Row) => query(table, "update", patch),
+        delete: () => query(table, "delete"),
+        async upsert(row: Row, { onConflict }: { onConflict: string }) {
+          const keys = onConflict.split(",");
+          const rows = rowsOf(table);
+          const existing = rows.find(candidate => keys.every(key => candidate[key] === row[key]));
+          if (existing) {
+            touch(Object.assign(existing, row));
+            emit(table, { eventType: "UPDATE", new: { ...existing }, old: { id: existing.id } });
+          } else {
+            const inserted = touch({ ...row, id: String(nextId++) });
+            rows.push(inserted);
+            emit(table, { eventType: "INSERT", new: { ...inserted }, old: {} });
+          }
+          return { error: null };
+        },
+      };
+    },
+    channel() {
+      const channel = {} as Channel & { on: unknown; subscribe: unknown };
+      channel.on = (_type: string, filter: Channel["filter"], callback: Channel["callback"]) => {
+        channel.filter = filter;
+        channel.callback = callback;
+        return channel;
+      };
+      channel.subscribe = () => {
+        channels.add(channel);
+        return channel;
+      };
+      return channel;
+    },
+    removeChannel(channel: Channel) {
+      channels.delete(channel);
+      return Promise.resolve("ok");
+    },
+  };
+
+  return client as unknown as SupabaseClient;
+}